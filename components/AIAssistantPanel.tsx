@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNotebook, EnhancedCell } from './Notebook';
+import { ChatMessages, CodeBlockAction } from './ChatMessages';
+import { resolveAIProvider } from '../services/ai/aiManager';
+import { ChatMessage, isAbortError } from '../services/ai/provider';
+import { buildNotebookContext, codeBlockToCell, systemMessage } from '../services/ai/notebookContext';
+
+const STREAM_FLUSH_MS = 50;
+
+// Side panel conversation about the whole notebook. Unlike an AI chat cell its history lives only
+// for the session; code blocks in replies can be inserted as cells or replace the active cell.
+export const AIAssistantPanel: React.FC = () => {
+    const { aiAssistantOpen, setAiAssistantOpen, cells, activeCellId, selectedCellIds, notebookMetadata, addCell, updateCell, addNotification } = useNotebook();
+    const aiKernels = notebookMetadata.kernels.filter(k => k.language === 'ai');
+    const [kernelId, setKernelId] = useState(() => aiKernels[0]?.id || '');
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [input, setInput] = useState('');
+    const [includeContext, setIncludeContext] = useState(true);
+    const [streaming, setStreaming] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+    }, [messages]);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    if (!aiAssistantOpen) return null;
+
+    const activeCell = cells.find(c => c.id === activeCellId);
+    const activeIndex = activeCell ? cells.indexOf(activeCell) : -1;
+
+    const send = async () => {
+        const prompt = input.trim();
+        if (!prompt || streaming) return;
+        const { provider, fallback } = resolveAIProvider(aiKernels.find(k => k.id === kernelId));
+        if (fallback) addNotification({ type: 'info', message: 'No OpenAI API key set; answering with the offline echo provider' });
+        const context = includeContext
+            ? buildNotebookContext(cells, { cellIds: selectedCellIds.length > 0 ? selectedCellIds : activeCellId ? [activeCellId] : [] })
+            : undefined;
+        const history = [...messages, { role: 'user', content: prompt, timestamp: new Date().toISOString() } as ChatMessage];
+        setMessages([...history, { role: 'assistant', content: '' }]);
+        setInput('');
+        setStreaming(true);
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        let reply = '';
+        let lastFlush = 0;
+        const flush = () => setMessages([...history, { role: 'assistant', content: reply, timestamp: new Date().toISOString() }]);
+        try {
+            await provider.complete({ messages: [systemMessage(context), ...history.map(({ role, content }) => ({ role, content }))] }, token => {
+                reply += token;
+                if (Date.now() - lastFlush > STREAM_FLUSH_MS) {
+                    lastFlush = Date.now();
+                    flush();
+                }
+            }, controller.signal);
+            flush();
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                reply += reply ? '\n\n*(stopped)*' : '*(stopped)*';
+                flush();
+            } else {
+                setMessages(history.slice(0, -1));
+                setInput(prompt);
+                addNotification({ type: 'error', message: `AI request failed: ${e?.message || e}` });
+            }
+        } finally {
+            controllerRef.current = null;
+            setStreaming(false);
+        }
+    };
+
+    const actions: CodeBlockAction[] = [
+        {
+            label: activeCell ? 'Insert below' : 'Insert',
+            title: activeCell ? 'Insert as a new cell below the active cell' : 'Insert as a new cell at the end',
+            run: block => {
+                const { type, content } = codeBlockToCell(block);
+                addCell(type, content, activeIndex >= 0 ? activeIndex + 1 : undefined);
+            },
+        },
+        ...(activeCell ? [{
+            label: 'Replace active',
+            title: 'Replace the active cell with this block (undoable)',
+            run: block => {
+                const { type, content } = codeBlockToCell(block);
+                const updates: Partial<EnhancedCell> = type === activeCell.type ? { content } : { type, content, outputs: [], status: 'idle' };
+                updateCell(activeCell.id, updates, true);
+            },
+        } as CodeBlockAction] : []),
+    ];
+
+    return (
+        <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col shadow-xl z-20 absolute right-0 top-12 bottom-8 md:relative md:top-0 md:bottom-0">
+            <div className="p-3 bg-purple-900/20 border-b border-gray-700 font-bold text-purple-300 flex items-center gap-2">
+                AI Assistant
+                <select value={kernelId} onChange={e => setKernelId(e.target.value)} className="ml-auto bg-gray-900 text-xs font-normal text-gray-300 rounded px-1 py-0.5 outline-none" title="Model provider">
+                    {aiKernels.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+                </select>
+                <button onClick={() => setMessages([])} disabled={streaming || messages.length === 0} className="text-xs font-normal text-gray-400 hover:text-white disabled:opacity-40" title="Clear conversation">Clear</button>
+                <button onClick={() => setAiAssistantOpen(false)} className="text-gray-400 hover:text-white" title="Close">✕</button>
+            </div>
+            <div ref={scrollRef} className="flex-grow overflow-y-auto p-3 flex flex-col gap-2">
+                {messages.length === 0 ? (
+                    <div className="flex-grow text-gray-400 text-sm flex items-center justify-center italic text-center">
+                        AI Assistant is ready to help you code, analyze, and visualize.
+                    </div>
+                ) : (
+                    <ChatMessages messages={messages} streaming={streaming} actions={actions} />
+                )}
+            </div>
+            <div className="p-3 border-t border-gray-700 space-y-2">
+                <label className="flex items-center gap-1 text-xs text-gray-400" title="Send the selected (or active) cell, errors and table schemas with each question">
+                    <input type="checkbox" checked={includeContext} onChange={e => setIncludeContext(e.target.checked)} /> Include notebook context
+                    {includeContext && <span className="text-gray-500">({selectedCellIds.length > 0 ? `${selectedCellIds.length} selected` : activeCell ? 'active cell' : 'no cell'})</span>}
+                </label>
+                <div className="flex gap-2">
+                    <textarea
+                        className="flex-grow bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-purple-500 outline-none resize-none"
+                        placeholder="Ask anything..."
+                        rows={2}
+                        value={input}
+                        onChange={e => setInput(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                send();
+                            }
+                        }}
+                    />
+                    {streaming ? (
+                        <button onClick={() => controllerRef.current?.abort()} className="bg-red-700 hover:bg-red-600 text-white rounded px-3 text-sm">Stop</button>
+                    ) : (
+                        <button onClick={send} disabled={!input.trim()} className="bg-purple-700 hover:bg-purple-600 text-white rounded px-3 text-sm disabled:opacity-50">Send</button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
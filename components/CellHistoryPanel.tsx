@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { useNotebook } from './Notebook';
+import { diffLines, versionText } from '../services/cellVersions';
+
+export const CellHistoryPanel: React.FC<{ cellId: string }> = ({ cellId }) => {
+    const { cells, openCellHistory, commitCellVersion, restoreCellVersion, canEditCell } = useNotebook();
+    const cell = cells.find(c => c.id === cellId);
+    const versions = cell?.versions || [];
+    // Indexes into `versions`; -1 stands for the cell's current, uncommitted state.
+    const [baseIndex, setBaseIndex] = useState(Math.max(0, versions.length - 2));
+    const [compareIndex, setCompareIndex] = useState(-1);
+    const [message, setMessage] = useState('');
+
+    const contentAt = (index: number) => index === -1 ? cell?.content : versions[index]?.content;
+    const baseText = versionText(contentAt(baseIndex));
+    const compareText = versionText(contentAt(compareIndex));
+    const diff = useMemo(() => diffLines(baseText, compareText), [baseText, compareText]);
+
+    if (!cell) return null;
+
+    const close = () => openCellHistory(null);
+    const editable = canEditCell(cell);
+
+    const commit = () => {
+        commitCellVersion(cellId, message.trim() || undefined);
+        setMessage('');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={close}>
+            <div className="w-full max-w-5xl h-[80vh] bg-gray-800 rounded-lg shadow-2xl border border-gray-700 flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-3 border-b border-gray-700">
+                    <h2 className="font-bold">🕘 Cell Version History <span className="text-xs text-gray-500 font-normal ml-2">{versions.length} versions</span></h2>
+                    <button onClick={close} className="text-gray-400 hover:text-white px-2">✕</button>
+                </div>
+                <div className="flex flex-grow min-h-0">
+                    <div className="w-72 border-r border-gray-700 flex flex-col">
+                        {editable && (
+                            <div className="p-2 border-b border-gray-700 space-y-2">
+                                <input
+                                    value={message}
+                                    onChange={e => setMessage(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+                                    placeholder="Describe this version..."
+                                    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm outline-none focus:border-blue-500"
+                                />
+                                <button onClick={commit} className="w-full bg-blue-600 hover:bg-blue-700 rounded py-1 text-sm">Commit current state</button>
+                            </div>
+                        )}
+                        <div className="flex-grow overflow-y-auto text-sm">
+                            <div className="px-3 py-1 text-xs text-gray-500 uppercase">Compare: base / target</div>
+                            {[-1, ...versions.map((_, i) => versions.length - 1 - i)].map(index => {
+                                const version = index === -1 ? null : versions[index];
+                                return (
+                                    <div key={index} className={`px-3 py-2 border-b border-gray-700/50 ${index === compareIndex ? 'bg-blue-900/30' : ''}`}>
+                                        <div className="flex items-center gap-2">
+                                            <input type="radio" title="Base version" checked={baseIndex === index} onChange={() => setBaseIndex(index)} />
+                                            <input type="radio" title="Target version" checked={compareIndex === index} onChange={() => setCompareIndex(index)} />
+                                            <span className="text-gray-200 truncate">{version ? new Date(version.timestamp).toLocaleString() : 'Current (working copy)'}</span>
+                                        </div>
+                                        {version && (
+                                            <div className="pl-10 text-xs text-gray-500">
+                                                <div>{version.author}{version.diff && <span className="ml-2"><span className="text-green-500">+{version.diff.added}</span> <span className="text-red-400">-{version.diff.removed}</span></span>}</div>
+                                                {version.message && <div className="text-gray-300 italic truncate" title={version.message}>“{version.message}”</div>}
+                                                {editable && <button onClick={() => restoreCellVersion(cellId, index)} className="text-blue-400 hover:underline mt-1">Restore</button>}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                    <div className="flex-grow overflow-auto font-mono text-xs bg-gray-900">
+                        {diff.map((line, i) => (
+                            <div
+                                key={i}
+                                className={`flex whitespace-pre ${line.type === 'add' ? 'bg-green-900/30 text-green-300' : line.type === 'remove' ? 'bg-red-900/30 text-red-300' : 'text-gray-400'}`}
+                            >
+                                <span className="w-10 text-right pr-2 text-gray-600 select-none">{line.oldLine ?? ''}</span>
+                                <span className="w-10 text-right pr-2 text-gray-600 select-none">{line.newLine ?? ''}</span>
+                                <span className="w-4 select-none">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+                                <span>{line.text}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { useNotebook, ExpandedCellType } from './Notebook';
+import {
+    CHART_TYPES, ChartSpec, ChartType, DataRecord, cellToRecords, columnNames, formatInlineData, inferAxes, isNumericColumn, parseInlineData,
+} from '../services/charts';
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm outline-none focus:border-blue-500';
+
+// Edit-mode form that writes a VisualizationCell's chartSpec.
+export const ChartBuilder: React.FC<{ cellId: string; spec: ChartSpec; rows: DataRecord[]; onChange: (spec: ChartSpec) => void }> = ({ cellId, spec, rows, onChange }) => {
+    const { cells } = useNotebook();
+    const [inlineText, setInlineText] = useState(() => formatInlineData(spec.data || []));
+    const [inlineError, setInlineError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!spec.source) setInlineText(formatInlineData(spec.data || []));
+    }, [spec.source]);
+
+    const sources = cells.filter(c => c.id !== cellId && (c.type === ExpandedCellType.Data || cellToRecords(c)));
+    const columns = columnNames(rows);
+    const numericColumns = columns.filter(c => isNumericColumn(rows, c));
+    const update = (changes: Partial<ChartSpec>) => onChange({ ...spec, ...changes });
+
+    const sourceLabel = (index: number) => {
+        const cell = sources[index];
+        const position = cells.indexOf(cell) + 1;
+        return cell.type === ExpandedCellType.Data ? `Data table (cell ${position})` : `Output of ${cell.type} cell ${position}`;
+    };
+
+    const changeSource = (value: string) => {
+        if (value === 'inline') {
+            update({ source: undefined });
+            return;
+        }
+        const cell = cells.find(c => c.id === value);
+        const sourceRows = cell ? cellToRecords(cell) || [] : [];
+        // Columns from the previous source rarely exist in the new one.
+        update({ source: { cellId: value }, ...inferAxes(sourceRows) });
+    };
+
+    const applyInline = () => {
+        try {
+            const data = parseInlineData(inlineText);
+            const keepAxes = spec.x && columnNames(data).includes(spec.x);
+            update({ data, ...(keepAxes ? {} : inferAxes(data)) });
+            setInlineError(null);
+        } catch (e: any) {
+            setInlineError(e.message);
+        }
+    };
+
+    const toggleY = (column: string) => {
+        const current = spec.y || [];
+        update({ y: current.includes(column) ? current.filter(c => c !== column) : [...current, column] });
+    };
+
+    const singleValue = spec.type === 'pie' || spec.type === 'histogram';
+
+    return (
+        <div className="mt-3 p-3 bg-gray-800 rounded-md border border-gray-700 space-y-3 text-sm" onClick={e => e.stopPropagation()}>
+            <div className="flex flex-wrap gap-3 items-end">
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">Title</span>
+                    <input className={inputClass} value={spec.title || ''} onChange={e => update({ title: e.target.value })} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">Chart type</span>
+                    <select className={inputClass} value={spec.type} onChange={e => update({ type: e.target.value as ChartType })}>
+                        {CHART_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">Data source</span>
+                    <select className={inputClass} value={spec.source?.cellId || 'inline'} onChange={e => changeSource(e.target.value)}>
+                        <option value="inline">Inline data</option>
+                        {sources.map((c, i) => <option key={c.id} value={c.id}>{sourceLabel(i)}</option>)}
+                        {spec.source && !sources.some(c => c.id === spec.source!.cellId) && <option value={spec.source.cellId}>Missing cell</option>}
+                    </select>
+                </label>
+                {spec.type === 'histogram' && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-gray-400">Bins</span>
+                        <input type="number" min={1} max={200} className={`${inputClass} w-20`} value={spec.bins || 10} onChange={e => update({ bins: Math.max(1, Number(e.target.value) || 10) })} />
+                    </label>
+                )}
+                <label className="flex items-center gap-1 text-xs text-gray-400 pb-1.5">
+                    <input type="checkbox" checked={spec.showLegend !== false} onChange={e => update({ showLegend: e.target.checked })} /> Legend
+                </label>
+            </div>
+
+            <div className="flex flex-wrap gap-3 items-start">
+                {spec.type !== 'histogram' && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-gray-400">{spec.type === 'pie' ? 'Labels' : 'X axis'}</span>
+                        <select className={inputClass} value={spec.x || ''} onChange={e => update({ x: e.target.value || undefined })}>
+                            <option value="">(row number)</option>
+                            {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </label>
+                )}
+                <div className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">{singleValue ? 'Value' : 'Y series'}</span>
+                    {singleValue ? (
+                        <select className={inputClass} value={spec.y?.[0] || ''} onChange={e => update({ y: e.target.value ? [e.target.value] : [] })}>
+                            <option value="">(none)</option>
+                            {numericColumns.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    ) : (
+                        <div className="flex flex-wrap gap-2">
+                            {numericColumns.length === 0 && <span className="text-xs text-gray-500 italic">No numeric columns</span>}
+                            {numericColumns.map(c => (
+                                <label key={c} className="flex items-center gap-1 text-xs text-gray-300">
+                                    <input type="checkbox" checked={(spec.y || []).includes(c)} onChange={() => toggleY(c)} /> {c}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                {spec.type !== 'pie' && (
+                    <>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-gray-400">X label</span>
+                            <input className={`${inputClass} w-32`} value={spec.xLabel || ''} onChange={e => update({ xLabel: e.target.value || undefined })} />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-gray-400">Y label</span>
+                            <input className={`${inputClass} w-32`} value={spec.yLabel || ''} onChange={e => update({ yLabel: e.target.value || undefined })} />
+                        </label>
+                    </>
+                )}
+            </div>
+
+            {!spec.source && (
+                <div className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">Inline data (CSV with header row, or a JSON array of objects)</span>
+                    <textarea
+                        className={`${inputClass} font-mono text-xs`}
+                        rows={Math.min(10, Math.max(3, inlineText.split('\n').length))}
+                        value={inlineText}
+                        onChange={e => setInlineText(e.target.value)}
+                        onBlur={applyInline}
+                        spellCheck={false}
+                    />
+                    {inlineError && <span className="text-xs text-red-400">{inlineError}</span>}
+                </div>
+            )}
+        </div>
+    );
+};
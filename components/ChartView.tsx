@@ -0,0 +1,318 @@
+import React, { useId, useMemo, useRef, useState } from 'react';
+import { downloadFile } from './Notebook';
+import {
+    CHART_COLORS, ChartSpec, DataRecord, extent, formatTick, histogram, isNumericColumn, linearScale, niceTicks, toNumber,
+} from '../services/charts';
+import { DraggedImage } from '../services/drawing';
+
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { top: 36, right: 20, bottom: 44, left: 56 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const AXIS_COLOR = '#6b7280';
+const TEXT_COLOR = '#d1d5db';
+
+interface Tooltip { x: number; y: number; text: string }
+
+interface Series { name: string; color: string; points: { x: number; y: number; label: string; row: DataRecord }[] }
+
+// Serializes the rendered chart so it can be saved as a standalone file. With a background the
+// chart stays readable on light pages.
+export const chartSvgMarkup = (svg: SVGSVGElement, background?: string) => {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(WIDTH));
+    clone.setAttribute('height', String(HEIGHT));
+    clone.querySelectorAll('[data-export-ignore]').forEach(node => node.remove());
+    if (background) {
+        const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        rect.setAttribute('width', '100%');
+        rect.setAttribute('height', '100%');
+        rect.setAttribute('fill', background);
+        clone.insertBefore(rect, clone.firstChild);
+    }
+    return new XMLSerializer().serializeToString(clone);
+};
+
+// The chart as an image for dropping onto a Drawing cell.
+export const chartDragImage = (svg: SVGSVGElement): DraggedImage => ({
+    src: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(chartSvgMarkup(svg, '#111827'))}`,
+    width: WIDTH,
+    height: HEIGHT,
+});
+
+export const exportChartSvg = (svg: SVGSVGElement, filename: string) => {
+    downloadFile(`${filename}.svg`, chartSvgMarkup(svg), 'image/svg+xml');
+};
+
+// Rasterizes SVG markup. Images inside it must be data URLs; an SVG drawn as an image loads
+// nothing else.
+export const svgToPng = (markup: string, width: number, height: number, background: string, scale = 2) => new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width * scale;
+        canvas.height = height * scale;
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.scale(scale, scale);
+        ctx.drawImage(image, 0, 0, width, height);
+        URL.revokeObjectURL(url);
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode PNG')), 'image/png');
+    };
+    image.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Could not render image')); };
+    image.src = url;
+});
+
+export const exportChartPng = async (svg: SVGSVGElement, filename: string, scale = 2) => {
+    const blob = await svgToPng(chartSvgMarkup(svg), WIDTH, HEIGHT, '#111827', scale);
+    downloadFile(`${filename}.png`, blob, 'image/png');
+};
+
+const arcPath = (cx: number, cy: number, r: number, start: number, end: number) => {
+    if (end - start >= Math.PI * 2 - 1e-6) {
+        return `M ${cx - r} ${cy} A ${r} ${r} 0 1 1 ${cx + r} ${cy} A ${r} ${r} 0 1 1 ${cx - r} ${cy} Z`;
+    }
+    const x0 = cx + r * Math.sin(start);
+    const y0 = cy - r * Math.cos(start);
+    const x1 = cx + r * Math.sin(end);
+    const y1 = cy - r * Math.cos(end);
+    return `M ${cx} ${cy} L ${x0} ${y0} A ${r} ${r} 0 ${end - start > Math.PI ? 1 : 0} 1 ${x1} ${y1} Z`;
+};
+
+export const ChartView = React.forwardRef<SVGSVGElement, { spec: ChartSpec; rows: DataRecord[] }>(({ spec, rows }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const clipId = `plot-${useId().replace(/:/g, '')}`;
+    const [tooltip, setTooltip] = useState<Tooltip | null>(null);
+    const [hiddenSeries, setHiddenSeries] = useState<string[]>([]);
+    // Zoomed x-range in data units (category index for categorical axes); null shows everything.
+    const [zoom, setZoom] = useState<[number, number] | null>(null);
+    const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+
+    const xKey = spec.x;
+    const yKeys = (spec.y || []).filter(Boolean);
+    const isPie = spec.type === 'pie';
+    const isHistogram = spec.type === 'histogram';
+    const categorical = spec.type === 'bar' || (!!xKey && !isHistogram && !isNumericColumn(rows, xKey));
+
+    const model = useMemo(() => {
+        if (isHistogram) {
+            const column = yKeys[0] || xKey;
+            const values = column ? rows.map(r => toNumber(r[column])).filter((v): v is number => v !== null) : [];
+            const bins = histogram(values, spec.bins || 10);
+            return { categories: [] as string[], series: [{ name: column || 'count', color: CHART_COLORS[0], points: bins.map(b => ({ x: (b.x0 + b.x1) / 2, y: b.count, label: `${formatTick(b.x0)} – ${formatTick(b.x1)}`, row: b as any })) }], bins };
+        }
+        const labelOf = (row: DataRecord, index: number) => xKey ? String(row[xKey] ?? '') : String(index);
+        const categories = categorical ? Array.from(new Set(rows.map(labelOf))) : [];
+        const series: Series[] = yKeys.map((key, i) => ({
+            name: key,
+            color: CHART_COLORS[i % CHART_COLORS.length],
+            points: rows.map((row, index) => {
+                const label = labelOf(row, index);
+                const x = categorical ? categories.indexOf(label) : xKey ? toNumber(row[xKey]) : index;
+                const y = toNumber(row[key]);
+                return x === null || y === null ? null : { x, y, label, row };
+            }).filter((p): p is Series['points'][number] => p !== null),
+        }));
+        return { categories, series, bins: [] };
+    }, [rows, spec.type, spec.bins, xKey, yKeys.join('\u0000'), categorical]);
+
+    if (rows.length === 0) {
+        return <div className="h-64 flex items-center justify-center text-gray-500 text-sm border border-dashed border-gray-600 rounded">No data to plot</div>;
+    }
+    if (!isPie && !isHistogram && yKeys.length === 0) {
+        return <div className="h-64 flex items-center justify-center text-gray-500 text-sm border border-dashed border-gray-600 rounded">Choose at least one Y column</div>;
+    }
+
+    const showTooltip = (e: React.MouseEvent, text: string) => {
+        const box = containerRef.current?.getBoundingClientRect();
+        if (!box) return;
+        setTooltip({ x: e.clientX - box.left + 12, y: e.clientY - box.top + 12, text });
+    };
+    const hideTooltip = () => setTooltip(null);
+
+    const showLegend = spec.showLegend !== false;
+
+    const toggleSeries = (name: string) => setHiddenSeries(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+
+    let body: React.ReactNode;
+    let legend = model.series.map(s => ({ name: s.name, color: s.color }));
+
+    if (isPie) {
+        const valueKey = yKeys[0];
+        const slices = rows.map((row, i) => ({
+            label: xKey ? String(row[xKey] ?? '') : String(i),
+            value: Math.max(0, toNumber(valueKey ? row[valueKey] : null) ?? 0),
+            color: CHART_COLORS[i % CHART_COLORS.length],
+        })).filter(s => !hiddenSeries.includes(s.label));
+        const total = slices.reduce((sum, s) => sum + s.value, 0);
+        const cx = WIDTH / 2 - (showLegend ? 70 : 0);
+        const cy = MARGIN.top + PLOT_HEIGHT / 2;
+        const r = PLOT_HEIGHT / 2;
+        let angle = 0;
+        legend = rows.map((row, i) => ({ name: xKey ? String(row[xKey] ?? '') : String(i), color: CHART_COLORS[i % CHART_COLORS.length] }));
+        body = total <= 0 ? (
+            <text x={cx} y={cy} fill={TEXT_COLOR} textAnchor="middle" fontSize={12}>No positive values</text>
+        ) : slices.map((slice, i) => {
+            const start = angle;
+            angle += (slice.value / total) * Math.PI * 2;
+            return (
+                <path
+                    key={i}
+                    d={arcPath(cx, cy, r, start, angle)}
+                    fill={slice.color}
+                    stroke="#111827"
+                    strokeWidth={1}
+                    onMouseMove={e => showTooltip(e, `${slice.label}: ${slice.value} (${((slice.value / total) * 100).toFixed(1)}%)`)}
+                    onMouseLeave={hideTooltip}
+                />
+            );
+        });
+    } else {
+        const visibleSeries = model.series.filter(s => !hiddenSeries.includes(s.name));
+        const allPoints = visibleSeries.flatMap(s => s.points);
+        let xMin: number, xMax: number;
+        if (isHistogram && model.bins.length > 0) {
+            xMin = model.bins[0].x0;
+            xMax = model.bins[model.bins.length - 1].x1;
+        } else if (categorical) {
+            xMin = -0.5;
+            xMax = Math.max(0, model.categories.length - 1) + 0.5;
+        } else {
+            [xMin, xMax] = allPoints.length > 0 ? extent(allPoints.map(p => p.x)) : [0, 1];
+        }
+        if (zoom) [xMin, xMax] = zoom;
+        const inView = (x: number) => x >= xMin - 1e-9 && x <= xMax + 1e-9;
+        const viewPoints = allPoints.filter(p => inView(p.x));
+        const [lowest, highest] = extent(viewPoints.map(p => p.y));
+        const yMin = Math.min(0, lowest);
+        const yMax = Math.max(yMin + 1e-9, highest);
+        const yTicks = niceTicks(yMin, yMax, 5);
+        const yDomain: [number, number] = [Math.min(yMin, yTicks[0] ?? yMin), Math.max(yMax, yTicks[yTicks.length - 1] ?? yMax)];
+        const sx = linearScale([xMin, xMax], [MARGIN.left, MARGIN.left + PLOT_WIDTH]);
+        const sy = linearScale(yDomain, [MARGIN.top + PLOT_HEIGHT, MARGIN.top]);
+        const invertX = (px: number) => xMin + ((px - MARGIN.left) / PLOT_WIDTH) * (xMax - xMin);
+        const baseline = sy(Math.max(yDomain[0], 0));
+
+        const xTicks = categorical
+            ? model.categories.map((c, i) => ({ value: i, label: c })).filter(t => inView(t.value))
+            : niceTicks(xMin, xMax, 6).map(v => ({ value: v, label: formatTick(v) }));
+        const tickStride = Math.max(1, Math.ceil(xTicks.length / 12));
+
+        const marks: React.ReactNode[] = [];
+        if (isHistogram) {
+            model.bins.filter(b => b.x1 >= xMin && b.x0 <= xMax).forEach((bin, i) => {
+                const x0 = Math.max(sx(bin.x0), MARGIN.left);
+                const x1 = Math.min(sx(bin.x1), MARGIN.left + PLOT_WIDTH);
+                marks.push(
+                    <rect key={`bin-${i}`} x={x0 + 0.5} y={sy(bin.count)} width={Math.max(0, x1 - x0 - 1)} height={Math.max(0, baseline - sy(bin.count))} fill={CHART_COLORS[0]}
+                        onMouseMove={e => showTooltip(e, `${formatTick(bin.x0)} – ${formatTick(bin.x1)}: ${bin.count}`)} onMouseLeave={hideTooltip} />
+                );
+            });
+        } else if (spec.type === 'bar') {
+            const band = PLOT_WIDTH / Math.max(1, xMax - xMin);
+            const barWidth = (band * 0.8) / Math.max(1, visibleSeries.length);
+            visibleSeries.forEach((series, si) => series.points.filter(p => inView(p.x)).forEach((p, i) => {
+                const x = sx(p.x) - band * 0.4 + si * barWidth;
+                const top = Math.min(sy(p.y), baseline);
+                marks.push(
+                    <rect key={`${series.name}-${i}`} x={x} y={top} width={Math.max(1, barWidth - 1)} height={Math.abs(baseline - sy(p.y))} fill={series.color}
+                        onMouseMove={e => showTooltip(e, `${p.label} · ${series.name}: ${p.y}`)} onMouseLeave={hideTooltip} />
+                );
+            }));
+        } else {
+            visibleSeries.forEach(series => {
+                const points = series.points.filter(p => inView(p.x)).sort((a, b) => a.x - b.x);
+                if (points.length === 0) return;
+                const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${sx(p.x)} ${sy(p.y)}`).join(' ');
+                if (spec.type === 'area') {
+                    marks.push(<path key={`${series.name}-area`} d={`${line} L ${sx(points[points.length - 1].x)} ${baseline} L ${sx(points[0].x)} ${baseline} Z`} fill={series.color} fillOpacity={0.25} />);
+                }
+                if (spec.type !== 'scatter') {
+                    marks.push(<path key={`${series.name}-line`} d={line} fill="none" stroke={series.color} strokeWidth={2} />);
+                }
+                points.forEach((p, i) => marks.push(
+                    <circle key={`${series.name}-${i}`} cx={sx(p.x)} cy={sy(p.y)} r={spec.type === 'scatter' ? 4 : 3} fill={series.color} fillOpacity={spec.type === 'scatter' ? 0.8 : 1}
+                        onMouseMove={e => showTooltip(e, `${xKey ? `${xKey}: ${p.label}` : p.label} · ${series.name}: ${p.y}`)} onMouseLeave={hideTooltip} />
+                ));
+            });
+        }
+
+        const toSvgX = (e: React.MouseEvent<SVGRectElement>) => {
+            const box = (e.currentTarget.ownerSVGElement as SVGSVGElement).getBoundingClientRect();
+            return ((e.clientX - box.left) / box.width) * WIDTH;
+        };
+
+        body = (
+            <>
+                {yTicks.map(t => (
+                    <g key={`y-${t}`}>
+                        <line x1={MARGIN.left} x2={MARGIN.left + PLOT_WIDTH} y1={sy(t)} y2={sy(t)} stroke={AXIS_COLOR} strokeOpacity={0.25} />
+                        <text x={MARGIN.left - 6} y={sy(t)} fill={TEXT_COLOR} fontSize={10} textAnchor="end" dominantBaseline="middle">{formatTick(t)}</text>
+                    </g>
+                ))}
+                {xTicks.filter((_, i) => i % tickStride === 0).map(t => (
+                    <g key={`x-${t.value}`}>
+                        <line x1={sx(t.value)} x2={sx(t.value)} y1={MARGIN.top + PLOT_HEIGHT} y2={MARGIN.top + PLOT_HEIGHT + 4} stroke={AXIS_COLOR} />
+                        <text x={sx(t.value)} y={MARGIN.top + PLOT_HEIGHT + 16} fill={TEXT_COLOR} fontSize={10} textAnchor="middle">{t.label.length > 12 ? `${t.label.slice(0, 11)}…` : t.label}</text>
+                    </g>
+                ))}
+                <line x1={MARGIN.left} x2={MARGIN.left + PLOT_WIDTH} y1={baseline} y2={baseline} stroke={AXIS_COLOR} />
+                <line x1={MARGIN.left} x2={MARGIN.left} y1={MARGIN.top} y2={MARGIN.top + PLOT_HEIGHT} stroke={AXIS_COLOR} />
+                {(spec.xLabel || xKey) && <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 8} fill={TEXT_COLOR} fontSize={11} textAnchor="middle">{spec.xLabel || (isHistogram ? yKeys[0] || xKey : xKey)}</text>}
+                {(spec.yLabel || isHistogram) && <text transform={`translate(14 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`} fill={TEXT_COLOR} fontSize={11} textAnchor="middle">{spec.yLabel || 'count'}</text>}
+                <clipPath id={clipId}><rect x={MARGIN.left} y={MARGIN.top - 4} width={PLOT_WIDTH} height={PLOT_HEIGHT + 8} /></clipPath>
+                {/* Drag across the plot to zoom into an x-range. */}
+                <rect
+                    data-export-ignore
+                    x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="transparent"
+                    style={{ cursor: 'crosshair' }}
+                    onMouseDown={e => { const x = toSvgX(e); setBrush({ start: x, end: x }); }}
+                    onMouseMove={e => { if (brush) setBrush({ ...brush, end: toSvgX(e) }); }}
+                    onMouseUp={() => {
+                        if (brush && Math.abs(brush.end - brush.start) > 6) {
+                            const a = invertX(Math.min(brush.start, brush.end));
+                            const b = invertX(Math.max(brush.start, brush.end));
+                            setZoom([a, b]);
+                        }
+                        setBrush(null);
+                    }}
+                    onMouseLeave={() => setBrush(null)}
+                    onDoubleClick={() => setZoom(null)}
+                />
+                <g clipPath={`url(#${clipId})`}>{marks}</g>
+                {brush && <rect data-export-ignore x={Math.min(brush.start, brush.end)} y={MARGIN.top} width={Math.abs(brush.end - brush.start)} height={PLOT_HEIGHT} fill="#60a5fa" fillOpacity={0.15} pointerEvents="none" />}
+            </>
+        );
+    }
+
+    return (
+        <div ref={containerRef} className="relative" onMouseLeave={hideTooltip}>
+            <svg ref={ref} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto select-none" style={{ background: '#111827', fontFamily: 'sans-serif' }}>
+                {spec.title && <text x={WIDTH / 2} y={20} fill="#f9fafb" fontSize={14} fontWeight="bold" textAnchor="middle">{spec.title}</text>}
+                {body}
+                {showLegend && legend.length > (isPie ? 0 : 1) && (
+                    <g transform={`translate(${WIDTH - MARGIN.right - 120} ${MARGIN.top})`}>
+                        {legend.map((item, i) => (
+                            <g key={`${item.name}-${i}`} transform={`translate(0 ${i * 16})`} style={{ cursor: 'pointer' }} opacity={hiddenSeries.includes(item.name) ? 0.35 : 1} onClick={() => toggleSeries(item.name)}>
+                                <rect width={10} height={10} fill={item.color} rx={2} />
+                                <text x={14} y={9} fill={TEXT_COLOR} fontSize={10}>{item.name.length > 16 ? `${item.name.slice(0, 15)}…` : item.name}</text>
+                            </g>
+                        ))}
+                    </g>
+                )}
+            </svg>
+            {zoom && (
+                <button onClick={() => setZoom(null)} className="absolute top-1 left-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 rounded px-2 py-0.5">Reset zoom</button>
+            )}
+            {tooltip && (
+                <div className="absolute pointer-events-none bg-gray-900/95 border border-gray-600 text-gray-100 text-xs rounded px-2 py-1 whitespace-nowrap z-10" style={{ left: tooltip.x, top: tooltip.y }}>
+                    {tooltip.text}
+                </div>
+            )}
+        </div>
+    );
+});
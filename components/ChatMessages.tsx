@@ -0,0 +1,52 @@
+import React from 'react';
+import { MimeBundleView } from './OutputRenderers';
+import { ChatMessage } from '../services/ai/provider';
+import { CodeBlock, extractCodeBlocks } from '../services/ai/notebookContext';
+
+export interface CodeBlockAction {
+    label: string;
+    title?: string;
+    run: (block: CodeBlock) => void;
+}
+
+// A conversation as chat bubbles. Assistant replies are rendered as Markdown, and each code
+// block they contain gets the given actions (insert as a cell, replace a cell, ...).
+export const ChatMessages: React.FC<{ messages: ChatMessage[]; streaming?: boolean; actions?: CodeBlockAction[] }> = ({ messages, streaming, actions = [] }) => (
+    <>
+        {messages.filter(m => m.role !== 'system').map((message, index, visible) => {
+            const isUser = message.role === 'user';
+            const isStreaming = streaming && index === visible.length - 1 && !isUser;
+            const blocks = isUser || isStreaming ? [] : extractCodeBlocks(message.content);
+            return (
+                <div key={index} className={`p-2 rounded-lg max-w-[85%] text-sm ${isUser ? 'bg-blue-900 self-end' : 'bg-gray-700 self-start'}`}>
+                    <strong className="capitalize text-xs text-gray-400 block mb-1">{message.role}</strong>
+                    {isUser ? (
+                        <div className="whitespace-pre-wrap break-words">{message.content}</div>
+                    ) : (
+                        <MimeBundleView data={{ 'text/markdown': message.content || '…' }} />
+                    )}
+                    {isStreaming && <span className="inline-block w-2 h-3 bg-purple-400 animate-pulse ml-1 align-middle" />}
+                    {blocks.length > 0 && actions.length > 0 && (
+                        <div className="mt-2 flex flex-col gap-1">
+                            {blocks.map((block, i) => (
+                                <div key={i} className="flex items-center gap-1 text-xs">
+                                    <span className="text-gray-400 font-mono mr-1">{block.language || 'code'} block {blocks.length > 1 ? i + 1 : ''}</span>
+                                    {actions.map(action => (
+                                        <button
+                                            key={action.label}
+                                            title={action.title}
+                                            onClick={(e) => { e.stopPropagation(); action.run(block); }}
+                                            className="bg-gray-800 hover:bg-gray-600 text-gray-200 rounded px-2 py-0.5"
+                                        >
+                                            {action.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            );
+        })}
+    </>
+);
@@ -1,11 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GeneralCellProps } from '../types';
-import { useNotebook, CellStatusIndicator, CellOutputDisplay, CommentSection, CellControls, ExpandedCellType } from './Notebook';
+import { useNotebook, CellStatusIndicator, CellOutputDisplay, CommentSection, CellControls, ExpandedCellType, HiddenCellPart } from './Notebook';
+import { RemoteCursors, usePreservedSelection } from './RemoteCursors';
+import { SearchHighlights } from './FindReplaceBar';
 
 const CodeCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent, onExecute }) => {
-    const { id, content, outputs, status, executionCount, metadata, comments } = cell;
+    const { id, content, outputs, status, stale, executionCount, metadata, comments } = cell;
     const [code, setCode] = useState(content?.code || '');
     const [isHovered, setIsHovered] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const { canEditCell } = useNotebook();
+    const readOnly = !canEditCell(cell);
     
     // Use context if available, otherwise just mock (for safe import)
     // Note: In a real circular dependency scenario, we might pass these as props or use a separate hook file.
@@ -18,6 +23,8 @@ const CodeCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpda
         setCode(content?.code || '');
     }, [content?.code]);
 
+    usePreservedSelection(textareaRef, code);
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
             e.preventDefault();
@@ -35,51 +42,54 @@ const CodeCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpda
             onMouseLeave={() => setIsHovered(false)}
         >
             {/* Controls typically injected or rendered by parent, but if we want them here: */}
-             {isHovered && <div className="absolute top-2 right-2 z-20">
-                 {/* Placeholder for controls if not using the exported one to avoid circular dep */}
-                 {/* In the main file, we render specific controls. We can accept a `renderControls` prop if needed. */}
-            </div>}
+             {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Code} className="absolute top-2 right-2 z-20" />}
             
             <div className="flex flex-row">
                  {/* Gutter */}
-                <div className="w-12 flex-shrink-0 flex flex-col items-end pr-2 text-xs text-gray-500 font-mono pt-2 select-none">
-                    {executionCount ? `[${executionCount}]:` : '[ ]: '}
+                <div
+                    className={`w-12 flex-shrink-0 flex flex-col items-end pr-2 text-xs font-mono pt-2 select-none ${stale ? 'text-orange-400' : 'text-gray-500'}`}
+                    title={stale ? 'Stale: an upstream cell changed since this cell last ran' : undefined}
+                >
+                    {status === 'queued' || status === 'running' ? '[*]:' : executionCount ? `[${executionCount}]:` : '[ ]: '}
                 </div>
 
                 <div className="flex-grow min-w-0">
                     {/* Editor Area */}
+                    {metadata?.hideCode ? <HiddenCellPart cellId={id} part="code" /> : (
                     <div className="relative font-mono text-sm bg-gray-900 rounded-md border border-gray-700 overflow-hidden">
                         <div className="absolute top-0 right-0 p-1 text-xs text-gray-500 bg-gray-800 rounded-bl opacity-50">
                             {content.language || 'text'}
                         </div>
                         <textarea
+                            ref={textareaRef}
+                            data-collab-text
+                            readOnly={readOnly}
                             className="w-full h-full bg-transparent text-gray-200 p-3 focus:outline-none resize-none font-mono leading-relaxed"
                             value={code}
                             onChange={(e) => {
                                 setCode(e.target.value);
-                                onUpdateContent({ ...content, code: e.target.value }, false);
+                                onUpdateContent({ ...content, code: e.target.value }, true);
                             }}
                             onKeyDown={handleKeyDown}
                             spellCheck={false}
                             rows={Math.max(2, code.split('\n').length)}
                             style={{ minHeight: '3rem' }}
                         />
+                        <RemoteCursors cellId={id} text={code} textareaRef={textareaRef} />
+                        <SearchHighlights cellId={id} text={code} textareaRef={textareaRef} />
                     </div>
+                    )}
 
                     {/* Status/Output Area */}
                     {(status === 'running' || status === 'error' || (outputs && outputs.length > 0)) && (
                         <div className="mt-2">
-                             {/* Simple output display since we can't easily import the complex one due to circular deps */}
-                             {outputs && outputs.map((out: any, i: number) => (
-                                 <div key={i} className="font-mono text-sm mt-1">
-                                     {out.type === 'stream' && <pre className={`whitespace-pre-wrap ${out.name === 'stderr' ? 'text-red-400' : 'text-gray-300'}`}>{out.text}</pre>}
-                                     {out.type === 'execute_result' && out.data['text/plain'] && <pre className="whitespace-pre-wrap text-gray-300">{out.data['text/plain']}</pre>}
-                                     {out.type === 'error' && <pre className="whitespace-pre-wrap text-red-400">{out.name}: {out.message}</pre>}
-                                 </div>
-                             ))}
+                             {metadata?.hideOutput
+                                ? outputs && outputs.length > 0 && <HiddenCellPart cellId={id} part="output" />
+                                : <CellOutputDisplay outputs={outputs} className="font-mono text-sm space-y-1 max-h-[32rem] overflow-y-auto" />}
                              {status === 'running' && <div className="text-xs text-blue-400 mt-1 animate-pulse">Running...</div>}
                         </div>
                     )}
+                    <CommentSection comments={comments} cellId={id} />
                 </div>
             </div>
         </div>
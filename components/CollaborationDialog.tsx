@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useNotebook } from './Notebook';
+import { PeerAvatar } from './RemoteCursors';
+import { CollabMode, loadCollabUser } from '../services/collab/session';
+import { DEFAULT_COLLAB_SERVER_URL, TransportKind } from '../services/collab/transports';
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 outline-none focus:border-blue-500';
+
+const STATUS_LABELS = {
+    off: 'Not sharing',
+    connecting: 'Connecting...',
+    connected: 'Connected',
+    disconnected: 'Disconnected, reconnecting...',
+};
+
+// Starts, joins and leaves a real-time session. The room defaults to the notebook id, so
+// collaborators on the same notebook meet without typing anything.
+export const CollaborationDialog: React.FC = () => {
+    const { notebookId, notebookMetadata, setNotebookMetadata, collabStatus, collabPeers, collabSession, startCollaboration, stopCollaboration, setCollabDialogOpen } = useNotebook();
+    const [transport, setTransport] = useState<TransportKind>(collabSession?.transport || 'broadcast');
+    const [serverUrl, setServerUrl] = useState<string>(notebookMetadata.settings.collabServerUrl || DEFAULT_COLLAB_SERVER_URL);
+    const [room, setRoom] = useState<string>(collabSession?.room || notebookId);
+    const [user, setUser] = useState(() => collabSession?.user || loadCollabUser());
+    const active = collabStatus !== 'off';
+
+    const start = (mode: CollabMode) => {
+        if (transport === 'websocket') setNotebookMetadata(prev => ({ ...prev, settings: { ...prev.settings, collabServerUrl: serverUrl } }));
+        startCollaboration({ transport, serverUrl, room: room.trim() || notebookId, mode, user: { name: user.name.trim() || 'Guest', color: user.color } });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center pt-20" onClick={() => setCollabDialogOpen(false)}>
+            <div className="w-full max-w-md bg-gray-800 rounded-lg shadow-2xl border border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="font-bold text-lg">Collaborate</h2>
+                    <span className={`text-xs ${collabStatus === 'connected' ? 'text-green-400' : active ? 'text-yellow-400' : 'text-gray-500'}`}>{STATUS_LABELS[collabStatus]}</span>
+                </div>
+                <div className="p-4 space-y-3 text-sm">
+                    <div className="flex rounded border border-gray-700 overflow-hidden text-xs">
+                        {([['broadcast', 'This browser'], ['websocket', 'Relay server']] as const).map(([kind, label]) => (
+                            <button
+                                key={kind}
+                                disabled={active}
+                                onClick={() => setTransport(kind)}
+                                className={`flex-1 py-1.5 ${transport === kind ? 'bg-gray-700 text-blue-400 font-bold' : 'text-gray-400 hover:text-gray-200'} disabled:opacity-60`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                        {transport === 'broadcast'
+                            ? 'Collaborate between tabs and windows of this browser.'
+                            : <>Peers connect through a relay; run one with <code className="text-gray-300">npm run collab-server</code>.</>}
+                    </div>
+                    {transport === 'websocket' && (
+                        <label className="block space-y-1">
+                            <div className="text-xs text-gray-400">Server URL</div>
+                            <input value={serverUrl} disabled={active} onChange={e => setServerUrl(e.target.value)} className={inputClass} />
+                        </label>
+                    )}
+                    <label className="block space-y-1">
+                        <div className="text-xs text-gray-400">Room</div>
+                        <input value={room} disabled={active} onChange={e => setRoom(e.target.value)} className={inputClass} />
+                    </label>
+                    <div className="flex gap-2 items-end">
+                        <label className="block space-y-1 flex-grow">
+                            <div className="text-xs text-gray-400">Your name</div>
+                            <input value={user.name} disabled={active} onChange={e => setUser({ ...user, name: e.target.value })} className={inputClass} />
+                        </label>
+                        <input type="color" value={user.color} disabled={active} onChange={e => setUser({ ...user, color: e.target.value })} className="h-8 w-10 bg-transparent" title="Cursor colour" />
+                    </div>
+
+                    {active ? (
+                        <div className="space-y-2">
+                            <div className="text-xs font-semibold text-gray-500 uppercase">In this session</div>
+                            <div className="flex items-center gap-2">
+                                <PeerAvatar peer={{ user: { id: 'self', ...user }, cellId: null, status: 'online' }} />
+                                <span className="text-gray-300">{user.name} (you)</span>
+                            </div>
+                            {collabPeers.map(peer => (
+                                <div key={peer.user.id} className="flex items-center gap-2">
+                                    <PeerAvatar peer={peer} />
+                                    <span className="text-gray-300">{peer.user.name}</span>
+                                    <span className="text-xs text-gray-500">{peer.status}</span>
+                                </div>
+                            ))}
+                            {collabPeers.length === 0 && <div className="text-xs text-gray-600 italic">Nobody else has joined yet</div>}
+                            {collabSession?.mode === 'host' && notebookMetadata.visibility === 'private' && (
+                                <div className="text-xs text-yellow-400">The notebook is private, so others who join can't open it until you share it with them (🔗 Share).</div>
+                            )}
+                            {collabSession?.mode === 'join' && collabSession.waiting && (
+                                <div className="text-xs text-yellow-400">Waiting for the notebook from the other participants...</div>
+                            )}
+                            <button onClick={stopCollaboration} className="w-full px-3 py-1.5 bg-red-900/60 hover:bg-red-900 text-red-200 rounded">Leave session</button>
+                        </div>
+                    ) : (
+                        <div className="flex gap-2 pt-1">
+                            <button onClick={() => start('host')} className="flex-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded" title="Share this notebook in the room">Share this notebook</button>
+                            <button onClick={() => start('join')} className="flex-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded" title="Replace this notebook with the one being edited in the room">Join room</button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
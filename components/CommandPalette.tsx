@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { useNotebook, Command } from './Notebook';
+import { fuzzyMatch, getCommands, getCommandsVersion, isCommandVisible, subscribeCommands } from '../services/commands';
+import { formatKeySequence, keysForCommand } from '../services/keybindings';
+
+// Re-renders when commands are registered or removed (e.g. by plugins).
+export const useCommands = () => {
+    const version = useSyncExternalStore(subscribeCommands, getCommandsVersion);
+    return useMemo(() => getCommands(), [version]);
+};
+
+const Highlighted: React.FC<{ text: string; indexes: number[] }> = ({ text, indexes }) => {
+    if (indexes.length === 0) return <>{text}</>;
+    const marked = new Set(indexes);
+    return <>{Array.from(text).map((ch, i) => marked.has(i) ? <span key={i} className="text-blue-400 font-semibold">{ch}</span> : ch)}</>;
+};
+
+// Fuzzy-searchable list of every command available for the active cell.
+export const CommandPalette: React.FC = () => {
+    const context = useNotebook();
+    const { commandPaletteOpen, setCommandPaletteOpen, keybindings } = context;
+    const commands = useCommands();
+    const [query, setQuery] = useState('');
+    const [selected, setSelected] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (commandPaletteOpen) {
+            setQuery('');
+            setSelected(0);
+        }
+    }, [commandPaletteOpen]);
+
+    const results = useMemo(() => {
+        if (!commandPaletteOpen) return [];
+        const available = commands.filter(c => isCommandVisible(c, context));
+        if (!query.trim()) {
+            return available
+                .sort((a, b) => (a.category || '').localeCompare(b.category || '') || a.label.localeCompare(b.label))
+                .map(command => ({ command, indexes: [] as number[], score: 0 }));
+        }
+        return available
+            .map(command => ({ command, match: fuzzyMatch(query, command.label) }))
+            .filter((r): r is { command: Command; match: NonNullable<typeof r.match> } => r.match !== null)
+            .map(({ command, match }) => ({ command, indexes: match.indexes, score: match.score }))
+            .sort((a, b) => b.score - a.score);
+        // The context object changes on every render; recompute only while the palette is open.
+    }, [commandPaletteOpen, commands, query, context.activeCellId, context.cells, context.selectedCellIds, context.canUndo, context.canRedo]);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [selected]);
+
+    if (!commandPaletteOpen) return null;
+
+    const run = (command: Command) => {
+        setCommandPaletteOpen(false);
+        command.handler(context);
+    };
+
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setSelected(s => Math.min(results.length - 1, s + 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setSelected(s => Math.max(0, s - 1));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (results[selected]) run(results[selected].command);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            setCommandPaletteOpen(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center pt-20" onClick={() => setCommandPaletteOpen(false)}>
+            <div className="w-full max-w-lg bg-gray-800 rounded-lg shadow-2xl border border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+                <input
+                    autoFocus
+                    value={query}
+                    onChange={e => { setQuery(e.target.value); setSelected(0); }}
+                    onKeyDown={onKeyDown}
+                    className="w-full bg-gray-800 p-4 text-lg text-white border-b border-gray-700 outline-none"
+                    placeholder="Type a command..."
+                />
+                <div ref={listRef} className="p-2 max-h-96 overflow-y-auto">
+                    {results.length === 0 && <div className="px-2 py-2 text-sm text-gray-500 italic">No matching commands</div>}
+                    {results.map(({ command, indexes }, i) => {
+                        const keys = keysForCommand(keybindings, command.id);
+                        return (
+                            <div
+                                key={command.id}
+                                data-index={i}
+                                onClick={() => run(command)}
+                                onMouseMove={() => setSelected(i)}
+                                className={`px-2 py-2 rounded cursor-pointer text-sm flex items-center gap-2 ${i === selected ? 'bg-gray-700' : ''}`}
+                            >
+                                <span className="w-5 text-center">{command.icon}</span>
+                                {command.category && <span className="text-gray-500">{command.category}:</span>}
+                                <span className="text-gray-200"><Highlighted text={command.label} indexes={indexes} /></span>
+                                {keys.length > 0 && (
+                                    <span className="ml-auto flex gap-1">
+                                        {keys.slice(0, 2).map(key => <kbd key={key} className="px-1.5 py-0.5 bg-gray-900 border border-gray-600 rounded text-[11px] text-gray-400 font-mono">{formatKeySequence(key)}</kbd>)}
+                                    </span>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
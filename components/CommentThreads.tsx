@@ -0,0 +1,240 @@
+import React, { useRef, useState } from 'react';
+import { CellComment, useNotebook } from './Notebook';
+import { cellSource } from '../services/ai/notebookContext';
+import { resolveAnchor } from '../services/comments';
+
+const timeAgo = (timestamp: string) => {
+    const seconds = Math.round((Date.now() - new Date(timestamp).getTime()) / 1000);
+    if (seconds < 60) return 'just now';
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+    return new Date(timestamp).toLocaleDateString();
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Comment text with its @mentions highlighted.
+export const CommentText: React.FC<{ comment: CellComment }> = ({ comment }) => {
+    const mentions = comment.mentions || [];
+    if (mentions.length === 0) return <span className="whitespace-pre-wrap break-words">{comment.text}</span>;
+    const pattern = new RegExp(`(@(?:${mentions.map(escapeRegExp).join('|')}))`, 'gi');
+    return (
+        <span className="whitespace-pre-wrap break-words">
+            {comment.text.split(pattern).map((part, i) => i % 2 === 1
+                ? <span key={i} className="text-blue-300 font-semibold">{part}</span>
+                : part)}
+        </span>
+    );
+};
+
+// A textarea that suggests collaborators after "@". Ctrl+Enter submits, Escape cancels.
+export const MentionInput: React.FC<{
+    value: string;
+    onChange: (value: string) => void;
+    onSubmit: () => void;
+    onCancel: () => void;
+    placeholder?: string;
+}> = ({ value, onChange, onSubmit, onCancel, placeholder }) => {
+    const { users, currentUserName } = useNotebook();
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+    const [query, setQuery] = useState<string | null>(null);
+    const [highlight, setHighlight] = useState(0);
+    const suggestions = query === null ? [] : users
+        .map(u => u.name)
+        .filter(name => name !== currentUserName && name.toLowerCase().startsWith(query.toLowerCase()))
+        .slice(0, 6);
+
+    const updateQuery = (text: string, caret: number) => {
+        const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+        setQuery(match ? match[1] : null);
+        setHighlight(0);
+    };
+
+    const insertMention = (name: string) => {
+        const textarea = inputRef.current;
+        const caret = textarea?.selectionStart ?? value.length;
+        const start = value.lastIndexOf('@', caret - 1);
+        const next = `${value.slice(0, start)}@${name} ${value.slice(caret)}`;
+        onChange(next);
+        setQuery(null);
+        requestAnimationFrame(() => {
+            const position = start + name.length + 2;
+            textarea?.focus();
+            textarea?.setSelectionRange(position, position);
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                setHighlight((highlight + (e.key === 'ArrowDown' ? 1 : suggestions.length - 1)) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                insertMention(suggestions[highlight]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setQuery(null);
+                return;
+            }
+        }
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            onSubmit();
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+        }
+    };
+
+    return (
+        <div className="relative">
+            <textarea
+                ref={inputRef}
+                data-native-keys
+                autoFocus
+                value={value}
+                placeholder={placeholder}
+                onChange={e => {
+                    onChange(e.target.value);
+                    updateQuery(e.target.value, e.target.selectionStart);
+                }}
+                onKeyDown={handleKeyDown}
+                onBlur={() => setQuery(null)}
+                rows={2}
+                className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-blue-500 resize-y"
+            />
+            {suggestions.length > 0 && (
+                <div className="absolute left-0 top-full mt-1 z-30 min-w-[10rem] bg-gray-800 border border-gray-600 rounded shadow-lg py-1 text-xs">
+                    {suggestions.map((name, i) => (
+                        <div
+                            key={name}
+                            onMouseDown={e => { e.preventDefault(); insertMention(name); }}
+                            className={`px-2 py-1 cursor-pointer ${i === highlight ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            @{name}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const Composer: React.FC<{ placeholder: string; submitLabel: string; onSubmit: (text: string) => void; onCancel: () => void }> = ({ placeholder, submitLabel, onSubmit, onCancel }) => {
+    const [text, setText] = useState('');
+    const submit = () => {
+        if (!text.trim()) return;
+        onSubmit(text);
+        setText('');
+    };
+    return (
+        <div className="space-y-1">
+            <MentionInput value={text} onChange={setText} onSubmit={submit} onCancel={onCancel} placeholder={placeholder} />
+            <div className="flex justify-end gap-2 text-xs">
+                <button onClick={onCancel} className="px-2 py-0.5 text-gray-400 hover:text-white">Cancel</button>
+                <button onClick={submit} disabled={!text.trim()} className="px-2 py-0.5 bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-40" title="Ctrl+Enter">{submitLabel}</button>
+            </div>
+        </div>
+    );
+};
+
+const CommentBody: React.FC<{ comment: CellComment }> = ({ comment }) => (
+    <div className="text-xs">
+        <div className="flex items-baseline gap-2">
+            <span className="font-semibold text-gray-200">{comment.author}</span>
+            <span className="text-gray-500" title={new Date(comment.timestamp).toLocaleString()}>{timeAgo(comment.timestamp)}</span>
+        </div>
+        <div className="text-gray-300 mt-0.5"><CommentText comment={comment} /></div>
+    </div>
+);
+
+// Selects the anchored range in the cell's editor (the editor may only render once the cell is active).
+const selectAnchor = (cellId: string, start: number, end: number) => {
+    requestAnimationFrame(() => {
+        const editor = document.querySelector<HTMLTextAreaElement>(`#cell-${CSS.escape(cellId)} textarea[data-collab-text]`);
+        if (!editor) return;
+        editor.focus();
+        editor.setSelectionRange(start, end);
+    });
+};
+
+const Thread: React.FC<{ cellId: string; thread: CellComment; cellText: string }> = ({ cellId, thread, cellText }) => {
+    const { replyToComment, setCommentResolved, setActiveCellId } = useNotebook();
+    const [replying, setReplying] = useState(false);
+    const [expanded, setExpanded] = useState(!thread.resolved);
+    const replies = thread.replies || [];
+    const anchor = thread.anchor && resolveAnchor(cellText, thread.anchor);
+
+    if (thread.resolved && !expanded) {
+        return (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="text-green-500">✓</span>
+                <button onClick={() => setExpanded(true)} className="truncate text-left hover:text-gray-300">
+                    Resolved: <span className="italic">{thread.text}</span>{replies.length > 0 && ` (${replies.length} ${replies.length === 1 ? 'reply' : 'replies'})`}
+                </button>
+                <button onClick={() => { setCommentResolved(cellId, thread.id, false); setExpanded(true); }} className="ml-auto flex-shrink-0 hover:text-white">Reopen</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className={`rounded border p-2 space-y-2 ${thread.resolved ? 'border-gray-700 opacity-70' : 'border-yellow-700/50 bg-yellow-900/10'}`}>
+            {thread.anchor && (
+                <button
+                    onClick={() => { if (!anchor) return; setActiveCellId(cellId); selectAnchor(cellId, anchor.start, anchor.end); }}
+                    className={`block w-full text-left text-xs font-mono border-l-2 pl-2 truncate ${anchor ? 'border-yellow-500 text-yellow-200/80 hover:text-yellow-100' : 'border-gray-600 text-gray-500 line-through cursor-default'}`}
+                    title={anchor ? 'Select the commented text' : 'The commented text has changed'}
+                >
+                    {thread.anchor.text}
+                </button>
+            )}
+            <CommentBody comment={thread} />
+            {replies.map(reply => <div key={reply.id} className="pl-3 border-l border-gray-700"><CommentBody comment={reply} /></div>)}
+            {replying
+                ? <Composer placeholder="Reply... (@ to mention)" submitLabel="Reply" onSubmit={text => { replyToComment(cellId, thread.id, text); setReplying(false); }} onCancel={() => setReplying(false)} />
+                : (
+                    <div className="flex gap-3 text-xs text-gray-400">
+                        <button onClick={() => setReplying(true)} className="hover:text-white">Reply</button>
+                        {thread.resolved
+                            ? <button onClick={() => setCommentResolved(cellId, thread.id, false)} className="hover:text-white">Reopen</button>
+                            : <button onClick={() => { setCommentResolved(cellId, thread.id, true); setExpanded(false); }} className="hover:text-green-400">✓ Resolve</button>}
+                        {thread.resolved && <button onClick={() => setExpanded(false)} className="hover:text-white ml-auto">Collapse</button>}
+                    </div>
+                )}
+        </div>
+    );
+};
+
+// The threads on one cell and, while a comment is being started on it, the composer.
+export const CommentThreads: React.FC<{ comments: CellComment[]; cellId: string }> = ({ comments, cellId }) => {
+    const { cells, commentDraft, setCommentDraft, addComment } = useNotebook();
+    const cell = cells.find(c => c.id === cellId);
+    const text = cell ? cellSource(cell).source : '';
+    const open = comments.filter(c => !c.resolved).length;
+    const draft = commentDraft?.cellId === cellId ? commentDraft : null;
+
+    return (
+        <div className="mt-2 border-t border-gray-700 pt-2 space-y-2" onClick={e => e.stopPropagation()}>
+            {comments.length > 0 && (
+                <div className="text-xs text-gray-500">💬 {open} open{comments.length > open && ` · ${comments.length - open} resolved`}</div>
+            )}
+            {comments.map(thread => <Thread key={thread.id} cellId={cellId} thread={thread} cellText={text} />)}
+            {draft && (
+                <div className="rounded border border-blue-700/60 p-2 space-y-1">
+                    {draft.anchor && <div className="text-xs font-mono border-l-2 border-blue-500 pl-2 text-blue-200/80 truncate">{draft.anchor.text}</div>}
+                    <Composer
+                        placeholder={draft.anchor ? 'Comment on the selected text... (@ to mention)' : 'Comment on this cell... (@ to mention)'}
+                        submitLabel="Comment"
+                        onSubmit={value => addComment(cellId, value, draft.anchor)}
+                        onCancel={() => setCommentDraft(null)}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useNotebook } from './Notebook';
+import { CommentText } from './CommentThreads';
+import { notebookThreads } from '../services/comments';
+
+type Filter = 'open' | 'resolved' | 'all';
+
+// Sidebar tab listing the comment threads of every cell. Clicking a thread jumps to its cell.
+export const CommentsPanel: React.FC = () => {
+    const { cells, setActiveCellId, setCommentResolved, currentUserName } = useNotebook();
+    const [filter, setFilter] = useState<Filter>('open');
+    const threads = notebookThreads(cells);
+    const counts = {
+        open: threads.filter(t => !t.thread.resolved).length,
+        resolved: threads.filter(t => t.thread.resolved).length,
+        all: threads.length,
+    };
+    const visible = threads.filter(t => filter === 'all' || (filter === 'resolved') === !!t.thread.resolved);
+    const mentionsMe = (names?: string[]) => (names || []).some(name => name.toLowerCase() === currentUserName.toLowerCase());
+
+    const jumpTo = (cellId: string) => {
+        setActiveCellId(cellId);
+        document.getElementById(`cell-${cellId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="text-xs font-semibold text-gray-500 uppercase">Comments</div>
+            <div className="flex rounded border border-gray-700 overflow-hidden text-xs">
+                {(['open', 'resolved', 'all'] as const).map(f => (
+                    <button
+                        key={f}
+                        onClick={() => setFilter(f)}
+                        className={`flex-1 py-1 capitalize ${filter === f ? 'bg-gray-700 text-blue-400 font-bold' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                        {f} ({counts[f]})
+                    </button>
+                ))}
+            </div>
+            {visible.length === 0 && (
+                <div className="text-xs text-gray-600 italic p-2">
+                    {threads.length === 0 ? 'No comments yet. Use 💬 on a cell, or select text in it first to comment on a range.' : `No ${filter} threads`}
+                </div>
+            )}
+            {visible.map(({ cellId, cellIndex, thread }) => {
+                const replies = thread.replies || [];
+                const mentioned = mentionsMe(thread.mentions) || replies.some(r => mentionsMe(r.mentions));
+                return (
+                    <div
+                        key={thread.id}
+                        onClick={() => jumpTo(cellId)}
+                        className={`rounded border p-2 text-xs cursor-pointer hover:bg-gray-700/50 ${mentioned ? 'border-blue-600/70' : 'border-gray-700'}`}
+                    >
+                        <div className="flex items-center gap-2 text-gray-500">
+                            <span>Cell {cellIndex + 1}</span>
+                            {thread.anchor && <span className="font-mono truncate text-yellow-200/70">“{thread.anchor.text}”</span>}
+                            {mentioned && <span className="text-blue-400" title="You are mentioned">@</span>}
+                            <button
+                                onClick={e => { e.stopPropagation(); setCommentResolved(cellId, thread.id, !thread.resolved); }}
+                                className="ml-auto flex-shrink-0 hover:text-white"
+                            >
+                                {thread.resolved ? 'Reopen' : '✓ Resolve'}
+                            </button>
+                        </div>
+                        <div className="mt-1 text-gray-300 line-clamp-3">
+                            <span className="font-semibold text-gray-200">{thread.author}: </span>
+                            <CommentText comment={thread} />
+                        </div>
+                        {replies.length > 0 && (
+                            <div className="mt-1 text-gray-500">
+                                {replies.length} {replies.length === 1 ? 'reply' : 'replies'} · last by {replies[replies.length - 1].author}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
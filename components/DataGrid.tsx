@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    ColumnStats, ColumnType, DataTable, buildFilter, columnValues, compareValues, computeColumnStats, inferColumnType, parseCellInput,
+} from '../services/dataTable';
+
+const ROW_HEIGHT = 28;
+const VIEWPORT_HEIGHT = 336;
+const OVERSCAN = 8;
+const INDEX_WIDTH = 64;
+const COLUMN_WIDTH = 160;
+
+const TYPE_BADGES: Record<ColumnType, string> = { number: '#', boolean: '⊨', date: '📅', string: 'Aa', empty: '∅' };
+
+const formatNumber = (n: number) => Number.isInteger(n) ? n.toLocaleString() : n.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatCell = (value: any) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const StatsSummary: React.FC<{ stats: ColumnStats }> = ({ stats }) => (
+    <div className="text-[10px] leading-tight text-gray-400 font-normal normal-case space-y-0.5">
+        <div>{stats.count.toLocaleString()} values · {stats.missing.toLocaleString()} missing · {stats.unique.toLocaleString()} unique</div>
+        {stats.type === 'number' && stats.mean !== undefined && (
+            <>
+                <div>min {formatNumber(stats.min as number)} · max {formatNumber(stats.max as number)}</div>
+                <div>mean {formatNumber(stats.mean)} · std {formatNumber(stats.std || 0)}</div>
+            </>
+        )}
+        {stats.type === 'date' && stats.min !== undefined && <div>{String(stats.min)} → {String(stats.max)}</div>}
+        {stats.top && stats.top.length > 0 && (
+            <div className="truncate" title={stats.top.map(t => `${t.value} (${t.count})`).join(', ')}>
+                top: {stats.top.map(t => `${t.value} (${t.count})`).join(', ')}
+            </div>
+        )}
+    </div>
+);
+
+type SortState = { column: number; direction: 'asc' | 'desc' } | null;
+
+// Virtualized, editable grid. Only the rows inside the viewport (plus a small overscan) are
+// rendered, so tables with hundreds of thousands of rows stay responsive.
+export const DataGrid: React.FC<{ table: DataTable; readOnly?: boolean; onChange?: (table: DataTable) => void }> = ({ table, readOnly, onChange }) => {
+    const { columns, data } = table;
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [sort, setSort] = useState<SortState>(null);
+    const [filters, setFilters] = useState<Record<number, string>>({});
+    const [showStats, setShowStats] = useState(false);
+    const [editing, setEditing] = useState<{ row: number; column: number; value: string } | null>(null);
+
+    const types = useMemo(() => columns.map((_, i) => inferColumnType(columnValues(table, i))), [table]);
+    const stats = useMemo(() => showStats ? columns.map((_, i) => computeColumnStats(columnValues(table, i), types[i])) : [], [showStats, table, types]);
+
+    // Row indexes into `data` after filtering and sorting; edits are written back by index.
+    const view = useMemo(() => {
+        const predicates = Object.entries(filters)
+            .map(([col, query]) => ({ col: Number(col), test: buildFilter(String(query), types[Number(col)] || 'string') }))
+            .filter((p): p is { col: number; test: (value: any) => boolean } => p.test !== null);
+        let indexes = data.map((_, i) => i);
+        if (predicates.length > 0) indexes = indexes.filter(i => predicates.every(p => p.test(data[i][p.col])));
+        if (sort) {
+            const type = types[sort.column] || 'string';
+            const sign = sort.direction === 'asc' ? 1 : -1;
+            indexes.sort((a, b) => sign * compareValues(data[a][sort.column], data[b][sort.column], type) || a - b);
+        }
+        return indexes;
+    }, [data, filters, sort, types]);
+
+    useEffect(() => {
+        if (scrollRef.current && scrollTop > view.length * ROW_HEIGHT) {
+            scrollRef.current.scrollTop = 0;
+            setScrollTop(0);
+        }
+    }, [view.length]);
+
+    const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const last = Math.min(view.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+    const totalWidth = INDEX_WIDTH + columns.length * COLUMN_WIDTH;
+
+    const cycleSort = (column: number) => {
+        setSort(prev => {
+            if (!prev || prev.column !== column) return { column, direction: 'asc' };
+            if (prev.direction === 'asc') return { column, direction: 'desc' };
+            return null;
+        });
+    };
+
+    const commitEdit = () => {
+        if (!editing || !onChange) return;
+        const { row, column, value } = editing;
+        setEditing(null);
+        const parsed = parseCellInput(value, types[column] || 'string');
+        if (parsed === data[row][column] || (parsed === null && (data[row][column] === null || data[row][column] === undefined || data[row][column] === ''))) return;
+        const next = data.slice();
+        next[row] = data[row].slice();
+        next[row][column] = parsed;
+        onChange({ columns, data: next });
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-md border border-gray-700 text-sm" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-2 py-1 text-xs text-gray-400 border-b border-gray-700">
+                <span>
+                    {view.length === data.length ? `${data.length.toLocaleString()} rows` : `${view.length.toLocaleString()} of ${data.length.toLocaleString()} rows`}
+                    {sort && <> · sorted by <span className="text-gray-200">{columns[sort.column]}</span> {sort.direction === 'asc' ? '↑' : '↓'}</>}
+                </span>
+                <span className="flex items-center gap-2">
+                    {Object.values(filters).some(Boolean) && <button onClick={() => setFilters({})} className="hover:text-white">Clear filters</button>}
+                    <button onClick={() => setShowStats(s => !s)} className={`hover:text-white ${showStats ? 'text-blue-400' : ''}`} title="Column statistics">Σ Stats</button>
+                </span>
+            </div>
+            <div
+                ref={scrollRef}
+                className="overflow-auto"
+                style={{ maxHeight: VIEWPORT_HEIGHT + (showStats ? 148 : 84) }}
+                onScroll={e => setScrollTop((e.currentTarget as HTMLDivElement).scrollTop)}
+            >
+                <div style={{ width: totalWidth, minWidth: '100%' }}>
+                    <div className="flex sticky top-0 z-10 bg-gray-700 text-xs text-gray-300">
+                        <div className="flex-shrink-0 sticky left-0 bg-gray-700" style={{ width: INDEX_WIDTH }} />
+                        {columns.map((col, i) => (
+                            <div key={i} className="flex-shrink-0 px-2 py-1 border-l border-gray-600 space-y-1" style={{ width: COLUMN_WIDTH }}>
+                                <button className="flex items-center gap-1 w-full text-left font-semibold truncate hover:text-white" onClick={() => cycleSort(i)} title={`Sort by ${col}`}>
+                                    <span className="text-[10px] text-gray-500 w-4 flex-shrink-0">{TYPE_BADGES[types[i] || 'string']}</span>
+                                    <span className="truncate">{col}</span>
+                                    {sort?.column === i && <span className="text-blue-400">{sort.direction === 'asc' ? '↑' : '↓'}</span>}
+                                </button>
+                                <input
+                                    value={filters[i] || ''}
+                                    onChange={e => setFilters(prev => ({ ...prev, [i]: e.target.value }))}
+                                    placeholder={types[i] === 'number' ? '>0, 1..5' : 'filter'}
+                                    className="w-full bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-[11px] font-normal outline-none focus:border-blue-500"
+                                />
+                                {showStats && stats[i] && <StatsSummary stats={stats[i]} />}
+                            </div>
+                        ))}
+                    </div>
+                    <div style={{ height: view.length * ROW_HEIGHT, position: 'relative' }}>
+                        {view.slice(first, last).map((rowIndex, offset) => {
+                            const row = data[rowIndex];
+                            return (
+                                <div
+                                    key={rowIndex}
+                                    className="flex absolute left-0 right-0 border-b border-gray-700/60 hover:bg-gray-700/40"
+                                    style={{ top: (first + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                                >
+                                    <div className="flex-shrink-0 sticky left-0 bg-gray-800 text-right pr-2 text-xs text-gray-500 leading-7" style={{ width: INDEX_WIDTH }}>{rowIndex}</div>
+                                    {columns.map((_, colIndex) => {
+                                        const isEditingCell = editing?.row === rowIndex && editing.column === colIndex;
+                                        const value = row[colIndex];
+                                        return (
+                                            <div
+                                                key={colIndex}
+                                                className={`flex-shrink-0 px-2 leading-7 border-l border-gray-700/60 truncate ${types[colIndex] === 'number' ? 'text-right' : ''} ${value === null || value === undefined ? 'text-gray-600' : 'text-gray-200'}`}
+                                                style={{ width: COLUMN_WIDTH }}
+                                                title={formatCell(value)}
+                                                onDoubleClick={() => !readOnly && onChange && setEditing({ row: rowIndex, column: colIndex, value: formatCell(value) })}
+                                            >
+                                                {isEditingCell ? (
+                                                    <input
+                                                        autoFocus
+                                                        data-native-keys
+                                                        value={editing.value}
+                                                        onChange={e => setEditing({ ...editing, value: e.target.value })}
+                                                        onBlur={commitEdit}
+                                                        onKeyDown={e => {
+                                                            if (e.key === 'Enter') commitEdit();
+                                                            if (e.key === 'Escape') setEditing(null);
+                                                        }}
+                                                        className="w-full bg-gray-900 border border-blue-500 rounded px-1 text-sm outline-none"
+                                                    />
+                                                ) : value === null || value === undefined ? 'null' : formatCell(value)}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,621 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GeneralCellProps } from '../types';
+import { CellControls, CommentSection, downloadFile, ExpandedCellType, generateUniqueId, HiddenCellPart, useNotebook } from './Notebook';
+import { svgToPng } from './ChartView';
+import {
+    boundsIntersect, Bounds, DraggedImage, DrawingLayer, DrawingScene, DrawingShape, hitTest, IMAGE_DRAG_MIME, newLayer, normalizeBounds,
+    normalizeScene, orderedShapes, Point, scaleShape, sceneToSvg, shapeBounds, shapeMarkup, translateShape, unionBounds,
+} from '../services/drawing';
+
+type Tool = 'select' | 'pen' | 'line' | 'arrow' | 'rect' | 'ellipse' | 'text' | 'eraser';
+
+const TOOLS: { id: Tool; icon: string; label: string; key: string }[] = [
+    { id: 'select', icon: '↖', label: 'Select, move and resize', key: 'v' },
+    { id: 'pen', icon: '✏️', label: 'Pen', key: 'p' },
+    { id: 'line', icon: '╱', label: 'Line', key: 'l' },
+    { id: 'arrow', icon: '↗', label: 'Arrow', key: 'a' },
+    { id: 'rect', icon: '▭', label: 'Rectangle', key: 'r' },
+    { id: 'ellipse', icon: '◯', label: 'Ellipse', key: 'o' },
+    { id: 'text', icon: 'T', label: 'Text', key: 't' },
+    { id: 'eraser', icon: '⌫', label: 'Eraser', key: 'e' },
+];
+
+const COLORS = ['#111827', '#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ffffff'];
+const STROKE_WIDTHS = [1, 2, 4, 8];
+const FONT_SIZE = 20;
+const HANDLE_SIZE = 8;
+// Dropped images start at most this share of the canvas.
+const DROP_FIT = 0.6;
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+type Gesture =
+    | { kind: 'draw'; shape: DrawingShape; origin: Point }
+    | { kind: 'move'; origin: Point; originals: Map<string, DrawingShape> }
+    | { kind: 'resize'; anchor: Point; bounds: Bounds; originals: Map<string, DrawingShape> }
+    | { kind: 'marquee'; origin: Point; keep: string[] }
+    | { kind: 'erase' };
+
+// A text shape being typed; id is null for a new one.
+interface TextEdit { id: string | null; x: number; y: number; text: string; fontSize: number }
+
+// Shapes are immutable, so a shape's markup is only rebuilt when it changes.
+const ShapeView = React.memo(({ shape }: { shape: DrawingShape }) => <g dangerouslySetInnerHTML={{ __html: shapeMarkup(shape) }} />);
+
+const toolButtonClass = (active: boolean) => `w-7 h-7 rounded flex items-center justify-center ${active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+const readImageFile = (file: File) => new Promise<DraggedImage>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+        const src = String(reader.result);
+        const image = new Image();
+        image.onload = () => resolve({ src, width: image.naturalWidth, height: image.naturalHeight });
+        image.onerror = () => reject(new Error(`Could not read ${file.name} as an image`));
+        image.src = src;
+    };
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+});
+
+// A whiteboard. The scene is the cell's content, so every finished stroke or edit is one undo
+// step and is shared with collaborators like any other cell change. While a gesture is in
+// progress the edited scene is kept locally as a draft.
+export const DrawingCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent }) => {
+    const { id, content, comments, metadata } = cell;
+    const { canEditCell, addNotification } = useNotebook();
+    const editable = canEditCell(cell);
+    const scene = useMemo(() => normalizeScene(content), [content]);
+    const [draft, setDraftState] = useState<DrawingScene | null>(null);
+    const draftRef = useRef<DrawingScene | null>(null);
+    const shown = draft || scene;
+    const [isHovered, setIsHovered] = useState(false);
+    const [tool, setTool] = useState<Tool>('pen');
+    const [stroke, setStroke] = useState(COLORS[0]);
+    const [fill, setFill] = useState('none');
+    const [strokeWidth, setStrokeWidth] = useState(2);
+    const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+    const [selection, setSelection] = useState<string[]>([]);
+    const [marquee, setMarquee] = useState<Bounds | null>(null);
+    const [textEdit, setTextEdit] = useState<TextEdit | null>(null);
+    const [renamingLayerId, setRenamingLayerId] = useState<string | null>(null);
+    const [dropActive, setDropActive] = useState(false);
+    const gestureRef = useRef<Gesture | null>(null);
+    const textCancelledRef = useRef(false);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    const activeLayer = shown.layers.find(layer => layer.id === activeLayerId) || shown.layers[shown.layers.length - 1];
+    const layerById = new Map<string, DrawingLayer>(shown.layers.map(layer => [layer.id, layer]));
+    const isLayerEditable = (layerId: string) => {
+        const layer = layerById.get(layerId);
+        return !!layer && layer.visible && !layer.locked;
+    };
+    const selected = shown.shapes.filter(shape => selection.includes(shape.id) && isLayerEditable(shape.layerId));
+    const selectionBounds = unionBounds(selected.map(shapeBounds));
+
+    const setDraft = (next: DrawingScene | null) => {
+        draftRef.current = next;
+        setDraftState(next);
+    };
+
+    const commit = (next: DrawingScene) => {
+        setDraft(null);
+        onUpdateContent(next, true);
+    };
+
+    const updateShapes = (ids: string[], update: (shape: DrawingShape) => DrawingShape) =>
+        commit({ ...scene, shapes: scene.shapes.map(shape => ids.includes(shape.id) ? update(shape) : shape) });
+
+    const toScenePoint = (e: { clientX: number; clientY: number }): Point => {
+        const svg = svgRef.current!;
+        const matrix = svg.getScreenCTM();
+        if (!matrix) return [0, 0];
+        const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+        return [Math.round(point.x * 10) / 10, Math.round(point.y * 10) / 10];
+    };
+
+    const shapeAt = (point: Point) => orderedShapes(scene).reverse().find(shape => isLayerEditable(shape.layerId) && hitTest(shape, point));
+
+    // New shapes go on the active layer, which has to be showing and unlocked.
+    const targetLayer = () => {
+        if (isLayerEditable(activeLayer.id)) return activeLayer;
+        addNotification({ type: 'warning', message: `Layer "${activeLayer.name}" is ${activeLayer.visible ? 'locked' : 'hidden'}` });
+        return null;
+    };
+
+    // --- Pointer gestures ---
+
+    const eraseAt = (point: Point) => {
+        const base = draftRef.current || scene;
+        const shapes = base.shapes.filter(shape => !(isLayerEditable(shape.layerId) && hitTest(shape, point, 6)));
+        if (shapes.length !== base.shapes.length) setDraft({ ...base, shapes });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!editable || e.button !== 0 || textEdit) return;
+        e.currentTarget.focus({ preventScroll: true });
+        const point = toScenePoint(e);
+        if (tool === 'text') {
+            const hit = shapeAt(point);
+            if (hit?.kind === 'text') setTextEdit({ id: hit.id, x: hit.x, y: hit.y, text: hit.text, fontSize: hit.fontSize });
+            else if (targetLayer()) setTextEdit({ id: null, x: point[0], y: point[1] - FONT_SIZE / 2, text: '', fontSize: FONT_SIZE });
+            e.preventDefault();
+            return;
+        }
+        e.currentTarget.setPointerCapture(e.pointerId);
+        if (tool === 'select') {
+            const hit = shapeAt(point);
+            if (!hit) {
+                gestureRef.current = { kind: 'marquee', origin: point, keep: e.shiftKey ? selection : [] };
+                if (!e.shiftKey) setSelection([]);
+                return;
+            }
+            let ids = selection.includes(hit.id) ? selection : [hit.id];
+            if (e.shiftKey) {
+                ids = selection.includes(hit.id) ? selection.filter(s => s !== hit.id) : [...selection, hit.id];
+                setSelection(ids);
+                return;
+            }
+            setSelection(ids);
+            gestureRef.current = { kind: 'move', origin: point, originals: new Map(scene.shapes.filter(s => ids.includes(s.id)).map(s => [s.id, s])) };
+            return;
+        }
+        if (tool === 'eraser') {
+            gestureRef.current = { kind: 'erase' };
+            eraseAt(point);
+            return;
+        }
+        const layer = targetLayer();
+        if (!layer) return;
+        const base = { id: generateUniqueId('shape'), layerId: layer.id, stroke, fill, strokeWidth };
+        const [x, y] = point;
+        const shape: DrawingShape = tool === 'pen' ? { ...base, kind: 'path', fill: 'none', points: [point] }
+            : tool === 'line' || tool === 'arrow' ? { ...base, kind: tool, x1: x, y1: y, x2: x, y2: y }
+            : { ...base, kind: tool, x, y, width: 0, height: 0 };
+        gestureRef.current = { kind: 'draw', shape, origin: point };
+        setDraft({ ...scene, shapes: [...scene.shapes, shape] });
+    };
+
+    const startResize = (e: React.PointerEvent, corner: Corner) => {
+        if (!selectionBounds || e.button !== 0) return;
+        e.stopPropagation();
+        svgRef.current?.setPointerCapture(e.pointerId);
+        const { x, y, width, height } = selectionBounds;
+        // The corner opposite the handle stays put.
+        const anchor: Point = [corner.includes('w') ? x + width : x, corner.includes('n') ? y + height : y];
+        gestureRef.current = { kind: 'resize', anchor, bounds: selectionBounds, originals: new Map(selected.map(s => [s.id, s])) };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const gesture = gestureRef.current;
+        if (!gesture) return;
+        const point = toScenePoint(e);
+        const [px, py] = point;
+        switch (gesture.kind) {
+            case 'draw': {
+                const shape = gesture.shape;
+                const [ox, oy] = gesture.origin;
+                let next: DrawingShape = shape;
+                if (shape.kind === 'path') {
+                    const [lx, ly] = shape.points[shape.points.length - 1];
+                    if (Math.hypot(px - lx, py - ly) < 1.5) return;
+                    next = { ...shape, points: [...shape.points, point] };
+                } else if (shape.kind === 'line' || shape.kind === 'arrow') {
+                    // Shift snaps to multiples of 45°.
+                    let [x2, y2] = point;
+                    if (e.shiftKey) {
+                        const angle = Math.round(Math.atan2(py - oy, px - ox) / (Math.PI / 4)) * (Math.PI / 4);
+                        const length = Math.hypot(px - ox, py - oy);
+                        [x2, y2] = [ox + length * Math.cos(angle), oy + length * Math.sin(angle)];
+                    }
+                    next = { ...shape, x2, y2 };
+                } else if (shape.kind === 'rect' || shape.kind === 'ellipse') {
+                    // Shift draws squares and circles.
+                    const size = Math.max(Math.abs(px - ox), Math.abs(py - oy));
+                    const [x2, y2] = e.shiftKey ? [ox + Math.sign(px - ox) * size, oy + Math.sign(py - oy) * size] : point;
+                    next = { ...shape, ...normalizeBounds(ox, oy, x2, y2) };
+                }
+                gesture.shape = next;
+                setDraft({ ...scene, shapes: [...scene.shapes, next] });
+                return;
+            }
+            case 'move': {
+                const [dx, dy] = [px - gesture.origin[0], py - gesture.origin[1]];
+                setDraft({ ...scene, shapes: scene.shapes.map(shape => gesture.originals.has(shape.id) ? translateShape(gesture.originals.get(shape.id)!, dx, dy) : shape) });
+                return;
+            }
+            case 'resize': {
+                const to = normalizeBounds(gesture.anchor[0], gesture.anchor[1], px, py);
+                setDraft({ ...scene, shapes: scene.shapes.map(shape => gesture.originals.has(shape.id) ? scaleShape(gesture.originals.get(shape.id)!, gesture.bounds, to) : shape) });
+                return;
+            }
+            case 'marquee': {
+                const box = normalizeBounds(gesture.origin[0], gesture.origin[1], px, py);
+                setMarquee(box);
+                const inside = scene.shapes.filter(shape => isLayerEditable(shape.layerId) && boundsIntersect(shapeBounds(shape), box)).map(shape => shape.id);
+                setSelection(Array.from(new Set([...gesture.keep, ...inside])));
+                return;
+            }
+            case 'erase':
+                eraseAt(point);
+                return;
+        }
+    };
+
+    const handlePointerUp = () => {
+        const gesture = gestureRef.current;
+        gestureRef.current = null;
+        if (!gesture) return;
+        if (gesture.kind === 'marquee') {
+            setMarquee(null);
+            return;
+        }
+        const next = draftRef.current;
+        if (!next) return;
+        if (gesture.kind === 'draw') {
+            // A click with a shape tool leaves nothing behind.
+            const { width, height } = shapeBounds(gesture.shape);
+            if (gesture.shape.kind !== 'path' && width < 2 && height < 2) {
+                setDraft(null);
+                return;
+            }
+        }
+        commit(next);
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (!editable || tool !== 'select') return;
+        const hit = shapeAt(toScenePoint(e));
+        if (hit?.kind === 'text') setTextEdit({ id: hit.id, x: hit.x, y: hit.y, text: hit.text, fontSize: hit.fontSize });
+    };
+
+    // --- Keyboard ---
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (!editable || textEdit) return;
+        const ctrl = e.ctrlKey || e.metaKey;
+        const nudge = e.shiftKey ? 10 : 1;
+        const arrows: Record<string, Point> = { ArrowLeft: [-nudge, 0], ArrowRight: [nudge, 0], ArrowUp: [0, -nudge], ArrowDown: [0, nudge] };
+        const ids = selected.map(shape => shape.id);
+        const toolForKey = !ctrl && !e.altKey ? TOOLS.find(t => t.key === e.key.toLowerCase()) : undefined;
+        if ((e.key === 'Delete' || e.key === 'Backspace') && ids.length > 0) {
+            commit({ ...scene, shapes: scene.shapes.filter(shape => !ids.includes(shape.id)) });
+            setSelection([]);
+        } else if (arrows[e.key] && ids.length > 0) {
+            updateShapes(ids, shape => translateShape(shape, arrows[e.key][0], arrows[e.key][1]));
+        } else if (e.key === 'Escape' && selection.length > 0) {
+            setSelection([]);
+        } else if (ctrl && e.key.toLowerCase() === 'a') {
+            setTool('select');
+            setSelection(scene.shapes.filter(shape => isLayerEditable(shape.layerId)).map(shape => shape.id));
+        } else if (toolForKey) {
+            setTool(toolForKey.id);
+        } else {
+            return;
+        }
+        // Keep these keys from the notebook's shortcuts.
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    // --- Text ---
+
+    const finishText = () => {
+        const edit = textEdit;
+        setTextEdit(null);
+        if (!edit || textCancelledRef.current) {
+            textCancelledRef.current = false;
+            return;
+        }
+        const text = edit.text.replace(/\s+$/, '');
+        if (edit.id) {
+            if (!text) commit({ ...scene, shapes: scene.shapes.filter(shape => shape.id !== edit.id) });
+            else updateShapes([edit.id], shape => ({ ...shape, text } as DrawingShape));
+            return;
+        }
+        const layer = targetLayer();
+        if (!text || !layer) return;
+        const shape: DrawingShape = { kind: 'text', id: generateUniqueId('shape'), layerId: layer.id, stroke, fill: 'none', strokeWidth: 1, x: edit.x, y: edit.y, text, fontSize: edit.fontSize };
+        commit({ ...scene, shapes: [...scene.shapes, shape] });
+    };
+
+    // --- Styles and order ---
+
+    const applyStyle = (style: Partial<Pick<DrawingShape, 'stroke' | 'fill' | 'strokeWidth'>>) => {
+        if (style.stroke !== undefined) setStroke(style.stroke);
+        if (style.fill !== undefined) setFill(style.fill);
+        if (style.strokeWidth !== undefined) setStrokeWidth(style.strokeWidth);
+        // Paths are never filled.
+        if (selected.length > 0) updateShapes(selected.map(s => s.id), shape => ({ ...shape, ...style, fill: shape.kind === 'path' ? 'none' : style.fill ?? shape.fill } as DrawingShape));
+    };
+
+    const reorderSelection = (toFront: boolean) => {
+        const ids = selected.map(shape => shape.id);
+        const moving = scene.shapes.filter(shape => ids.includes(shape.id));
+        const rest = scene.shapes.filter(shape => !ids.includes(shape.id));
+        commit({ ...scene, shapes: toFront ? [...rest, ...moving] : [...moving, ...rest] });
+    };
+
+    // --- Layers ---
+
+    const updateLayer = (layerId: string, changes: Partial<DrawingLayer>) =>
+        commit({ ...scene, layers: scene.layers.map(layer => layer.id === layerId ? { ...layer, ...changes } : layer) });
+
+    const addLayer = () => {
+        const layer = newLayer(`Layer ${scene.layers.length + 1}`);
+        commit({ ...scene, layers: [...scene.layers, layer] });
+        setActiveLayerId(layer.id);
+    };
+
+    const moveLayer = (layerId: string, offset: number) => {
+        const layers = [...scene.layers];
+        const index = layers.findIndex(layer => layer.id === layerId);
+        const target = index + offset;
+        if (target < 0 || target >= layers.length) return;
+        [layers[index], layers[target]] = [layers[target], layers[index]];
+        commit({ ...scene, layers });
+    };
+
+    const deleteLayer = (layer: DrawingLayer) => {
+        if (scene.layers.length === 1) return;
+        const count = scene.shapes.filter(shape => shape.layerId === layer.id).length;
+        if (count > 0 && !window.confirm(`Delete "${layer.name}" and the ${count} shape${count === 1 ? '' : 's'} on it?`)) return;
+        commit({ ...scene, layers: scene.layers.filter(l => l.id !== layer.id), shapes: scene.shapes.filter(shape => shape.layerId !== layer.id) });
+    };
+
+    // --- Export and drop ---
+
+    const exportDrawing = async (format: 'svg' | 'png') => {
+        const markup = sceneToSvg(scene);
+        try {
+            if (format === 'svg') downloadFile('drawing.svg', markup, 'image/svg+xml');
+            else downloadFile('drawing.png', await svgToPng(markup, scene.width, scene.height, scene.background), 'image/png');
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Drawing export failed: ${e.message}` });
+        }
+    };
+
+    const addImage = (image: DraggedImage, [px, py]: Point) => {
+        const layer = targetLayer();
+        if (!layer) return;
+        const scale = Math.min(1, (scene.width * DROP_FIT) / (image.width || 1), (scene.height * DROP_FIT) / (image.height || 1));
+        const width = Math.round((image.width || 200) * scale);
+        const height = Math.round((image.height || 150) * scale);
+        const x = Math.max(0, Math.min(scene.width - width, px - width / 2));
+        const y = Math.max(0, Math.min(scene.height - height, py - height / 2));
+        const shape: DrawingShape = { kind: 'image', id: generateUniqueId('shape'), layerId: layer.id, stroke: 'none', fill: 'none', strokeWidth: 0, x, y, width, height, src: image.src };
+        commit({ ...scene, shapes: [...scene.shapes, shape] });
+        setSelection([shape.id]);
+        setTool('select');
+    };
+
+    const dropProps = {
+        onDragOver: (e: React.DragEvent) => {
+            const types = Array.from(e.dataTransfer.types);
+            if (!editable || (!types.includes(IMAGE_DRAG_MIME) && !types.includes('Files'))) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'copy';
+            setDropActive(true);
+        },
+        onDragLeave: (e: React.DragEvent) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropActive(false);
+        },
+        onDrop: (e: React.DragEvent) => {
+            setDropActive(false);
+            if (!editable) return;
+            const point = toScenePoint(e);
+            const dragged = e.dataTransfer.getData(IMAGE_DRAG_MIME);
+            const file = Array.from(e.dataTransfer.files as FileList).find(f => f.type.startsWith('image/'));
+            if (!dragged && !file) return;
+            e.preventDefault();
+            e.stopPropagation();
+            if (dragged) {
+                try {
+                    addImage(JSON.parse(dragged), point);
+                } catch {
+                    addNotification({ type: 'error', message: 'Could not read the dropped image' });
+                }
+                return;
+            }
+            readImageFile(file!).then(image => addImage(image, point)).catch((err: Error) => addNotification({ type: 'error', message: err.message }));
+        },
+    };
+
+    // --- Rendering ---
+
+    const hiddenLayers = new Set<string>(shown.layers.filter(layer => !layer.visible).map(layer => layer.id));
+    const visibleShapes = orderedShapes(shown).filter(shape => !hiddenLayers.has(shape.layerId) && shape.id !== textEdit?.id);
+    const cursor = !editable ? 'default' : tool === 'select' ? 'default' : tool === 'text' ? 'text' : 'crosshair';
+    // Scene units per pixel, for placing the text box over the canvas.
+    const pixelScale = svgRef.current ? svgRef.current.getBoundingClientRect().width / shown.width : 1;
+    const showTools = editable && !metadata?.hideCode;
+    const handles: [Corner, number, number][] = selectionBounds ? [
+        ['nw', selectionBounds.x, selectionBounds.y],
+        ['ne', selectionBounds.x + selectionBounds.width, selectionBounds.y],
+        ['sw', selectionBounds.x, selectionBounds.y + selectionBounds.height],
+        ['se', selectionBounds.x + selectionBounds.width, selectionBounds.y + selectionBounds.height],
+    ] : [];
+
+    return (
+        <div
+            id={`cell-${id}`}
+            className={`relative p-3 rounded-lg border ${isEditing ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700'} ${isHovered ? 'bg-gray-800/50' : ''}`}
+            onClick={onFocus}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+        >
+            {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Drawing} className="absolute top-2 right-2 z-20" />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2 flex-wrap">
+                <span>🎨</span> Drawing
+                <span className="text-xs font-normal text-gray-500">{scene.shapes.length} shape{scene.shapes.length === 1 ? '' : 's'} · {scene.layers.length} layer{scene.layers.length === 1 ? '' : 's'}</span>
+                <button onClick={(e) => { e.stopPropagation(); exportDrawing('svg'); }} className="text-xs font-normal text-gray-400 hover:text-white bg-gray-700 rounded px-2 py-0.5">SVG</button>
+                <button onClick={(e) => { e.stopPropagation(); exportDrawing('png'); }} className="text-xs font-normal text-gray-400 hover:text-white bg-gray-700 rounded px-2 py-0.5">PNG</button>
+            </h3>
+            {showTools && (
+                <div className="flex items-center gap-1 flex-wrap mb-2 text-xs" onClick={e => e.stopPropagation()}>
+                    {TOOLS.map(t => (
+                        <button key={t.id} onClick={() => setTool(t.id)} className={toolButtonClass(tool === t.id)} title={`${t.label} (${t.key.toUpperCase()})`}>{t.icon}</button>
+                    ))}
+                    <span className="w-px h-5 bg-gray-700 mx-1" />
+                    {COLORS.map(color => (
+                        <button
+                            key={color}
+                            onClick={() => applyStyle({ stroke: color })}
+                            className={`w-5 h-5 rounded-full border ${stroke === color ? 'border-blue-400 ring-1 ring-blue-400' : 'border-gray-600'}`}
+                            style={{ backgroundColor: color }}
+                            title={`Stroke ${color}`}
+                        />
+                    ))}
+                    <input type="color" value={stroke} onChange={e => applyStyle({ stroke: e.target.value })} className="w-6 h-6 bg-transparent" title="Stroke colour" />
+                    <label className="flex items-center gap-1 text-gray-400 ml-1" title="Fill for rectangles and ellipses">
+                        <input type="checkbox" checked={fill !== 'none'} onChange={e => applyStyle({ fill: e.target.checked ? stroke : 'none' })} />
+                        Fill
+                    </label>
+                    {fill !== 'none' && <input type="color" value={fill} onChange={e => applyStyle({ fill: e.target.value })} className="w-6 h-6 bg-transparent" title="Fill colour" />}
+                    <select
+                        value={strokeWidth}
+                        onChange={e => applyStyle({ strokeWidth: Number(e.target.value) })}
+                        className="bg-gray-900 text-gray-300 rounded px-1 py-0.5 outline-none ml-1"
+                        title="Stroke width"
+                    >
+                        {STROKE_WIDTHS.map(width => <option key={width} value={width}>{width}px</option>)}
+                    </select>
+                    {selected.length > 0 && (
+                        <span className="flex items-center gap-1 ml-2 text-gray-400">
+                            {selected.length} selected
+                            <button onClick={() => reorderSelection(true)} className="bg-gray-700 hover:bg-gray-600 text-gray-300 rounded px-2 py-0.5" title="Bring to front">Front</button>
+                            <button onClick={() => reorderSelection(false)} className="bg-gray-700 hover:bg-gray-600 text-gray-300 rounded px-2 py-0.5" title="Send to back">Back</button>
+                            <button
+                                onClick={() => { commit({ ...scene, shapes: scene.shapes.filter(shape => !selection.includes(shape.id)) }); setSelection([]); }}
+                                className="bg-gray-700 hover:bg-red-700 text-gray-300 rounded px-2 py-0.5"
+                                title="Delete (Del)"
+                            >Delete</button>
+                        </span>
+                    )}
+                </div>
+            )}
+            {metadata?.hideOutput ? <HiddenCellPart cellId={id} part="output" /> : (
+                <div className="flex gap-2 items-start">
+                    <div className={`relative flex-grow min-w-0 rounded-md ${dropActive ? 'ring-2 ring-blue-500' : ''}`} {...dropProps}>
+                        <svg
+                            ref={svgRef}
+                            viewBox={`0 0 ${shown.width} ${shown.height}`}
+                            className="block w-full h-auto rounded-md border border-gray-700 outline-none touch-none select-none"
+                            style={{ backgroundColor: shown.background, cursor }}
+                            tabIndex={0}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            onDoubleClick={handleDoubleClick}
+                            onKeyDown={handleKeyDown}
+                        >
+                            {visibleShapes.map(shape => <ShapeView key={shape.id} shape={shape} />)}
+                            {selectionBounds && editable && (
+                                <g>
+                                    <rect
+                                        x={selectionBounds.x - 3}
+                                        y={selectionBounds.y - 3}
+                                        width={selectionBounds.width + 6}
+                                        height={selectionBounds.height + 6}
+                                        fill="none"
+                                        stroke="#3b82f6"
+                                        strokeDasharray="4 3"
+                                        pointerEvents="none"
+                                    />
+                                    {handles.map(([corner, x, y]) => (
+                                        <rect
+                                            key={corner}
+                                            x={x - HANDLE_SIZE / 2 + (corner.includes('w') ? -3 : 3)}
+                                            y={y - HANDLE_SIZE / 2 + (corner.includes('n') ? -3 : 3)}
+                                            width={HANDLE_SIZE}
+                                            height={HANDLE_SIZE}
+                                            fill="#ffffff"
+                                            stroke="#3b82f6"
+                                            style={{ cursor: corner === 'nw' || corner === 'se' ? 'nwse-resize' : 'nesw-resize' }}
+                                            onPointerDown={e => startResize(e, corner)}
+                                        />
+                                    ))}
+                                </g>
+                            )}
+                            {marquee && <rect x={marquee.x} y={marquee.y} width={marquee.width} height={marquee.height} fill="#3b82f6" fillOpacity={0.1} stroke="#3b82f6" pointerEvents="none" />}
+                        </svg>
+                        {textEdit && (
+                            <textarea
+                                autoFocus
+                                value={textEdit.text}
+                                onChange={e => setTextEdit({ ...textEdit, text: e.target.value })}
+                                onBlur={finishText}
+                                onKeyDown={e => {
+                                    e.stopPropagation();
+                                    if (e.key === 'Escape') {
+                                        textCancelledRef.current = true;
+                                        e.currentTarget.blur();
+                                    } else if (e.key === 'Enter' && !e.shiftKey) {
+                                        e.preventDefault();
+                                        e.currentTarget.blur();
+                                    }
+                                }}
+                                rows={Math.max(1, textEdit.text.split('\n').length)}
+                                placeholder="Text"
+                                className="absolute bg-white/80 border border-blue-500 rounded-sm outline-none resize-none leading-[1.2] p-0 min-w-[8rem]"
+                                style={{
+                                    left: `${(textEdit.x / shown.width) * 100}%`,
+                                    top: `${(textEdit.y / shown.height) * 100}%`,
+                                    fontSize: `${textEdit.fontSize * pixelScale}px`,
+                                    color: textEdit.id ? (scene.shapes.find(s => s.id === textEdit.id)?.stroke ?? stroke) : stroke,
+                                }}
+                            />
+                        )}
+                        {dropActive && <div className="absolute inset-0 flex items-center justify-center text-sm text-blue-300 bg-blue-900/20 rounded-md pointer-events-none">Drop to add the image</div>}
+                    </div>
+                    {!metadata?.hideCode && (
+                        <div className="w-44 shrink-0 text-xs bg-gray-900/60 border border-gray-700 rounded-md p-2 space-y-1" onClick={e => e.stopPropagation()}>
+                            <div className="flex items-center justify-between text-gray-400 mb-1">
+                                <span className="font-semibold">Layers</span>
+                                {editable && <button onClick={addLayer} className="hover:text-white" title="Add a layer on top">+ Layer</button>}
+                            </div>
+                            {[...shown.layers].reverse().map(layer => {
+                                const index = shown.layers.indexOf(layer);
+                                return (
+                                    <div
+                                        key={layer.id}
+                                        onClick={() => setActiveLayerId(layer.id)}
+                                        className={`flex items-center gap-1 rounded px-1 py-0.5 cursor-pointer ${layer.id === activeLayer.id ? 'bg-blue-900/50 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+                                        title={layer.id === activeLayer.id ? 'New shapes go on this layer' : 'Click to draw on this layer'}
+                                    >
+                                        <button disabled={!editable} onClick={e => { e.stopPropagation(); updateLayer(layer.id, { visible: !layer.visible }); }} className={layer.visible ? '' : 'opacity-40'} title={layer.visible ? 'Hide' : 'Show'}>👁</button>
+                                        <button disabled={!editable} onClick={e => { e.stopPropagation(); updateLayer(layer.id, { locked: !layer.locked }); }} className={layer.locked ? '' : 'opacity-40'} title={layer.locked ? 'Unlock' : 'Lock'}>🔒</button>
+                                        {renamingLayerId === layer.id ? (
+                                            <input
+                                                autoFocus
+                                                defaultValue={layer.name}
+                                                onClick={e => e.stopPropagation()}
+                                                onBlur={e => { setRenamingLayerId(null); if (e.target.value.trim() && e.target.value.trim() !== layer.name) updateLayer(layer.id, { name: e.target.value.trim() }); }}
+                                                onKeyDown={e => { e.stopPropagation(); if (e.key === 'Enter' || e.key === 'Escape') { if (e.key === 'Escape') e.currentTarget.value = layer.name; e.currentTarget.blur(); } }}
+                                                className="flex-grow min-w-0 bg-gray-900 border border-blue-500 rounded px-1 outline-none"
+                                            />
+                                        ) : (
+                                            <span className="flex-grow truncate" onDoubleClick={() => editable && setRenamingLayerId(layer.id)}>{layer.name}</span>
+                                        )}
+                                        {editable && (
+                                            <span className="flex items-center text-gray-500">
+                                                {selected.some(shape => shape.layerId !== layer.id) && (
+                                                    <button onClick={e => { e.stopPropagation(); updateShapes(selected.map(s => s.id), shape => ({ ...shape, layerId: layer.id })); }} className="hover:text-white px-0.5" title="Move the selected shapes to this layer">⇥</button>
+                                                )}
+                                                <button onClick={e => { e.stopPropagation(); moveLayer(layer.id, 1); }} disabled={index === shown.layers.length - 1} className="hover:text-white disabled:opacity-30 px-0.5" title="Move up">▲</button>
+                                                <button onClick={e => { e.stopPropagation(); moveLayer(layer.id, -1); }} disabled={index === 0} className="hover:text-white disabled:opacity-30 px-0.5" title="Move down">▼</button>
+                                                <button onClick={e => { e.stopPropagation(); deleteLayer(layer); }} disabled={shown.layers.length === 1} className="hover:text-red-400 disabled:opacity-30 px-0.5" title="Delete layer">✕</button>
+                                            </span>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+            {isEditing && metadata?.hideCode && <HiddenCellPart cellId={id} part="code" />}
+            <CommentSection comments={comments} cellId={id} />
+        </div>
+    );
+};
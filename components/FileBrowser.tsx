@@ -0,0 +1,436 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { GeneralCellProps } from '../types';
+import { CellControls, CommentSection, downloadFile, ExpandedCellType, HiddenCellPart, useNotebook } from './Notebook';
+import { DataGrid } from './DataGrid';
+import { DataTable, importTableFile } from '../services/dataTable';
+import { fromIpynb } from '../services/nbformat';
+import {
+    baseName, createWorkspaceFolder, fileExtension, getWorkspaceVersion, isTextType, joinPath, listWorkspace, mimeTypeFor, normalizePath,
+    parentPath, readWorkspaceFile, removeWorkspaceEntry, renameWorkspaceEntry, subscribeWorkspace, uniquePath, WorkspaceEntry, writeWorkspaceFile,
+} from '../services/vfs';
+
+// Set on drags that start in a file browser. The notebook turns a drop into a cell, and
+// folders move the entry into themselves.
+export const WORKSPACE_PATH_MIME = 'application/x-workspace-path';
+
+// Text previews stop after this many bytes.
+const MAX_PREVIEW_BYTES = 200 * 1024;
+
+const useWorkspaceVersion = () => useSyncExternalStore(subscribeWorkspace, getWorkspaceVersion);
+
+// Every entry in the workspace, re-read whenever it changes. Null until the first listing.
+export const useWorkspaceEntries = () => {
+    const version = useWorkspaceVersion();
+    const [entries, setEntries] = useState<WorkspaceEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        listWorkspace().then(list => {
+            if (cancelled) return;
+            setEntries(list);
+            setError(null);
+        }).catch((e: any) => {
+            if (cancelled) return;
+            setEntries([]);
+            setError(e.message);
+        });
+        return () => { cancelled = true; };
+    }, [version]);
+
+    return { entries, error };
+};
+
+const entryIcon = (entry: WorkspaceEntry) => {
+    if (entry.kind === 'directory') return '📁';
+    const extension = fileExtension(entry.path);
+    if (extension === 'ipynb') return '📓';
+    if (['csv', 'tsv', 'tab'].includes(extension)) return '📊';
+    if (entry.type.startsWith('image/')) return '🖼️';
+    return '📄';
+};
+
+export const formatFileSize = (bytes: number) =>
+    bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const downloadWorkspaceFile = async (path: string) => {
+    const blob = await readWorkspaceFile(path);
+    if (blob) downloadFile(baseName(path), blob, blob.type || mimeTypeFor(path));
+};
+
+// Folders and files dragged in from the computer keep their names; a folder upload keeps the
+// folders inside it.
+const uploadFiles = async (files: File[], folder: string, taken: Set<string>) => {
+    for (const file of files) {
+        const path = uniquePath(joinPath(folder, file.webkitRelativePath || file.name), taken);
+        taken.add(path);
+        await writeWorkspaceFile(path, file);
+    }
+};
+
+// A name field for new and renamed entries. Enter or leaving the field commits, Escape cancels.
+const NameInput: React.FC<{ initial?: string; placeholder?: string; onDone: (name: string) => void }> = ({ initial = '', placeholder, onDone }) => {
+    const [name, setName] = useState(initial);
+    const doneRef = useRef(false);
+    const finish = (value: string) => {
+        if (doneRef.current) return;
+        doneRef.current = true;
+        onDone(value.trim());
+    };
+    return (
+        <input
+            autoFocus
+            value={name}
+            placeholder={placeholder}
+            onChange={e => setName(e.target.value)}
+            onClick={e => e.stopPropagation()}
+            onFocus={e => {
+                // Select the name without its extension, as file managers do.
+                const dot = initial.lastIndexOf('.');
+                e.target.setSelectionRange(0, dot > 0 ? dot : initial.length);
+            }}
+            onKeyDown={e => {
+                e.stopPropagation();
+                if (e.key === 'Enter') finish(name);
+                if (e.key === 'Escape') finish('');
+            }}
+            onBlur={() => finish(name)}
+            className="flex-grow min-w-0 bg-gray-900 border border-blue-500 rounded px-1 text-sm text-white outline-none"
+        />
+    );
+};
+
+// A tree of the workspace files, or of one folder in it. Used by the Files sidebar tab and by
+// FileBrowser cells. Clicking a file previews it; dragging it into the notebook adds a cell.
+export const FileBrowser: React.FC<{ root?: string }> = ({ root = '' }) => {
+    const { permissions, addNotification, setFilePreview, openWorkspaceNotebook } = useNotebook();
+    const { entries, error } = useWorkspaceEntries();
+    const base = normalizePath(root);
+    const [expanded, setExpanded] = useState<string[]>([]);
+    // Where new files, folders and uploads go: the folder last clicked, or the folder of the file last clicked.
+    const [folder, setFolder] = useState(base);
+    const [creating, setCreating] = useState<WorkspaceEntry['kind'] | null>(null);
+    const [renaming, setRenaming] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const uploadRef = useRef<HTMLInputElement>(null);
+    const folderUploadRef = useRef<HTMLInputElement>(null);
+    const canEdit = permissions.canEdit;
+
+    useEffect(() => setFolder(base), [base]);
+
+    const report = (action: string) => (e: any) => addNotification({ type: 'error', message: `Could not ${action}: ${e.message}` });
+    const takenPaths = () => new Set<string>((entries || []).map(e => e.path));
+    const rootMissing = base !== '' && entries !== null && !entries.some(e => e.path === base && e.kind === 'directory');
+
+    const childrenOf = (parent: string) => (entries || [])
+        .filter(e => e.path !== parent && parentPath(e.path) === parent)
+        .sort((a, b) => a.kind === b.kind ? a.path.localeCompare(b.path) : a.kind === 'directory' ? -1 : 1);
+
+    const upload = (files: File[], target: string) => {
+        if (files.length === 0) return;
+        uploadFiles(files, target, takenPaths())
+            .then(() => addNotification({ type: 'success', message: `Uploaded ${files.length === 1 ? files[0].name : `${files.length} files`}` }))
+            .catch(report('upload'));
+    };
+
+    const startCreating = (kind: WorkspaceEntry['kind']) => {
+        setExpanded(prev => prev.includes(folder) ? prev : [...prev, folder]);
+        setCreating(kind);
+    };
+
+    const create = (name: string) => {
+        const kind = creating;
+        setCreating(null);
+        if (!name || !kind) return;
+        const path = joinPath(folder, name);
+        if (takenPaths().has(path)) {
+            addNotification({ type: 'error', message: `${path} already exists` });
+            return;
+        }
+        (kind === 'file' ? writeWorkspaceFile(path, '') : createWorkspaceFolder(path)).catch(report(`create ${name}`));
+    };
+
+    const rename = (entry: WorkspaceEntry, name: string) => {
+        setRenaming(null);
+        const target = joinPath(parentPath(entry.path), name);
+        if (!name || target === entry.path) return;
+        renameWorkspaceEntry(entry.path, target).catch(report(`rename ${baseName(entry.path)}`));
+    };
+
+    const remove = (entry: WorkspaceEntry) => {
+        if (!window.confirm(`Delete ${entry.path}${entry.kind === 'directory' ? ' and everything in it' : ''}? This cannot be undone.`)) return;
+        removeWorkspaceEntry(entry.path).catch(report(`delete ${baseName(entry.path)}`));
+    };
+
+    const select = (entry: WorkspaceEntry) => {
+        if (entry.kind === 'directory') {
+            setFolder(entry.path);
+            setExpanded(prev => prev.includes(entry.path) ? prev.filter(p => p !== entry.path) : [...prev, entry.path]);
+            return;
+        }
+        setFolder(parentPath(entry.path));
+        setFilePreview(entry.path);
+    };
+
+    // Folders (and the browser itself, for its root) take workspace entries, which move into
+    // them, and files from the computer, which are uploaded into them.
+    const dropProps = (target: string) => ({
+        onDragOver: (e: React.DragEvent) => {
+            const types = Array.from(e.dataTransfer.types);
+            if (!canEdit || (!types.includes(WORKSPACE_PATH_MIME) && !types.includes('Files'))) return;
+            e.preventDefault();
+            e.stopPropagation();
+            e.dataTransfer.dropEffect = types.includes('Files') ? 'copy' : 'move';
+            setDropTarget(target);
+        },
+        onDragLeave: (e: React.DragEvent) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+        },
+        onDrop: (e: React.DragEvent) => {
+            setDropTarget(null);
+            const moved = e.dataTransfer.getData(WORKSPACE_PATH_MIME);
+            if (!canEdit || (!moved && e.dataTransfer.files.length === 0)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            if (!moved) {
+                upload(Array.from(e.dataTransfer.files), target);
+                return;
+            }
+            const destination = joinPath(target, baseName(moved));
+            if (destination !== moved) renameWorkspaceEntry(moved, destination).catch(report(`move ${baseName(moved)}`));
+        },
+    });
+
+    const renderEntries = (parent: string, depth: number): React.ReactNode => (
+        <>
+            {creating && folder === parent && (
+                <div className="flex items-center gap-1 px-2 py-0.5" style={{ paddingLeft: 8 + depth * 12 + 16 }}>
+                    <span>{creating === 'directory' ? '📁' : '📄'}</span>
+                    <NameInput placeholder={creating === 'directory' ? 'Folder name' : 'File name'} onDone={create} />
+                </div>
+            )}
+            {childrenOf(parent).map(entry => {
+                const isFolder = entry.kind === 'directory';
+                const open = isFolder && expanded.includes(entry.path);
+                return (
+                    <React.Fragment key={entry.path}>
+                        <div
+                            draggable={renaming !== entry.path}
+                            onDragStart={e => {
+                                e.dataTransfer.setData(WORKSPACE_PATH_MIME, entry.path);
+                                e.dataTransfer.setData('text/plain', entry.path);
+                                e.dataTransfer.effectAllowed = 'copyMove';
+                            }}
+                            {...(isFolder ? dropProps(entry.path) : {})}
+                            onClick={() => select(entry)}
+                            onDoubleClick={() => fileExtension(entry.path) === 'ipynb' && openWorkspaceNotebook(entry.path)}
+                            className={`group flex items-center gap-1 px-2 py-0.5 rounded cursor-pointer text-sm ${dropTarget === entry.path ? 'bg-blue-900/50 ring-1 ring-blue-500' : 'hover:bg-gray-700'} ${folder === entry.path ? 'text-white' : 'text-gray-300'}`}
+                            style={{ paddingLeft: 8 + depth * 12 }}
+                            title={isFolder ? entry.path : `${entry.path} · ${formatFileSize(entry.size)}`}
+                        >
+                            <span className="w-3 text-xs text-gray-500 flex-shrink-0">{isFolder ? (open ? '▾' : '▸') : ''}</span>
+                            <span className="flex-shrink-0">{entryIcon(entry)}</span>
+                            {renaming === entry.path
+                                ? <NameInput initial={baseName(entry.path)} onDone={name => rename(entry, name)} />
+                                : <span className="truncate flex-grow">{baseName(entry.path)}</span>}
+                            {renaming !== entry.path && (
+                                <span className="hidden group-hover:flex gap-1 text-xs text-gray-500 flex-shrink-0" onClick={e => e.stopPropagation()}>
+                                    {!isFolder && <button onClick={() => downloadWorkspaceFile(entry.path)} className="hover:text-white" title="Download">⬇</button>}
+                                    {canEdit && <button onClick={() => setRenaming(entry.path)} className="hover:text-white" title="Rename">✎</button>}
+                                    {canEdit && <button onClick={() => remove(entry)} className="hover:text-red-400" title="Delete">🗑</button>}
+                                </span>
+                            )}
+                        </div>
+                        {open && renderEntries(entry.path, depth + 1)}
+                    </React.Fragment>
+                );
+            })}
+        </>
+    );
+
+    const empty = entries !== null && !rootMissing && childrenOf(base).length === 0 && !creating;
+
+    return (
+        <div
+            {...dropProps(base)}
+            className={`min-h-[6rem] rounded ${dropTarget === base ? 'ring-1 ring-blue-500 bg-blue-900/20' : ''}`}
+        >
+            <div className="flex items-center gap-1 mb-2">
+                <span className="text-xs font-semibold text-gray-500 uppercase truncate" title={base || 'Workspace'}>{base || 'Workspace'}</span>
+                {canEdit && !rootMissing && (
+                    <span className="ml-auto flex gap-0.5 text-xs">
+                        <button onClick={() => startCreating('file')} className="px-1 text-gray-500 hover:text-white" title="New file">+📄</button>
+                        <button onClick={() => startCreating('directory')} className="px-1 text-gray-500 hover:text-white" title="New folder">+📁</button>
+                        <button onClick={() => uploadRef.current?.click()} className="px-1 text-gray-500 hover:text-white" title="Upload files">⬆</button>
+                        <button onClick={() => folderUploadRef.current?.click()} className="px-1 text-gray-500 hover:text-white" title="Upload a folder">⬆📁</button>
+                    </span>
+                )}
+            </div>
+            {folder !== base && canEdit && <div className="text-xs text-gray-600 px-2 mb-1 truncate" title={folder}>New files go in {baseName(folder)}/</div>}
+            {error && <div className="text-xs text-red-400 p-2">{error}</div>}
+            {entries === null && <div className="text-xs text-gray-600 italic p-2">Loading…</div>}
+            {rootMissing && <div className="text-xs text-gray-600 italic p-2">{base} is not a folder in the workspace</div>}
+            {empty && <div className="text-xs text-gray-600 italic p-2">No files yet. {canEdit ? 'Upload some or drop them here.' : ''}</div>}
+            {!rootMissing && renderEntries(base, 0)}
+            <input
+                ref={uploadRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={e => {
+                    upload(Array.from(e.target.files || []), folder);
+                    e.target.value = '';
+                }}
+            />
+            <input
+                ref={folderUploadRef}
+                type="file"
+                {...{ webkitdirectory: '' }}
+                className="hidden"
+                onChange={e => {
+                    upload(Array.from(e.target.files || []), folder);
+                    e.target.value = '';
+                }}
+            />
+        </div>
+    );
+};
+
+interface PreviewContent {
+    blob: Blob;
+    table?: DataTable;
+    text?: string;
+    imageUrl?: string;
+    notebook?: { title: string; cellCount: number };
+}
+
+// A workspace file shown in a dialog: tables in a grid, images, text, or a notebook summary.
+export const FilePreview: React.FC = () => {
+    const { filePreview: path, setFilePreview, insertWorkspaceFile, openWorkspaceNotebook, permissions } = useNotebook();
+    const version = useWorkspaceVersion();
+    const [preview, setPreview] = useState<PreviewContent | null | undefined>(undefined);
+
+    useEffect(() => {
+        if (!path) return;
+        let cancelled = false;
+        let imageUrl: string | undefined;
+        (async (): Promise<PreviewContent | null> => {
+            const blob = await readWorkspaceFile(path);
+            if (!blob) return null;
+            const extension = fileExtension(path);
+            const type = mimeTypeFor(path, blob.type);
+            if (['csv', 'tsv', 'tab'].includes(extension)) return { blob, table: await importTableFile(new File([blob], baseName(path))) };
+            if (type.startsWith('image/')) {
+                imageUrl = URL.createObjectURL(blob);
+                return { blob, imageUrl };
+            }
+            if (extension === 'ipynb') {
+                const { cells, metadata } = fromIpynb(await blob.text());
+                return { blob, notebook: { title: metadata.title === 'Untitled' ? baseName(path) : metadata.title, cellCount: cells.length } };
+            }
+            if (isTextType(type)) return { blob, text: await blob.slice(0, MAX_PREVIEW_BYTES).text() };
+            return { blob };
+        })().then(result => {
+            if (cancelled) return;
+            setPreview(result);
+        }).catch(() => {
+            if (!cancelled) setPreview(null);
+        });
+        return () => {
+            cancelled = true;
+            if (imageUrl) URL.revokeObjectURL(imageUrl);
+        };
+    }, [path, version]);
+
+    if (!path) return null;
+    const close = () => setFilePreview(null);
+    const isNotebook = fileExtension(path) === 'ipynb';
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={close}>
+            <div className="w-full max-w-5xl max-h-[80vh] bg-gray-800 rounded-lg shadow-2xl border border-gray-700 flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3 p-3 border-b border-gray-700">
+                    <h2 className="font-bold truncate">{path}</h2>
+                    {preview && <span className="text-xs text-gray-500">{formatFileSize(preview.blob.size)}</span>}
+                    <span className="ml-auto flex gap-2 text-xs">
+                        {isNotebook && preview && (
+                            <button onClick={() => { close(); openWorkspaceNotebook(path); }} className="bg-blue-600 hover:bg-blue-700 rounded px-2 py-1" title="Replace the open notebook with this one">
+                                Open notebook
+                            </button>
+                        )}
+                        {permissions.canEdit && preview && (
+                            <button onClick={() => { close(); insertWorkspaceFile(path); }} className="bg-gray-700 hover:bg-gray-600 rounded px-2 py-1" title="Add a cell for this file below the active cell">
+                                Insert into notebook
+                            </button>
+                        )}
+                        {preview && <button onClick={() => downloadWorkspaceFile(path)} className="bg-gray-700 hover:bg-gray-600 rounded px-2 py-1">Download</button>}
+                    </span>
+                    <button onClick={close} className="text-gray-400 hover:text-white px-2">✕</button>
+                </div>
+                <div className="flex-grow min-h-0 p-3 overflow-auto">
+                    {preview === undefined && <div className="text-sm text-gray-500">Loading…</div>}
+                    {preview === null && <div className="text-sm text-gray-500">{path} no longer exists or can't be read.</div>}
+                    {preview?.table && <DataGrid table={preview.table} readOnly />}
+                    {preview?.imageUrl && <img src={preview.imageUrl} alt={baseName(path)} className="max-w-full mx-auto" />}
+                    {preview?.notebook && (
+                        <div className="text-sm text-gray-300">
+                            <div className="text-lg">📓 {preview.notebook.title}</div>
+                            <div className="text-gray-500">{preview.notebook.cellCount} cells. Opening it replaces the notebook you have open; save that first if you want to keep it.</div>
+                        </div>
+                    )}
+                    {preview?.text !== undefined && (
+                        <pre className="text-xs font-mono text-gray-300 whitespace-pre-wrap break-words">
+                            {preview.text}
+                            {preview.blob.size > MAX_PREVIEW_BYTES && <span className="text-gray-500">{'\n'}… showing the first {formatFileSize(MAX_PREVIEW_BYTES)}</span>}
+                        </pre>
+                    )}
+                    {preview && !preview.table && !preview.imageUrl && !preview.notebook && preview.text === undefined && (
+                        <div className="text-sm text-gray-500">No preview for this kind of file.</div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// A cell showing the workspace, or one folder of it, inside the notebook.
+export const FileBrowserCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent }) => {
+    const { id, content, comments, metadata } = cell;
+    const { canEditCell } = useNotebook();
+    const [isHovered, setIsHovered] = useState(false);
+    const [root, setRoot] = useState(content?.root || '');
+
+    useEffect(() => setRoot(content?.root || ''), [content?.root]);
+
+    return (
+        <div
+            id={`cell-${id}`}
+            className={`relative p-3 rounded-lg border ${isEditing ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700'} ${isHovered ? 'bg-gray-800/50' : ''}`}
+            onClick={onFocus}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+        >
+            {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.FileBrowser} className="absolute top-2 right-2 z-20" />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <span>🗂️</span> Files
+                {!metadata?.hideCode && (
+                    <input
+                        value={root}
+                        readOnly={!canEditCell(cell)}
+                        onChange={e => setRoot(e.target.value)}
+                        onBlur={() => onUpdateContent({ ...content, root: normalizePath(root) }, true)}
+                        onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                        onClick={e => e.stopPropagation()}
+                        placeholder="/ (whole workspace)"
+                        className="bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs font-mono font-normal text-gray-300 outline-none focus:border-blue-500 w-48"
+                        title="Folder to show"
+                    />
+                )}
+            </h3>
+            {metadata?.hideOutput
+                ? <HiddenCellPart cellId={id} part="output" />
+                : <div className="max-h-96 overflow-y-auto"><FileBrowser root={content?.root || ''} /></div>}
+            <CommentSection comments={comments} cellId={id} />
+        </div>
+    );
+};
@@ -0,0 +1,253 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useNotebook } from './Notebook';
+import { mirrorStyle } from './RemoteCursors';
+import { matchRanges, SearchOptions } from '../services/findReplace';
+
+// Set when moving to a match; whichever highlight draws the current match scrolls it into view.
+let pendingScroll = false;
+
+const centerInNotebook = (element: Element) => {
+    const scroller = element.closest('main');
+    if (!scroller) return;
+    const rect = element.getBoundingClientRect();
+    const box = scroller.getBoundingClientRect();
+    // Leave room for the find bar at the top.
+    if (rect.top >= box.top + 100 && rect.bottom <= box.bottom - 40) return;
+    scroller.scrollBy({ top: rect.top - box.top - box.height / 2, behavior: 'smooth' });
+};
+
+const HIGHLIGHTS_SUPPORTED = typeof CSS !== 'undefined' && 'highlights' in CSS;
+
+// Rendered text (outputs, markdown, chat messages) is marked with data-search-output. It can't
+// hold overlay spans the way a textarea can, so matches there are painted with the CSS Custom
+// Highlight API where the browser has it. The current output match is the cell's n-th one.
+const useRenderedHighlights = () => {
+    const { cells, searchRegex, searchMatches, currentMatchIndex } = useNotebook();
+    const current = searchMatches[currentMatchIndex];
+    const ordinal = current?.part === 'output'
+        ? searchMatches.slice(0, currentMatchIndex).filter(m => m.cellId === current.cellId && m.part === 'output').length
+        : -1;
+
+    useEffect(() => {
+        if (!HIGHLIGHTS_SUPPORTED) return;
+        const ranges: Range[] = [];
+        let currentRange: Range | null = null;
+        if (searchRegex) {
+            const counts = new Map<string, number>();
+            document.querySelectorAll('[data-search-output]').forEach(root => {
+                const cellId = root.closest('[id^="cell-"]')?.id.slice('cell-'.length) || '';
+                const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+                for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+                    const textNode = node;
+                    matchRanges(textNode.textContent || '', searchRegex).forEach(({ start, end }) => {
+                        const range = document.createRange();
+                        range.setStart(textNode, start);
+                        range.setEnd(textNode, end);
+                        const n = counts.get(cellId) ?? 0;
+                        counts.set(cellId, n + 1);
+                        if (current?.part === 'output' && current.cellId === cellId && n === ordinal) currentRange = range;
+                        else ranges.push(range);
+                    });
+                }
+            });
+        }
+        CSS.highlights.set('search-match', new Highlight(...ranges));
+        CSS.highlights.set('search-current', currentRange ? new Highlight(currentRange) : new Highlight());
+        if (pendingScroll && currentRange) {
+            pendingScroll = false;
+            (currentRange as Range).startContainer.parentElement?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+        }
+        return () => {
+            CSS.highlights.delete('search-match');
+            CSS.highlights.delete('search-current');
+        };
+    }, [cells, current, ordinal, searchRegex]);
+};
+
+// Matches in a cell's editor, drawn over its textarea the way collaborators' selections are.
+export const SearchHighlights: React.FC<{ cellId: string; text: string; textareaRef: React.RefObject<HTMLTextAreaElement | null> }> = ({ cellId, text, textareaRef }) => {
+    const { findBar, searchRegex, searchMatches, currentMatchIndex } = useNotebook();
+    const ranges = findBar && searchRegex ? matchRanges(text, searchRegex) : [];
+    const current = searchMatches[currentMatchIndex];
+    const currentStart = current?.cellId === cellId && current.part === 'source' ? current.start : -1;
+    const active = ranges.length > 0;
+    const [style, setStyle] = useState<React.CSSProperties | null>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const currentRef = useRef<HTMLSpanElement>(null);
+
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        setStyle(textarea && active ? mirrorStyle(textarea) : null);
+    }, [active, text, textareaRef]);
+
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const onScroll = () => setScrollTop(textarea.scrollTop);
+        textarea.addEventListener('scroll', onScroll);
+        return () => textarea.removeEventListener('scroll', onScroll);
+    }, [textareaRef]);
+
+    useLayoutEffect(() => {
+        if (pendingScroll && currentRef.current) {
+            pendingScroll = false;
+            centerInNotebook(currentRef.current);
+        }
+    });
+
+    if (!style || !active) return null;
+    let position = 0;
+    const pieces: React.ReactNode[] = [];
+    ranges.forEach(({ start, end }) => {
+        const isCurrent = start === currentStart;
+        pieces.push(text.slice(position, start));
+        pieces.push(
+            <span key={start} ref={isCurrent ? currentRef : undefined} className={isCurrent ? 'bg-orange-500/60 rounded-sm' : 'bg-yellow-400/30 rounded-sm'}>
+                {text.slice(start, end)}
+            </span>
+        );
+        position = end;
+    });
+    return (
+        <div style={style} aria-hidden="true">
+            <div style={{ transform: `translateY(${-scrollTop}px)` }}>
+                {pieces}
+                {text.slice(position)}
+                {/* A trailing newline needs content after it to take up a line. */}
+                {'\u200b'}
+            </div>
+        </div>
+    );
+};
+
+const OptionToggle: React.FC<{ option: keyof SearchOptions; label: string; title: string }> = ({ option, label, title }) => {
+    const { searchOptions, setSearchOptions } = useNotebook();
+    const on = searchOptions[option];
+    return (
+        <button
+            onClick={() => setSearchOptions({ ...searchOptions, [option]: !on })}
+            aria-pressed={on}
+            title={title}
+            className={`px-1.5 py-0.5 rounded text-xs font-mono ${on ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+        >
+            {label}
+        </button>
+    );
+};
+
+// Find (and replace) across the notebook. Enter and Shift+Enter move between matches; in the
+// replace field Enter replaces the current match and Ctrl+Alt+Enter replaces all.
+export const FindReplaceBar: React.FC = () => {
+    const {
+        findBar, openFind, closeFind, globalSearchTerm, setGlobalSearchTerm, searchOptions, searchRegex, searchError, searchMatches,
+        currentMatchIndex, setCurrentMatchIndex, setActiveCellId, replaceMatch, replaceAllMatches, permissions,
+    } = useNotebook();
+    const [replacement, setReplacement] = useState('');
+    // The first Enter goes to the current match rather than past it.
+    const [visited, setVisited] = useState(false);
+    const count = searchMatches.length;
+    const current = searchMatches[currentMatchIndex];
+    useRenderedHighlights();
+
+    useEffect(() => setVisited(false), [searchRegex]);
+
+    const reveal = (cellId: string | undefined) => {
+        pendingScroll = true;
+        // Matches without a highlight (e.g. where the browser lacks the Highlight API) still
+        // bring their cell into view.
+        setTimeout(() => {
+            if (!pendingScroll) return;
+            pendingScroll = false;
+            if (cellId) document.getElementById(`cell-${cellId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }, 100);
+    };
+
+    const goTo = (index: number) => {
+        if (count === 0) return;
+        const next = (index + count) % count;
+        setCurrentMatchIndex(next);
+        // A markdown cell shows its source while it is the active cell.
+        setActiveCellId(searchMatches[next].cellId);
+        setVisited(true);
+        reveal(searchMatches[next].cellId);
+    };
+
+    const step = (delta: number) => goTo(visited ? currentMatchIndex + delta : currentMatchIndex);
+
+    const replaceOne = () => {
+        replaceMatch(replacement);
+        setVisited(true);
+        reveal(current?.cellId);
+    };
+
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            closeFind();
+        }
+    };
+
+    const showReplace = findBar === 'replace' && permissions.canEdit;
+    const status = searchError ? 'Invalid regular expression' : !globalSearchTerm ? '' : count === 0 ? 'No results' : `${currentMatchIndex + 1} of ${count}`;
+
+    return (
+        <div
+            className="sticky top-0 z-30 flex gap-2 p-2 bg-gray-800 border border-gray-700 rounded-lg shadow-lg text-sm"
+            onClick={e => e.stopPropagation()}
+            onKeyDown={onKeyDown}
+        >
+            {permissions.canEdit && (
+                <button
+                    onClick={() => openFind(showReplace ? 'find' : 'replace')}
+                    className="self-start px-1 py-1 text-gray-400 hover:text-white"
+                    title={showReplace ? 'Hide replace' : 'Show replace'}
+                >
+                    {showReplace ? '▾' : '▸'}
+                </button>
+            )}
+            <div className="flex-grow space-y-2 min-w-0">
+                <div className="flex items-center gap-2">
+                    <input
+                        data-find-input
+                        value={globalSearchTerm}
+                        onChange={e => setGlobalSearchTerm(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key !== 'Enter') return;
+                            e.preventDefault();
+                            step(e.shiftKey ? -1 : 1);
+                        }}
+                        placeholder="Find in notebook"
+                        className={`flex-grow min-w-0 bg-gray-900 border rounded px-2 py-1 outline-none ${searchError ? 'border-red-500' : 'border-gray-700 focus:border-blue-500'}`}
+                        title={searchError || undefined}
+                    />
+                    <OptionToggle option="matchCase" label="Aa" title="Match case" />
+                    <OptionToggle option="wholeWord" label="ab" title="Match whole word" />
+                    <OptionToggle option="regex" label=".*" title="Use regular expression" />
+                    <OptionToggle option="includeOutputs" label="Out" title="Also search outputs" />
+                    <span className={`w-24 text-xs text-center whitespace-nowrap ${searchError ? 'text-red-400' : 'text-gray-400'}`}>{status}</span>
+                    <button onClick={() => step(-1)} disabled={count === 0} className="px-1 text-gray-400 enabled:hover:text-white disabled:opacity-40" title="Previous match (Shift+Enter)">↑</button>
+                    <button onClick={() => step(1)} disabled={count === 0} className="px-1 text-gray-400 enabled:hover:text-white disabled:opacity-40" title="Next match (Enter)">↓</button>
+                    <button onClick={closeFind} className="px-1 text-gray-400 hover:text-white" title="Close (Escape)">✕</button>
+                </div>
+                {showReplace && (
+                    <div className="flex items-center gap-2">
+                        <input
+                            value={replacement}
+                            onChange={e => setReplacement(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key !== 'Enter') return;
+                                e.preventDefault();
+                                if (e.ctrlKey && e.altKey) replaceAllMatches(replacement);
+                                else replaceOne();
+                            }}
+                            placeholder={searchOptions.regex ? 'Replace ($1, $<name> for groups)' : 'Replace'}
+                            className="flex-grow min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+                        />
+                        <button onClick={replaceOne} disabled={count === 0 || current === undefined} className="px-2 py-0.5 rounded bg-gray-700 enabled:hover:bg-gray-600 disabled:opacity-40" title="Replace (Enter)">Replace</button>
+                        <button onClick={() => replaceAllMatches(replacement)} disabled={count === 0} className="px-2 py-0.5 rounded bg-gray-700 enabled:hover:bg-gray-600 disabled:opacity-40" title="Replace all (Ctrl+Alt+Enter)">Replace all</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
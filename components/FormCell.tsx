@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneralCellProps } from '../types';
+import { CellControls, CellOutputDisplay, CellStatusIndicator, CommentSection, ExpandedCellType, HiddenCellPart, useNotebook } from './Notebook';
+import { useWorkspaceEntries } from './FileBrowser';
+import { FormContent, FormValue, FormWidget, parseFormSchema, widgetValue } from '../services/formCells';
+import { fileExtension } from '../services/vfs';
+
+// Dragging a slider or typing waits this long before the form and its dependents re-run.
+const RERUN_DELAY_MS = 400;
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 outline-none focus:border-blue-500 disabled:opacity-60';
+
+// Workspace files with one of the widget's extensions. The value is the file's path.
+const FilePicker: React.FC<{ widget: FormWidget; value: string; disabled: boolean; onChange: (value: string) => void }> = ({ widget, value, disabled, onChange }) => {
+    const { entries } = useWorkspaceEntries();
+    const files = (entries || []).filter(entry => entry.kind === 'file' && (!widget.accept?.length || widget.accept.includes(fileExtension(entry.path))));
+    return (
+        <select value={value} disabled={disabled} onChange={e => onChange(e.target.value)} className={`${inputClass} flex-grow font-mono`}>
+            <option value="">(no file)</option>
+            {value && entries && !files.some(f => f.path === value) && <option value={value}>{value} (missing)</option>}
+            {files.map(file => <option key={file.path} value={file.path}>{file.path}</option>)}
+        </select>
+    );
+};
+
+const WidgetInput: React.FC<{ widget: FormWidget; value: FormValue; disabled: boolean; onChange: (value: FormValue) => void }> = ({ widget, value, disabled, onChange }) => {
+    switch (widget.kind) {
+        case 'slider':
+            return (
+                <span className="flex items-center gap-2 flex-grow">
+                    <input
+                        type="range"
+                        min={widget.min ?? 0}
+                        max={widget.max ?? 100}
+                        step={widget.step ?? 1}
+                        value={Number(value)}
+                        disabled={disabled}
+                        onChange={e => onChange(Number(e.target.value))}
+                        className="flex-grow accent-blue-500"
+                    />
+                    <span className="w-14 text-right font-mono text-sm text-gray-300">{String(value)}</span>
+                </span>
+            );
+        case 'checkbox':
+            return <input type="checkbox" checked={!!value} disabled={disabled} onChange={e => onChange(e.target.checked)} />;
+        case 'dropdown':
+            return (
+                <select value={String(value)} disabled={disabled} onChange={e => onChange(e.target.value)} className={`${inputClass} flex-grow`}>
+                    {(widget.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+        case 'date':
+            return <input type="date" value={String(value)} disabled={disabled} onChange={e => onChange(e.target.value)} className={inputClass} />;
+        case 'file':
+            return <FilePicker widget={widget} value={String(value)} disabled={disabled} onChange={onChange} />;
+        default:
+            return <input value={String(value)} disabled={disabled} onChange={e => onChange(e.target.value)} className={`${inputClass} flex-grow`} />;
+    }
+};
+
+// Widgets bound to kernel variables. Running the cell assigns the values; with "re-run on
+// change" every edit also re-runs the cells that read them. The schema is a JSON list of
+// widgets, edited in place.
+export const FormCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent }) => {
+    const { id, outputs, status, stale, executionCount, executionTime, comments, metadata } = cell;
+    const content: FormContent = { widgets: [], values: {}, ...cell.content };
+    const { canEditCell, getCellKernel, permissions, rerunForm } = useNotebook();
+    const [isHovered, setIsHovered] = useState(false);
+    const [schemaDraft, setSchemaDraft] = useState<string | null>(null);
+    const [schemaError, setSchemaError] = useState<string | null>(null);
+    const rerunTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+    const editable = canEditCell(cell);
+    const kernel = getCellKernel(id);
+    // The kernel's echo of the last assignment isn't worth showing; errors are.
+    const errors = (outputs || []).filter((o: any) => o.type === 'error');
+
+    useEffect(() => () => clearTimeout(rerunTimer.current), []);
+
+    const setValue = (name: string, value: FormValue) => {
+        onUpdateContent({ ...content, values: { ...content.values, [name]: value } }, true);
+        if (!content.autoRun || !permissions.canExecute) return;
+        clearTimeout(rerunTimer.current);
+        rerunTimer.current = setTimeout(() => rerunForm(id), RERUN_DELAY_MS);
+    };
+
+    const applySchema = () => {
+        try {
+            const widgets = parseFormSchema(schemaDraft || '[]');
+            // Values of widgets that are gone are dropped.
+            const values = Object.fromEntries(Object.entries(content.values || {}).filter(([name]) => widgets.some(w => w.name === name)));
+            onUpdateContent({ ...content, widgets, values }, true);
+            setSchemaDraft(null);
+            setSchemaError(null);
+        } catch (e: any) {
+            setSchemaError(e.message);
+        }
+    };
+
+    return (
+        <div
+            id={`cell-${id}`}
+            className={`relative p-3 rounded-lg border ${isEditing ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700'} ${isHovered ? 'bg-gray-800/50' : ''}`}
+            onClick={onFocus}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+        >
+            {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Form} className="absolute top-2 right-2 z-20" />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2 flex-wrap">
+                <span>🎛️</span> Form
+                <span className="text-xs font-normal text-gray-500">{kernel?.name || 'no kernel'}</span>
+                <CellStatusIndicator status={status} executionCount={executionCount} executionTime={executionTime} stale={stale} />
+                <span className="flex items-center gap-2 text-xs font-normal ml-auto mr-36" onClick={e => e.stopPropagation()}>
+                    <label className="flex items-center gap-1 text-gray-400" title="Re-run the cells that read these variables whenever a value changes">
+                        <input type="checkbox" checked={!!content.autoRun} disabled={!editable} onChange={e => onUpdateContent({ ...content, autoRun: e.target.checked }, true)} /> Re-run on change
+                    </label>
+                    {editable && !metadata?.hideCode && (
+                        <button
+                            onClick={() => { setSchemaDraft(schemaDraft === null ? JSON.stringify(content.widgets, null, 2) : null); setSchemaError(null); }}
+                            className="bg-gray-700 hover:bg-gray-600 text-gray-300 rounded px-2 py-0.5"
+                        >
+                            {schemaDraft === null ? 'Edit schema' : 'Cancel'}
+                        </button>
+                    )}
+                </span>
+            </h3>
+            {metadata?.hideCode ? <HiddenCellPart cellId={id} part="code" /> : schemaDraft !== null && (
+                <div className="mb-3" onClick={e => e.stopPropagation()}>
+                    <textarea
+                        value={schemaDraft}
+                        onChange={e => setSchemaDraft(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); applySchema(); } }}
+                        rows={Math.min(20, Math.max(4, schemaDraft.split('\n').length))}
+                        spellCheck={false}
+                        className="w-full bg-gray-900 text-gray-200 p-3 rounded-md border border-gray-700 focus:outline-none focus:border-blue-500 font-mono text-xs"
+                    />
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className="text-gray-500 flex-grow">
+                            Each widget has a <code>name</code> (the variable) and a <code>kind</code>: slider, text, dropdown, checkbox, date or file.
+                            Optional: <code>label</code>, <code>default</code>, <code>min</code>/<code>max</code>/<code>step</code>, <code>options</code>, <code>accept</code>.
+                        </span>
+                        <button onClick={applySchema} className="bg-blue-600 hover:bg-blue-700 text-white rounded px-3 py-1">Apply</button>
+                    </div>
+                    {schemaError && <div className="text-xs text-red-400 mt-1">{schemaError}</div>}
+                </div>
+            )}
+            <div className="space-y-2">
+                {content.widgets.length === 0 && <div className="text-sm text-gray-500 italic">No widgets. Use Edit schema to add some.</div>}
+                {content.widgets.map(widget => (
+                    <label key={widget.name} className="flex items-center gap-3">
+                        <span className="w-40 flex-shrink-0 text-sm text-gray-300 truncate" title={widget.name}>
+                            {widget.label || widget.name}
+                            {widget.label && <span className="ml-1 font-mono text-xs text-gray-500">{widget.name}</span>}
+                        </span>
+                        <WidgetInput widget={widget} value={widgetValue(content, widget)} disabled={!editable} onChange={value => setValue(widget.name, value)} />
+                    </label>
+                ))}
+            </div>
+            {errors.length > 0 && (metadata?.hideOutput ? <HiddenCellPart cellId={id} part="output" /> : <CellOutputDisplay outputs={errors} className="mt-2 text-sm" />)}
+            <CommentSection comments={comments} cellId={id} />
+        </div>
+    );
+};
@@ -0,0 +1,131 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useNotebook } from './Notebook';
+import { useCommands } from './CommandPalette';
+import { DEFAULT_KEYBINDINGS, eventToChord, formatKeySequence, keysForCommand, resolveKeybindings } from '../services/keybindings';
+
+const SEQUENCE_GAP_MS = 1000;
+
+const Keys: React.FC<{ keys: string[] }> = ({ keys }) => (
+    <span className="flex flex-wrap gap-1">
+        {keys.length === 0 && <span className="text-xs text-gray-600">—</span>}
+        {keys.map(key => <kbd key={key} className="px-1.5 py-0.5 bg-gray-900 border border-gray-600 rounded text-[11px] text-gray-300 font-mono">{formatKeySequence(key)}</kbd>)}
+    </span>
+);
+
+// Lists every command with its keys. A binding is changed by recording it: press the keys (a
+// second chord within a second makes a sequence such as `D D`), then save.
+export const KeyboardShortcutsDialog: React.FC = () => {
+    const { setShortcutsDialogOpen, keybindings, setKeybinding } = useNotebook();
+    const commands = useCommands();
+    const [filter, setFilter] = useState('');
+    const [recording, setRecording] = useState<{ commandId: string; chords: string[] } | null>(null);
+    const lastChordAt = useRef(0);
+
+    const defaults = useMemo(() => {
+        const declared = commands.filter(c => c.shortcut).map(c => ({ key: c.shortcut!, command: c.id }));
+        return resolveKeybindings([...DEFAULT_KEYBINDINGS, ...declared], {});
+    }, [commands]);
+
+    const rows = useMemo(() => {
+        const q = filter.trim().toLowerCase();
+        return commands
+            .map(command => ({ command, keys: keysForCommand(keybindings, command.id) }))
+            .filter(({ command, keys }) => !q
+                || `${command.category || ''} ${command.label} ${command.id}`.toLowerCase().includes(q)
+                || keys.some(k => k.toLowerCase().includes(q)))
+            .sort((a, b) => (a.command.category || '').localeCompare(b.command.category || '') || a.command.label.localeCompare(b.command.label));
+    }, [commands, keybindings, filter]);
+
+    const close = () => setShortcutsDialogOpen(false);
+
+    const record = (e: React.KeyboardEvent) => {
+        if (!recording) return;
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.key === 'Escape' && recording.chords.length === 0) {
+            setRecording(null);
+            return;
+        }
+        const chord = eventToChord(e.nativeEvent);
+        if (!chord) return;
+        const append = Date.now() - lastChordAt.current < SEQUENCE_GAP_MS && recording.chords.length === 1;
+        lastChordAt.current = Date.now();
+        setRecording({ ...recording, chords: append ? [...recording.chords, chord] : [chord] });
+    };
+
+    const recorded = recording?.chords.join(' ') || '';
+    const conflict = recorded ? keybindings.find(b => b.key === recorded && b.command !== recording!.commandId) : undefined;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center pt-20" onClick={close} onKeyDown={e => { if (e.key === 'Escape' && !recording) close(); }}>
+            <div className="w-full max-w-2xl bg-gray-800 rounded-lg shadow-2xl border border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3 p-4 border-b border-gray-700">
+                    <h2 className="font-bold text-lg">Keyboard Shortcuts</h2>
+                    <input
+                        autoFocus
+                        value={filter}
+                        onChange={e => setFilter(e.target.value)}
+                        placeholder="Search commands or keys..."
+                        className="flex-grow bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm outline-none focus:border-blue-500"
+                    />
+                    <button onClick={close} className="text-gray-400 hover:text-white" title="Close">✕</button>
+                </div>
+                <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-700">
+                    Command mode (Esc) acts on the active cell; edit mode (Enter) types into it. Ctrl also matches ⌘ on macOS.
+                </div>
+                <div className="max-h-[28rem] overflow-y-auto p-2">
+                    {rows.map(({ command, keys }) => {
+                        const isRecording = recording?.commandId === command.id;
+                        const customised = keys.join('|') !== keysForCommand(defaults, command.id).join('|');
+                        return (
+                            <div key={command.id} className="flex items-center gap-3 px-2 py-1.5 rounded hover:bg-gray-700/50 text-sm">
+                                <div className="min-w-0 flex-grow">
+                                    <span className="text-gray-500">{command.category ? `${command.category}: ` : ''}</span>
+                                    <span className="text-gray-200">{command.label}</span>
+                                    {customised && <span className="ml-2 text-[10px] text-blue-400 uppercase">custom</span>}
+                                </div>
+                                {isRecording ? (
+                                    <div className="flex items-center gap-2">
+                                        <div
+                                            tabIndex={0}
+                                            ref={el => el?.focus()}
+                                            data-native-keys
+                                            onKeyDown={record}
+                                            className="min-w-[8rem] px-2 py-0.5 border border-blue-500 rounded bg-gray-900 text-xs font-mono text-blue-300 outline-none"
+                                        >
+                                            {recorded ? formatKeySequence(recorded) : 'Press keys...'}
+                                        </div>
+                                        {conflict && <span className="text-[11px] text-orange-400" title={`Also bound to ${conflict.command}`}>in use</span>}
+                                        <button
+                                            disabled={!recorded}
+                                            onClick={() => { setKeybinding(command.id, [...keys.filter(k => k !== recorded), recorded]); setRecording(null); }}
+                                            className="text-xs text-green-400 hover:text-green-300 disabled:opacity-40"
+                                        >
+                                            Add
+                                        </button>
+                                        <button
+                                            disabled={!recorded}
+                                            onClick={() => { setKeybinding(command.id, [recorded]); setRecording(null); }}
+                                            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40"
+                                        >
+                                            Replace
+                                        </button>
+                                        <button onClick={() => setRecording(null)} className="text-xs text-gray-400 hover:text-white">Cancel</button>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <Keys keys={keys} />
+                                        <button onClick={() => setRecording({ commandId: command.id, chords: [] })} className="text-xs text-gray-400 hover:text-white" title="Record a new key binding">Edit</button>
+                                        {keys.length > 0 && <button onClick={() => setKeybinding(command.id, [])} className="text-xs text-gray-400 hover:text-red-400" title="Remove all keys for this command">Clear</button>}
+                                        {customised && <button onClick={() => setKeybinding(command.id, null)} className="text-xs text-gray-400 hover:text-white" title="Restore the default keys">Reset</button>}
+                                    </>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {rows.length === 0 && <div className="text-sm text-gray-500 p-4 text-center italic">No matching commands</div>}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,60 @@
-import React, { useState, useEffect, useRef, createContext, useContext, useCallback } from 'react';
+import React, { useState, useEffect, useRef, createContext, useContext, useCallback, useMemo, useSyncExternalStore } from 'react';
 import { Cell, CellType, GeneralCellProps } from '../types';
 import CodeCell from './CodeCell';
+import { KernelManager, resolveKernelInfo } from '../services/kernels/kernelManager';
+import { KernelStatus, VariablePath, VariableSummary, VariableTable } from '../services/kernels/protocol';
+import { fromIpynb, resolveAttachments, serializeIpynb } from '../services/nbformat';
+import { sanitizeHtml } from '../services/sanitizeHtml';
+import { getLastNotebookId, getNotebookStorage, setLastNotebookId, toStorableNotebook } from '../services/storage';
+import { NotebookListDialog } from './NotebookListDialog';
+import { applyCommand, commandCellId, HistoryCommand, HistoryStack } from '../services/history';
+import { recordVersion } from '../services/cellVersions';
+import { CellHistoryPanel } from './CellHistoryPanel';
+import { analyzeCell, findDownstreamCells } from '../services/dependencies';
+import { OutputView } from './OutputRenderers';
+import { defaultChartSpec, normalizeChartSpec, resolveChartData } from '../services/charts';
+import { chartDragImage, chartSvgMarkup, ChartView, exportChartPng, exportChartSvg } from './ChartView';
+import { ChartBuilder } from './ChartBuilder';
+import { DataGrid } from './DataGrid';
+import { DataTable, dataTableName, importTableFile, notebookTables, tableBindingSource, tableToJson, toDelimited, toIdentifier } from '../services/dataTable';
+import { getSchema, runQuery, sqlParameterNames, SqlTableSchema, syncTables, toDataframeOutput } from '../services/sqlEngine';
+import SQLCell from './SQLCell';
+import { AIAssistantPanel } from './AIAssistantPanel';
+import { ChatMessages, CodeBlockAction } from './ChatMessages';
+import { MOCK_AI_KERNEL_ID, resolveAIProvider } from '../services/ai/aiManager';
+import { ChatMessage, isAbortError } from '../services/ai/provider';
+import { buildNotebookContext, cellSource, codeBlockToCell, systemMessage } from '../services/ai/notebookContext';
+import { executeCommand, getCommand, getCommands, registerCommands, subscribeCommands, getCommandsVersion } from '../services/commands';
+import { DEFAULT_KEYBINDINGS, eventToChord, FocusMode, Keybinding, KeybindingOverrides, KeySequenceMatcher, loadKeybindingOverrides, resolveKeybindings, saveKeybindingOverrides } from '../services/keybindings';
+import { builtinCommands } from '../services/notebookCommands';
+import { CommandPalette } from './CommandPalette';
+import { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog';
+import { PluginsPanel } from './PluginsPanel';
+import { deactivateAllPlugins, getPluginCellType, getPluginSidebarPanels, getPluginToolbarButtons, getPlugins, pluginConfig, pluginPanelKey, reportPluginError, syncPlugins, usePluginRegistry } from '../services/plugins/pluginManager';
+import { PluginCellType } from '../services/plugins/plugin';
+import { CollabHost, CollabOptions, CollabSession, CollabSessionInfo, CollabStatus, PeerPresence, saveCollabUser } from '../services/collab/session';
+import { createTransport } from '../services/collab/transports';
+import { CollaborationDialog } from './CollaborationDialog';
+import { CellPresence, PeerAvatar, RemoteCursors, usePreservedSelection } from './RemoteCursors';
+import { addReply, createComment, newMentions, setThreadResolved } from '../services/comments';
+import { CommentThreads } from './CommentThreads';
+import { CommentsPanel } from './CommentsPanel';
+import { canChangeCellVisibility, canEditCell, canSeeCell, NotebookPermissions, resolvePermissions, resolveRole } from '../services/permissions';
+import { ShareDialog } from './ShareDialog';
+import { ExportFormat, ExportOptions, toHtml, toMarkdown } from '../services/notebookExport';
+import { CellFlag, cellSummary, cellTags, hasTag, injectedParametersSource, INJECTED_PARAMETERS_TAG, matchesTagFilter, normalizeTag, NotebookParameter, PARAMETERS_TAG, SKIP_TAGS, tagCounts, WELL_KNOWN_TAGS } from '../services/cellMetadata';
+import { ParametersDialog } from './ParametersDialog';
+import { FormCell } from './FormCell';
+import { TerminalCell } from './TerminalCell';
+import { DrawingCell } from './DrawingCell';
+import { IMAGE_DRAG_MIME } from '../services/drawing';
+import { formBindingSource, formVariables, parseWidgetValue } from '../services/formCells';
+import { DEFAULT_SEARCH_OPTIONS, findMatches, replaceRanges, SearchMatch, SearchOptions, searchPattern, sourceText, withSourceText } from '../services/findReplace';
+import { FindReplaceBar, SearchHighlights } from './FindReplaceBar';
+import { VariableInspector, VariableViewer } from './VariableInspector';
+import { FileBrowser, FileBrowserCell, FilePreview, WORKSPACE_PATH_MIME } from './FileBrowser';
+import { fileCellFor } from '../services/fileCells';
+import { baseName, readWorkspaceFile } from '../services/vfs';
 
 // --- Begin Expanded Universe ---
 
@@ -32,6 +86,7 @@ export interface EnhancedCell extends Cell {
     outputs?: any[];
     executionCount?: number;
     status?: 'idle' | 'running' | 'error' | 'success' | 'queued';
+    stale?: boolean; // A cell this one depends on changed or re-ran since it last ran
     language?: string;
     metadata?: {
         collapsed?: boolean;
@@ -49,6 +104,8 @@ export interface EnhancedCell extends Cell {
     visibility?: 'public' | 'private' | 'restricted' | 'team';
     lastModified?: string;
     createdAt?: string;
+    attachments?: Record<string, Record<string, string | string[]>>; // nbformat-style, keyed by file name then MIME type
+    versions?: CellVersion[];
 }
 
 export interface CellVersion {
@@ -67,6 +124,15 @@ export interface CellComment {
     text: string;
     resolved?: boolean;
     replies?: CellComment[];
+    mentions?: string[]; // Names of the users @mentioned in the text
+    anchor?: CommentAnchor; // Only on the first comment of a thread
+}
+
+// A range of a cell's text a comment thread refers to; `text` is what was selected.
+export interface CommentAnchor {
+    start: number;
+    end: number;
+    text: string;
 }
 
 export interface UserProfile {
@@ -97,6 +163,9 @@ export interface NotebookMetadata {
     integrations?: { [service: string]: { enabled: boolean; config: any; }; };
 }
 
+// What happens to dependent cells after a cell runs: nothing, flag them as stale, or re-run them.
+export type ReactiveMode = 'off' | 'stale' | 'auto';
+
 export interface KernelInfo {
     id: string;
     name: string;
@@ -128,6 +197,9 @@ export interface Command {
 
 // --- 2. Contexts for Global State and Actions ---
 
+// Built-in sidebar tabs, plus panels contributed by plugins (`plugin:<pluginId>/<panelId>`).
+export type SidebarPanel = 'outline' | 'variables' | 'files' | 'comments' | 'plugins' | `plugin:${string}`;
+
 export interface NotebookContextType {
     notebookId: string;
     cells: EnhancedCell[];
@@ -144,18 +216,106 @@ export interface NotebookContextType {
     deleteCell: (cellId: string) => void;
     moveCell: (fromIndex: number, toIndex: number) => void;
     runAllCells: () => Promise<void>;
+    runCells: (cellIds: string[]) => Promise<void>;
+    runCellsAbove: (cellId: string) => Promise<void>;
+    runCellsBelow: (cellId: string) => Promise<void>;
+    rerunForm: (cellId: string) => Promise<void>;
+    runSelectedCells: () => Promise<void>;
+    selectedCellIds: string[];
+    toggleCellSelection: (cellId: string) => void;
+    setSelectedCellIds: (ids: string[]) => void;
+    interruptKernel: (kernelId?: string) => Promise<void>;
+    restartKernel: (kernelId?: string) => Promise<void>;
+    getCellKernel: (cellId: string) => KernelInfo | undefined;
     undo: () => void;
     redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    historyCellId: string | null;
+    openCellHistory: (cellId: string | null) => void;
+    commitCellVersion: (cellId: string, message?: string) => void;
+    restoreCellVersion: (cellId: string, versionIndex: number) => void;
     commandPaletteOpen: boolean;
     setCommandPaletteOpen: (open: boolean) => void;
     aiAssistantOpen: boolean;
     setAiAssistantOpen: (open: boolean) => void;
     globalSearchTerm: string;
     setGlobalSearchTerm: (term: string) => void;
+    findBar: 'find' | 'replace' | null;
+    openFind: (mode: 'find' | 'replace') => void;
+    closeFind: () => void;
+    searchOptions: SearchOptions;
+    setSearchOptions: (options: SearchOptions) => void;
+    // Null while there is no search term or it is an invalid regex (see searchError).
+    searchRegex: RegExp | null;
+    searchError: string | null;
+    searchMatches: SearchMatch[];
+    currentMatchIndex: number;
+    setCurrentMatchIndex: (index: number) => void;
+    replaceMatch: (replacement: string) => void;
+    replaceAllMatches: (replacement: string) => void;
     saveNotebook: () => Promise<void>;
     loadNotebook: (notebookId: string) => Promise<void>;
-    toggleSidebarPanel: (panel: 'outline' | 'variables' | 'files' | 'plugins') => void;
-    activeSidebarPanel: 'outline' | 'variables' | 'files' | 'plugins';
+    newNotebook: () => Promise<void>;
+    isDirty: boolean;
+    notebookListOpen: boolean;
+    setNotebookListOpen: (open: boolean) => void;
+    importNotebook: (file: File) => Promise<void>;
+    exportNotebook: (format?: ExportFormat) => void;
+    printNotebook: () => void;
+    toggleSidebarPanel: (panel: SidebarPanel) => void;
+    activeSidebarPanel: SidebarPanel;
+    sqlSchema: SqlTableSchema[];
+    // Counts finished kernel executions, so views of kernel state know when to refresh.
+    kernelRuns: number;
+    inspectVariables: (kernelId: string, path?: VariablePath) => Promise<VariableSummary[]>;
+    getVariableTable: (kernelId: string, path: VariablePath, limit: number) => Promise<VariableTable | null>;
+    variableViewer: { kernelId: string; path: VariablePath } | null;
+    setVariableViewer: (target: { kernelId: string; path: VariablePath } | null) => void;
+    // Path of the workspace file shown in the preview dialog.
+    filePreview: string | null;
+    setFilePreview: (path: string | null) => void;
+    openWorkspaceNotebook: (path: string) => Promise<void>;
+    // Adds a cell for a workspace file at `index`, or below the active cell.
+    insertWorkspaceFile: (path: string, index?: number) => Promise<void>;
+    cancelAIRequest: (cellId: string) => void;
+    changeCellType: (cellId: string, type: ExpandedCellType) => void;
+    setCellFlag: (cellId: string, flag: CellFlag, value: boolean) => void;
+    setCellTags: (cellId: string, tags: string[]) => void;
+    tagFilter: string[];
+    setTagFilter: (tags: string[]) => void;
+    tagEditorCellId: string | null;
+    setTagEditorCellId: (cellId: string | null) => void;
+    parametersDialogOpen: boolean;
+    setParametersDialogOpen: (open: boolean) => void;
+    runWithParameters: (overrides: NotebookParameter[]) => Promise<void>;
+    keyMode: FocusMode;
+    keybindings: Keybinding[];
+    setKeybinding: (commandId: string, keys: string[] | null) => void;
+    shortcutsDialogOpen: boolean;
+    setShortcutsDialogOpen: (open: boolean) => void;
+    collabStatus: CollabStatus;
+    collabPeers: PeerPresence[];
+    collabSession: CollabSessionInfo | null;
+    startCollaboration: (options: CollabOptions) => void;
+    stopCollaboration: () => void;
+    collabDialogOpen: boolean;
+    setCollabDialogOpen: (open: boolean) => void;
+    permissions: NotebookPermissions;
+    setViewerMode: (on: boolean) => void;
+    canEditCell: (cell: EnhancedCell) => boolean;
+    canSeeCell: (cell: EnhancedCell) => boolean;
+    shareDialogOpen: boolean;
+    setShareDialogOpen: (open: boolean) => void;
+    updateSharing: (changes: Partial<Pick<NotebookMetadata, 'visibility' | 'sharedWith'>>) => void;
+    setCellVisibility: (cellId: string, visibility: EnhancedCell['visibility']) => void;
+    currentUserName: string;
+    commentDraft: { cellId: string; anchor?: CommentAnchor } | null;
+    setCommentDraft: (draft: { cellId: string; anchor?: CommentAnchor } | null) => void;
+    startComment: (cellId: string) => void;
+    addComment: (cellId: string, text: string, anchor?: CommentAnchor) => void;
+    replyToComment: (cellId: string, threadId: string, text: string) => void;
+    setCommentResolved: (cellId: string, threadId: string, resolved: boolean) => void;
 }
 
 export const NotebookContext = createContext<NotebookContextType | undefined>(undefined);
@@ -170,6 +330,22 @@ export const useNotebook = () => {
 
 // --- 3. Helper Functions and Utilities ---
 
+// Cell types that take part in run-all, run-above/below and reactive re-runs.
+export const RUNNABLE_CELL_TYPES: string[] = [ExpandedCellType.Code, ExpandedCellType.SQL, ExpandedCellType.Form];
+
+// Cell types whose content is plain source text and can be converted into one another.
+export const TEXT_CELL_TYPES: string[] = [ExpandedCellType.Code, ExpandedCellType.Markdown, ExpandedCellType.SQL];
+
+// Keyboard mode for a focused element: cell editors are in edit mode, other fields (and anything
+// marked data-native-keys) keep their own keys, and everything else is command mode.
+export const focusMode = (target: HTMLElement | null): FocusMode => {
+    if (!target || target === document.body) return 'command';
+    if (target.closest('[data-native-keys]')) return 'other';
+    const editable = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+    if (!editable) return 'command';
+    return target.closest('[id^="cell-"]') ? 'edit' : 'other';
+};
+
 export const generateUniqueId = (prefix: string = 'id') => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
 export const debounce = (func: Function, delay: number) => {
@@ -180,17 +356,31 @@ export const debounce = (func: Function, delay: number) => {
     };
 };
 
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 export const applyTheme = (themeName: string) => {
     document.documentElement.setAttribute('data-theme', themeName);
     // document.body.className = `theme-${themeName} bg-gray-900 text-white min-h-screen font-sans`; 
 };
 
+// SQL cells run on this engine unless they target another SQL kernel that can be reached.
+export const SQLITE_KERNEL_ID = 'sqlite-wasm';
+
 export const getAvailableKernels = (): KernelInfo[] => {
     return [
         { id: 'python-3.10', name: 'Python 3.10', language: 'python', status: 'idle', version: '3.10.6', capabilities: ['dataframe', 'plots', 'ai-integration'], supportedCellTypes: [ExpandedCellType.Code, ExpandedCellType.Data, ExpandedCellType.Visualization] },
         { id: 'javascript-node', name: 'Node.js', language: 'javascript', status: 'idle', version: '18.12.1', capabilities: ['web-component', 'terminal'], supportedCellTypes: [ExpandedCellType.Code, ExpandedCellType.WebComponent, ExpandedCellType.Terminal] },
+        { id: SQLITE_KERNEL_ID, name: 'SQLite (in-browser)', language: 'sql', status: 'idle', version: '3.49', capabilities: ['database-query'], supportedCellTypes: [ExpandedCellType.SQL] },
         { id: 'sql-postgres', name: 'PostgreSQL', language: 'sql', status: 'idle', version: '14.5', capabilities: ['database-query'], supportedCellTypes: [ExpandedCellType.SQL] },
         { id: 'openai-gpt4', name: 'GPT-4', language: 'ai', status: 'idle', version: '4.0', capabilities: ['text-generation', 'code-generation', 'analysis'], supportedCellTypes: [ExpandedCellType.AIChat] },
+        { id: MOCK_AI_KERNEL_ID, name: 'Echo (offline)', language: 'ai', status: 'idle', version: '1.0', capabilities: ['text-generation'], supportedCellTypes: [ExpandedCellType.AIChat] },
     ];
 };
 
@@ -232,15 +422,15 @@ export const getMarkdownHeadings = (markdownContent: string) => {
 // --- 4. Sub-components ---
 
 export const MarkdownCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent }) => {
-    const { id, content, comments } = cell;
+    const { id, content, comments, attachments, metadata } = cell;
     const [isHovered, setIsHovered] = useState(false);
     const [editorContent, setEditorContent] = useState(content);
+    // Hidden code keeps the editor away even while the cell is active.
+    const showEditor = isEditing && !metadata?.hideCode;
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
 
     useEffect(() => { setEditorContent(content); }, [content]);
-
-    const handleContentChange = useCallback(debounce((value: string) => {
-        onUpdateContent(value, true);
-    }, 500), [onUpdateContent]);
+    usePreservedSelection(textareaRef, editorContent);
 
     return (
         <div
@@ -251,29 +441,53 @@ export const MarkdownCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFo
             onMouseLeave={() => setIsHovered(false)}
         >
             {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Markdown} className="absolute top-2 right-2 z-10" />}
-            {isEditing ? (
-                <textarea
-                    className="w-full bg-gray-800 text-white p-2 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono text-sm"
-                    value={editorContent}
-                    onChange={(e) => {
-                        setEditorContent(e.target.value);
-                        handleContentChange(e.target.value);
-                    }}
-                    rows={Math.max(3, editorContent.split('\n').length + 1)}
-                />
-            ) : (
-                <div className="prose prose-invert max-w-none break-words" dangerouslySetInnerHTML={{ __html: (window as any).marked ? (window as any).marked.parse(content || '') : content }}></div>
+            {isEditing && metadata?.hideCode && <HiddenCellPart cellId={id} part="code" />}
+            {showEditor ? (
+                <>
+                    <textarea
+                        ref={textareaRef}
+                        data-collab-text
+                        className="w-full bg-gray-800 text-white p-2 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 font-mono text-sm"
+                        value={editorContent}
+                        onChange={(e) => {
+                            setEditorContent(e.target.value);
+                            onUpdateContent(e.target.value, true);
+                        }}
+                        rows={Math.max(3, editorContent.split('\n').length + 1)}
+                    />
+                    <RemoteCursors cellId={id} text={editorContent} textareaRef={textareaRef} />
+                    <SearchHighlights cellId={id} text={editorContent} textareaRef={textareaRef} />
+                </>
+            ) : metadata?.hideOutput ? <HiddenCellPart cellId={id} part="output" /> : (
+                <div data-search-output className="prose prose-invert max-w-none break-words" dangerouslySetInnerHTML={{ __html: sanitizeHtml((window as any).marked ? (window as any).marked.parse(resolveAttachments(content || '', attachments)) : content || '') }}></div>
             )}
-            {comments && comments.length > 0 && <CommentSection comments={comments} cellId={id} />}
+            <CommentSection comments={comments} cellId={id} />
         </div>
     );
 };
 
-export const DataCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus }) => {
-    const { id, content, comments } = cell;
+export const DataCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent }) => {
+    const { id, content, comments, metadata } = cell;
+    const { addNotification, canEditCell } = useNotebook();
     const [isHovered, setIsHovered] = useState(false);
-    const displayData = content?.data || [];
-    const columns = content?.columns || [];
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const table: DataTable = useMemo(() => ({ columns: content?.columns || [], data: content?.data || [] }), [content?.columns, content?.data]);
+    const name = dataTableName(cell);
+
+    const importFile = async (file: File) => {
+        try {
+            const imported = await importTableFile(file);
+            onUpdateContent({ ...content, ...imported, name: content?.name || toIdentifier(file.name) }, true);
+            addNotification({ type: 'success', message: `Imported ${imported.data.length.toLocaleString()} rows from ${file.name}` });
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Could not import ${file.name}: ${e.message}` });
+        }
+    };
+
+    const exportAs = (format: 'csv' | 'tsv' | 'json') => {
+        if (format === 'json') downloadFile(`${name}.json`, tableToJson(table), 'application/json');
+        else downloadFile(`${name}.${format}`, toDelimited(table, format === 'csv' ? ',' : '\t'), format === 'csv' ? 'text/csv' : 'text/tab-separated-values');
+    };
 
     return (
         <div
@@ -283,39 +497,63 @@ export const DataCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus
             onMouseEnter={() => setIsHovered(true)}
             onMouseLeave={() => setIsHovered(false)}
         >
-            {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Data} className="absolute top-2 right-2 z-10" />}
-            <h3 className="font-semibold mb-2 flex items-center">
-                <span className="mr-2">📊</span> Data Table <span className="text-gray-400 text-sm ml-2">({displayData.length} rows, {columns.length} columns)</span>
+            {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Data} className="absolute top-2 right-2 z-20" />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2 flex-wrap">
+                <span>📊</span> Data Table
+                <input
+                    value={content?.name ?? name}
+                    onChange={e => onUpdateContent({ ...content, name: e.target.value }, true)}
+                    onBlur={e => onUpdateContent({ ...content, name: toIdentifier(e.target.value || name) }, true)}
+                    onClick={e => e.stopPropagation()}
+                    className="bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs font-mono font-normal text-green-300 outline-none focus:border-blue-500 w-40"
+                    title="Name used to read this table from code and SQL cells"
+                />
+                <span className="text-gray-400 text-sm font-normal">({table.data.length.toLocaleString()} rows, {table.columns.length} columns)</span>
+                {!metadata?.hideCode && <span className="flex gap-1 text-xs font-normal ml-auto mr-28">
+                    <button onClick={(e) => { e.stopPropagation(); importInputRef.current?.click(); }} className="bg-gray-700 hover:bg-gray-600 text-gray-300 rounded px-2 py-0.5">Import</button>
+                    {(['csv', 'tsv', 'json'] as const).map(format => (
+                        <button key={format} onClick={(e) => { e.stopPropagation(); exportAs(format); }} className="bg-gray-700 hover:bg-gray-600 text-gray-300 rounded px-2 py-0.5 uppercase">{format}</button>
+                    ))}
+                </span>}
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".csv,.tsv,.tab,.txt,.json,text/csv,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importFile(file);
+                        e.target.value = '';
+                    }}
+                />
             </h3>
-            <div className="overflow-x-auto bg-gray-800 rounded-md p-2 max-h-80 border border-gray-700">
-                <table className="min-w-full text-sm text-left text-gray-400">
-                    <thead className="text-xs text-gray-300 uppercase bg-gray-700 sticky top-0">
-                        <tr>
-                            {columns.map((col: string, idx: number) => (
-                                <th key={idx} scope="col" className="px-6 py-3">{col}</th>
-                            ))}
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {displayData.slice(0, 10).map((row: any[], rowIndex: number) => (
-                            <tr key={rowIndex} className="bg-gray-800 border-b border-gray-700 hover:bg-gray-700">
-                                {row.map((val: any, colIndex: number) => (
-                                    <td key={colIndex} className="px-6 py-4">{String(val).substring(0, 50)}</td>
-                                ))}
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-            </div>
-            {comments && comments.length > 0 && <CommentSection comments={comments} cellId={id} />}
+            {metadata?.hideOutput
+                ? <HiddenCellPart cellId={id} part="output" />
+                : <DataGrid table={table} readOnly={!canEditCell(cell)} onChange={(next) => onUpdateContent({ ...content, ...next }, true)} />}
+            <CommentSection comments={comments} cellId={id} />
         </div>
     );
 };
 
 export const VisualizationCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent }) => {
-    const { id, content, comments } = cell;
+    const { id, content, comments, metadata } = cell;
+    const { cells, addNotification } = useNotebook();
     const [isHovered, setIsHovered] = useState(false);
-    
+    const svgRef = useRef<SVGSVGElement>(null);
+    const spec = useMemo(() => normalizeChartSpec(content?.chartSpec), [content?.chartSpec]);
+    const { rows, error } = useMemo(() => resolveChartData(spec, cells), [spec, cells]);
+    const filename = (spec.title || 'chart').replace(/[\\/:*?"<>|]+/g, '_');
+
+    const exportChart = async (format: 'svg' | 'png') => {
+        if (!svgRef.current) return;
+        try {
+            if (format === 'svg') exportChartSvg(svgRef.current, filename);
+            else await exportChartPng(svgRef.current, filename);
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Chart export failed: ${e.message}` });
+        }
+    };
+
     return (
         <div
             id={`cell-${id}`}
@@ -325,27 +563,76 @@ export const VisualizationCell: React.FC<GeneralCellProps> = ({ cell, isEditing,
             onMouseLeave={() => setIsHovered(false)}
         >
             {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Visualization} className="absolute top-2 right-2 z-10" />}
-            <h3 className="font-semibold mb-2">📈 Data Visualization</h3>
-             <div className="bg-gray-800 p-4 rounded-md h-64 flex flex-col items-center justify-center text-gray-400 text-center border border-gray-600 border-dashed">
-                <p className="text-lg font-bold mb-2">{content?.chartSpec?.title || 'Untitled Chart'}</p>
-                <p>Chart Type: {content?.chartSpec?.type || 'Bar'}</p>
-                <p className="text-xs mt-2">Visualization Placeholder</p>
-            </div>
-            {comments && comments.length > 0 && <CommentSection comments={comments} cellId={id} />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2">
+                📈 Data Visualization
+                <span className="text-xs font-normal text-gray-500">{spec.type} · {rows.length} rows</span>
+                <button onClick={(e) => { e.stopPropagation(); exportChart('svg'); }} className="text-xs font-normal text-gray-400 hover:text-white bg-gray-700 rounded px-2 py-0.5">SVG</button>
+                <button onClick={(e) => { e.stopPropagation(); exportChart('png'); }} className="text-xs font-normal text-gray-400 hover:text-white bg-gray-700 rounded px-2 py-0.5">PNG</button>
+                <span
+                    draggable
+                    onDragStart={(e) => {
+                        if (!svgRef.current) return e.preventDefault();
+                        e.dataTransfer.setData(IMAGE_DRAG_MIME, JSON.stringify(chartDragImage(svgRef.current)));
+                        e.dataTransfer.effectAllowed = 'copy';
+                    }}
+                    className="text-xs font-normal text-gray-400 hover:text-white bg-gray-700 rounded px-2 py-0.5 cursor-grab"
+                    title="Drag onto a Drawing cell to annotate the chart"
+                >⠿ Drag</span>
+            </h3>
+            {error && <div className="text-xs text-yellow-400 mb-2">{error}</div>}
+            {metadata?.hideOutput ? <HiddenCellPart cellId={id} part="output" /> : <ChartView ref={svgRef} spec={spec} rows={rows} />}
+            {isEditing && metadata?.hideCode && <HiddenCellPart cellId={id} part="code" />}
+            {isEditing && !metadata?.hideCode && (
+                <ChartBuilder
+                    cellId={id}
+                    spec={spec}
+                    rows={rows}
+                    onChange={(chartSpec) => onUpdateContent({ ...content, chartSpec }, true)}
+                />
+            )}
+            <CommentSection comments={comments} cellId={id} />
         </div>
     );
 };
 
 export const AIChatCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent, onExecute }) => {
-    const { id, content, outputs, status, executionCount, comments } = cell;
+    const { id, content, outputs, status, executionCount, executionTime, metadata, comments } = cell;
+    const { cells, notebookMetadata, addCell, updateCell, getCellKernel, cancelAIRequest, canEditCell } = useNotebook();
     const [isHovered, setIsHovered] = useState(false);
     const [input, setInput] = useState(content?.prompt || '');
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const promptRef = useRef<HTMLTextAreaElement>(null);
+    const aiKernels = notebookMetadata.kernels.filter(k => k.language === 'ai');
+    const kernel = getCellKernel(id);
+    const running = status === 'running';
+    // Older chat cells kept the conversation in `outputs` as { role, text }.
+    const messages: ChatMessage[] = content?.messages || (outputs || []).filter(o => o.role).map(o => ({ role: o.role, content: o.text || '' }));
+    const errors = (outputs || []).filter(o => o.type === 'error');
+
+    useEffect(() => {
+        setInput(content?.prompt || '');
+    }, [content?.prompt]);
+
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+    }, [messages]);
 
     const handleExecute = () => {
-        onUpdateContent({ prompt: input }, true);
+        if (!input.trim() || running || !canEditCell(cell)) return;
+        onUpdateContent({ ...content, prompt: input, messages }, true);
         onExecute?.();
     };
 
+    const index = cells.findIndex(c => c.id === id);
+    const actions: CodeBlockAction[] = [{
+        label: 'Insert below',
+        title: 'Insert as a new cell below this chat',
+        run: block => {
+            const { type, content: cellContent } = codeBlockToCell(block);
+            addCell(type, cellContent, index + 1);
+        },
+    }];
+
     return (
         <div
             id={`cell-${id}`}
@@ -355,21 +642,42 @@ export const AIChatCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocu
             onMouseLeave={() => setIsHovered(false)}
         >
             {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.AIChat} className="absolute top-2 right-2 z-10" />}
-            <h3 className="font-semibold mb-2 flex items-center">
-                <span className="mr-2">🤖</span> AI Assistant Chat
-                <CellStatusIndicator status={status} executionCount={executionCount} />
+            <h3 className="font-semibold mb-2 flex items-center gap-2 flex-wrap">
+                <span>🤖</span> AI Assistant Chat
+                <CellStatusIndicator status={status} executionCount={executionCount} executionTime={executionTime} />
+                <span className="flex items-center gap-2 text-xs font-normal ml-auto mr-28" onClick={e => e.stopPropagation()}>
+                    <select
+                        value={kernel?.id || ''}
+                        onChange={e => updateCell(id, { metadata: { ...metadata, kernel: e.target.value } }, true)}
+                        className="bg-gray-900 text-gray-300 rounded px-1 py-0.5 outline-none"
+                        title="Model provider"
+                    >
+                        {aiKernels.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+                    </select>
+                    <label className="flex items-center gap-1 text-gray-400" title="Send the selected cells (or the cell above), errors and table schemas with each message">
+                        <input type="checkbox" checked={content?.includeContext !== false} onChange={e => onUpdateContent({ ...content, messages, includeContext: e.target.checked }, true)} /> Context
+                    </label>
+                    <button onClick={() => onUpdateContent({ ...content, messages: [] }, true)} disabled={running || messages.length === 0} className="text-gray-400 hover:text-white disabled:opacity-40">Clear</button>
+                </span>
             </h3>
-            <div className="flex flex-col space-y-2 mb-2 max-h-64 overflow-y-auto bg-gray-900 p-2 rounded-md border border-gray-700">
-                {(outputs || []).map((output: any, index: number) => (
-                    <div key={index} className={`p-2 rounded-lg max-w-[80%] text-sm ${output.role === 'user' ? 'bg-blue-900 self-end' : 'bg-gray-700 self-start'}`}>
-                        <strong className="capitalize text-xs text-gray-400 block mb-1">{output.role}</strong> {output.text}
-                    </div>
-                ))}
-            </div>
+            {metadata?.hideOutput ? (messages.length > 0 || errors.length > 0) && <HiddenCellPart cellId={id} part="output" /> : (
+                <>
+                    {messages.length > 0 && (
+                        <div ref={scrollRef} data-search-output className="flex flex-col space-y-2 mb-2 max-h-96 overflow-y-auto bg-gray-900 p-2 rounded-md border border-gray-700">
+                            <ChatMessages messages={messages} streaming={running} actions={actions} />
+                        </div>
+                    )}
+                    {errors.length > 0 && <CellOutputDisplay outputs={errors} className="mb-2 text-sm" />}
+                </>
+            )}
+            {metadata?.hideCode ? <HiddenCellPart cellId={id} part="code" /> : (
             <div className="flex gap-2">
                 <textarea
+                    ref={promptRef}
                     className="flex-grow bg-gray-800 text-white p-2 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 resize-none text-sm"
-                    placeholder="Ask the AI..."
+                    data-native-keys
+                    placeholder={messages.length > 0 ? 'Follow up...' : 'Ask the AI...'}
+                    readOnly={!canEditCell(cell)}
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     rows={2}
@@ -380,50 +688,135 @@ export const AIChatCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocu
                         }
                     }}
                 />
-                <button
-                    className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-4 rounded text-sm disabled:opacity-50"
-                    onClick={handleExecute}
-                    disabled={status === 'running'}
-                >
-                    Send
-                </button>
+                <SearchHighlights cellId={id} text={input} textareaRef={promptRef} />
+                {running ? (
+                    <button className="bg-red-700 hover:bg-red-600 text-white font-bold py-1 px-4 rounded text-sm" onClick={(e) => { e.stopPropagation(); cancelAIRequest(id); }}>
+                        Stop
+                    </button>
+                ) : (
+                    <button
+                        className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-4 rounded text-sm disabled:opacity-50"
+                        onClick={handleExecute}
+                        disabled={!input.trim()}
+                    >
+                        Send
+                    </button>
+                )}
             </div>
-            {comments && comments.length > 0 && <CommentSection comments={comments} cellId={id} />}
+            )}
+            <CommentSection comments={comments} cellId={id} />
+        </div>
+    );
+};
+
+// Chrome around a cell type contributed by a plugin: the plugin renders the body, the notebook
+// adds selection, controls, outputs and comments like for built-in cells.
+export const PluginCellView: React.FC<GeneralCellProps & { cellType: PluginCellType & { pluginId: string } }> = ({ cellType, ...props }) => {
+    const { cell, isEditing, onFocus, onExecute } = props;
+    const { id, outputs, status, executionCount, executionTime, stale, comments } = cell as EnhancedCell;
+    const { notebookMetadata } = useNotebook();
+    const [isHovered, setIsHovered] = useState(false);
+    const plugin = getPlugins().find(p => p.id === cellType.pluginId);
+    const config = plugin ? pluginConfig(plugin, notebookMetadata.plugins) : {};
+    const Body = cellType.component;
+
+    return (
+        <div
+            id={`cell-${id}`}
+            className={`relative p-3 rounded-lg border ${isEditing ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700'} ${isHovered ? 'bg-gray-800/50' : ''}`}
+            onClick={onFocus}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+        >
+            {isHovered && <CellControls cellId={id} cellType={cell.type} className="absolute top-2 right-2 z-10" />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2">
+                {cellType.icon} {cellType.label}
+                <span className="text-xs font-normal text-gray-500">{plugin?.name}</span>
+                {cellType.execute && <CellStatusIndicator status={status} stale={stale} executionCount={executionCount} executionTime={executionTime} />}
+                {cellType.execute && (
+                    <button onClick={(e) => { e.stopPropagation(); onExecute?.(); }} disabled={status === 'running'} className="ml-auto mr-28 text-xs font-normal bg-green-800 hover:bg-green-700 text-white rounded px-2 py-0.5 disabled:opacity-50">
+                        {status === 'running' ? 'Running…' : 'Run'}
+                    </button>
+                )}
+            </h3>
+            {cell.metadata?.hideCode ? <HiddenCellPart cellId={id} part="code" /> : <Body {...props} config={config} />}
+            {cell.metadata?.hideOutput ? !!outputs?.length && <HiddenCellPart cellId={id} part="output" /> : <CellOutputDisplay outputs={outputs} />}
+            <CommentSection comments={comments} cellId={id} />
         </div>
     );
 };
 
 export const CellControls: React.FC<{ cellId: string; cellType: ExpandedCellType; className?: string; position?: 'left' | 'right' }> = ({ cellId, cellType, className, position = 'right' }) => {
-    const { addCell, deleteCell, moveCell, executeCell, updateCell } = useNotebook();
+    const { cells, addCell, deleteCell, moveCell, executeCell, updateCell, openCellHistory, runCellsAbove, runCellsBelow, startComment, permissions, canEditCell, setCellVisibility, notebookMetadata, currentUserName, setCellFlag, tagEditorCellId, setTagEditorCellId } = useNotebook();
     const [showAddOptions, setShowAddOptions] = useState(false);
     const addOptionsRef = useRef<HTMLDivElement>(null);
+    const index = cells.findIndex(c => c.id === cellId);
+    const cell = cells[index];
+    const editable = !!cell && canEditCell(cell);
 
     const handleAddCell = (type: ExpandedCellType) => {
-        const { cells } = useNotebook(); // Need to access cells from context here in real impl, but reusing the one from closure if available or trigger via context method that handles index
-        // Simplified: The context addCell should handle insertion after current if no index provided or if we pass index
-        // Since we don't have index easily here without lookup:
-        // Let's assume addCell accepts index. We need to find index.
-        // For this demo, let's just append or use a "insert after active" logic in provider
-        addCell(type, {}); // This might append to end if we don't fix addCell signature in provider
+        addCell(type, {}, index + 1);
         setShowAddOptions(false);
     };
 
     return (
         <div className={`flex items-center space-x-1 p-1 bg-gray-800 rounded-md shadow-md border border-gray-600 ${className}`}>
-             {['code', 'ai_chat', 'sql', 'form'].includes(cellType) && (
+             {permissions.canExecute && (['code', 'ai_chat', 'sql', 'form'].includes(cellType) || !!getPluginCellType(cellType)?.execute) && (
                 <button title="Run Cell" onClick={(e) => {e.stopPropagation(); executeCell(cellId);}} className="text-gray-400 hover:text-green-400 px-1.5">▶️</button>
             )}
-            <button title="Delete Cell" onClick={(e) => {e.stopPropagation(); deleteCell(cellId);}} className="text-gray-400 hover:text-red-400 px-1.5">🗑️</button>
-             <button title="Move Up" onClick={(e) => {e.stopPropagation(); /* Logic needs index */}} className="text-gray-400 hover:text-blue-400 px-1.5">⬆️</button>
-             <button title="Move Down" onClick={(e) => {e.stopPropagation(); /* Logic needs index */}} className="text-gray-400 hover:text-blue-400 px-1.5">⬇️</button>
+            {permissions.canExecute && RUNNABLE_CELL_TYPES.includes(cellType) && (
+                <>
+                    <button title="Run All Above" onClick={(e) => {e.stopPropagation(); runCellsAbove(cellId);}} className="text-gray-400 hover:text-green-400 px-1.5 text-xs">⤒▶</button>
+                    <button title="Run This and All Below" onClick={(e) => {e.stopPropagation(); runCellsBelow(cellId);}} className="text-gray-400 hover:text-green-400 px-1.5 text-xs">▶⤓</button>
+                </>
+            )}
+            {permissions.canComment && <button title="Comment (select text first to comment on it)" onMouseDown={(e) => e.preventDefault()} onClick={(e) => {e.stopPropagation(); startComment(cellId);}} className="text-gray-400 hover:text-yellow-300 px-1.5">💬</button>}
+            <button title="Version History" onClick={(e) => {e.stopPropagation(); openCellHistory(cellId);}} className="text-gray-400 hover:text-yellow-400 px-1.5">🕘</button>
+            {permissions.canEdit && cell && (
+                <>
+                    {([
+                        ['collapsed', '▴', 'Collapse cell', 'Expand cell'],
+                        ['hideCode', '{ }', 'Hide code', 'Show code'],
+                        ['hideOutput', '⊟', 'Hide output', 'Show output'],
+                        ['readOnly', '🔒', 'Make read-only', 'Make editable'],
+                    ] as const).map(([flag, icon, setLabel, clearLabel]) => {
+                        const on = !!cell.metadata?.[flag];
+                        return (
+                            <button key={flag} title={on ? clearLabel : setLabel} onClick={(e) => {e.stopPropagation(); setCellFlag(cellId, flag, !on);}} className={`px-1.5 text-xs ${on ? 'text-blue-400' : 'text-gray-400 hover:text-blue-300'}`}>{icon}</button>
+                        );
+                    })}
+                    <button title="Edit tags" onClick={(e) => {e.stopPropagation(); setTagEditorCellId(tagEditorCellId === cellId ? null : cellId);}} className={`px-1.5 ${tagEditorCellId === cellId ? 'text-blue-400' : 'text-gray-400 hover:text-blue-300'}`}>🏷️</button>
+                </>
+            )}
+            {cell && canChangeCellVisibility(cell, notebookMetadata, currentUserName, permissions) && (
+                <select
+                    value={cell.visibility || 'public'}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setCellVisibility(cellId, e.target.value as EnhancedCell['visibility'])}
+                    className="bg-gray-700 text-gray-300 rounded text-xs px-1 py-0.5 outline-none"
+                    title="Who can see this cell"
+                >
+                    <option value="public">Everyone</option>
+                    <option value="team">Team only</option>
+                    <option value="private">Only me</option>
+                </select>
+            )}
+            {editable && <button title="Delete Cell" onClick={(e) => {e.stopPropagation(); deleteCell(cellId);}} className="text-gray-400 hover:text-red-400 px-1.5">🗑️</button>}
+            {permissions.canEdit && (
+                <>
+                    <button title="Move Up" disabled={index <= 0} onClick={(e) => {e.stopPropagation(); moveCell(index, index - 1);}} className="text-gray-400 hover:text-blue-400 px-1.5 disabled:opacity-30">⬆️</button>
+                    <button title="Move Down" disabled={index === -1 || index >= cells.length - 1} onClick={(e) => {e.stopPropagation(); moveCell(index, index + 1);}} className="text-gray-400 hover:text-blue-400 px-1.5 disabled:opacity-30">⬇️</button>
+                </>
+            )}
         </div>
     );
 };
 
-export const CellStatusIndicator: React.FC<{ status?: EnhancedCell['status']; executionCount?: number; executionTime?: EnhancedCell['executionTime']; }> = ({ status, executionCount, executionTime }) => {
+export const CellStatusIndicator: React.FC<{ status?: EnhancedCell['status']; stale?: boolean; executionCount?: number; executionTime?: EnhancedCell['executionTime']; }> = ({ status, stale, executionCount, executionTime }) => {
     let indicatorClass = '';
     let text = '';
-    if (status === 'running') { indicatorClass = 'bg-blue-500 animate-pulse'; text = 'Running'; }
+    if (stale && status !== 'running' && status !== 'queued') { indicatorClass = 'bg-orange-500'; text = 'Stale'; }
+    else if (status === 'running') { indicatorClass = 'bg-blue-500 animate-pulse'; text = 'Running'; }
     else if (status === 'queued') { indicatorClass = 'bg-yellow-500'; text = 'Queued'; }
     else if (status === 'success') { indicatorClass = 'bg-green-500'; text = 'Done'; }
     else if (status === 'error') { indicatorClass = 'bg-red-500'; text = 'Error'; }
@@ -438,49 +831,243 @@ export const CellStatusIndicator: React.FC<{ status?: EnhancedCell['status']; ex
     );
 };
 
-export const CellOutputDisplay: React.FC<{ outputs?: any[] }> = ({ outputs }) => {
+export const CellOutputDisplay: React.FC<{ outputs?: any[]; className?: string }> = ({ outputs, className }) => {
     if (!outputs || outputs.length === 0) return null;
     return (
-        <div className="mt-3 p-3 bg-gray-900 rounded-lg border-l-4 border-gray-600 max-h-96 overflow-y-auto font-mono text-sm">
+        <div data-search-output className={className ?? 'mt-3 p-3 bg-gray-900 rounded-lg border-l-4 border-gray-600 max-h-96 overflow-y-auto font-mono text-sm'}>
             {outputs.map((output, index) => (
-                <div key={index} className="mb-2 last:mb-0 break-all">
-                   {JSON.stringify(output)}
+                <div key={index} className="mb-2 last:mb-0 break-words">
+                    <OutputView output={output} />
                 </div>
             ))}
         </div>
     );
 };
 
-export const CommentSection: React.FC<{ comments: CellComment[]; cellId: string }> = ({ comments, cellId }) => {
+// Comment threads at the bottom of a cell, and the composer while a comment is being started.
+export const CommentSection: React.FC<{ comments?: CellComment[]; cellId: string }> = ({ comments, cellId }) => {
+    const { commentDraft } = useNotebook();
+    if (!comments?.length && commentDraft?.cellId !== cellId) return null;
+    return <CommentThreads comments={comments || []} cellId={cellId} />;
+};
+
+
+// Stands in for a cell's code or output while it is hidden. Clicking shows it again.
+export const HiddenCellPart: React.FC<{ cellId: string; part: 'code' | 'output' }> = ({ cellId, part }) => {
+    const { setCellFlag, permissions } = useNotebook();
     return (
-        <div className="mt-2 border-t border-gray-700 pt-2">
-            <div className="text-xs text-gray-500 mb-1">{comments.length} Comments</div>
-            {comments.slice(0, 2).map(c => (
-                <div key={c.id} className="text-xs text-gray-400 truncate">
-                    <strong>{c.author}:</strong> {c.text}
-                </div>
+        <button
+            onClick={(e) => { e.stopPropagation(); setCellFlag(cellId, part === 'code' ? 'hideCode' : 'hideOutput', false); }}
+            disabled={!permissions.canEdit}
+            className="block w-full my-1 px-2 py-0.5 text-left text-xs text-gray-500 border border-dashed border-gray-700 rounded enabled:hover:text-gray-300 enabled:hover:border-gray-500"
+            title={permissions.canEdit ? `Show ${part}` : undefined}
+        >
+            ⋯ {part === 'code' ? 'Code' : 'Output'} hidden
+        </button>
+    );
+};
+
+// A collapsed cell shows as one line. Expanding it clears the flag, or, for someone who can't
+// edit the notebook, just opens it for them.
+export const CollapsibleCell: React.FC<{ cell: EnhancedCell; children: React.ReactNode }> = ({ cell, children }) => {
+    const { setCellFlag, activeCellId, setActiveCellId, permissions } = useNotebook();
+    const [peeking, setPeeking] = useState(false);
+    if (!cell.metadata?.collapsed || peeking) return <>{children}</>;
+    const outputCount = cell.outputs?.length || 0;
+    return (
+        <div
+            id={`cell-${cell.id}`}
+            onClick={(e) => { e.stopPropagation(); setActiveCellId(cell.id); }}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm text-gray-400 cursor-pointer ${activeCellId === cell.id ? 'border-blue-500' : 'border-gray-700 hover:bg-gray-800/50'}`}
+        >
+            <button
+                onClick={(e) => { e.stopPropagation(); if (permissions.canEdit) setCellFlag(cell.id, 'collapsed', false); else setPeeking(true); }}
+                className="text-gray-500 hover:text-white"
+                title="Expand cell"
+            >
+                ▸
+            </button>
+            <span className="truncate font-mono">{cellSummary(cell)}</span>
+            {outputCount > 0 && <span className="ml-auto flex-shrink-0 text-xs text-gray-500">{outputCount} output{outputCount === 1 ? '' : 's'}</span>}
+        </div>
+    );
+};
+
+// Tags above a cell, and the editor for them. Clicking a tag filters the notebook by it.
+export const CellTagBar: React.FC<{ cell: EnhancedCell }> = ({ cell }) => {
+    const { cells, setCellTags, tagEditorCellId, setTagEditorCellId, tagFilter, setTagFilter, permissions, setParametersDialogOpen } = useNotebook();
+    const [draft, setDraft] = useState('');
+    const tags = cellTags(cell);
+    const editing = tagEditorCellId === cell.id && permissions.canEdit;
+    if (!editing && tags.length === 0 && !cell.metadata?.readOnly) return null;
+
+    const add = () => {
+        const tag = normalizeTag(draft);
+        if (tag) setCellTags(cell.id, [...tags, tag]);
+        setDraft('');
+    };
+    const suggestions = Array.from(new Set([...WELL_KNOWN_TAGS, ...tagCounts(cells).map(t => t.tag)])).filter(t => !tags.includes(t));
+    const toggleFilter = (tag: string) => setTagFilter(tagFilter.includes(tag) ? tagFilter.filter(t => t !== tag) : [...tagFilter, tag]);
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 mb-1 text-xs" onClick={(e) => e.stopPropagation()}>
+            {cell.metadata?.readOnly && <span className="px-1.5 py-0.5 text-gray-500" title="This cell can't be edited">🔒 read-only</span>}
+            {tags.map(tag => (
+                <span key={tag} className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full border ${tagFilter.includes(tag) ? 'border-blue-500 text-blue-300' : 'border-gray-600 text-gray-400'}`}>
+                    <button onClick={() => toggleFilter(tag)} className="hover:text-white" title={tagFilter.includes(tag) ? 'Stop filtering by this tag' : 'Show only cells with this tag'}>#{tag}</button>
+                    {editing && <button onClick={() => setCellTags(cell.id, tags.filter(t => t !== tag))} className="hover:text-red-400" title="Remove tag">✕</button>}
+                </span>
             ))}
+            {tags.includes(PARAMETERS_TAG) && permissions.canEdit && permissions.canExecute && (
+                <button onClick={() => setParametersDialogOpen(true)} className="px-1.5 text-blue-400 hover:text-blue-300">Run with parameters…</button>
+            )}
+            {editing && (
+                <>
+                    <input
+                        autoFocus
+                        data-native-keys
+                        value={draft}
+                        list={`tag-suggestions-${cell.id}`}
+                        placeholder="Add tag"
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') add();
+                            else if (e.key === 'Escape') setTagEditorCellId(null);
+                            else if (e.key === 'Backspace' && !draft && tags.length > 0) setCellTags(cell.id, tags.slice(0, -1));
+                        }}
+                        className="bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 w-32 text-gray-200 outline-none focus:border-blue-500"
+                    />
+                    <datalist id={`tag-suggestions-${cell.id}`}>{suggestions.map(t => <option key={t} value={t} />)}</datalist>
+                    <button onClick={() => { add(); setTagEditorCellId(null); }} className="px-1.5 text-gray-400 hover:text-white">Done</button>
+                </>
+            )}
         </div>
     );
 };
 
+// Sidebar section listing the notebook's tags. Selected tags hide every cell without them.
+const TagFilterPanel: React.FC = () => {
+    const { cells, tagFilter, setTagFilter } = useNotebook();
+    const tags = tagCounts(cells);
+    return (
+        <div className="space-y-1 mt-4">
+            <div className="flex items-center text-xs font-semibold text-gray-500 mb-2 uppercase">
+                Filter by tag
+                {tagFilter.length > 0 && <button onClick={() => setTagFilter([])} className="ml-auto normal-case font-normal text-blue-400 hover:text-blue-300">Clear</button>}
+            </div>
+            {tags.length === 0 && <div className="text-xs text-gray-600 italic p-2">No tagged cells</div>}
+            <div className="flex flex-wrap gap-1 px-1">
+                {tags.map(({ tag, count }) => (
+                    <button
+                        key={tag}
+                        onClick={() => setTagFilter(tagFilter.includes(tag) ? tagFilter.filter(t => t !== tag) : [...tagFilter, tag])}
+                        className={`px-2 py-0.5 rounded-full border text-xs ${tagFilter.includes(tag) ? 'border-blue-500 bg-blue-900/30 text-blue-300' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+                    >
+                        #{tag} <span className="text-gray-500">{count}</span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
 
 // --- Layout Components ---
 
 export const NotebookToolbar: React.FC = () => {
-    const { addCell, runAllCells, saveNotebook, commandPaletteOpen, setCommandPaletteOpen, aiAssistantOpen, setAiAssistantOpen } = useNotebook();
+    usePluginRegistry();
+    const context = useNotebook();
+    const { addCell, runAllCells, runSelectedCells, selectedCellIds, undo, redo, canUndo, canRedo, interruptKernel, restartKernel, saveNotebook, importNotebook, exportNotebook, printNotebook, notebookMetadata, setNotebookMetadata, setNotebookListOpen, commandPaletteOpen, setCommandPaletteOpen, aiAssistantOpen, setAiAssistantOpen, collabStatus, collabPeers, setCollabDialogOpen, permissions, setViewerMode, setShareDialogOpen, openFind } = context;
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [exportMenuOpen, setExportMenuOpen] = useState(false);
+    const exportItems: { label: string; run: () => void }[] = [
+        { label: 'Notebook (.ipynb)', run: () => exportNotebook('ipynb') },
+        { label: 'HTML page (.html)', run: () => exportNotebook('html') },
+        { label: 'Markdown (.md)', run: () => exportNotebook('markdown') },
+        { label: 'Print / PDF...', run: printNotebook },
+    ];
     
     return (
         <div className="flex items-center justify-between p-2 bg-gray-800 border-b border-gray-700 sticky top-0 z-30 shadow-md">
             <div className="flex items-center space-x-2">
-                <div className="font-bold text-lg text-blue-400 mr-4">Universal Notebook</div>
+                <div className="font-bold text-lg text-blue-400">Universal Notebook</div>
+                <input
+                    value={notebookMetadata.title}
+                    readOnly={!permissions.canEdit}
+                    onChange={(e) => setNotebookMetadata(prev => ({ ...prev, title: e.target.value }))}
+                    className="bg-transparent border border-transparent hover:border-gray-600 focus:border-blue-500 rounded px-2 py-0.5 text-sm text-gray-200 outline-none w-48 mr-2"
+                    title="Notebook title"
+                />
+                {permissions.canEdit && <>
                 <button onClick={() => addCell(ExpandedCellType.Code, {})} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center gap-1">➕ Code</button>
                 <button onClick={() => addCell(ExpandedCellType.Markdown, '')} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center gap-1">➕ Text</button>
+                <button onClick={() => addCell(ExpandedCellType.Data, { columns: ['column_1'], data: [[null]] })} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center gap-1">➕ Data</button>
+                <button onClick={() => addCell(ExpandedCellType.Visualization, { chartSpec: defaultChartSpec() })} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center gap-1">➕ Chart</button>
+                <button onClick={() => addCell(ExpandedCellType.SQL, { query: 'SELECT * FROM sample' })} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center gap-1">➕ SQL</button>
+                <button onClick={undo} disabled={!canUndo} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded disabled:opacity-40" title="Undo (Ctrl+Z)">↶</button>
+                <button onClick={redo} disabled={!canRedo} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded disabled:opacity-40" title="Redo (Ctrl+Shift+Z)">↷</button>
                 <div className="h-6 w-px bg-gray-600 mx-2"></div>
+                </>}
+                {permissions.canExecute && <>
                 <button onClick={runAllCells} className="p-1.5 bg-green-900/50 text-green-400 hover:bg-green-900 rounded" title="Run All">▶️</button>
+                <button onClick={runSelectedCells} disabled={selectedCellIds.length === 0} className="p-1.5 bg-gray-700 text-green-400 hover:bg-gray-600 rounded text-xs disabled:opacity-40" title="Run Selected Cells (Shift+Click cells to select)">▶ {selectedCellIds.length || ''}</button>
+                <select
+                    value={notebookMetadata.settings.reactiveMode || 'off'}
+                    onChange={(e) => setNotebookMetadata(prev => ({ ...prev, settings: { ...prev.settings, reactiveMode: e.target.value as ReactiveMode } }))}
+                    className="bg-gray-700 text-gray-300 rounded text-xs px-1 py-1 outline-none"
+                    title="Reactive execution: what happens to dependent cells when a cell runs"
+                >
+                    <option value="off">Reactive: off</option>
+                    <option value="stale">Reactive: mark stale</option>
+                    <option value="auto">Reactive: auto-run</option>
+                </select>
+                <button onClick={() => interruptKernel()} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded" title="Interrupt Kernel">⏹️</button>
+                <button onClick={() => restartKernel()} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded" title="Restart Kernel">🔄</button>
+                </>}
                 <button onClick={saveNotebook} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded" title="Save">💾</button>
+                <button onClick={() => setNotebookListOpen(true)} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded" title="Open Notebook">📚</button>
+                <button onClick={() => importInputRef.current?.click()} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded" title="Import .ipynb">📂</button>
+                <div className="relative" onMouseLeave={() => setExportMenuOpen(false)}>
+                    <button onClick={() => setExportMenuOpen(!exportMenuOpen)} className="p-1.5 bg-gray-700 text-gray-300 hover:bg-gray-600 rounded" title="Export">⬇️</button>
+                    {exportMenuOpen && (
+                        <div className="absolute left-0 top-full pt-1 z-40">
+                            <div className="bg-gray-800 border border-gray-600 rounded shadow-lg py-1 text-sm whitespace-nowrap">
+                                {exportItems.map(item => (
+                                    <button key={item.label} onClick={() => { setExportMenuOpen(false); item.run(); }} className="block w-full text-left px-3 py-1 text-gray-300 hover:bg-gray-700">{item.label}</button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".ipynb,application/x-ipynb+json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importNotebook(file);
+                        e.target.value = '';
+                    }}
+                />
             </div>
             <div className="flex items-center space-x-3">
+                 {collabPeers.length > 0 && (
+                     <div className="flex -space-x-1.5">
+                         {collabPeers.slice(0, 5).map(peer => <PeerAvatar key={peer.user.id} peer={peer} />)}
+                         {collabPeers.length > 5 && <div className="w-7 h-7 rounded-full bg-gray-600 text-xs flex items-center justify-center ring-2 ring-gray-800">+{collabPeers.length - 5}</div>}
+                     </div>
+                 )}
+                 <button onClick={() => setCollabDialogOpen(true)} className={`p-1.5 rounded text-sm ${collabStatus === 'connected' ? 'bg-green-900/50 text-green-300' : collabStatus !== 'off' ? 'bg-yellow-900/40 text-yellow-300' : 'text-gray-300 hover:bg-gray-700'}`} title="Real-time collaboration">👥 Live</button>
+                 <button onClick={() => setShareDialogOpen(true)} className="p-1.5 text-gray-300 hover:bg-gray-700 rounded text-sm" title="Who can view and edit this notebook">🔗 Share</button>
+                 {(permissions.canEdit || permissions.viewerMode) && (
+                     <button onClick={() => setViewerMode(!permissions.viewerMode)} className={`p-1.5 rounded text-sm ${permissions.viewerMode ? 'bg-blue-900/60 text-blue-300' : 'text-gray-300 hover:bg-gray-700'}`} title="Preview the notebook read-only, as a viewer sees it">👁</button>
+                 )}
+                 {getPluginToolbarButtons().map(button => (
+                     <button key={`${button.pluginId}/${button.id}`} onClick={() => button.onClick(context)} className="p-1.5 text-gray-300 hover:bg-gray-700 rounded text-sm" title={button.title || button.label}>
+                         {button.icon ? `${button.icon} ${button.label}` : button.label}
+                     </button>
+                 ))}
+                 <button onClick={() => openFind('find')} className="p-1.5 text-gray-300 hover:bg-gray-700 rounded" title="Find and replace in the notebook">🔍</button>
                  <button onClick={() => setAiAssistantOpen(!aiAssistantOpen)} className={`p-1.5 rounded ${aiAssistantOpen ? 'bg-purple-900 text-purple-300' : 'text-purple-400 hover:bg-gray-700'}`}>🤖 AI</button>
                  <button onClick={() => setCommandPaletteOpen(true)} className="p-1.5 text-yellow-400 hover:bg-gray-700 rounded">⌘K</button>
             </div>
@@ -489,7 +1076,11 @@ export const NotebookToolbar: React.FC = () => {
 };
 
 export const NotebookSidebar: React.FC = () => {
-    const { activeSidebarPanel, toggleSidebarPanel, cells, setActiveCellId } = useNotebook();
+    usePluginRegistry();
+    const { activeSidebarPanel, toggleSidebarPanel, cells, setActiveCellId, notebookMetadata } = useNotebook();
+    const pluginPanels = getPluginSidebarPanels();
+    const activePluginPanel = pluginPanels.find(panel => pluginPanelKey(panel) === activeSidebarPanel);
+    const activePlugin = activePluginPanel && getPlugins().find(p => p.id === activePluginPanel.pluginId);
     
     const outline = cells.filter(c => c.type === ExpandedCellType.Markdown).map(c => ({
         id: c.id, 
@@ -499,13 +1090,23 @@ export const NotebookSidebar: React.FC = () => {
     return (
         <div className="w-64 bg-gray-800 border-r border-gray-700 flex flex-col hidden md:flex">
              <div className="flex border-b border-gray-700 text-xs">
-                {['outline', 'files', 'vars'].map((p) => (
+                {([['outline', 'outline'], ['files', 'files'], ['variables', 'vars'], ['comments', 'notes'], ['plugins', 'plugins']] as const).map(([p, label]) => (
                     <button 
                         key={p} 
-                        onClick={() => toggleSidebarPanel(p as any)}
+                        onClick={() => toggleSidebarPanel(p)}
                         className={`flex-1 py-2 uppercase tracking-wider ${activeSidebarPanel === p ? 'bg-gray-700 text-blue-400 font-bold' : 'text-gray-500 hover:text-gray-300'}`}
                     >
-                        {p}
+                        {label}
+                    </button>
+                ))}
+                {pluginPanels.map(panel => (
+                    <button
+                        key={pluginPanelKey(panel)}
+                        onClick={() => toggleSidebarPanel(pluginPanelKey(panel))}
+                        className={`px-2 py-2 ${activeSidebarPanel === pluginPanelKey(panel) ? 'bg-gray-700 text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+                        title={panel.title}
+                    >
+                        {panel.icon || panel.title.slice(0, 2)}
                     </button>
                 ))}
              </div>
@@ -522,46 +1123,44 @@ export const NotebookSidebar: React.FC = () => {
                              </div>
                          ))}
                          {outline.length === 0 && <div className="text-xs text-gray-600 italic p-2">No headings found</div>}
+                         <TagFilterPanel />
                      </div>
                  )}
-                 {activeSidebarPanel === 'files' && (
-                     <div className="text-sm text-gray-400 p-2">
-                         <div>📁 project/</div>
-                         <div className="pl-4">📄 data.csv</div>
-                         <div className="pl-4">📄 analysis.ipynb</div>
-                         <div className="pl-4">📄 utils.py</div>
-                     </div>
-                 )}
+                 {activeSidebarPanel === 'files' && <FileBrowser />}
+                 {activeSidebarPanel === 'variables' && <VariableInspector />}
+                 {activeSidebarPanel === 'comments' && <CommentsPanel />}
+                 {activeSidebarPanel === 'plugins' && <PluginsPanel />}
+                 {activePluginPanel && <activePluginPanel.component config={activePlugin ? pluginConfig(activePlugin, notebookMetadata.plugins) : {}} />}
              </div>
         </div>
     );
 };
 
-export const AIAssistantPanel: React.FC = () => {
-    const { aiAssistantOpen } = useNotebook();
-    if (!aiAssistantOpen) return null;
-    return (
-        <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col shadow-xl z-20 absolute right-0 top-12 bottom-8 md:relative md:top-0 md:bottom-0">
-            <div className="p-3 bg-purple-900/20 border-b border-gray-700 font-bold text-purple-300">AI Assistant</div>
-            <div className="flex-grow p-4 text-gray-400 text-sm flex items-center justify-center italic">
-                AI Assistant is ready to help you code, analyze, and visualize.
-            </div>
-            <div className="p-3 border-t border-gray-700">
-                <input className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-purple-500 outline-none" placeholder="Ask anything..." />
-            </div>
-        </div>
-    );
+const KERNEL_STATUS_STYLES: Record<KernelStatus, { dot: string; label: string }> = {
+    idle: { dot: 'bg-green-500', label: 'Idle' },
+    busy: { dot: 'bg-blue-500 animate-pulse', label: 'Busy' },
+    starting: { dot: 'bg-yellow-500 animate-pulse', label: 'Starting' },
+    restarting: { dot: 'bg-yellow-500 animate-pulse', label: 'Restarting' },
+    disconnected: { dot: 'bg-gray-500', label: 'Not started' },
 };
 
 export const StatusBar: React.FC = () => {
-    const { notebookMetadata, notifications } = useNotebook();
+    const { notebookMetadata, notifications, activeCellId, getCellKernel, isDirty, keyMode, setShortcutsDialogOpen } = useNotebook();
     const lastNotif = notifications[notifications.length - 1];
+    const kernel = (activeCellId && getCellKernel(activeCellId)) || notebookMetadata.kernels.find(k => k.id === notebookMetadata.defaultKernelId);
+    const kernelStatus = KERNEL_STATUS_STYLES[kernel?.status || 'disconnected'];
     
     return (
         <div className="h-8 bg-gray-900 border-t border-gray-700 flex items-center justify-between px-4 text-xs text-gray-500 z-30">
             <div className="flex items-center space-x-4">
-                <span>Kernel: {notebookMetadata.defaultKernelId}</span>
-                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-500"></span> Ready</span>
+                <span>Kernel: {kernel ? kernel.name : notebookMetadata.defaultKernelId}</span>
+                <span className="flex items-center gap-1"><span className={`w-2 h-2 rounded-full ${kernelStatus.dot}`}></span> {kernelStatus.label}</span>
+                {keyMode !== 'other' && (
+                    <button onClick={() => setShortcutsDialogOpen(true)} className={keyMode === 'edit' ? 'text-blue-400' : 'text-gray-400'} title="Esc for command mode, Enter to edit the active cell. Click for keyboard shortcuts.">
+                        {keyMode === 'edit' ? 'Edit' : 'Command'}
+                    </button>
+                )}
+                <span title={`Last saved ${new Date(notebookMetadata.lastModified).toLocaleString()}`}>{isDirty ? 'Unsaved changes' : `Saved${notebookMetadata.version ? ` · v${notebookMetadata.version}` : ''}`}</span>
             </div>
             <div className="truncate max-w-md text-gray-400">
                 {lastNotif ? lastNotif.message : "Ready"}
@@ -573,106 +1172,1151 @@ export const StatusBar: React.FC = () => {
     );
 };
 
-export const CommandPalette: React.FC = () => {
-    const { commandPaletteOpen, setCommandPaletteOpen } = useNotebook();
-    if (!commandPaletteOpen) return null;
+// --- 6. Main Notebook Logic ---
 
-    return (
-        <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center pt-20" onClick={() => setCommandPaletteOpen(false)}>
-            <div className="w-full max-w-lg bg-gray-800 rounded-lg shadow-2xl border border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
-                <input autoFocus className="w-full bg-gray-800 p-4 text-lg text-white border-b border-gray-700 outline-none" placeholder="Type a command..." />
-                <div className="p-2">
-                    <div className="text-xs text-gray-500 mb-2 px-2">Suggestions</div>
-                    <div className="px-2 py-2 hover:bg-gray-700 rounded cursor-pointer text-sm">Add Code Cell</div>
-                    <div className="px-2 py-2 hover:bg-gray-700 rounded cursor-pointer text-sm">Run All Cells</div>
-                    <div className="px-2 py-2 hover:bg-gray-700 rounded cursor-pointer text-sm">Export to HTML</div>
-                    <div className="px-2 py-2 hover:bg-gray-700 rounded cursor-pointer text-sm">Restart Kernel</div>
-                </div>
-            </div>
-        </div>
-    );
-};
+const createStarterCells = (): EnhancedCell[] => [
+    { id: generateUniqueId('cell'), type: ExpandedCellType.Markdown, content: '# Universal Notebook\nWelcome to the future of interactive computing.', metadata: {}, comments: [] },
+    { id: generateUniqueId('cell'), type: ExpandedCellType.Code, content: { code: 'const greeting = "Hello World";\nconsole.log(greeting);', language: 'javascript' }, status: 'idle', metadata: {}, comments: [] },
+    { id: generateUniqueId('cell'), type: ExpandedCellType.Data, content: { name: 'sample', data: [[1, 'Alpha'], [2, 'Beta']], columns: ['ID', 'Name'] }, metadata: {}, comments: [] },
+    { id: generateUniqueId('cell'), type: ExpandedCellType.AIChat, content: { prompt: '' }, status: 'idle', metadata: {}, comments: [] },
+];
 
-// --- 6. Main Notebook Logic ---
+const createNotebookMetadata = (): NotebookMetadata => ({
+    id: generateUniqueId('nb'), title: 'Untitled', description: '', author: 'User', createdAt: new Date().toISOString(), lastModified: new Date().toISOString(), visibility: 'private', sharedWith: [], kernels: getAvailableKernels(), defaultKernelId: 'javascript-node', theme: 'dark', settings: {}
+});
+
+const DRAFT_DELAY_MS = 1000;
+const AUTOSAVE_DELAY_MS = 5000;
+const VERSION_SNAPSHOT_DELAY_MS = 2000;
+const AI_STREAM_FLUSH_MS = 50;
+const DENIAL_NOTICE_INTERVAL_MS = 3000;
+
+const EXPORT_OPTIONS: ExportOptions = {
+    chartSvg: cellId => {
+        const svg = document.querySelector<SVGSVGElement>(`#cell-${CSS.escape(cellId)} svg`);
+        return svg ? chartSvgMarkup(svg) : undefined;
+    },
+};
 
 export const Notebook: React.FC = () => {
-    const [cells, setCells] = useState<EnhancedCell[]>([
-        { id: generateUniqueId('cell'), type: ExpandedCellType.Markdown, content: '# Universal Notebook\nWelcome to the future of interactive computing.', metadata: {}, comments: [] },
-        { id: generateUniqueId('cell'), type: ExpandedCellType.Code, content: { code: 'print("Hello World")', language: 'python' }, status: 'idle', executionCount: 1, metadata: {}, comments: [] },
-        { id: generateUniqueId('cell'), type: ExpandedCellType.Data, content: { data: [['ID', 'Name'], [1, 'Alpha'], [2, 'Beta']], columns: ['ID', 'Name'] }, metadata: {}, comments: [] },
-        { id: generateUniqueId('cell'), type: ExpandedCellType.AIChat, content: { prompt: '' }, status: 'idle', metadata: {}, comments: [] },
-    ]);
+    const [cells, setCells] = useState<EnhancedCell[]>(createStarterCells);
     
     const [activeCellId, setActiveCellId] = useState<string | null>(cells[0]?.id || null);
-    const [notebookMetadata, setNotebookMetadata] = useState<NotebookMetadata>({
-        id: 'nb-1', title: 'Untitled', description: '', author: 'User', createdAt: new Date().toISOString(), lastModified: new Date().toISOString(), visibility: 'private', sharedWith: [], kernels: [], defaultKernelId: 'python-3', theme: 'dark', settings: {}
-    });
+    const [notebookMetadata, setNotebookMetadata] = useState<NotebookMetadata>(createNotebookMetadata);
     
-    const [users] = useState<UserProfile[]>([]);
     const [notifications, setNotifications] = useState<Notification[]>([]);
     const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
     const [aiAssistantOpen, setAiAssistantOpen] = useState(false);
     const [globalSearchTerm, setGlobalSearchTerm] = useState('');
-    const [activeSidebarPanel, setActiveSidebarPanel] = useState<'outline' | 'variables' | 'files' | 'plugins'>('outline');
+    const [activeSidebarPanel, setActiveSidebarPanel] = useState<SidebarPanel>('outline');
+    const [notebookListOpen, setNotebookListOpen] = useState(false);
+    const [shortcutsDialogOpen, setShortcutsDialogOpen] = useState(false);
+    const [collabDialogOpen, setCollabDialogOpen] = useState(false);
+    const [keybindingOverrides, setKeybindingOverrides] = useState<KeybindingOverrides>(loadKeybindingOverrides);
+    const [keyMode, setKeyMode] = useState<FocusMode>('command');
+    const [isDirty, setIsDirty] = useState(false);
 
     const addNotification = useCallback((n: Omit<Notification, 'id' | 'timestamp' | 'read'>) => {
         setNotifications(prev => [...prev, { id: generateUniqueId('notif'), timestamp: new Date().toISOString(), read: false, ...n }]);
         setTimeout(() => setNotifications(prev => prev.slice(1)), 5000); // Auto dismiss
     }, []);
 
+    // All cell mutations go through mutateCells so cellsRef is current between renders;
+    // history commands capture their "before" state from it.
+    const cellsRef = useRef(cells);
+    const notebookMetadataRef = useRef(notebookMetadata);
+    notebookMetadataRef.current = notebookMetadata;
+    const mutateCells = useCallback((fn: (prev: EnhancedCell[]) => EnhancedCell[]) => {
+        const next = fn(cellsRef.current);
+        cellsRef.current = next;
+        setCells(next);
+    }, []);
+
+    const historyRef = useRef<HistoryStack | null>(null);
+    if (!historyRef.current) historyRef.current = new HistoryStack();
+    const history = historyRef.current;
+    const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+    useEffect(() => history.onChange(() => setHistoryState({ canUndo: history.canUndo, canRedo: history.canRedo })), [history]);
+
+    // Version snapshots are taken once an editing burst on a cell has settled.
+    const [historyCellId, setHistoryCellId] = useState<string | null>(null);
+    const versionSnapshotters = useRef(new Map<string, (...args: any[]) => void>());
+
+    const commitCellVersion = useCallback((cellId: string, message?: string) => {
+        const author = notebookMetadataRef.current.author;
+        mutateCells(prev => prev.map(c => c.id === cellId ? { ...c, versions: recordVersion(c, author, message) } : c));
+    }, [mutateCells]);
+
+    const scheduleVersionSnapshot = useCallback((cellId: string) => {
+        let snapshot = versionSnapshotters.current.get(cellId);
+        if (!snapshot) {
+            snapshot = debounce(() => commitCellVersion(cellId), VERSION_SNAPSHOT_DELAY_MS);
+            versionSnapshotters.current.set(cellId, snapshot);
+        }
+        snapshot();
+    }, [commitCellVersion]);
+
+    // The "before" half of an undoable update, or null when the update changes nothing.
+    const updateBefore = (cell: EnhancedCell, updates: Partial<EnhancedCell>) => {
+        const before: Partial<EnhancedCell> = {};
+        (Object.keys(updates) as (keyof EnhancedCell)[]).forEach(key => { (before as any)[key] = cell[key]; });
+        return JSON.stringify(before) !== JSON.stringify(updates) ? before : null;
+    };
+
+    // What else an undoable edit changes on the cell.
+    const trackEdit = useCallback((cell: EnhancedCell, updates: Partial<EnhancedCell>): Partial<EnhancedCell> => {
+        let versions = cell.versions;
+        if ('content' in updates && cell.executionCount && (notebookMetadataRef.current.settings.reactiveMode || 'off') !== 'off') {
+            // Its outputs no longer reflect its code; running it will re-evaluate dependents.
+            updates = { ...updates, stale: true };
+        }
+        if ('content' in updates || 'metadata' in updates) {
+            // The first committed change also records what the cell looked like before it.
+            if (!versions || versions.length === 0) versions = recordVersion(cell, notebookMetadataRef.current.author, 'Initial version');
+            scheduleVersionSnapshot(cell.id);
+        }
+        return { versions, ...updates };
+    }, [scheduleVersionSnapshot]);
+
     const updateCell = useCallback((cellId: string, updates: Partial<EnhancedCell>, pushToHistory = false) => {
-        setCells(prev => prev.map(c => c.id === cellId ? { ...c, ...updates } : c));
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        if (pushToHistory) {
+            const before = updateBefore(cell, updates);
+            if (before) {
+                const keys = Object.keys(updates).sort().join(',');
+                history.push({ kind: 'update', cellId, before, after: updates, coalesceKey: keys, timestamp: Date.now() });
+                updates = trackEdit(cell, updates);
+            }
+        }
+        mutateCells(prev => prev.map(c => c.id === cellId ? { ...c, ...updates } : c));
+        // Editing a table changes what the cells reading it would compute.
+        if (pushToHistory && cell.type === ExpandedCellType.Data && updates.content &&
+            (updates.content.data !== cell.content?.data || updates.content.columns !== cell.content?.columns)) {
+            propagateChangesRef.current([cellId]);
+        }
+    }, [history, mutateCells, trackEdit]);
+
+    // Several updates as one undo step.
+    const updateCells = useCallback((changes: { cellId: string; updates: Partial<EnhancedCell> }[], label: string) => {
+        const commands: HistoryCommand[] = [];
+        const applied = new Map<string, Partial<EnhancedCell>>();
+        changes.forEach(({ cellId, updates }) => {
+            const cell = cellsRef.current.find(c => c.id === cellId);
+            const before = cell && updateBefore(cell, updates);
+            if (!cell || !before) return;
+            commands.push({ kind: 'update', cellId, before, after: updates, timestamp: Date.now() });
+            applied.set(cellId, trackEdit(cell, updates));
+        });
+        if (commands.length === 0) return;
+        history.push({ kind: 'batch', label, commands });
+        mutateCells(prev => prev.map(c => applied.has(c.id) ? { ...c, ...applied.get(c.id) } : c));
+    }, [history, mutateCells, trackEdit]);
+
+    const kernelManagerRef = useRef<KernelManager | null>(null);
+    if (!kernelManagerRef.current) kernelManagerRef.current = new KernelManager();
+    const kernelManager = kernelManagerRef.current;
+
+    const setKernelStatus = useCallback((kernelId: string, status: KernelStatus) => {
+        setNotebookMetadata(prev => ({ ...prev, kernels: prev.kernels.map(k => k.id === kernelId ? { ...k, status } : k) }));
+    }, []);
+
+    useEffect(() => kernelManager.onStatusChange(setKernelStatus), [kernelManager, setKernelStatus]);
+    useEffect(() => () => { kernelManager.shutdownAll(); }, [kernelManager]);
+    useEffect(() => {
+        kernelManager.setGatewayUrl(notebookMetadata.settings.kernelGatewayUrl || undefined);
+    }, [kernelManager, notebookMetadata.settings.kernelGatewayUrl]);
+
+    const getCellKernel = useCallback((cellId: string) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        return cell ? resolveKernelInfo(cell, notebookMetadataRef.current) : undefined;
+    }, []);
+
+    const appendOutput = useCallback((cellId: string, output: any) => {
+        mutateCells(prev => prev.map(c => c.id === cellId ? { ...c, outputs: [...(c.outputs || []), output] } : c));
+    }, [mutateCells]);
+
+    const [sqlSchema, setSqlSchema] = useState<SqlTableSchema[]>([]);
+
+    // --- Variable inspector ---
+
+    const [kernelRuns, setKernelRuns] = useState(0);
+    const [variableViewer, setVariableViewer] = useState<{ kernelId: string; path: VariablePath } | null>(null);
+    const inspectVariables = useCallback((kernelId: string, path?: VariablePath) => kernelManager.inspect(kernelId, path), [kernelManager]);
+    const getVariableTable = useCallback((kernelId: string, path: VariablePath, limit: number) => kernelManager.getTable(kernelId, path, limit), [kernelManager]);
+
+    // Placeholders are bound from kernel globals, the default kernel taking precedence.
+    const resolveSqlParameters = useCallback(async (names: string[]) => {
+        const { kernels, defaultKernelId } = notebookMetadataRef.current;
+        const ids = [defaultKernelId, ...kernels.map(k => k.id).filter(id => id !== defaultKernelId)];
+        const values: Record<string, any> = {};
+        for (const id of ids.reverse()) Object.assign(values, await kernelManager.getVariables(id, names));
+        return values;
+    }, [kernelManager]);
+
+    // SQL cells on the in-browser engine: the notebook's tables are synced into it, the query runs,
+    // and a result set becomes a dataframe output that later cells read under the result name.
+    const runLocalSql = useCallback(async (cell: EnhancedCell): Promise<'success' | 'error'> => {
+        const query: string = cell.content?.query || '';
+        const start = new Date();
+        updateCell(cell.id, { status: 'running', outputs: [] });
+        const finish = (status: 'success' | 'error', outputs: any[]) => {
+            const end = new Date();
+            updateCell(cell.id, {
+                status,
+                stale: false,
+                outputs,
+                executionCount: (cell.executionCount || 0) + 1,
+                executionTime: { start: start.toISOString(), end: end.toISOString(), durationMs: end.getTime() - start.getTime() }
+            });
+            return status;
+        };
+        try {
+            const params = sqlParameterNames(query);
+            const values = params.length > 0 ? await resolveSqlParameters(params.map(p => p.name)) : {};
+            const unbound = params.filter(p => !(p.name in values));
+            if (unbound.length > 0) {
+                throw new Error(`Unbound parameter${unbound.length > 1 ? 's' : ''} ${unbound.map(p => p.token).join(', ')}: define ${unbound.length > 1 ? 'these variables' : 'this variable'} in a code cell and run it first`);
+            }
+            await syncTables(notebookTables(cellsRef.current).filter(t => t.cellId !== cell.id));
+            const result = await runQuery(query, values);
+            getSchema().then(setSqlSchema);
+            if (result.columns.length > 0) return finish('success', [toDataframeOutput(result)]);
+            return finish('success', [{ type: 'stream', name: 'stdout', text: `Statement executed; ${result.rowsModified} row(s) affected.\n` }]);
+        } catch (e: any) {
+            return finish('error', [{ type: 'error', name: 'SQLError', message: e?.message || String(e), traceback: [] }]);
+        }
+    }, [resolveSqlParameters, updateCell]);
+
+    // Streaming AI requests by cell, so a reply can be stopped.
+    const aiRequestsRef = useRef(new Map<string, AbortController>());
+    const selectedCellIdsRef = useRef<string[]>([]);
+    const aiFallbackNoticeShown = useRef(false);
+
+    const cancelAIRequest = useCallback((cellId: string) => {
+        aiRequestsRef.current.get(cellId)?.abort();
     }, []);
 
+    // Sends an AI chat cell's prompt together with its history and the notebook context, and
+    // streams the reply into the cell's `messages`.
+    const runAIChat = useCallback(async (cell: EnhancedCell): Promise<'success' | 'error'> => {
+        const prompt: string = (cell.content?.prompt || '').trim();
+        if (!prompt) return 'success';
+        const { provider, fallback } = resolveAIProvider(resolveKernelInfo(cell, notebookMetadataRef.current));
+        if (fallback && !aiFallbackNoticeShown.current) {
+            aiFallbackNoticeShown.current = true;
+            addNotification({ type: 'info', message: 'No OpenAI API key set; AI cells answer with the offline echo provider' });
+        }
+
+        const history: ChatMessage[] = cell.content?.messages || [];
+        const userMessage: ChatMessage = { role: 'user', content: prompt, timestamp: new Date().toISOString() };
+        let context: string | undefined;
+        if (cell.content?.includeContext !== false) {
+            // The selection if there is one, otherwise the cell the chat sits under.
+            const cells = cellsRef.current;
+            const selection = selectedCellIdsRef.current.filter(id => id !== cell.id);
+            const above = cells.slice(0, cells.findIndex(c => c.id === cell.id)).reverse().find(c => c.type !== ExpandedCellType.AIChat);
+            context = buildNotebookContext(cells, { cellIds: selection.length > 0 ? selection : above ? [above.id] : [] });
+        }
+
+        const setChat = (changes: Record<string, any>, extra: Partial<EnhancedCell> = {}) =>
+            mutateCells(prev => prev.map(c => c.id === cell.id ? { ...c, ...extra, content: { ...c.content, ...changes } } : c));
+        const start = new Date();
+        setChat({ prompt: '', messages: [...history, userMessage] }, { status: 'running', outputs: [] });
+
+        const controller = new AbortController();
+        aiRequestsRef.current.set(cell.id, controller);
+        let reply = '';
+        let lastFlush = 0;
+        const flush = () => setChat({ messages: [...history, userMessage, { role: 'assistant', content: reply, timestamp: new Date().toISOString() }] });
+        let status: 'success' | 'error' = 'success';
+        let outputs: any[] = [];
+        try {
+            const request = { messages: [systemMessage(context), ...history.map(({ role, content }) => ({ role, content })), userMessage] };
+            await provider.complete(request, token => {
+                reply += token;
+                // A few renders per second read as streaming without re-rendering the notebook per token.
+                if (Date.now() - lastFlush > AI_STREAM_FLUSH_MS) {
+                    lastFlush = Date.now();
+                    flush();
+                }
+            }, controller.signal);
+            flush();
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                reply += reply ? '\n\n*(stopped)*' : '*(stopped)*';
+                flush();
+            } else {
+                // Put the prompt back so it can be retried.
+                status = 'error';
+                outputs = [{ type: 'error', name: 'AIError', message: e?.message || String(e), traceback: [] }];
+                setChat({ prompt, messages: history });
+            }
+        } finally {
+            aiRequestsRef.current.delete(cell.id);
+        }
+        const end = new Date();
+        updateCell(cell.id, {
+            status,
+            outputs,
+            executionCount: (cell.executionCount || 0) + 1,
+            executionTime: { start: start.toISOString(), end: end.toISOString(), durationMs: end.getTime() - start.getTime() }
+        });
+        return status;
+    }, [addNotification, mutateCells, updateCell]);
+
+    // Runs a single cell and resolves once it has finished; dependents are not touched.
+    // A plugin executor that throws produces a PluginError output; the plugin is blamed, not the notebook.
+    const runPluginCell = useCallback(async (cell: EnhancedCell, cellType: PluginCellType & { pluginId: string }): Promise<'success' | 'error'> => {
+        if (!cellType.execute) return 'success';
+        const plugin = getPlugins().find(p => p.id === cellType.pluginId);
+        const start = new Date();
+        updateCell(cell.id, { status: 'running', outputs: [] });
+        let outputs: any[];
+        try {
+            outputs = await cellType.execute(cell, { config: plugin ? pluginConfig(plugin, notebookMetadataRef.current.plugins) : {}, cells: cellsRef.current });
+        } catch (e: any) {
+            reportPluginError(cellType.pluginId, e);
+            outputs = [{ type: 'error', name: 'PluginError', message: e?.message || String(e), traceback: [] }];
+        }
+        const end = new Date();
+        const status = outputs.some(o => o?.type === 'error') ? 'error' : 'success';
+        updateCell(cell.id, {
+            status,
+            stale: false,
+            outputs,
+            executionCount: (cell.executionCount || 0) + 1,
+            executionTime: { start: start.toISOString(), end: end.toISOString(), durationMs: end.getTime() - start.getTime() }
+        });
+        return status;
+    }, [updateCell]);
+
+    const runCell = useCallback(async (cellId: string): Promise<'success' | 'error'> => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return 'error';
+
+        if (cell.type === ExpandedCellType.AIChat) return runAIChat(cell);
+        const pluginCellType = getPluginCellType(cell.type);
+        if (pluginCellType) return runPluginCell(cell, pluginCellType);
+        if (cell.type === ExpandedCellType.SQL) {
+            const kernel = resolveKernelInfo(cell, notebookMetadataRef.current);
+            if (!kernel || kernel.id === SQLITE_KERNEL_ID || !kernelManager.canRun(kernel)) return runLocalSql(cell);
+        } else if (cell.type !== ExpandedCellType.Code && cell.type !== ExpandedCellType.Form) {
+            // Nothing to execute (Markdown, data tables, charts...); the cell is left as it is.
+            return 'success';
+        }
+
+        const kernel = resolveKernelInfo(cell, notebookMetadataRef.current);
+        if (!kernel || !kernelManager.canRun(kernel)) {
+            const target = kernel?.name || cell.content?.language || cell.language || 'this cell';
+            updateCell(cellId, { status: 'error', outputs: [{ type: 'error', name: 'KernelError', message: `No kernel available for ${target}. Configure a kernel gateway to run remote kernels.`, traceback: [] }] });
+            addNotification({ type: 'error', message: `No kernel available for ${target}` });
+            return 'error';
+        }
+
+        // Tables the code refers to by name are defined in the kernel first.
+        let code: string = cell.type === ExpandedCellType.SQL ? cell.content?.query || '' : cell.content?.code || '';
+        if (cell.type === ExpandedCellType.Form) code = formBindingSource(cell.content || { widgets: [], values: {} }, kernel.language);
+        if (cell.type === ExpandedCellType.Code) {
+            const reads = analyzeCell(cell).reads;
+            const tables = notebookTables(cellsRef.current).filter(t => t.cellId !== cellId && reads.includes(t.name));
+            if (tables.length > 0) code = `${tableBindingSource(cell.content?.language || kernel.language, tables)}\n${code}`;
+        }
+
+        const start = new Date();
+        updateCell(cellId, { status: 'running', outputs: [] });
+        const reply = await kernelManager.execute(kernel, code, output => appendOutput(cellId, output));
+        setKernelRuns(n => n + 1);
+        const end = new Date();
+        const status = reply.status === 'ok' ? 'success' : 'error';
+        updateCell(cellId, {
+            status,
+            stale: false,
+            executionCount: reply.executionCount,
+            executionTime: { start: start.toISOString(), end: end.toISOString(), durationMs: end.getTime() - start.getTime() }
+        });
+        return status;
+    }, [addNotification, appendOutput, kernelManager, runAIChat, runLocalSql, runPluginCell, updateCell]);
+
+    // Bumped to cancel whatever is left in the run queue (interrupt, restart, a new run).
+    const runGenerationRef = useRef(0);
+    // Cells the latest run has yet to start.
+    const pendingRunRef = useRef(new Set<string>());
+
+    const cancelQueuedCells = useCallback(() => {
+        runGenerationRef.current++;
+        pendingRunRef.current = new Set<string>();
+        mutateCells(prev => prev.map(c => c.status === 'queued' ? { ...c, status: 'idle' } : c));
+    }, [mutateCells]);
+
+    // Dependents of cells that just ran are flagged stale, and re-run in auto mode.
+    const propagateChangesRef = useRef<(cellIds: string[], mode?: ReactiveMode) => Promise<void>>(async () => {});
+
+    // Runs cells one after another in notebook order. Everything waiting is shown as queued;
+    // the first error stops the run and returns the remaining cells to idle.
+    const runCells = useCallback(async (cellIds: string[], propagate = true) => {
+        const order = cellsRef.current.map(c => c.id).filter(id => cellIds.includes(id));
+        if (order.length === 0) return;
+        const generation = ++runGenerationRef.current;
+        const queued = new Set(order);
+        pendingRunRef.current = queued;
+        mutateCells(prev => prev.map(c => queued.has(c.id) ? { ...c, status: 'queued' } : c));
+
+        const executed: string[] = [];
+        for (const id of order) {
+            if (runGenerationRef.current !== generation) {
+                // A newer run took over; what it didn't queue again won't run.
+                const taken = pendingRunRef.current;
+                mutateCells(prev => prev.map(c => queued.has(c.id) && !taken.has(c.id) && c.status === 'queued' ? { ...c, status: 'idle' } : c));
+                return;
+            }
+            queued.delete(id);
+            const result = await runCell(id);
+            executed.push(id);
+            if (result === 'error') {
+                mutateCells(prev => prev.map(c => queued.has(c.id) && c.status === 'queued' ? { ...c, status: 'idle' } : c));
+                if (queued.size > 0) addNotification({ type: 'warning', message: `Execution stopped after an error; ${queued.size} cell(s) not run` });
+                break;
+            }
+        }
+        if (propagate && runGenerationRef.current === generation) await propagateChangesRef.current(executed);
+    }, [addNotification, mutateCells, runCell]);
+
+    propagateChangesRef.current = async (cellIds: string[], mode: ReactiveMode = notebookMetadataRef.current.settings.reactiveMode || 'off') => {
+        if (mode === 'off' || cellIds.length === 0) return;
+        const downstream = findDownstreamCells(cellsRef.current, cellIds).filter(id => {
+            const cell = cellsRef.current.find(c => c.id === id);
+            return !!cell && RUNNABLE_CELL_TYPES.includes(cell.type) && (cell.executionCount || cell.status === 'success' || cell.status === 'error');
+        });
+        if (downstream.length === 0) return;
+        const affected = new Set(downstream);
+        mutateCells(prev => prev.map(c => affected.has(c.id) ? { ...c, stale: true } : c));
+        if (mode === 'auto') await runCells(downstream, false);
+    };
+
     const executeCell = useCallback(async (cellId: string) => {
-        updateCell(cellId, { status: 'running' });
-        addNotification({ type: 'info', message: 'Executing cell...' });
-        
-        setTimeout(() => {
-             // Mock execution result
-             updateCell(cellId, { 
-                 status: 'success', 
-                 outputs: [{ type: 'stream', name: 'stdout', text: 'Execution completed successfully.\n[Result]: 42' }],
-                 executionCount: (cells.find(c => c.id === cellId)?.executionCount || 0) + 1,
-                 executionTime: { start: '', end: '', durationMs: 450 }
-             });
-        }, 800);
-    }, [addNotification, cells, updateCell]);
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        if (!RUNNABLE_CELL_TYPES.includes(cell.type)) {
+            await runCell(cellId);
+            return;
+        }
+        await runCells([cellId]);
+    }, [runCell, runCells]);
 
-    const addCell = useCallback((type: ExpandedCellType, content: any, index?: number, metadata?: Record<string, any>) => {
+    // After a form value changes: bind the values, then re-run the cells that read them (those
+    // that have run before) whatever the reactive mode.
+    const rerunForm = useCallback(async (cellId: string) => {
+        await runCells([cellId], false);
+        if (cellsRef.current.find(c => c.id === cellId)?.status === 'success') await propagateChangesRef.current([cellId], 'auto');
+    }, [runCells]);
+
+    const resolveTargetKernelId = useCallback((kernelId?: string) => {
+        if (kernelId) return kernelId;
+        const active = activeCellId ? getCellKernel(activeCellId) : undefined;
+        return active?.id || notebookMetadataRef.current.defaultKernelId;
+    }, [activeCellId, getCellKernel]);
+
+    const interruptKernel = useCallback(async (kernelId?: string) => {
+        const id = resolveTargetKernelId(kernelId);
+        cancelQueuedCells();
+        await kernelManager.interrupt(id);
+        addNotification({ type: 'warning', message: `Interrupted kernel ${id}` });
+    }, [addNotification, cancelQueuedCells, kernelManager, resolveTargetKernelId]);
+
+    const restartKernel = useCallback(async (kernelId?: string) => {
+        const id = resolveTargetKernelId(kernelId);
+        cancelQueuedCells();
+        try {
+            await kernelManager.restart(id);
+            addNotification({ type: 'system', message: `Kernel ${id} restarted` });
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Failed to restart kernel ${id}: ${e.message}` });
+        }
+    }, [addNotification, cancelQueuedCells, kernelManager, resolveTargetKernelId]);
+
+    const insertCell = useCallback((fields: Pick<EnhancedCell, 'type' | 'content'> & Partial<EnhancedCell>, index?: number) => {
         const newCell: EnhancedCell = {
-            id: generateUniqueId('cell'), type, content, metadata: metadata || {}, outputs: [], executionCount: 0, status: 'idle', comments: []
+            id: generateUniqueId('cell'), metadata: {}, outputs: [], executionCount: 0, status: 'idle', comments: [], ...fields
         };
-        setCells(prev => [...prev, newCell]);
+        const position = index === undefined ? cellsRef.current.length : Math.max(0, Math.min(index, cellsRef.current.length));
+        history.push({ kind: 'add', cell: newCell, index: position });
+        mutateCells(prev => [...prev.slice(0, position), newCell, ...prev.slice(position)]);
         setActiveCellId(newCell.id);
-        addNotification({ type: 'info', message: `Added ${type} cell` });
-    }, [addNotification]);
+        addNotification({ type: 'info', message: `Added ${newCell.type} cell` });
+    }, [addNotification, history, mutateCells]);
+
+    const addCell = useCallback((type: ExpandedCellType, content: any, index?: number, metadata?: Record<string, any>) => {
+        insertCell({ type, content, metadata: metadata || {} }, index);
+    }, [insertCell]);
 
     const deleteCell = useCallback((cellId: string) => {
-        setCells(prev => prev.filter(c => c.id !== cellId));
+        const index = cellsRef.current.findIndex(c => c.id === cellId);
+        if (index === -1) return;
+        history.push({ kind: 'delete', cell: cellsRef.current[index], index });
+        mutateCells(prev => prev.filter(c => c.id !== cellId));
         addNotification({ type: 'info', message: 'Cell deleted' });
-    }, [addNotification]);
+    }, [addNotification, history, mutateCells]);
+
+    const moveCell = useCallback((from: number, to: number) => {
+        const count = cellsRef.current.length;
+        if (from === to || from < 0 || to < 0 || from >= count || to >= count) return;
+        const command = { kind: 'move' as const, from, to };
+        history.push(command);
+        mutateCells(prev => applyCommand(prev, command, 'redo'));
+    }, [history, mutateCells]);
+
+    const applyHistory = useCallback((direction: 'undo' | 'redo') => {
+        const command = direction === 'undo' ? history.undo() : history.redo();
+        if (!command) return;
+        mutateCells(prev => applyCommand(prev, command, direction));
+        const focusId = commandCellId(command);
+        setActiveCellId(focusId && cellsRef.current.some(c => c.id === focusId) ? focusId : null);
+    }, [history, mutateCells]);
+
+    const undo = useCallback(() => applyHistory('undo'), [applyHistory]);
+    const redo = useCallback(() => applyHistory('redo'), [applyHistory]);
+
+    const runnableIds = (list: EnhancedCell[]) => list.filter(c => RUNNABLE_CELL_TYPES.includes(c.type)).map(c => c.id);
+    // Run all, above and below leave out cells tagged to be skipped.
+    const batchIds = (list: EnhancedCell[]) => runnableIds(list.filter(c => !hasTag(c, SKIP_TAGS)));
 
-    const moveCell = useCallback((from: number, to: number) => {}, []);
     const runAllCells = useCallback(async () => {
         addNotification({type: 'info', message: 'Running all cells...'});
-        cells.forEach(c => {
-            if(['code', 'sql'].includes(c.type)) executeCell(c.id);
-        });
-    }, [cells, executeCell, addNotification]);
+        await runCells(batchIds(cellsRef.current));
+    }, [runCells, addNotification]);
+
+    const runCellsAbove = useCallback(async (cellId: string) => {
+        const index = cellsRef.current.findIndex(c => c.id === cellId);
+        if (index > 0) await runCells(batchIds(cellsRef.current.slice(0, index)));
+    }, [runCells]);
+
+    const runCellsBelow = useCallback(async (cellId: string) => {
+        const index = cellsRef.current.findIndex(c => c.id === cellId);
+        if (index !== -1) await runCells(batchIds(cellsRef.current.slice(index)));
+    }, [runCells]);
+
+    const [selectedCellIds, setSelectedCellIds] = useState<string[]>([]);
+    selectedCellIdsRef.current = selectedCellIds;
+    const toggleCellSelection = useCallback((cellId: string) => {
+        setSelectedCellIds(prev => prev.includes(cellId) ? prev.filter(id => id !== cellId) : [...prev, cellId]);
+    }, []);
+
+    const runSelectedCells = useCallback(async () => {
+        await runCells(runnableIds(cellsRef.current.filter(c => selectedCellIds.includes(c.id))));
+    }, [runCells, selectedCellIds]);
     
-    const saveNotebook = useCallback(async () => { addNotification({type: 'success', message: 'Notebook Saved'}); }, [addNotification]);
-    const loadNotebook = useCallback(async (id: string) => {}, []);
-    const undo = useCallback(() => {}, []);
-    const redo = useCallback(() => {}, []);
+    const importNotebook = useCallback(async (file: File) => {
+        try {
+            const { cells: importedCells, metadata } = fromIpynb(await file.text());
+            await kernelManager.shutdownAll();
+            mutateCells(() => importedCells);
+            history.clear();
+            setNotebookMetadata({ ...metadata, title: metadata.title === 'Untitled' ? file.name.replace(/\.ipynb$/i, '') : metadata.title });
+            setActiveCellId(importedCells[0]?.id || null);
+            addNotification({ type: 'success', message: `Imported ${file.name} (${importedCells.length} cells)` });
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Could not import ${file.name}: ${e.message}` });
+        }
+    }, [addNotification, history, kernelManager, mutateCells]);
+
+    // --- Workspace files ---
+
+    const [filePreview, setFilePreview] = useState<string | null>(null);
+    // The cell a workspace file dragged over the notebook would be added below ('end' for the add area).
+    const [fileDropTarget, setFileDropTarget] = useState<string | null>(null);
+
+    const openWorkspaceNotebook = useCallback(async (path: string) => {
+        const blob = await readWorkspaceFile(path);
+        if (!blob) {
+            addNotification({ type: 'error', message: `${path} no longer exists` });
+            return;
+        }
+        await importNotebook(new File([blob], baseName(path)));
+    }, [addNotification, importNotebook]);
+
+    // Loader code is written for the default kernel's language.
+    const insertWorkspaceFile = useCallback(async (path: string, index?: number) => {
+        try {
+            const blob = await readWorkspaceFile(path);
+            if (!blob) throw new Error('it no longer exists');
+            const { kernels, defaultKernelId } = notebookMetadataRef.current;
+            const language = kernels.find(k => k.id === defaultKernelId)?.language === 'python' ? 'python' : 'javascript';
+            const activeIndex = cellsRef.current.findIndex(c => c.id === activeCellId);
+            insertCell(await fileCellFor(path, blob, language), index ?? (activeIndex === -1 ? undefined : activeIndex + 1));
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Could not insert ${baseName(path)}: ${e.message}` });
+        }
+    }, [activeCellId, addNotification, insertCell]);
+
+    // --- Persistence ---
+    // The last saved state is remembered as a snapshot so autosave and the dirty flag
+    // ignore session-only changes such as kernel status.
+    const lastSavedSnapshotRef = useRef('');
+    const storageReadyRef = useRef(false);
+    const snapshotOf = (metadata: NotebookMetadata, notebookCells: EnhancedCell[]) => JSON.stringify(toStorableNotebook(metadata, notebookCells));
+
+    const saveNotebook = useCallback(async () => {
+        // What gets written; edits made while the write is in flight are still unsaved after it.
+        const metadata = notebookMetadataRef.current;
+        const cells = cellsRef.current;
+        const storage = getNotebookStorage();
+        try {
+            const record = await storage.save(metadata, cells);
+            const saved = { lastModified: record.metadata.lastModified, version: record.metadata.version };
+            setNotebookMetadata(prev => ({ ...prev, ...saved }));
+            lastSavedSnapshotRef.current = snapshotOf({ ...metadata, ...saved }, cells);
+            const dirty = snapshotOf({ ...notebookMetadataRef.current, ...saved }, cellsRef.current) !== lastSavedSnapshotRef.current;
+            if (!dirty) await storage.clearDraft(metadata.id);
+            setLastNotebookId(metadata.id);
+            setIsDirty(dirty);
+            addNotification({ type: 'success', message: `Notebook saved (v${record.metadata.version})` });
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Save failed: ${e.message}` });
+        }
+    }, [addNotification]);
+
+    const applyNotebook = useCallback(async (metadata: NotebookMetadata, notebookCells: EnhancedCell[]) => {
+        await kernelManager.shutdownAll();
+        mutateCells(() => notebookCells);
+        history.clear();
+        setNotebookMetadata(metadata);
+        setActiveCellId(notebookCells[0]?.id || null);
+    }, [history, kernelManager, mutateCells]);
+
+    const loadNotebook = useCallback(async (id: string) => {
+        const storage = getNotebookStorage();
+        try {
+            const [saved, draft] = await Promise.all([storage.load(id), storage.loadDraft(id)]);
+            const savedSnapshot = saved ? snapshotOf(saved.metadata, saved.cells) : '';
+            const recovered = draft && (!saved || (draft.savedAt > saved.savedAt && snapshotOf(draft.metadata, draft.cells) !== savedSnapshot)) ? draft : undefined;
+            const source = recovered || saved;
+            if (!source) {
+                addNotification({ type: 'error', message: `Notebook ${id} was not found` });
+                return;
+            }
+            await applyNotebook(source.metadata, source.cells);
+            lastSavedSnapshotRef.current = savedSnapshot;
+            setIsDirty(!!recovered);
+            setLastNotebookId(id);
+            if (recovered) addNotification({ type: 'warning', message: `Recovered unsaved changes to "${source.metadata.title}" from ${new Date(recovered.savedAt).toLocaleString()}` });
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Could not open notebook: ${e.message}` });
+        }
+    }, [addNotification, applyNotebook]);
+
+    const newNotebook = useCallback(async () => {
+        await applyNotebook(createNotebookMetadata(), [
+            { id: generateUniqueId('cell'), type: ExpandedCellType.Code, content: { code: '', language: 'javascript' }, status: 'idle', metadata: {}, comments: [] },
+        ]);
+        lastSavedSnapshotRef.current = '';
+        setIsDirty(true);
+    }, [applyNotebook]);
+
+    // Reopen the notebook from the previous session, recovering a newer draft if the tab crashed.
+    useEffect(() => {
+        if (storageReadyRef.current) return;
+        storageReadyRef.current = true;
+        const lastId = getLastNotebookId();
+        if (lastId) loadNotebook(lastId);
+    }, [loadNotebook]);
+
+    const autosave = useMemo(() => ({
+        draft: debounce(() => {
+            const snapshot = snapshotOf(notebookMetadataRef.current, cellsRef.current);
+            const dirty = snapshot !== lastSavedSnapshotRef.current;
+            setIsDirty(dirty);
+            if (dirty) getNotebookStorage().saveDraft(notebookMetadataRef.current, cellsRef.current).catch(() => { /* best effort */ });
+        }, DRAFT_DELAY_MS),
+        save: debounce(() => {
+            if (notebookMetadataRef.current.settings.autosave === false) return;
+            if (snapshotOf(notebookMetadataRef.current, cellsRef.current) !== lastSavedSnapshotRef.current) saveNotebookRef.current();
+        }, AUTOSAVE_DELAY_MS),
+    }), []);
+    const saveNotebookRef = useRef(saveNotebook);
+    saveNotebookRef.current = saveNotebook;
+
+    useEffect(() => {
+        autosave.draft();
+        autosave.save();
+    }, [autosave, cells, notebookMetadata]);
+
     const toggleSidebarPanel = useCallback((p: any) => setActiveSidebarPanel(p), []);
 
+    // Converts between the text-based cell types, keeping the source. Undoable like any edit.
+    const changeCellType = useCallback((cellId: string, type: ExpandedCellType) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell || cell.type === type || !TEXT_CELL_TYPES.includes(cell.type)) return;
+        const { source } = cellSource(cell);
+        const content = type === ExpandedCellType.Code ? { code: source, ...(cell.type === ExpandedCellType.Code ? { language: cell.content?.language } : {}) }
+            : type === ExpandedCellType.SQL ? { query: source }
+            : type === ExpandedCellType.Markdown ? source
+            : null;
+        if (content === null) return;
+        updateCell(cellId, { type, content, outputs: [], status: 'idle', executionCount: 0 }, true);
+    }, [updateCell]);
+
+    // --- Commands and keyboard shortcuts ---
+
+    useEffect(() => registerCommands(builtinCommands()), []);
+
+    // --- Plugins ---
+
+    const pluginsVersion = usePluginRegistry();
+    useEffect(() => {
+        syncPlugins(notebookMetadata.plugins, { notify: (message, type) => addNotification({ type, message, source: 'plugin' }) });
+    }, [notebookMetadata.plugins, pluginsVersion, addNotification]);
+    useEffect(() => () => deactivateAllPlugins(), []);
+
+    // --- Collaboration ---
+    // Remote changes replace cells without going through the undo history. Local changes are
+    // published from an effect, so every kind of edit is shared however it was made.
+
+    const collabRef = useRef<CollabSession | null>(null);
+    const [collabStatus, setCollabStatus] = useState<CollabStatus>('off');
+    const [collabPeers, setCollabPeers] = useState<PeerPresence[]>([]);
+    const [collabSession, setCollabSession] = useState<CollabSessionInfo | null>(null);
+
+    const stopCollaboration = useCallback(() => {
+        collabRef.current?.stop();
+        collabRef.current = null;
+        setCollabSession(null);
+    }, []);
+
+    const startCollaboration = useCallback((options: CollabOptions) => {
+        collabRef.current?.stop();
+        saveCollabUser(options.user);
+        const user = { ...options.user, id: generateUniqueId('user') };
+        const host: CollabHost = {
+            getCells: () => cellsRef.current,
+            applyRemoteCells: (remoteCells, adopted) => {
+                if (!adopted) {
+                    newMentions(cellsRef.current, remoteCells, user.name).forEach(comment => addNotification({
+                        type: 'collaborator', message: `${comment.author} mentioned you: "${comment.text}"`, source: 'comments',
+                    }));
+                }
+                mutateCells(() => remoteCells);
+                if (!adopted) return;
+                history.clear();
+                setActiveCellId(remoteCells[0]?.id || null);
+                setCollabSession(prev => prev && { ...prev, waiting: false });
+            },
+            getNotebookFields: () => {
+                const { title, author, visibility, sharedWith } = notebookMetadataRef.current;
+                return { title, author, visibility, sharedWith };
+            },
+            applyRemoteNotebookFields: fields => setNotebookMetadata(prev => ({ ...prev, ...fields })),
+            onStatus: setCollabStatus,
+            onPeers: setCollabPeers,
+            onPeerJoined: peer => addNotification({ type: 'collaborator', message: `${peer.name} joined`, source: 'collaboration' }),
+            onPeerLeft: peer => addNotification({ type: 'collaborator', message: `${peer.name} left`, source: 'collaboration' }),
+        };
+        // Whoever shares the notebook owns it under the name they use in the session.
+        if (options.mode === 'host') setNotebookMetadata(prev => ({ ...prev, author: user.name }));
+        const session = new CollabSession(createTransport(options.transport, options.room, options.serverUrl), user, options.mode, host);
+        collabRef.current = session;
+        setCollabSession({ transport: options.transport, room: options.room, mode: options.mode, user, waiting: options.mode === 'join' });
+        session.start();
+    }, [addNotification, history, mutateCells]);
+
+    useEffect(() => { collabRef.current?.pushLocal(); }, [cells, notebookMetadata.title, notebookMetadata.author, notebookMetadata.visibility, notebookMetadata.sharedWith]);
+    useEffect(() => () => collabRef.current?.stop(), []);
+
+    // Presence: the active cell, and the selection while editing a cell's text.
+    useEffect(() => {
+        if (!collabSession) return;
+        const report = () => {
+            const target = document.activeElement;
+            const textarea = target instanceof HTMLTextAreaElement && target.dataset.collabText !== undefined ? target : null;
+            const cellId = textarea?.closest('[id^="cell-"]')?.id.slice('cell-'.length) ?? activeCellId;
+            collabRef.current?.setSelection(cellId, textarea ? { start: textarea.selectionStart, end: textarea.selectionEnd } : null);
+        };
+        report();
+        const events = ['selectionchange', 'focusin', 'keyup', 'mouseup'];
+        events.forEach(event => document.addEventListener(event, report));
+        return () => events.forEach(event => document.removeEventListener(event, report));
+    }, [activeCellId, collabSession]);
+
+    const users: UserProfile[] = useMemo(() => collabPeers.map(peer => ({
+        id: peer.user.id, name: peer.user.name, avatarUrl: '', status: peer.status, permissions: resolveRole(notebookMetadata, peer.user.name) ?? undefined,
+    })), [collabPeers, notebookMetadata.author, notebookMetadata.sharedWith, notebookMetadata.visibility]);
+
+    // --- Permissions ---
+    // The context's actions are gated below, so commands, shortcuts and plugins follow the same
+    // rules as the UI. Work the notebook does on its own (queued and reactive runs) is not gated.
+
+    const currentUserName = collabSession?.user.name || notebookMetadata.author;
+    const [viewerMode, setViewerMode] = useState(false);
+    const [shareDialogOpen, setShareDialogOpen] = useState(false);
+    const permissions: NotebookPermissions = useMemo(
+        () => resolvePermissions(notebookMetadata, currentUserName, viewerMode),
+        [notebookMetadata.author, notebookMetadata.sharedWith, notebookMetadata.visibility, currentUserName, viewerMode],
+    );
+    const permissionsRef = useRef(permissions);
+    permissionsRef.current = permissions;
+
+    // Editors report every keystroke, so a refusal is announced at most every few seconds.
+    const lastDenialRef = useRef(0);
+    const deny = useCallback((action: string) => {
+        if (Date.now() - lastDenialRef.current < DENIAL_NOTICE_INTERVAL_MS) return;
+        lastDenialRef.current = Date.now();
+        addNotification({ type: 'warning', message: `You don't have permission to ${action}` });
+    }, [addNotification]);
+
+    const gate = <F extends (...args: any[]) => any>(allowed: boolean, action: string, fn: F): F =>
+        allowed ? fn : ((() => { deny(action); }) as unknown as F);
+
+    const isCellEditable = useCallback((cell: EnhancedCell) => canEditCell(cell, permissionsRef.current), []);
+    const isCellVisible = useCallback((cell: EnhancedCell) => canSeeCell(cell, notebookMetadataRef.current, currentUserName), [currentUserName]);
+
+    const guardedUpdateCell = useCallback((cellId: string, updates: Partial<EnhancedCell>, pushToHistory?: boolean) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        if (!permissionsRef.current.canEdit) return deny('edit this notebook');
+        // A read-only cell's settings can still change, so it can be made editable again.
+        if (cell.metadata?.readOnly && ('content' in updates || 'type' in updates)) return deny('edit a read-only cell');
+        updateCell(cellId, updates, pushToHistory);
+    }, [deny, updateCell]);
+
+    const restoreCellVersion = useCallback((cellId: string, versionIndex: number) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        const version = cell?.versions?.[versionIndex];
+        if (!cell || !version) return;
+        if (!isCellEditable(cell)) return deny(permissionsRef.current.canEdit ? 'edit a read-only cell' : 'edit this notebook');
+        guardedUpdateCell(cellId, { content: version.content, metadata: version.metadata ?? cell.metadata }, true);
+        commitCellVersion(cellId, `Restored version from ${new Date(version.timestamp).toLocaleString()}`);
+        addNotification({ type: 'info', message: 'Cell restored to an earlier version' });
+    }, [addNotification, commitCellVersion, deny, guardedUpdateCell, isCellEditable]);
+
+    const guardedDeleteCell = useCallback((cellId: string) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        if (!isCellEditable(cell)) return deny(permissionsRef.current.canEdit ? 'delete a read-only cell' : 'delete cells');
+        deleteCell(cellId);
+    }, [deleteCell, deny, isCellEditable]);
+
+    const guardedChangeCellType = useCallback((cellId: string, type: ExpandedCellType) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        if (!isCellEditable(cell)) return deny('change this cell');
+        changeCellType(cellId, type);
+    }, [changeCellType, deny, isCellEditable]);
+
+    const updateSharing = useCallback((changes: Partial<Pick<NotebookMetadata, 'visibility' | 'sharedWith'>>) => {
+        if (!permissionsRef.current.canShare) return deny('change who this notebook is shared with');
+        setNotebookMetadata(prev => ({ ...prev, ...changes }));
+    }, [deny]);
+
+    // Making a cell private claims it for the current user if nobody has yet.
+    const setCellVisibility = useCallback((cellId: string, visibility: EnhancedCell['visibility']) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        if (!canChangeCellVisibility(cell, notebookMetadataRef.current, currentUserName, permissionsRef.current)) return deny('change who can see this cell');
+        updateCell(cellId, { visibility, author: cell.author || currentUserName }, true);
+    }, [currentUserName, deny, updateCell]);
+
+    // --- Export ---
+    // Exports hold only the cells the current user can see. Charts are taken as currently drawn.
+
+    const exportBaseName = (notebookMetadata.title || 'notebook').replace(/[\\/:*?"<>|]+/g, '_');
+
+    const exportNotebook = useCallback((format: ExportFormat = 'ipynb') => {
+        const visible = cells.filter(isCellVisible);
+        if (format === 'html') downloadFile(`${exportBaseName}.html`, toHtml(visible, notebookMetadata, EXPORT_OPTIONS), 'text/html');
+        else if (format === 'markdown') downloadFile(`${exportBaseName}.md`, toMarkdown(visible, notebookMetadata, EXPORT_OPTIONS), 'text/markdown');
+        else downloadFile(`${exportBaseName}.ipynb`, serializeIpynb(visible, notebookMetadata), 'application/x-ipynb+json');
+    }, [cells, isCellVisible, notebookMetadata]);
+
+    // Opens the HTML export in a new window and prints it, which browsers can also save as PDF.
+    const printNotebook = useCallback(() => {
+        const url = URL.createObjectURL(new Blob([toHtml(cells.filter(isCellVisible), notebookMetadata, EXPORT_OPTIONS)], { type: 'text/html' }));
+        const printWindow = window.open(url, '_blank');
+        if (!printWindow) {
+            URL.revokeObjectURL(url);
+            addNotification({ type: 'error', message: 'Could not open the print view. Allow pop-ups for this page and try again.' });
+            return;
+        }
+        printWindow.addEventListener('load', () => {
+            printWindow.focus();
+            printWindow.print();
+        });
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    }, [addNotification, cells, isCellVisible, notebookMetadata]);
+
+    // --- Cell metadata ---
+
+    const setCellFlag = useCallback((cellId: string, flag: CellFlag, value: boolean) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        const metadata = { ...cell.metadata };
+        if (value) metadata[flag] = true;
+        else delete metadata[flag];
+        guardedUpdateCell(cellId, { metadata }, true);
+    }, [guardedUpdateCell]);
+
+    const setCellTags = useCallback((cellId: string, tags: string[]) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell) return;
+        const { tags: _tags, ...metadata } = cell.metadata || {};
+        const unique = Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+        guardedUpdateCell(cellId, { metadata: unique.length > 0 ? { ...metadata, tags: unique } : metadata }, true);
+    }, [guardedUpdateCell]);
+
+    const [tagFilter, setTagFilter] = useState<string[]>([]);
+    const [tagEditorCellId, setTagEditorCellId] = useState<string | null>(null);
+    const [parametersDialogOpen, setParametersDialogOpen] = useState(false);
+
+    // Papermill's approach: the overrides go into a cell right after the parameters cell, which
+    // is then run with the rest of the notebook. Without overrides that cell is removed.
+    // Overrides of form widgets become the forms' values instead.
+    const runWithParameters = useCallback(async (overrides: NotebookParameter[]) => {
+        const formWidgets = formVariables(cellsRef.current, '');
+        const formOverrides = overrides.filter(p => formWidgets.some(w => w.name === p.name));
+        const codeOverrides = overrides.filter(p => !formOverrides.includes(p));
+        const index = cellsRef.current.findIndex(c => hasTag(c, PARAMETERS_TAG));
+        if (index === -1 && (codeOverrides.length > 0 || formWidgets.length === 0)) {
+            addNotification({ type: 'error', message: `No cell is tagged "${PARAMETERS_TAG}"` });
+            return;
+        }
+        formOverrides.forEach(({ name, value }) => formWidgets.filter(w => w.name === name).forEach(({ cellId, widget }) => {
+            const form = cellsRef.current.find(c => c.id === cellId)!;
+            updateCell(cellId, { content: { ...form.content, values: { ...form.content.values, [name]: parseWidgetValue(widget, value) } } }, true);
+        }));
+        if (index !== -1) {
+            const parametersCell = cellsRef.current[index];
+            const language = parametersCell.content?.language || parametersCell.language || 'javascript';
+            const code = injectedParametersSource(codeOverrides, language);
+            const next = cellsRef.current[index + 1];
+            if (next && hasTag(next, INJECTED_PARAMETERS_TAG)) {
+                if (codeOverrides.length === 0) deleteCell(next.id);
+                else updateCell(next.id, { content: { ...next.content, code, language } }, true);
+            } else if (codeOverrides.length > 0) {
+                addCell(ExpandedCellType.Code, { code, language }, index + 1, { tags: [INJECTED_PARAMETERS_TAG] });
+            }
+        }
+        await runAllCells();
+    }, [addCell, addNotification, deleteCell, runAllCells, updateCell]);
+
+    // --- Find and replace ---
+    // Searches the cells on show (visible to the user and passing the tag filter). The search term
+    // is kept while the bar is closed so reopening it finds the same text.
+
+    const [findBar, setFindBar] = useState<'find' | 'replace' | null>(null);
+    const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+    const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
+
+    const openFind = useCallback((mode: 'find' | 'replace') => {
+        // Start from the text selected in an editor, if it is on one line.
+        const target = document.activeElement;
+        const selected = target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && !target.hasAttribute('data-find-input'))
+            ? target.value.slice(target.selectionStart ?? 0, target.selectionEnd ?? 0)
+            : window.getSelection()?.toString() || '';
+        if (selected.trim() && !selected.includes('\n')) setGlobalSearchTerm(selected);
+        setFindBar(mode);
+        setTimeout(() => {
+            const input = document.querySelector<HTMLInputElement>('[data-find-input]');
+            input?.focus();
+            input?.select();
+        });
+    }, []);
+
+    const { searchRegex, searchError } = useMemo(() => {
+        if (!globalSearchTerm) return { searchRegex: null, searchError: null };
+        try {
+            return { searchRegex: searchPattern(globalSearchTerm, searchOptions), searchError: null };
+        } catch (e: any) {
+            return { searchRegex: null, searchError: e.message as string };
+        }
+    }, [globalSearchTerm, searchOptions]);
+
+    const searchMatches: SearchMatch[] = useMemo(() => {
+        if (!findBar || !searchRegex) return [];
+        return findMatches(cells.filter(c => isCellVisible(c) && matchesTagFilter(c, tagFilter)), searchRegex, searchOptions.includeOutputs);
+    }, [cells, findBar, isCellVisible, searchOptions.includeOutputs, searchRegex, tagFilter]);
+
+    useEffect(() => setCurrentMatchIndex(0), [searchRegex]);
+    // Replacing the last match moves back to the first.
+    const matchIndex = currentMatchIndex < searchMatches.length ? currentMatchIndex : 0;
+
+    const replaceMatch = useCallback((replacement: string) => {
+        if (!searchRegex) return;
+        // The current match, or the next one after it that can be replaced.
+        for (let step = 0; step < searchMatches.length; step++) {
+            const index = (matchIndex + step) % searchMatches.length;
+            const match = searchMatches[index];
+            const cell = cellsRef.current.find(c => c.id === match.cellId);
+            if (match.part !== 'source' || !cell || !isCellEditable(cell)) continue;
+            const text = replaceRanges(sourceText(cell) || '', [match], searchRegex, replacement, searchOptions);
+            updateCell(cell.id, { content: withSourceText(cell, text) }, true);
+            setCurrentMatchIndex(index);
+            return;
+        }
+        addNotification({ type: 'info', message: 'No matches that can be replaced' });
+    }, [addNotification, isCellEditable, matchIndex, searchMatches, searchOptions, searchRegex, updateCell]);
+
+    // Every match in cell sources, as one undo step.
+    const replaceAllMatches = useCallback((replacement: string) => {
+        if (!searchRegex) return;
+        const byCell = new Map<string, SearchMatch[]>();
+        searchMatches.filter(m => m.part === 'source').forEach(m => byCell.set(m.cellId, [...(byCell.get(m.cellId) || []), m]));
+        const changes: { cellId: string; updates: Partial<EnhancedCell> }[] = [];
+        let replaced = 0;
+        let skipped = 0;
+        byCell.forEach((matches, cellId) => {
+            const cell = cellsRef.current.find(c => c.id === cellId);
+            if (!cell) return;
+            if (!isCellEditable(cell)) {
+                skipped += matches.length;
+                return;
+            }
+            const text = replaceRanges(sourceText(cell) || '', matches, searchRegex, replacement, searchOptions);
+            changes.push({ cellId, updates: { content: withSourceText(cell, text) } });
+            replaced += matches.length;
+        });
+        updateCells(changes, `Replace all "${globalSearchTerm}"`);
+        const message = `Replaced ${replaced} ${replaced === 1 ? 'match' : 'matches'} in ${changes.length} ${changes.length === 1 ? 'cell' : 'cells'}`;
+        addNotification({ type: 'info', message: skipped > 0 ? `${message}; ${skipped} in read-only cells left unchanged` : message });
+    }, [addNotification, globalSearchTerm, isCellEditable, searchMatches, searchOptions, searchRegex, updateCells]);
+
+    // --- Comments ---
+    // Threads live in each cell's `comments` and change through updateCell, so they are undoable
+    // and shared with collaborators like any other edit.
+
+    const [commentDraft, setCommentDraft] = useState<{ cellId: string; anchor?: CommentAnchor } | null>(null);
+    const mentionableNames = useCallback(() => users.map((u: UserProfile) => u.name).filter((name: string) => name !== currentUserName), [users, currentUserName]);
+
+    // A selection in the cell's editor becomes the thread's anchor.
+    const startComment = useCallback((cellId: string) => {
+        const editor = document.querySelector<HTMLTextAreaElement>(`#cell-${CSS.escape(cellId)} textarea[data-collab-text]`);
+        const anchor = editor && editor.selectionStart < editor.selectionEnd
+            ? { start: editor.selectionStart, end: editor.selectionEnd, text: editor.value.slice(editor.selectionStart, editor.selectionEnd) }
+            : undefined;
+        setActiveCellId(cellId);
+        setCommentDraft({ cellId, anchor });
+    }, []);
+
+    const notifyMentions = useCallback((comment: CellComment) => {
+        if (comment.mentions?.length) addNotification({ type: 'collaborator', message: `Mentioned ${comment.mentions.map(name => `@${name}`).join(', ')} in a comment`, source: 'comments' });
+    }, [addNotification]);
+
+    const addComment = useCallback((cellId: string, text: string, anchor?: CommentAnchor) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell || !text.trim()) return;
+        const comment = createComment(currentUserName, text.trim(), mentionableNames(), anchor);
+        updateCell(cellId, { comments: [...(cell.comments || []), comment] }, true);
+        setCommentDraft(null);
+        notifyMentions(comment);
+    }, [currentUserName, mentionableNames, notifyMentions, updateCell]);
+
+    const replyToComment = useCallback((cellId: string, threadId: string, text: string) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (!cell || !text.trim()) return;
+        const reply = createComment(currentUserName, text.trim(), mentionableNames());
+        updateCell(cellId, { comments: addReply(cell.comments || [], threadId, reply) }, true);
+        notifyMentions(reply);
+    }, [currentUserName, mentionableNames, notifyMentions, updateCell]);
+
+    const setCommentResolved = useCallback((cellId: string, threadId: string, resolved: boolean) => {
+        const cell = cellsRef.current.find(c => c.id === cellId);
+        if (cell) updateCell(cellId, { comments: setThreadResolved(cell.comments || [], threadId, resolved) }, true);
+    }, [updateCell]);
+
+    const commandsVersion = useSyncExternalStore(subscribeCommands, getCommandsVersion);
+    const keybindings = useMemo(() => {
+        const declared = getCommands().filter(c => c.shortcut).map(c => ({ key: c.shortcut!, command: c.id }));
+        return resolveKeybindings([...DEFAULT_KEYBINDINGS, ...declared], keybindingOverrides);
+    }, [commandsVersion, keybindingOverrides]);
+
+    const setKeybinding = useCallback((commandId: string, keys: string[] | null) => {
+        setKeybindingOverrides(prev => {
+            const next = { ...prev };
+            if (keys === null) delete next[commandId];
+            else next[commandId] = keys;
+            saveKeybindingOverrides(next);
+            return next;
+        });
+    }, []);
+
+    const contextRef = useRef<NotebookContextType | null>(null);
+    const keybindingsRef = useRef(keybindings);
+    keybindingsRef.current = keybindings;
+    const modalOpen = commandPaletteOpen || shortcutsDialogOpen || notebookListOpen || collabDialogOpen || shareDialogOpen || parametersDialogOpen || !!variableViewer || !!filePreview || !!historyCellId;
+    const modalOpenRef = useRef(modalOpen);
+    modalOpenRef.current = modalOpen;
+
+    useEffect(() => {
+        const matcher = new KeySequenceMatcher();
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || e.isComposing) return;
+            const chord = eventToChord(e);
+            const context = contextRef.current;
+            if (!chord || !context) return;
+            const target = e.target as HTMLElement | null;
+            // Enter and Space still activate a focused button or link.
+            if ((chord === 'Enter' || chord === 'Space') && target?.closest('button, a, summary')) return;
+            const mode = modalOpenRef.current ? 'other' : focusMode(target);
+            const result = matcher.handle(chord, mode, keybindingsRef.current, id => {
+                const command = getCommand(id);
+                return !!command && (!command.visible || command.visible(context));
+            });
+            if (result === null) return;
+            e.preventDefault();
+            if (result !== 'pending') executeCommand(result, context);
+        };
+        const onFocusChange = () => setTimeout(() => setKeyMode(focusMode(document.activeElement as HTMLElement | null)));
+        window.addEventListener('keydown', onKeyDown);
+        document.addEventListener('focusin', onFocusChange);
+        document.addEventListener('focusout', onFocusChange);
+        return () => {
+            window.removeEventListener('keydown', onKeyDown);
+            document.removeEventListener('focusin', onFocusChange);
+            document.removeEventListener('focusout', onFocusChange);
+        };
+    }, []);
+
+    const { canEdit, canExecute, canComment } = permissions;
     const contextValue: NotebookContextType = {
         notebookId: notebookMetadata.id, cells, activeCellId, setActiveCellId, notebookMetadata, setNotebookMetadata,
-        users, notifications, addNotification, executeCell, updateCell, addCell, deleteCell, moveCell,
-        runAllCells, undo, redo, commandPaletteOpen, setCommandPaletteOpen, aiAssistantOpen, setAiAssistantOpen,
-        globalSearchTerm, setGlobalSearchTerm, saveNotebook, loadNotebook, toggleSidebarPanel, activeSidebarPanel
+        users, notifications, addNotification,
+        executeCell: gate(canExecute, 'run cells', executeCell), updateCell: guardedUpdateCell, addCell: gate(canEdit, 'add cells', addCell), deleteCell: guardedDeleteCell, moveCell: gate(canEdit, 'move cells', moveCell),
+        runAllCells: gate(canExecute, 'run cells', runAllCells), runCells: gate(canExecute, 'run cells', runCells), runCellsAbove: gate(canExecute, 'run cells', runCellsAbove), runCellsBelow: gate(canExecute, 'run cells', runCellsBelow), runSelectedCells: gate(canExecute, 'run cells', runSelectedCells), rerunForm: gate(canExecute, 'run cells', rerunForm),
+        selectedCellIds, toggleCellSelection, setSelectedCellIds, interruptKernel: gate(canExecute, 'interrupt the kernel', interruptKernel), restartKernel: gate(canExecute, 'restart the kernel', restartKernel), getCellKernel,
+        undo: gate(canEdit, 'edit this notebook', undo), redo: gate(canEdit, 'edit this notebook', redo), canUndo: canEdit && historyState.canUndo, canRedo: canEdit && historyState.canRedo,
+        historyCellId, openCellHistory: setHistoryCellId, commitCellVersion: gate(canEdit, 'edit this notebook', commitCellVersion), restoreCellVersion, commandPaletteOpen, setCommandPaletteOpen, aiAssistantOpen, setAiAssistantOpen,
+        globalSearchTerm, setGlobalSearchTerm, saveNotebook, loadNotebook, newNotebook, isDirty, notebookListOpen, setNotebookListOpen, importNotebook, exportNotebook, printNotebook, toggleSidebarPanel, activeSidebarPanel, sqlSchema, cancelAIRequest,
+        kernelRuns, inspectVariables, getVariableTable, variableViewer, setVariableViewer,
+        filePreview, setFilePreview, openWorkspaceNotebook, insertWorkspaceFile: gate(canEdit, 'add cells', insertWorkspaceFile),
+        changeCellType: guardedChangeCellType, keyMode, keybindings, setKeybinding, shortcutsDialogOpen, setShortcutsDialogOpen,
+        collabStatus, collabPeers, collabSession, startCollaboration, stopCollaboration, collabDialogOpen, setCollabDialogOpen,
+        currentUserName, commentDraft, setCommentDraft,
+        startComment: gate(canComment, 'comment', startComment), addComment: gate(canComment, 'comment', addComment), replyToComment: gate(canComment, 'comment', replyToComment), setCommentResolved: gate(canComment, 'resolve comments', setCommentResolved),
+        permissions, setViewerMode, canEditCell: isCellEditable, canSeeCell: isCellVisible, shareDialogOpen, setShareDialogOpen, updateSharing, setCellVisibility,
+        setCellFlag, setCellTags, tagFilter, setTagFilter, tagEditorCellId, setTagEditorCellId, parametersDialogOpen, setParametersDialogOpen,
+        runWithParameters: gate(canExecute && canEdit, 'run with parameters', runWithParameters),
+        findBar, openFind, closeFind: () => setFindBar(null), searchOptions, setSearchOptions, searchRegex, searchError, searchMatches,
+        currentMatchIndex: matchIndex, setCurrentMatchIndex,
+        replaceMatch: gate(canEdit, 'edit this notebook', replaceMatch), replaceAllMatches: gate(canEdit, 'edit this notebook', replaceAllMatches),
     };
+    contextRef.current = contextValue;
+
+    const fileDropProps = (target: string, index: number) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!permissions.canEdit || !Array.from(e.dataTransfer.types).includes(WORKSPACE_PATH_MIME)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'copy';
+            setFileDropTarget(target);
+        },
+        onDragLeave: (e: React.DragEvent) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFileDropTarget(null);
+        },
+        onDrop: (e: React.DragEvent) => {
+            setFileDropTarget(null);
+            const path = e.dataTransfer.getData(WORKSPACE_PATH_MIME);
+            if (!path) return;
+            e.preventDefault();
+            contextValue.insertWorkspaceFile(path, index);
+        },
+    });
 
     return (
         <NotebookContext.Provider value={contextValue}>
@@ -681,36 +2325,109 @@ export const Notebook: React.FC = () => {
                 <div className="flex flex-grow overflow-hidden relative">
                     <NotebookSidebar />
                     <main className="flex-grow overflow-y-auto p-4 md:p-8 scroll-smooth" onClick={() => setActiveCellId(null)}>
+                        {!permissions.canView ? (
+                            <div className="max-w-md mx-auto mt-20 text-center text-gray-400 space-y-2">
+                                <div className="text-4xl">🔒</div>
+                                <div>You don't have access to this notebook.</div>
+                                <div className="text-xs text-gray-500">Ask {notebookMetadata.author} to share it with {currentUserName}.</div>
+                            </div>
+                        ) : (
                         <div className="max-w-5xl mx-auto space-y-6 pb-20">
-                            {cells.map(cell => {
-                                const isEditing = activeCellId === cell.id;
+                            {findBar && <FindReplaceBar />}
+                            {!permissions.canEdit && (
+                                <div className="flex items-center justify-between px-3 py-2 rounded border border-blue-800 bg-blue-900/20 text-sm text-blue-200">
+                                    <span>👁 {viewerMode ? 'Viewer mode: this is how viewers see the notebook.' : 'You can view this notebook but not change it.'}</span>
+                                    {viewerMode && <button onClick={() => setViewerMode(false)} className="text-xs underline hover:text-white">Exit viewer mode</button>}
+                                </div>
+                            )}
+                            {tagFilter.length > 0 && (
+                                <div className="flex items-center justify-between px-3 py-2 rounded border border-gray-700 text-sm text-gray-400">
+                                    <span>Showing cells tagged {tagFilter.map(t => `#${t}`).join(' or ')} · {cells.filter(c => !matchesTagFilter(c, tagFilter)).length} hidden</span>
+                                    <button onClick={() => setTagFilter([])} className="text-xs underline hover:text-white">Show all cells</button>
+                                </div>
+                            )}
+                            {cells.map((cell, index) => {
+                                if (!matchesTagFilter(cell, tagFilter)) return null;
+                                if (!isCellVisible(cell)) {
+                                    return (
+                                        <div key={cell.id} id={`cell-${cell.id}`} className="px-3 py-2 rounded-lg border border-dashed border-gray-700 text-xs text-gray-500">
+                                            🔒 {cell.visibility === 'private' ? `A private cell by ${cell.author || notebookMetadata.author}` : 'A cell visible to the team only'}
+                                        </div>
+                                    );
+                                }
+                                const isEditing = activeCellId === cell.id && isCellEditable(cell);
                                 const props: GeneralCellProps = {
                                     cell,
                                     isEditing,
                                     onFocus: () => setActiveCellId(cell.id),
-                                    onUpdateContent: (c, h) => updateCell(cell.id, { content: c }, h),
-                                    onExecute: () => executeCell(cell.id)
+                                    onUpdateContent: (c, h) => guardedUpdateCell(cell.id, { content: c }, h),
+                                    onExecute: () => contextValue.executeCell(cell.id)
                                 };
 
-                                switch (cell.type) {
-                                    case ExpandedCellType.Code: return <CodeCell key={cell.id} {...props} />;
-                                    case ExpandedCellType.Markdown: return <MarkdownCell key={cell.id} {...props} />;
-                                    case ExpandedCellType.Data: return <DataCell key={cell.id} {...props} />;
-                                    case ExpandedCellType.Visualization: return <VisualizationCell key={cell.id} {...props} />;
-                                    case ExpandedCellType.AIChat: return <AIChatCell key={cell.id} {...props} />;
-                                    default: return <div key={cell.id} className="p-4 border border-red-900 bg-red-900/20 text-red-200 rounded">Unsupported cell type: {cell.type}</div>;
-                                }
+                                const renderCell = () => {
+                                    switch (cell.type) {
+                                        case ExpandedCellType.Code: return <CodeCell {...props} />;
+                                        case ExpandedCellType.Markdown: return <MarkdownCell {...props} />;
+                                        case ExpandedCellType.Data: return <DataCell {...props} />;
+                                        case ExpandedCellType.Visualization: return <VisualizationCell {...props} />;
+                                        case ExpandedCellType.SQL: return <SQLCell {...props} />;
+                                        case ExpandedCellType.AIChat: return <AIChatCell {...props} />;
+                                        case ExpandedCellType.FileBrowser: return <FileBrowserCell {...props} />;
+                                        case ExpandedCellType.Form: return <FormCell {...props} />;
+                                        case ExpandedCellType.Terminal: return <TerminalCell {...props} />;
+                                        case ExpandedCellType.Drawing: return <DrawingCell {...props} />;
+                                        default: {
+                                            const pluginCellType = getPluginCellType(cell.type);
+                                            if (pluginCellType) return <PluginCellView {...props} cellType={pluginCellType} />;
+                                            return <div id={`cell-${cell.id}`} className="p-4 border border-red-900 bg-red-900/20 text-red-200 rounded">Unsupported cell type: {cell.type}. Enable the plugin that provides it in the Plugins panel.</div>;
+                                        }
+                                    }
+                                };
+                                // Shift+Click adds a cell to the selection used by "Run Selected".
+                                return (
+                                    <div
+                                        key={cell.id}
+                                        className={`relative ${selectedCellIds.includes(cell.id) ? 'rounded-lg ring-2 ring-green-600/70' : ''}`}
+                                        {...fileDropProps(cell.id, index + 1)}
+                                        onClickCapture={(e) => {
+                                            if (!e.shiftKey) return;
+                                            e.preventDefault();
+                                            e.stopPropagation();
+                                            toggleCellSelection(cell.id);
+                                        }}
+                                    >
+                                        <CellPresence cellId={cell.id} />
+                                        <CellTagBar cell={cell} />
+                                        <CollapsibleCell cell={cell}>{renderCell()}</CollapsibleCell>
+                                        {fileDropTarget === cell.id && <div className="absolute -bottom-3.5 left-0 right-0 h-1 rounded bg-blue-500" />}
+                                    </div>
+                                );
                             })}
                              {/* Quick Add Area at Bottom */}
-                            <div className="h-32 border-2 border-dashed border-gray-800 rounded-lg flex items-center justify-center text-gray-600 hover:border-gray-600 hover:text-gray-400 cursor-pointer transition-colors" onClick={() => addCell(ExpandedCellType.Code, {})}>
-                                Click to add Code Cell
-                            </div>
+                            {permissions.canEdit && (
+                                <div
+                                    className={`h-32 border-2 border-dashed rounded-lg flex items-center justify-center cursor-pointer transition-colors ${fileDropTarget === 'end' ? 'border-blue-500 text-blue-400' : 'border-gray-800 text-gray-600 hover:border-gray-600 hover:text-gray-400'}`}
+                                    onClick={() => addCell(ExpandedCellType.Code, {})}
+                                    {...fileDropProps('end', cells.length)}
+                                >
+                                    {fileDropTarget === 'end' ? 'Drop to add a cell for this file' : 'Click to add Code Cell'}
+                                </div>
+                            )}
                         </div>
+                        )}
                     </main>
                     <AIAssistantPanel />
                 </div>
                 <StatusBar />
                 <CommandPalette />
+                {shortcutsDialogOpen && <KeyboardShortcutsDialog />}
+                {notebookListOpen && <NotebookListDialog />}
+                {collabDialogOpen && <CollaborationDialog />}
+                {shareDialogOpen && <ShareDialog />}
+                {parametersDialogOpen && <ParametersDialog />}
+                {variableViewer && <VariableViewer />}
+                {filePreview && <FilePreview />}
+                {historyCellId && <CellHistoryPanel cellId={historyCellId} />}
             </div>
         </NotebookContext.Provider>
     );
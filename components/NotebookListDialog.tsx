@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { useNotebook } from './Notebook';
+import { getNotebookStorage, NotebookSummary } from '../services/storage';
+
+export const NotebookListDialog: React.FC = () => {
+    const { notebookId, setNotebookListOpen, loadNotebook, newNotebook, addNotification } = useNotebook();
+    const [notebooks, setNotebooks] = useState<NotebookSummary[] | null>(null);
+
+    const refresh = () => {
+        getNotebookStorage().list()
+            .then(setNotebooks)
+            .catch((e: any) => {
+                setNotebooks([]);
+                addNotification({ type: 'error', message: `Could not list notebooks: ${e.message}` });
+            });
+    };
+
+    useEffect(refresh, []);
+
+    const open = async (id: string) => {
+        setNotebookListOpen(false);
+        await loadNotebook(id);
+    };
+
+    const remove = async (summary: NotebookSummary) => {
+        if (!window.confirm(`Delete "${summary.title}"? This cannot be undone.`)) return;
+        try {
+            await getNotebookStorage().remove(summary.id);
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Could not delete notebook: ${e.message}` });
+        }
+        refresh();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center pt-20" onClick={() => setNotebookListOpen(false)}>
+            <div className="w-full max-w-2xl bg-gray-800 rounded-lg shadow-2xl border border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="font-bold text-lg">Notebooks</h2>
+                    <button
+                        onClick={async () => { setNotebookListOpen(false); await newNotebook(); }}
+                        className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-sm"
+                    >
+                        ➕ New Notebook
+                    </button>
+                </div>
+                <div className="max-h-96 overflow-y-auto p-2">
+                    {notebooks === null && <div className="text-sm text-gray-500 p-4 text-center">Loading...</div>}
+                    {notebooks?.length === 0 && <div className="text-sm text-gray-500 p-4 text-center italic">No saved notebooks yet</div>}
+                    {notebooks?.map(nb => (
+                        <div
+                            key={nb.id}
+                            onClick={() => open(nb.id)}
+                            className={`flex items-center justify-between px-3 py-2 rounded cursor-pointer hover:bg-gray-700 ${nb.id === notebookId ? 'bg-gray-700/50' : ''}`}
+                        >
+                            <div className="min-w-0">
+                                <div className="text-sm text-white truncate">{nb.title}{nb.id === notebookId && <span className="ml-2 text-xs text-blue-400">(open)</span>}</div>
+                                <div className="text-xs text-gray-500">
+                                    {nb.cellCount} cells · v{nb.version} · {new Date(nb.lastModified).toLocaleString()}
+                                </div>
+                            </div>
+                            <button
+                                title="Delete Notebook"
+                                onClick={(e) => { e.stopPropagation(); remove(nb); }}
+                                className="text-gray-400 hover:text-red-400 px-1.5"
+                            >
+                                🗑️
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
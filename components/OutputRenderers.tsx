@@ -0,0 +1,269 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { parseAnsi } from '../services/ansi';
+import { sanitizeHtml } from '../services/sanitizeHtml';
+import { DraggedImage, IMAGE_DRAG_MIME } from '../services/drawing';
+
+// --- MIME renderer registry ---
+// Each execute_result/display_data output carries a bundle of representations keyed by
+// MIME type. The registry picks the richest renderer that can display one of them;
+// plugins register their own renderers with registerMimeRenderer.
+
+export interface MimeRendererProps {
+    mimeType: string;
+    data: any;
+    bundle: Record<string, any>;
+    metadata: Record<string, any>;
+}
+
+export interface MimeRenderer {
+    id: string;
+    mimeTypes: string[];
+    // Higher ranks win when several renderers can display the same output.
+    rank: number;
+    // Optional extra check, e.g. only arrays of records are rendered as a table.
+    canRender?: (data: any, metadata: Record<string, any>) => boolean;
+    component: React.ComponentType<MimeRendererProps>;
+}
+
+const renderers = new Map<string, MimeRenderer>();
+const listeners = new Set<() => void>();
+let registryVersion = 0;
+
+const notifyRegistryChange = () => {
+    registryVersion++;
+    listeners.forEach(listener => listener());
+};
+
+// Registering a renderer with an existing id replaces it. Returns an unregister function.
+export const registerMimeRenderer = (renderer: MimeRenderer) => {
+    renderers.set(renderer.id, renderer);
+    notifyRegistryChange();
+    return () => {
+        if (renderers.get(renderer.id) === renderer) {
+            renderers.delete(renderer.id);
+            notifyRegistryChange();
+        }
+    };
+};
+
+export const getMimeRenderers = () => Array.from(renderers.values()).sort((a, b) => b.rank - a.rank);
+
+export const selectMimeRenderer = (bundle: Record<string, any>, metadata: Record<string, any> = {}) => {
+    for (const renderer of getMimeRenderers()) {
+        const mimeType = renderer.mimeTypes.find(mime => bundle[mime] !== undefined && bundle[mime] !== null);
+        if (mimeType && (!renderer.canRender || renderer.canRender(bundle[mimeType], metadata))) return { renderer, mimeType };
+    }
+    return undefined;
+};
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Re-renders outputs when renderers are registered after the output was first shown.
+const useRendererRegistryVersion = () => useSyncExternalStore(subscribe, () => registryVersion);
+
+// --- Built-in renderers ---
+
+export const AnsiText: React.FC<{ text: string; className?: string }> = ({ text, className }) => {
+    const segments = useMemo(() => parseAnsi(text), [text]);
+    return (
+        <pre className={`whitespace-pre-wrap break-words ${className || ''}`}>
+            {segments.map((segment, i) => {
+                const { color, background, bold, dim, italic, underline, inverse } = segment.style;
+                const style: React.CSSProperties = {
+                    color: inverse ? background || '#111827' : color,
+                    backgroundColor: inverse ? color || '#e5e7eb' : background,
+                    fontWeight: bold ? 'bold' : undefined,
+                    opacity: dim ? 0.7 : undefined,
+                    fontStyle: italic ? 'italic' : undefined,
+                    textDecoration: underline ? 'underline' : undefined,
+                };
+                return Object.values(segment.style).some(Boolean) ? <span key={i} style={style}>{segment.text}</span> : <React.Fragment key={i}>{segment.text}</React.Fragment>;
+            })}
+        </pre>
+    );
+};
+
+const PlainTextRenderer: React.FC<MimeRendererProps> = ({ data }) => <AnsiText text={String(data)} className="text-gray-300" />;
+
+const HtmlRenderer: React.FC<MimeRendererProps> = ({ data }) => {
+    const html = useMemo(() => sanitizeHtml(String(data)), [data]);
+    return <div className="rendered-html text-gray-200 font-sans overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+const MarkdownRenderer: React.FC<MimeRendererProps> = ({ data }) => {
+    const html = useMemo(() => {
+        const marked = (window as any).marked;
+        return sanitizeHtml(marked ? marked.parse(String(data)) : String(data));
+    }, [data]);
+    return <div className="prose prose-invert max-w-none break-words font-sans" dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+const stripLatexDelimiters = (tex: string) => {
+    const trimmed = tex.trim();
+    const match = trimmed.match(/^\$\$([\s\S]*)\$\$$/) || trimmed.match(/^\\\[([\s\S]*)\\\]$/) || trimmed.match(/^\$([\s\S]*)\$$/) || trimmed.match(/^\\\(([\s\S]*)\\\)$/);
+    return match ? match[1] : trimmed;
+};
+
+const LatexRenderer: React.FC<MimeRendererProps> = ({ data }) => {
+    const source = String(data);
+    const html = useMemo(() => {
+        const katex = (window as any).katex;
+        if (!katex) return null;
+        try {
+            return katex.renderToString(stripLatexDelimiters(source), { displayMode: true, throwOnError: false });
+        } catch {
+            return null;
+        }
+    }, [source]);
+    if (!html) return <pre className="whitespace-pre-wrap text-gray-300">{source}</pre>;
+    return <div className="text-gray-100 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+const toImageSrc = (mimeType: string, data: string) => {
+    const value = data.trim();
+    if (/^(data:|https?:|blob:)/.test(value)) return value;
+    return `data:${mimeType};base64,${value.replace(/\s/g, '')}`;
+};
+
+// Image outputs can be dropped onto a Drawing cell.
+const startImageDrag = (e: React.DragEvent<HTMLImageElement>) => {
+    const image = e.currentTarget;
+    const dragged: DraggedImage = { src: image.src, width: image.naturalWidth || image.width, height: image.naturalHeight || image.height };
+    e.dataTransfer.setData(IMAGE_DRAG_MIME, JSON.stringify(dragged));
+};
+
+const ImageRenderer: React.FC<MimeRendererProps> = ({ mimeType, data, metadata }) => {
+    const size = metadata?.[mimeType] || metadata || {};
+    return <img src={toImageSrc(mimeType, String(data))} width={size.width} height={size.height} onDragStart={startImageDrag} className="max-w-full bg-white/5 rounded" alt="output" />;
+};
+
+// SVG is shown through an <img> so any script inside it never runs.
+const SvgRenderer: React.FC<MimeRendererProps> = ({ data }) => {
+    const src = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(String(data))}`, [data]);
+    return <img src={src} onDragStart={startImageDrag} className="max-w-full bg-white rounded" alt="SVG output" />;
+};
+
+const JsonNode: React.FC<{ name?: string; value: any; depth: number }> = ({ name, value, depth }) => {
+    const [open, setOpen] = useState(depth < 1);
+    const label = name !== undefined ? <span className="text-purple-300">{name}: </span> : null;
+    if (value === null || typeof value !== 'object') {
+        const color = typeof value === 'string' ? 'text-green-300' : typeof value === 'number' ? 'text-blue-300' : 'text-yellow-300';
+        return <div className="pl-4">{label}<span className={color}>{JSON.stringify(value)}</span></div>;
+    }
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value);
+    const [openBracket, closeBracket] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+    return (
+        <div className="pl-4">
+            <span className="cursor-pointer select-none text-gray-500 -ml-4 inline-block w-4" onClick={() => setOpen(!open)}>{open ? '▾' : '▸'}</span>
+            {label}
+            {open ? (
+                <>
+                    <span className="text-gray-400">{openBracket}</span>
+                    {entries.map(([k, v]) => <JsonNode key={k} name={k} value={v} depth={depth + 1} />)}
+                    <span className="text-gray-400">{closeBracket}</span>
+                </>
+            ) : (
+                <span className="text-gray-500 cursor-pointer" onClick={() => setOpen(true)}>
+                    {openBracket} {entries.length} {Array.isArray(value) ? 'items' : 'keys'} {closeBracket}
+                </span>
+            )}
+        </div>
+    );
+};
+
+const JsonRenderer: React.FC<MimeRendererProps> = ({ data }) => (
+    <div className="font-mono text-xs -ml-4">
+        <JsonNode value={data} depth={0} />
+    </div>
+);
+
+const isRecordArray = (data: any) => Array.isArray(data) && data.length > 0 && data.every(row => row && typeof row === 'object' && !Array.isArray(row));
+
+const DATAFRAME_PAGE_SIZE = 50;
+
+const DataFrameRenderer: React.FC<MimeRendererProps> = ({ data, metadata }) => {
+    const rows: Record<string, any>[] = data;
+    const [visible, setVisible] = useState(DATAFRAME_PAGE_SIZE);
+    const columns = useMemo(() => {
+        // Producers that know the column order (e.g. SQL results) list it in the metadata.
+        if (Array.isArray(metadata?.columns)) return metadata.columns.map(String);
+        const seen = new Set<string>();
+        rows.forEach(row => Object.keys(row).forEach(key => seen.add(key)));
+        return Array.from(seen);
+    }, [rows, metadata?.columns]);
+    const format = (value: any) => value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    return (
+        <div className="overflow-x-auto font-sans">
+            <table className="text-xs border-collapse">
+                <thead>
+                    <tr>
+                        <th className="px-2 py-1 border-b border-gray-600 text-gray-500 text-right"></th>
+                        {columns.map(col => <th key={col} className="px-2 py-1 border-b border-gray-600 text-left text-gray-300 font-semibold">{col}</th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.slice(0, visible).map((row, i) => (
+                        <tr key={i} className="odd:bg-gray-800/40">
+                            <td className="px-2 py-0.5 text-gray-500 text-right">{i}</td>
+                            {columns.map(col => (
+                                <td key={col} className={`px-2 py-0.5 text-gray-200 whitespace-nowrap ${typeof row[col] === 'number' ? 'text-right' : ''}`}>{format(row[col])}</td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="text-xs text-gray-500 mt-1">
+                {rows.length} rows × {columns.length} columns
+                {visible < rows.length && (
+                    <button onClick={() => setVisible(v => v + DATAFRAME_PAGE_SIZE * 4)} className="ml-2 text-blue-400 hover:underline">
+                        Show more ({rows.length - visible} hidden)
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const BUILT_IN_RENDERERS: MimeRenderer[] = [
+    { id: 'dataframe', mimeTypes: ['application/json'], rank: 100, canRender: (data, metadata) => metadata?.type === 'dataframe' ? isRecordArray(data) : false, component: DataFrameRenderer },
+    { id: 'html', mimeTypes: ['text/html'], rank: 90, component: HtmlRenderer },
+    { id: 'svg', mimeTypes: ['image/svg+xml'], rank: 85, component: SvgRenderer },
+    { id: 'image', mimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'], rank: 80, component: ImageRenderer },
+    { id: 'latex', mimeTypes: ['text/latex'], rank: 70, component: LatexRenderer },
+    { id: 'markdown', mimeTypes: ['text/markdown'], rank: 60, component: MarkdownRenderer },
+    { id: 'json', mimeTypes: ['application/json'], rank: 50, component: JsonRenderer },
+    { id: 'text', mimeTypes: ['text/plain'], rank: 0, component: PlainTextRenderer },
+];
+
+BUILT_IN_RENDERERS.forEach(renderer => renderers.set(renderer.id, renderer));
+
+// --- Output views ---
+
+export const MimeBundleView: React.FC<{ data: Record<string, any>; metadata?: Record<string, any> }> = ({ data, metadata = {} }) => {
+    useRendererRegistryVersion();
+    const selected = selectMimeRenderer(data, metadata);
+    if (!selected) {
+        return <div className="text-xs text-gray-500 italic">No renderer for {Object.keys(data).join(', ') || 'empty output'}</div>;
+    }
+    const { renderer, mimeType } = selected;
+    const Component = renderer.component;
+    return <Component mimeType={mimeType} data={data[mimeType]} bundle={data} metadata={metadata} />;
+};
+
+export const OutputView: React.FC<{ output: any }> = ({ output }) => {
+    switch (output?.type) {
+        case 'stream':
+            return <AnsiText text={output.text || ''} className={output.name === 'stderr' ? 'text-red-400' : 'text-gray-300'} />;
+        case 'error':
+            return <AnsiText text={output.traceback && output.traceback.length > 0 ? output.traceback.join('\n') : `${output.name}: ${output.message}`} className="text-red-400" />;
+        case 'execute_result':
+        case 'display_data':
+            return <MimeBundleView data={output.data || {}} metadata={output.metadata} />;
+        default:
+            return <pre className="whitespace-pre-wrap text-gray-400">{JSON.stringify(output)}</pre>;
+    }
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { useNotebook } from './Notebook';
+import { hasTag, INJECTED_PARAMETERS_TAG, NotebookParameter, PARAMETERS_TAG, parseParameters } from '../services/cellMetadata';
+import { formVariables } from '../services/formCells';
+
+// Runs the whole notebook with some of the values in its `parameters` cell, or in its forms,
+// replaced. Values are source code in the cell's language, e.g. 10 or "2024-01-01".
+export const ParametersDialog: React.FC = () => {
+    const { cells, notebookMetadata, setParametersDialogOpen, runWithParameters } = useNotebook();
+    const index = cells.findIndex(c => hasTag(c, PARAMETERS_TAG));
+    const parametersCell = cells[index];
+    const defaultLanguage = notebookMetadata.kernels.find(k => k.id === notebookMetadata.defaultKernelId)?.language || 'javascript';
+    const formDefaults = formVariables(cells, defaultLanguage);
+    const defaults = [...(parametersCell ? parseParameters(parametersCell.content?.code || '') : []), ...formDefaults];
+    const injected = cells[index + 1] && hasTag(cells[index + 1], INJECTED_PARAMETERS_TAG) ? parseParameters(cells[index + 1].content?.code || '') : [];
+    const [values, setValues] = useState<Record<string, string>>(() => Object.fromEntries(injected.map(p => [p.name, p.value])));
+
+    const close = () => setParametersDialogOpen(false);
+    const run = () => {
+        const overrides: NotebookParameter[] = defaults
+            .filter(p => values[p.name]?.trim() && values[p.name].trim() !== p.value)
+            .map(p => ({ name: p.name, value: values[p.name].trim() }));
+        close();
+        runWithParameters(overrides);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center pt-20" onClick={close}>
+            <div className="w-full max-w-lg bg-gray-800 rounded-lg shadow-2xl border border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700">
+                    <h2 className="font-bold text-lg">Run with parameters</h2>
+                    <div className="text-xs text-gray-500 mt-1">
+                        Values left empty keep their default. Overrides go into a cell tagged #{INJECTED_PARAMETERS_TAG} after the parameters cell, or become the new values of form widgets, then all cells run.
+                    </div>
+                </div>
+                <div className="p-4 space-y-2 text-sm max-h-96 overflow-y-auto">
+                    {!parametersCell && formDefaults.length === 0 && <div className="text-gray-400">Tag a code cell #{PARAMETERS_TAG}, or add a form, to give the notebook parameters.</div>}
+                    {parametersCell && defaults.length === 0 && <div className="text-gray-400">The parameters cell has no <code>name = value</code> lines.</div>}
+                    {defaults.map(p => (
+                        <label key={p.name} className="flex items-center gap-3">
+                            <span className="w-32 font-mono text-green-300 truncate" title={formDefaults.some(f => f.name === p.name) ? `${p.name} (form)` : p.name}>{p.name}</span>
+                            <input
+                                value={values[p.name] ?? ''}
+                                placeholder={p.value}
+                                onChange={e => setValues({ ...values, [p.name]: e.target.value })}
+                                onKeyDown={e => { if (e.key === 'Enter') run(); }}
+                                className="flex-grow bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono text-gray-200 outline-none focus:border-blue-500"
+                            />
+                        </label>
+                    ))}
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t border-gray-700 text-sm">
+                    <button onClick={close} className="px-3 py-1.5 text-gray-400 hover:text-white">Cancel</button>
+                    <button onClick={run} disabled={defaults.length === 0} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-40">Run all</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+
+interface PluginErrorBoundaryProps {
+    pluginId: string;
+    onError: (error: Error) => void;
+    onRetry: () => void;
+    children?: React.ReactNode;
+}
+
+// Contains a render error from plugin UI to the plugin's own slot instead of unmounting the notebook.
+class PluginErrorBoundary extends React.Component<PluginErrorBoundaryProps, { error: Error | null }> {
+    declare props: Readonly<PluginErrorBoundaryProps>;
+    state = { error: null as Error | null };
+
+    static getDerivedStateFromError(error: Error) {
+        return { error };
+    }
+
+    componentDidCatch(error: Error) {
+        this.props.onError(error);
+    }
+
+    render() {
+        if (this.state.error) {
+            return (
+                <div className="p-2 text-xs text-red-300 bg-red-900/20 border border-red-900 rounded flex items-center gap-2">
+                    <span className="truncate">Plugin "{this.props.pluginId}" failed: {this.state.error.message}</span>
+                    <button onClick={this.props.onRetry} className="ml-auto text-red-200 hover:text-white underline">Retry</button>
+                </div>
+            );
+        }
+        return this.props.children;
+    }
+}
+
+// Retrying remounts the boundary (and the plugin component) with fresh state.
+export const IsolatedPluginView: React.FC<{ pluginId: string; onError: (error: Error) => void; children?: React.ReactNode }> = ({ pluginId, onError, children }) => {
+    const [attempt, setAttempt] = useState(0);
+    return (
+        <PluginErrorBoundary key={attempt} pluginId={pluginId} onError={onError} onRetry={() => setAttempt(a => a + 1)}>
+            {children}
+        </PluginErrorBoundary>
+    );
+};
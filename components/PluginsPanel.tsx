@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { useNotebook } from './Notebook';
+import { NotebookPlugin, PluginConfigField } from '../services/plugins/plugin';
+import { getLocalPluginConfig, getPluginError, getPlugins, isPluginActive, isPluginEnabled, pluginConfig, pluginContributions, setLocalPluginConfig, usePluginRegistry } from '../services/plugins/pluginManager';
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-xs text-gray-200 outline-none focus:border-blue-500';
+
+// Text and number fields commit on blur so a plugin is not re-activated on every keystroke.
+const ConfigField: React.FC<{ field: PluginConfigField; value: any; onChange: (value: any) => void }> = ({ field, value, onChange }) => {
+    switch (field.type) {
+        case 'boolean':
+            return <input type="checkbox" checked={!!value} onChange={e => onChange(e.target.checked)} />;
+        case 'select':
+            return (
+                <select value={value ?? ''} onChange={e => onChange(e.target.value)} className={inputClass}>
+                    {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+        case 'number':
+            return <input key={String(value)} type="number" defaultValue={value ?? ''} onBlur={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))} className={inputClass} />;
+        default:
+            return <input key={String(value)} defaultValue={value ?? ''} onBlur={e => onChange(e.target.value)} className={inputClass} />;
+    }
+};
+
+const describeContributions = (pluginId: string) => {
+    const { cellTypes, sidebarPanels, toolbarButtons } = pluginContributions(pluginId);
+    const parts = [
+        cellTypes && `${cellTypes} cell type${cellTypes > 1 ? 's' : ''}`,
+        sidebarPanels && `${sidebarPanels} panel${sidebarPanels > 1 ? 's' : ''}`,
+        toolbarButtons && `${toolbarButtons} button${toolbarButtons > 1 ? 's' : ''}`,
+    ].filter(Boolean);
+    return parts.join(' · ');
+};
+
+// Sidebar tab listing installed plugins. Enabled state and config are stored per notebook in
+// NotebookMetadata.plugins, except local fields, which are stored per browser.
+export const PluginsPanel: React.FC = () => {
+    usePluginRegistry();
+    const { notebookMetadata, setNotebookMetadata } = useNotebook();
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const settings = notebookMetadata.plugins;
+
+    const update = (plugin: NotebookPlugin, changes: { enabled?: boolean; config?: Record<string, any> }) => {
+        setNotebookMetadata(prev => {
+            const current = prev.plugins?.[plugin.id] || { enabled: isPluginEnabled(plugin, prev.plugins), config: {} };
+            return { ...prev, plugins: { ...prev.plugins, [plugin.id]: { ...current, ...changes } } };
+        });
+    };
+
+    const updateField = (plugin: NotebookPlugin, field: PluginConfigField, value: any) => {
+        if (field.local) setLocalPluginConfig(plugin.id, { ...getLocalPluginConfig(plugin.id), [field.key]: value });
+        else update(plugin, { config: { ...settings?.[plugin.id]?.config, [field.key]: value } });
+    };
+
+    const plugins = getPlugins();
+
+    return (
+        <div className="space-y-2">
+            <div className="text-xs font-semibold text-gray-500 uppercase">Installed Plugins</div>
+            {plugins.length === 0 && <div className="text-xs text-gray-600 italic p-2">No plugins installed</div>}
+            {plugins.map(plugin => {
+                const enabled = isPluginEnabled(plugin, settings);
+                const config = pluginConfig(plugin, settings);
+                const error = getPluginError(plugin.id);
+                const contributions = isPluginActive(plugin.id) ? describeContributions(plugin.id) : '';
+                return (
+                    <div key={plugin.id} className="rounded border border-gray-700 bg-gray-900/40 p-2 text-sm">
+                        <div className="flex items-center gap-2">
+                            <input type="checkbox" checked={enabled} onChange={e => update(plugin, { enabled: e.target.checked })} title={enabled ? 'Disable' : 'Enable'} />
+                            <button onClick={() => setExpanded(expanded === plugin.id ? null : plugin.id)} className="flex-grow text-left truncate text-gray-200 hover:text-white">
+                                {plugin.name}
+                            </button>
+                            <span className="text-[10px] text-gray-500">v{plugin.version}</span>
+                        </div>
+                        {plugin.description && <div className="text-xs text-gray-500 mt-1">{plugin.description}</div>}
+                        {contributions && <div className="text-[11px] text-gray-600 mt-1">{contributions}</div>}
+                        {error && <div className="text-xs text-red-400 mt-1 break-words">⚠ {error}</div>}
+                        {expanded === plugin.id && (
+                            <div className="mt-2 space-y-2 border-t border-gray-700 pt-2">
+                                {(plugin.configSchema || []).map(field => (
+                                    <label key={field.key} className={`block text-xs text-gray-400 ${field.type === 'boolean' ? 'flex items-center gap-2' : 'space-y-0.5'}`} title={field.description}>
+                                        {field.type !== 'boolean' && <div>{field.label}</div>}
+                                        <ConfigField field={field} value={config[field.key]} onChange={value => updateField(plugin, field, value)} />
+                                        {field.type === 'boolean' && <span>{field.label}</span>}
+                                    </label>
+                                ))}
+                                {!plugin.configSchema?.length && <div className="text-xs text-gray-600 italic">No settings</div>}
+                                {settings?.[plugin.id]?.config && Object.keys(settings[plugin.id].config).length > 0 && (
+                                    <button onClick={() => update(plugin, { config: {} })} className="text-xs text-gray-400 hover:text-white underline">Reset to defaults</button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
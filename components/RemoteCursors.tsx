@@ -0,0 +1,148 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useNotebook } from './Notebook';
+import { PeerPresence } from '../services/collab/session';
+
+// Styles a mirror element needs to lay text out exactly like the textarea it covers.
+const MIRRORED_STYLES = [
+    'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'lineHeight', 'letterSpacing', 'tabSize',
+    'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+    'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth', 'boxSizing',
+] as const;
+
+export const mirrorStyle = (textarea: HTMLTextAreaElement): React.CSSProperties => {
+    const computed = window.getComputedStyle(textarea);
+    const style: Record<string, string | number> = {
+        position: 'absolute',
+        left: textarea.offsetLeft,
+        top: textarea.offsetTop,
+        width: textarea.offsetWidth,
+        height: textarea.offsetHeight,
+        whiteSpace: 'pre-wrap',
+        overflowWrap: 'break-word',
+        borderStyle: 'solid',
+        borderColor: 'transparent',
+        color: 'transparent',
+        overflow: 'hidden',
+        pointerEvents: 'none',
+    };
+    MIRRORED_STYLES.forEach(key => { style[key] = computed[key]; });
+    return style;
+};
+
+// Carets and selections of collaborators editing a cell, drawn over its textarea. The text is
+// repeated invisibly in a mirror element so the markers land where the characters are.
+export const RemoteCursors: React.FC<{ cellId: string; text: string; textareaRef: React.RefObject<HTMLTextAreaElement | null> }> = ({ cellId, text, textareaRef }) => {
+    const { collabPeers } = useNotebook();
+    const peers = collabPeers.filter(peer => peer.cellId === cellId && peer.selection);
+    const [style, setStyle] = useState<React.CSSProperties | null>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        setStyle(textarea && peers.length > 0 ? mirrorStyle(textarea) : null);
+    }, [peers.length, text, textareaRef]);
+
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const onScroll = () => setScrollTop(textarea.scrollTop);
+        textarea.addEventListener('scroll', onScroll);
+        return () => textarea.removeEventListener('scroll', onScroll);
+    }, [textareaRef]);
+
+    if (!style || peers.length === 0) return null;
+    return (
+        <>
+            {peers.map(peer => <PeerMarker key={peer.user.id} peer={peer} text={text} style={style} scrollTop={scrollTop} />)}
+        </>
+    );
+};
+
+const PeerMarker: React.FC<{ peer: PeerPresence; text: string; style: React.CSSProperties; scrollTop: number }> = ({ peer, text, style, scrollTop }) => {
+    const { start, end } = peer.selection!;
+    const from = Math.min(start, end, text.length);
+    const to = Math.min(Math.max(start, end), text.length);
+    return (
+        <div style={style} aria-hidden="true">
+            <div style={{ transform: `translateY(${-scrollTop}px)` }}>
+                {text.slice(0, from)}
+                {start > end && <Caret peer={peer} />}
+                {to > from && <span style={{ backgroundColor: `${peer.user.color}40` }}>{text.slice(from, to)}</span>}
+                {start <= end && <Caret peer={peer} />}
+                {text.slice(to)}
+                {/* A trailing newline needs content after it to take up a line. */}
+                {'\u200b'}
+            </div>
+        </div>
+    );
+};
+
+const Caret: React.FC<{ peer: PeerPresence }> = ({ peer }) => (
+    <span className="relative" style={{ borderLeft: `2px solid ${peer.user.color}`, marginLeft: -1, marginRight: -1 }}>
+        <span
+            className="absolute left-0 bottom-full whitespace-nowrap rounded px-1 text-[10px] leading-4 font-sans text-gray-900"
+            style={{ backgroundColor: peer.user.color }}
+        >
+            {peer.user.name}
+        </span>
+    </span>
+);
+
+// Keeps the local caret on the same text when a collaborator's edit replaces the textarea value.
+// Local input updates the remembered value before React re-renders, so only remote edits shift it.
+export const usePreservedSelection = (textareaRef: React.RefObject<HTMLTextAreaElement | null>, value: string) => {
+    const last = useRef({ value, start: 0, end: 0 });
+
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const remember = () => { last.current = { value: textarea.value, start: textarea.selectionStart, end: textarea.selectionEnd }; };
+        const events = ['input', 'select', 'keyup', 'mouseup', 'focus'];
+        events.forEach(event => textarea.addEventListener(event, remember));
+        return () => events.forEach(event => textarea.removeEventListener(event, remember));
+    }, [textareaRef]);
+
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        const previous = last.current;
+        if (!textarea || previous.value === value) return;
+        if (document.activeElement === textarea) {
+            const shift = (position: number) => shiftPosition(previous.value, value, position);
+            textarea.setSelectionRange(shift(previous.start), shift(previous.end));
+        }
+        last.current = { value, start: textarea.selectionStart, end: textarea.selectionEnd };
+    }, [textareaRef, value]);
+};
+
+// Where `position` in `before` ends up in `after`, treating the change as one replaced range.
+const shiftPosition = (before: string, after: string, position: number) => {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < before.length - prefix && suffix < after.length - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+    if (position <= prefix) return position;
+    if (position >= before.length - suffix) return position + after.length - before.length;
+    return after.length - suffix;
+};
+
+// Avatars of the collaborators whose cursor is in a cell, shown beside it.
+export const CellPresence: React.FC<{ cellId: string }> = ({ cellId }) => {
+    const { collabPeers } = useNotebook();
+    const here = collabPeers.filter(peer => peer.cellId === cellId);
+    if (here.length === 0) return null;
+    return (
+        <div className="absolute -left-7 top-2 flex flex-col gap-1 z-10">
+            {here.map(peer => <PeerAvatar key={peer.user.id} peer={peer} size="sm" />)}
+        </div>
+    );
+};
+
+export const PeerAvatar: React.FC<{ peer: PeerPresence; size?: 'sm' | 'md' }> = ({ peer, size = 'md' }) => (
+    <div
+        className={`${size === 'sm' ? 'w-5 h-5 text-[10px]' : 'w-7 h-7 text-xs'} rounded-full flex items-center justify-center font-bold text-gray-900 ring-2 ${peer.status === 'typing' ? 'ring-white animate-pulse' : 'ring-gray-800'} ${peer.status === 'away' ? 'opacity-50' : ''}`}
+        style={{ backgroundColor: peer.user.color }}
+        title={`${peer.user.name} (${peer.status})`}
+    >
+        {peer.user.name.trim().charAt(0).toUpperCase() || '?'}
+    </div>
+);
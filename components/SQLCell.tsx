@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneralCellProps } from '../types';
+import { useNotebook, CellStatusIndicator, CellOutputDisplay, CommentSection, CellControls, ExpandedCellType, HiddenCellPart } from './Notebook';
+import { importTableFile, sqlResultName, toIdentifier } from '../services/dataTable';
+import { sqlParameterNames } from '../services/sqlEngine';
+import { SearchHighlights } from './FindReplaceBar';
+
+// Query editor for SQL cells. Notebook tables are queried by name; `:name`, `$name` and `@name`
+// placeholders are bound from kernel variables. The result set is available to later cells
+// under the cell's result name.
+const SQLCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent, onExecute }) => {
+    const { id, content, outputs, status, stale, executionCount, executionTime, comments, metadata } = cell;
+    const { cells, addCell, addNotification, getCellKernel, canEditCell } = useNotebook();
+    const [query, setQuery] = useState<string>(content?.query || '');
+    const [isHovered, setIsHovered] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const resultName = sqlResultName(cell);
+    const params = sqlParameterNames(query);
+    const kernel = getCellKernel(id);
+
+    useEffect(() => {
+        setQuery(content?.query || '');
+    }, [content?.query]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            onUpdateContent({ ...content, query }, true);
+            onExecute?.();
+        }
+    };
+
+    // The imported file becomes a DataCell just above this one, queryable under its file name.
+    const importFile = async (file: File) => {
+        try {
+            const table = await importTableFile(file);
+            addCell(ExpandedCellType.Data, { name: toIdentifier(file.name), ...table }, cells.findIndex(c => c.id === id));
+            addNotification({ type: 'success', message: `Imported ${file.name} as table "${toIdentifier(file.name)}"` });
+        } catch (e: any) {
+            addNotification({ type: 'error', message: `Could not import ${file.name}: ${e.message}` });
+        }
+    };
+
+    return (
+        <div
+            id={`cell-${id}`}
+            className={`relative p-3 rounded-lg border ${isEditing ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700'} ${isHovered ? 'bg-gray-800/50' : ''}`}
+            onClick={onFocus}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+        >
+            {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.SQL} className="absolute top-2 right-2 z-20" />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2 flex-wrap">
+                <span>🗄️</span> SQL
+                <span className="text-xs font-normal text-gray-500">{kernel?.name || 'SQLite'}</span>
+                <CellStatusIndicator status={status} executionCount={executionCount} executionTime={executionTime} stale={stale} />
+                <span className="flex items-center gap-1 text-xs font-normal ml-auto mr-36">
+                    <span className="text-gray-500">result →</span>
+                    <input
+                        value={content?.resultName ?? ''}
+                        placeholder={resultName}
+                        onChange={e => onUpdateContent({ ...content, resultName: e.target.value }, true)}
+                        onBlur={e => e.target.value && onUpdateContent({ ...content, resultName: toIdentifier(e.target.value) }, true)}
+                        onClick={e => e.stopPropagation()}
+                        className="bg-gray-900 border border-gray-700 rounded px-2 py-0.5 font-mono text-green-300 outline-none focus:border-blue-500 w-32"
+                        title="Name under which the result set is visible to later code and SQL cells"
+                    />
+                    <button onClick={(e) => { e.stopPropagation(); importInputRef.current?.click(); }} className="bg-gray-700 hover:bg-gray-600 text-gray-300 rounded px-2 py-0.5">Import CSV…</button>
+                </span>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".csv,.tsv,.tab,.txt,.json,text/csv,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </h3>
+            {metadata?.hideCode ? <HiddenCellPart cellId={id} part="code" /> : (
+            <>
+            <textarea
+                ref={textareaRef}
+                className="w-full bg-gray-900 text-gray-200 p-3 rounded-md border border-gray-700 focus:outline-none focus:border-blue-500 resize-none font-mono text-sm leading-relaxed"
+                value={query}
+                placeholder="SELECT * FROM sample WHERE ID > :min_id"
+                readOnly={!canEditCell(cell)}
+                onChange={(e) => {
+                    setQuery(e.target.value);
+                    onUpdateContent({ ...content, query: e.target.value }, true);
+                }}
+                onKeyDown={handleKeyDown}
+                spellCheck={false}
+                rows={Math.max(2, query.split('\n').length)}
+            />
+            <SearchHighlights cellId={id} text={query} textareaRef={textareaRef} />
+            {params.length > 0 && (
+                <div className="text-xs text-gray-500 mt-1">
+                    Parameters from notebook variables: {params.map(p => <code key={p.token} className="text-yellow-300 mr-2">{p.token}</code>)}
+                </div>
+            )}
+            </>
+            )}
+            {(status === 'running' || (outputs && outputs.length > 0)) && (
+                <div className="mt-2">
+                    {metadata?.hideOutput
+                        ? outputs && outputs.length > 0 && <HiddenCellPart cellId={id} part="output" />
+                        : <CellOutputDisplay outputs={outputs} className="font-mono text-sm space-y-1 max-h-[32rem] overflow-y-auto" />}
+                    {status === 'running' && <div className="text-xs text-blue-400 mt-1 animate-pulse">Running...</div>}
+                </div>
+            )}
+            <CommentSection comments={comments} cellId={id} />
+        </div>
+    );
+};
+
+export default SQLCell;
@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { useNotebook, ExpandedCellType } from './Notebook';
+import { ColumnType, columnValues, inferColumnType, notebookTables } from '../services/dataTable';
+
+const COLUMN_TYPE_LABELS: Record<ColumnType, string> = { number: 'REAL', boolean: 'INTEGER', date: 'TEXT', string: 'TEXT', empty: 'TEXT' };
+
+interface SchemaEntry {
+    name: string;
+    cellId?: string;
+    columns: { name: string; type: string }[];
+    rowCount: number;
+}
+
+// Tables visible to SQL cells: the notebook's tables (typed from their data, so the browser is
+// accurate before the engine has loaded) followed by tables created by queries.
+export const SchemaBrowser: React.FC = () => {
+    const { cells, sqlSchema, addCell, setActiveCellId } = useNotebook();
+    const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+    const entries = useMemo<SchemaEntry[]>(() => {
+        const fromNotebook = notebookTables(cells).map(({ name, cellId, table }) => ({
+            name,
+            cellId,
+            columns: table.columns.map((c, i) => ({ name: c, type: COLUMN_TYPE_LABELS[inferColumnType(columnValues(table, i))] })),
+            rowCount: table.data.length,
+        }));
+        const known = new Set(fromNotebook.map(t => t.name));
+        return [...fromNotebook, ...sqlSchema.filter(t => !known.has(t.name))];
+    }, [cells, sqlSchema]);
+
+    const reveal = (cellId: string) => {
+        setActiveCellId(cellId);
+        document.getElementById(`cell-${cellId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    return (
+        <div className="space-y-1">
+            <div className="text-xs font-semibold text-gray-500 mb-2 uppercase">SQL Tables</div>
+            {entries.map(table => (
+                <div key={table.name} className="text-sm">
+                    <div className="group flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-700 cursor-pointer" onClick={() => setExpanded(prev => ({ ...prev, [table.name]: !prev[table.name] }))}>
+                        <span className="text-gray-500 text-xs w-3">{expanded[table.name] ? '▾' : '▸'}</span>
+                        <span className="font-mono text-green-300 truncate">{table.name}</span>
+                        <span className="text-xs text-gray-500 ml-auto">{table.rowCount.toLocaleString()}</span>
+                        <button
+                            className="text-xs text-gray-500 hover:text-white hidden group-hover:inline"
+                            title="New SQL cell querying this table"
+                            onClick={(e) => { e.stopPropagation(); addCell(ExpandedCellType.SQL, { query: `SELECT * FROM ${table.name} LIMIT 100` }); }}
+                        >
+                            ▶
+                        </button>
+                        {table.cellId && (
+                            <button className="text-xs text-gray-500 hover:text-white hidden group-hover:inline" title="Go to the defining cell" onClick={(e) => { e.stopPropagation(); reveal(table.cellId!); }}>↗</button>
+                        )}
+                    </div>
+                    {expanded[table.name] && (
+                        <div className="pl-6 pb-1 space-y-0.5">
+                            {table.columns.map(col => (
+                                <div key={col.name} className="flex text-xs text-gray-400">
+                                    <span className="font-mono truncate">{col.name}</span>
+                                    <span className="ml-auto text-gray-600">{col.type}</span>
+                                </div>
+                            ))}
+                            {table.columns.length === 0 && <div className="text-xs text-gray-600 italic">No columns</div>}
+                        </div>
+                    )}
+                </div>
+            ))}
+            {entries.length === 0 && <div className="text-xs text-gray-600 italic p-2">No tables yet. Add a data table or import a CSV.</div>}
+        </div>
+    );
+};
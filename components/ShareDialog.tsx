@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { NotebookMetadata, useNotebook } from './Notebook';
+import { Role } from '../services/permissions';
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 outline-none focus:border-blue-500 disabled:opacity-60';
+
+const VISIBILITY_OPTIONS: { value: NotebookMetadata['visibility']; label: string; description: string }[] = [
+    { value: 'private', label: 'Private', description: 'Only you. The people below keep their access for when you share again.' },
+    { value: 'restricted', label: 'Restricted', description: 'Only the people added below.' },
+    { value: 'team', label: 'Team', description: 'The people below, and anyone else on the team can view.' },
+    { value: 'public', label: 'Public', description: 'The people below, and anyone with the notebook can view.' },
+];
+
+const ROLE_LABELS: Record<Role, string> = { viewer: 'Viewer', editor: 'Editor', admin: 'Admin' };
+
+// Manages who can open the notebook and with which role. Only admins change anything; everyone
+// else sees the current settings.
+export const ShareDialog: React.FC = () => {
+    const { notebookMetadata, updateSharing, permissions, users, currentUserName, setShareDialogOpen, setCollabDialogOpen } = useNotebook();
+    const { author, visibility, sharedWith } = notebookMetadata;
+    const [name, setName] = useState('');
+    const [role, setRole] = useState<Role>('editor');
+    const editable = permissions.canShare;
+    const trimmed = name.trim();
+    const duplicate = [author, ...sharedWith.map(e => e.userId)].some(existing => existing.toLowerCase() === trimmed.toLowerCase());
+
+    const add = () => {
+        if (!trimmed || duplicate) return;
+        updateSharing({ sharedWith: [...sharedWith, { userId: trimmed, permissions: role }] });
+        setName('');
+    };
+
+    const setEntryRole = (userId: string, permissions: Role) =>
+        updateSharing({ sharedWith: sharedWith.map(e => e.userId === userId ? { ...e, permissions } : e) });
+
+    const remove = (userId: string) => updateSharing({ sharedWith: sharedWith.filter(e => e.userId !== userId) });
+
+    const suggestions = users.map(u => u.name).filter(n => !sharedWith.some(e => e.userId.toLowerCase() === n.toLowerCase()) && n.toLowerCase() !== author.toLowerCase());
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-start justify-center pt-20" onClick={() => setShareDialogOpen(false)}>
+            <div className="w-full max-w-lg bg-gray-800 rounded-lg shadow-2xl border border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="font-bold text-lg">Share "{notebookMetadata.title}"</h2>
+                    <span className="text-xs text-gray-400">Your access: {permissions.role ? ROLE_LABELS[permissions.role] : 'None'}</span>
+                </div>
+                <div className="p-4 space-y-4 text-sm">
+                    <div className="space-y-1">
+                        <div className="text-xs font-semibold text-gray-500 uppercase">General access</div>
+                        <select
+                            value={visibility}
+                            disabled={!editable}
+                            onChange={e => updateSharing({ visibility: e.target.value as NotebookMetadata['visibility'] })}
+                            className={`${inputClass} w-full`}
+                        >
+                            {VISIBILITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                        <div className="text-xs text-gray-500">{VISIBILITY_OPTIONS.find(o => o.value === visibility)?.description}</div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="text-xs font-semibold text-gray-500 uppercase">People with access</div>
+                        <div className="flex items-center gap-2">
+                            <span className="flex-grow text-gray-200">{author}{author.toLowerCase() === currentUserName.toLowerCase() && <span className="text-gray-500"> (you)</span>}</span>
+                            <span className="text-xs text-gray-500 px-2">Owner</span>
+                        </div>
+                        {sharedWith.map(entry => (
+                            <div key={entry.userId} className={`flex items-center gap-2 ${visibility === 'private' ? 'opacity-50' : ''}`}>
+                                <span className="flex-grow text-gray-200 truncate">
+                                    {entry.userId}{entry.userId.toLowerCase() === currentUserName.toLowerCase() && <span className="text-gray-500"> (you)</span>}
+                                </span>
+                                <select value={entry.permissions} disabled={!editable} onChange={e => setEntryRole(entry.userId, e.target.value as Role)} className={`${inputClass} text-xs`}>
+                                    {(Object.keys(ROLE_LABELS) as Role[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                </select>
+                                {editable && <button onClick={() => remove(entry.userId)} className="text-gray-400 hover:text-red-400 px-1" title="Remove access">✕</button>}
+                            </div>
+                        ))}
+                        {editable ? (
+                            <div className="flex items-center gap-2 pt-1">
+                                <input
+                                    value={name}
+                                    list="share-suggestions"
+                                    placeholder="Name"
+                                    onChange={e => setName(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') add(); }}
+                                    className={`${inputClass} flex-grow`}
+                                />
+                                <datalist id="share-suggestions">{suggestions.map(s => <option key={s} value={s} />)}</datalist>
+                                <select value={role} onChange={e => setRole(e.target.value as Role)} className={`${inputClass} text-xs`}>
+                                    {(Object.keys(ROLE_LABELS) as Role[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                </select>
+                                <button onClick={add} disabled={!trimmed || duplicate} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-40">Add</button>
+                            </div>
+                        ) : (
+                            <div className="text-xs text-gray-500 italic">Only the owner and admins can change who has access.</div>
+                        )}
+                        {duplicate && trimmed && <div className="text-xs text-yellow-400">{trimmed} already has access.</div>}
+                    </div>
+
+                    <div className="text-xs text-gray-500 border-t border-gray-700 pt-3 space-y-1">
+                        <div>Viewers can read the notebook. Editors can also edit, run and comment. Admins can also change sharing.</div>
+                        <div>People are matched by the name they use in a <button onClick={() => { setShareDialogOpen(false); setCollabDialogOpen(true); }} className="underline hover:text-gray-300">live session</button>.</div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
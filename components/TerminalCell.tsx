@@ -0,0 +1,330 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { GeneralCellProps } from '../types';
+import { CellControls, CommentSection, ExpandedCellType, HiddenCellPart, useNotebook } from './Notebook';
+import { AnsiStyle } from '../services/ansi';
+import { TerminalLine, TerminalScreen } from '../services/terminal/screen';
+import {
+    BROWSER_BACKEND_ID, DEFAULT_PTY_URL, getTerminalBackend, getTerminalBackends, PTY_BACKEND_ID, TerminalHandlers, TerminalOptions, TerminalSession,
+} from '../services/terminal/backends';
+
+const AUTO_BACKEND = 'auto';
+const DEFAULT_ROWS = 20;
+const FOREGROUND = '#e5e5e5';
+const BACKGROUND = '#111827';
+
+// --- Rendering ---
+
+const cssCache = new WeakMap<AnsiStyle, React.CSSProperties>();
+
+const glyphCss = (style: AnsiStyle): React.CSSProperties => {
+    const cached = cssCache.get(style);
+    if (cached) return cached;
+    const [color, background] = style.inverse ? [style.background || BACKGROUND, style.color || FOREGROUND] : [style.color, style.background];
+    const css: React.CSSProperties = {
+        color,
+        backgroundColor: background,
+        fontWeight: style.bold ? 'bold' : undefined,
+        opacity: style.dim ? 0.6 : undefined,
+        fontStyle: style.italic ? 'italic' : undefined,
+        textDecoration: style.underline ? 'underline' : undefined,
+    };
+    cssCache.set(style, css);
+    return css;
+};
+
+// One line of the buffer. Lines are replaced rather than changed in place (see TerminalScreen.write),
+// so unchanged lines skip rendering.
+const TerminalRow = React.memo(({ line, cursorX, cursorClass }: { line: TerminalLine; cursorX: number; cursorClass: string }) => {
+    const spans: React.ReactNode[] = [];
+    let start = 0;
+    for (let i = 1; i <= line.length; i++) {
+        const boundary = i === line.length || i === cursorX || i === cursorX + 1 || line[i].style !== line[start].style;
+        if (!boundary) continue;
+        const text = line.slice(start, i).map(g => g.char).join('');
+        spans.push(<span key={start} style={glyphCss(line[start].style)} className={start === cursorX ? cursorClass : undefined}>{text}</span>);
+        start = i;
+    }
+    return <div className="whitespace-pre h-[1.25em]">{spans}</div>;
+});
+
+// --- Keyboard ---
+
+const FUNCTION_KEYS: Record<string, string> = {
+    F1: '\u001bOP', F2: '\u001bOQ', F3: '\u001bOR', F4: '\u001bOS', F5: '\u001b[15~', F6: '\u001b[17~',
+    F7: '\u001b[18~', F8: '\u001b[19~', F9: '\u001b[20~', F10: '\u001b[21~', F11: '\u001b[23~', F12: '\u001b[24~',
+};
+
+// What a key press sends to the shell, or null for keys the terminal leaves alone.
+const keySequence = (e: React.KeyboardEvent, applicationCursorKeys: boolean): string | null => {
+    const arrow = ({ ArrowUp: 'A', ArrowDown: 'B', ArrowRight: 'C', ArrowLeft: 'D', Home: 'H', End: 'F' } as Record<string, string>)[e.key];
+    if (arrow) return `\u001b${applicationCursorKeys ? 'O' : '['}${arrow}`;
+    switch (e.key) {
+        case 'Enter': return '\r';
+        case 'Backspace': return e.altKey ? '\u001b\u007f' : '\u007f';
+        case 'Tab': return e.shiftKey ? '\u001b[Z' : '\t';
+        case 'Escape': return '\u001b';
+        case 'Delete': return '\u001b[3~';
+        case 'Insert': return '\u001b[2~';
+        case 'PageUp': return '\u001b[5~';
+        case 'PageDown': return '\u001b[6~';
+    }
+    if (FUNCTION_KEYS[e.key]) return FUNCTION_KEYS[e.key];
+    if (e.key.length !== 1 || e.metaKey) return null;
+    if (e.ctrlKey && !e.altKey) {
+        const code = e.key.toUpperCase().charCodeAt(0);
+        if (code >= 64 && code <= 95) return String.fromCharCode(code - 64);
+        if (e.key === ' ') return '\u0000';
+        return null;
+    }
+    return e.altKey ? `\u001b${e.key}` : e.key;
+};
+
+// --- Cell ---
+
+// A terminal emulator on a pluggable shell backend. "Auto" uses the PTY server when it is
+// running and falls back to the in-browser shell. The session lives as long as the cell is on
+// screen; only the backend and server address are saved.
+export const TerminalCell: React.FC<GeneralCellProps> = ({ cell, isEditing, onFocus, onUpdateContent }) => {
+    const { id, content, comments, metadata } = cell;
+    const { canEditCell, permissions } = useNotebook();
+    const backendId: string = content?.backend || AUTO_BACKEND;
+    const url: string = content?.url || DEFAULT_PTY_URL;
+    const [isHovered, setIsHovered] = useState(false);
+    const [urlDraft, setUrlDraft] = useState(url);
+    const [status, setStatus] = useState('');
+    const [focused, setFocused] = useState(false);
+    const [restarts, setRestarts] = useState(0);
+    const [, setRenders] = useState(0);
+    const screenRef = useRef<TerminalScreen | null>(null);
+    if (!screenRef.current) screenRef.current = new TerminalScreen(80, DEFAULT_ROWS);
+    const screen = screenRef.current;
+    const sessionRef = useRef<TerminalSession | null>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const measureRef = useRef<HTMLSpanElement>(null);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+    // Follow new output unless the user scrolled up into the scrollback.
+    const followRef = useRef(true);
+    const editable = canEditCell(cell);
+
+    useEffect(() => setUrlDraft(url), [url]);
+
+    // Output can arrive in many small chunks; render at most once a frame.
+    useEffect(() => {
+        let frame = 0;
+        const unsubscribe = screen.subscribe(() => {
+            if (!frame) frame = requestAnimationFrame(() => { frame = 0; setRenders(n => n + 1); });
+        });
+        return () => { unsubscribe(); cancelAnimationFrame(frame); };
+    }, [screen]);
+
+    useEffect(() => {
+        if (!permissions.canExecute) return;
+        let cancelled = false;
+        let session: TerminalSession | null = null;
+        screen.reset();
+        const handlers: TerminalHandlers = {
+            onData: data => { if (!cancelled) screen.write(data); },
+            onExit: code => {
+                if (cancelled) return;
+                screen.write(`\r\n\u001b[2m[Process exited${code === null ? '' : ` with code ${code}`}]\u001b[0m\r\n`);
+                setStatus('exited');
+                sessionRef.current = null;
+            },
+        };
+        screen.onResponse = data => sessionRef.current?.write(data);
+        const open = async () => {
+            const options: TerminalOptions = { cols: screen.cols, rows: screen.rows, url };
+            if (backendId !== AUTO_BACKEND) {
+                const backend = getTerminalBackend(backendId);
+                if (!backend) throw new Error(`Unknown terminal backend "${backendId}"`);
+                setStatus(`${backend.label}…`);
+                session = await backend.open(options, handlers);
+                setStatus(backend.label);
+                return;
+            }
+            setStatus('Connecting…');
+            try {
+                session = await getTerminalBackend(PTY_BACKEND_ID)!.open(options, handlers);
+                setStatus(getTerminalBackend(PTY_BACKEND_ID)!.label);
+            } catch {
+                if (cancelled) return;
+                screen.write(`\u001b[2mNo terminal server at ${url}; using the in-browser shell.\u001b[0m\r\n`);
+                session = await getTerminalBackend(BROWSER_BACKEND_ID)!.open(options, handlers);
+                setStatus(getTerminalBackend(BROWSER_BACKEND_ID)!.label);
+            }
+        };
+        open().then(() => {
+            if (cancelled) session?.close();
+            else sessionRef.current = session;
+        }).catch((e: Error) => {
+            if (cancelled) return;
+            screen.write(`\u001b[31m${e.message}\u001b[0m\r\n`);
+            setStatus('Not connected');
+        });
+        return () => {
+            cancelled = true;
+            session?.close();
+            sessionRef.current = null;
+        };
+    }, [backendId, url, restarts, permissions.canExecute, screen]);
+
+    // The grid follows the viewport: its width sets the columns and its height (drag the
+    // bottom edge) the rows.
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        const measure = measureRef.current;
+        if (!viewport || !measure) return;
+        const fit = () => {
+            const charWidth = measure.getBoundingClientRect().width / 10;
+            const lineHeight = measure.getBoundingClientRect().height;
+            if (!charWidth || !lineHeight) return;
+            const style = getComputedStyle(viewport);
+            const width = viewport.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+            const height = viewport.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+            const cols = Math.max(2, Math.floor(width / charWidth));
+            const rows = Math.max(2, Math.floor(height / lineHeight));
+            if (cols === screen.cols && rows === screen.rows) return;
+            screen.resize(cols, rows);
+            sessionRef.current?.resize({ cols, rows });
+        };
+        const observer = new ResizeObserver(fit);
+        observer.observe(viewport);
+        fit();
+        return () => observer.disconnect();
+    }, [screen, metadata?.hideOutput]);
+
+    useLayoutEffect(() => {
+        const viewport = viewportRef.current;
+        if (viewport && followRef.current) viewport.scrollTop = viewport.scrollHeight;
+    });
+
+    const send = (data: string) => {
+        followRef.current = true;
+        sessionRef.current?.write(data);
+    };
+
+    const selectedText = () => {
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed || !viewportRef.current?.contains(selection.anchorNode)) return '';
+        return selection.toString().split('\n').map(line => line.trimEnd()).join('\n');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.nativeEvent.isComposing) return;
+        const ctrl = e.ctrlKey || e.metaKey;
+        // The command palette stays reachable from the terminal.
+        if (ctrl && e.shiftKey && e.key.toLowerCase() === 'p') return;
+        // Ctrl+Shift+C copies; so does Ctrl+C while text is selected. Otherwise Ctrl+C interrupts.
+        if (ctrl && (e.key.toLowerCase() === 'c') && (e.shiftKey || selectedText())) {
+            e.preventDefault();
+            const text = selectedText();
+            if (text) navigator.clipboard?.writeText(text);
+            return;
+        }
+        // Ctrl+V and Ctrl+Shift+V paste through the paste event below.
+        if (ctrl && e.key.toLowerCase() === 'v') return;
+        if (e.shiftKey && (e.key === 'PageUp' || e.key === 'PageDown')) {
+            e.preventDefault();
+            const viewport = viewportRef.current;
+            if (viewport) viewport.scrollTop += (e.key === 'PageUp' ? -1 : 1) * viewport.clientHeight * 0.9;
+            return;
+        }
+        const data = keySequence(e, screen.applicationCursorKeys);
+        if (data === null) return;
+        e.preventDefault();
+        e.stopPropagation();
+        send(data);
+    };
+
+    const handlePaste = (e: React.ClipboardEvent) => {
+        e.preventDefault();
+        const text = e.clipboardData.getData('text/plain').replace(/\r?\n/g, '\r');
+        if (text) send(screen.bracketedPaste ? `\u001b[200~${text}\u001b[201~` : text);
+    };
+
+    const lines = screen.alternateScreen ? screen.lines : [...screen.scrollback, ...screen.lines];
+    const cursorRow = screen.cursorVisible ? lines.length - screen.rows + screen.cursor.y : -1;
+    const cursorClass = focused ? 'bg-gray-200 text-gray-900' : 'outline outline-1 outline-gray-400';
+    const backends = getTerminalBackends();
+
+    return (
+        <div
+            id={`cell-${id}`}
+            className={`relative p-3 rounded-lg border ${isEditing ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-700'} ${isHovered ? 'bg-gray-800/50' : ''}`}
+            onClick={onFocus}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+        >
+            {isHovered && <CellControls cellId={id} cellType={ExpandedCellType.Terminal} className="absolute top-2 right-2 z-20" />}
+            <h3 className="font-semibold mb-2 flex items-center gap-2 flex-wrap">
+                <span>⌨️</span> Terminal
+                <span className="text-xs font-normal text-gray-500 truncate max-w-[16rem]" title={screen.title}>{screen.title || status}</span>
+                <span className="flex items-center gap-2 text-xs font-normal ml-auto mr-36" onClick={e => e.stopPropagation()}>
+                    <select
+                        value={backendId}
+                        disabled={!editable}
+                        onChange={e => onUpdateContent({ ...content, backend: e.target.value }, true)}
+                        className="bg-gray-900 text-gray-300 rounded px-1 py-0.5 outline-none"
+                        title="Where the shell runs"
+                    >
+                        <option value={AUTO_BACKEND}>Auto</option>
+                        {backends.map(backend => <option key={backend.id} value={backend.id}>{backend.label}</option>)}
+                    </select>
+                    {backendId !== BROWSER_BACKEND_ID && (
+                        <input
+                            value={urlDraft}
+                            readOnly={!editable}
+                            onChange={e => setUrlDraft(e.target.value)}
+                            onBlur={() => urlDraft.trim() !== url && onUpdateContent({ ...content, url: urlDraft.trim() || DEFAULT_PTY_URL }, true)}
+                            onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                            className="bg-gray-900 border border-gray-700 rounded px-2 py-0.5 font-mono text-gray-300 outline-none focus:border-blue-500 w-44"
+                            title="Terminal server address (npm run terminal-server)"
+                        />
+                    )}
+                    <button onClick={() => { screen.clearScrollback(); send('\u000c'); }} className="text-gray-400 hover:text-white" title="Clear the screen and scrollback">Clear</button>
+                    <button onClick={() => setRestarts(n => n + 1)} disabled={!permissions.canExecute} className="text-gray-400 hover:text-white disabled:opacity-40" title="Start a new session">↻</button>
+                </span>
+            </h3>
+            {metadata?.hideOutput ? <HiddenCellPart cellId={id} part="output" /> : (
+                <div className="relative">
+                    <div
+                        ref={viewportRef}
+                        className="overflow-y-auto overflow-x-hidden resize-y rounded-md border border-gray-700 p-2 font-mono text-sm leading-[1.25] cursor-text"
+                        style={{ height: `calc(${DEFAULT_ROWS * 1.25}em + 1rem)`, minHeight: '5em', backgroundColor: BACKGROUND, color: FOREGROUND }}
+                        onScroll={e => {
+                            const viewport = e.currentTarget;
+                            followRef.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 20;
+                        }}
+                        onMouseUp={() => { if (!selectedText()) inputRef.current?.focus({ preventScroll: true }); }}
+                        onCopy={e => {
+                            const text = selectedText();
+                            if (!text) return;
+                            e.preventDefault();
+                            e.clipboardData.setData('text/plain', text);
+                        }}
+                    >
+                        <span ref={measureRef} className="absolute invisible whitespace-pre" aria-hidden="true">WWWWWWWWWW</span>
+                        {!permissions.canExecute
+                            ? <div className="text-gray-500 italic">You don't have permission to run a terminal in this notebook.</div>
+                            : lines.map((line, i) => <TerminalRow key={i} line={line} cursorX={i === cursorRow ? Math.min(screen.cursor.x, screen.cols - 1) : -1} cursorClass={cursorClass} />)}
+                    </div>
+                    <textarea
+                        ref={inputRef}
+                        className="absolute top-0 left-0 w-px h-px opacity-0 resize-none"
+                        aria-label="Terminal input"
+                        autoCapitalize="off"
+                        autoCorrect="off"
+                        spellCheck={false}
+                        onKeyDown={handleKeyDown}
+                        onPaste={handlePaste}
+                        onCompositionEnd={e => { send(e.data); e.currentTarget.value = ''; }}
+                        onInput={e => { if (!e.nativeEvent.isComposing) e.currentTarget.value = ''; }}
+                        onFocus={() => setFocused(true)}
+                        onBlur={() => setFocused(false)}
+                    />
+                </div>
+            )}
+            <CommentSection comments={comments} cellId={id} />
+        </div>
+    );
+};
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { useNotebook, ExpandedCellType } from './Notebook';
+import { DataGrid } from './DataGrid';
+import { SchemaBrowser } from './SchemaBrowser';
+import { toIdentifier } from '../services/dataTable';
+import { VariablePath, VariableSummary, VariableTable } from '../services/kernels/protocol';
+
+// Rows fetched for the table viewer.
+const MAX_VIEWER_ROWS = 10000;
+
+const pathKey = (path: VariablePath) => JSON.stringify(path);
+
+// How a path reads in code: `data["rows"][0]`.
+export const pathLabel = (path: VariablePath) =>
+    path.map((key, i) => i === 0 ? String(key) : `[${typeof key === 'number' ? key : JSON.stringify(key)}]`).join('');
+
+// The kernel's namespace, refreshed after every execution. Members of objects, lists and maps
+// are fetched when they are expanded; tabular values open in the table viewer.
+export const VariableInspector: React.FC = () => {
+    const { notebookMetadata, activeCellId, getCellKernel, kernelRuns, inspectVariables, setVariableViewer } = useNotebook();
+    const codeKernels = notebookMetadata.kernels.filter(k => k.language !== 'sql' && k.language !== 'ai');
+    const [chosenKernelId, setChosenKernelId] = useState<string | null>(null);
+    // Follows the active cell's kernel unless one was picked.
+    const activeKernelId = activeCellId ? getCellKernel(activeCellId)?.id : undefined;
+    const kernel = codeKernels.find(k => k.id === chosenKernelId)
+        || codeKernels.find(k => k.id === activeKernelId)
+        || codeKernels.find(k => k.id === notebookMetadata.defaultKernelId)
+        || codeKernels[0];
+    const status = kernel?.status;
+    // Members by path; the namespace itself is at [].
+    const [members, setMembers] = useState<Record<string, VariableSummary[]>>({});
+    const [expanded, setExpanded] = useState<string[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [refreshes, setRefreshes] = useState(0);
+
+    useEffect(() => {
+        setMembers({});
+        setExpanded([]);
+    }, [kernel?.id]);
+
+    // Re-reads the namespace and every expanded value. Expanding a row fetches just its members.
+    useEffect(() => {
+        if (!kernel || status === 'busy' || status === 'starting' || status === 'restarting') return;
+        let cancelled = false;
+        const paths: VariablePath[] = [[], ...expanded.map(key => JSON.parse(key))];
+        setLoading(true);
+        Promise.all(paths.map(path => inspectVariables(kernel.id, path.length > 0 ? path : undefined))).then(results => {
+            if (cancelled) return;
+            setMembers(Object.fromEntries(paths.map((path, i) => [pathKey(path), results[i]])));
+            setLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [kernel?.id, kernelRuns, status, refreshes]);
+
+    const toggle = async (path: VariablePath) => {
+        const key = pathKey(path);
+        if (expanded.includes(key)) {
+            setExpanded(expanded.filter(k => k !== key && !k.startsWith(key.slice(0, -1) + ',')));
+            return;
+        }
+        setExpanded([...expanded, key]);
+        if (!members[key] && kernel) {
+            const children = await inspectVariables(kernel.id, path);
+            setMembers(prev => ({ ...prev, [key]: children }));
+        }
+    };
+
+    const renderRows = (parent: VariablePath, depth: number): React.ReactNode =>
+        (members[pathKey(parent)] || []).map(variable => {
+            const path = [...parent, variable.name];
+            const key = pathKey(path);
+            const open = expanded.includes(key);
+            return (
+                <React.Fragment key={key}>
+                    <div
+                        className="group flex items-start gap-1 px-2 py-1 rounded hover:bg-gray-700 cursor-pointer text-sm"
+                        style={{ paddingLeft: 8 + depth * 12 }}
+                        onClick={() => variable.tabular && kernel ? setVariableViewer({ kernelId: kernel.id, path }) : variable.expandable && toggle(path)}
+                        title={variable.tabular ? 'Open in the table viewer' : undefined}
+                    >
+                        <span
+                            className="text-gray-500 text-xs w-3 pt-0.5 flex-shrink-0"
+                            onClick={e => { e.stopPropagation(); if (variable.expandable) toggle(path); }}
+                        >
+                            {variable.expandable ? (open ? '▾' : '▸') : ''}
+                        </span>
+                        <div className="min-w-0 flex-grow">
+                            <div className="flex items-baseline gap-2">
+                                <span className="font-mono text-green-300 truncate">{variable.name}</span>
+                                <span className="text-xs text-gray-500 truncate">{variable.type}{variable.shape ? ` · ${variable.shape}` : ''}</span>
+                                {variable.tabular && <span className="ml-auto text-xs text-gray-500 hidden group-hover:inline">⊞</span>}
+                            </div>
+                            <div className="font-mono text-xs text-gray-400 truncate" title={variable.preview}>{variable.preview}</div>
+                        </div>
+                    </div>
+                    {open && renderRows(path, depth + 1)}
+                </React.Fragment>
+            );
+        });
+
+    const variables = members[pathKey([])];
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <div className="flex items-center gap-1 mb-2">
+                    <span className="text-xs font-semibold text-gray-500 uppercase">Variables</span>
+                    {loading && <span className="text-xs text-gray-600">…</span>}
+                    <select
+                        value={kernel?.id || ''}
+                        onChange={e => setChosenKernelId(e.target.value)}
+                        className="ml-auto bg-gray-900 text-gray-300 text-xs rounded px-1 py-0.5 outline-none max-w-[8rem]"
+                        title="Kernel"
+                    >
+                        {codeKernels.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+                    </select>
+                    <button onClick={() => setRefreshes(n => n + 1)} className="text-xs text-gray-500 hover:text-white px-1" title="Refresh">↻</button>
+                </div>
+                {!kernel && <div className="text-xs text-gray-600 italic p-2">No code kernels in this notebook</div>}
+                {kernel && status === 'disconnected' && <div className="text-xs text-gray-600 italic p-2">Run a cell on {kernel.name} to see its variables</div>}
+                {kernel && status !== 'disconnected' && variables?.length === 0 && <div className="text-xs text-gray-600 italic p-2">No variables defined</div>}
+                {kernel && renderRows([], 0)}
+            </div>
+            <div className="border-t border-gray-700 pt-3">
+                <SchemaBrowser />
+            </div>
+        </div>
+    );
+};
+
+// A read-only grid for a dataframe or array in the kernel, refreshed when the kernel runs code.
+export const VariableViewer: React.FC = () => {
+    const { variableViewer, setVariableViewer, getVariableTable, kernelRuns, addCell, cells, activeCellId, permissions } = useNotebook();
+    const [table, setTable] = useState<VariableTable | null | undefined>(undefined);
+    const label = variableViewer ? pathLabel(variableViewer.path) : '';
+
+    useEffect(() => {
+        if (!variableViewer) return;
+        let cancelled = false;
+        getVariableTable(variableViewer.kernelId, variableViewer.path, MAX_VIEWER_ROWS).then(result => { if (!cancelled) setTable(result); });
+        return () => { cancelled = true; };
+    }, [getVariableTable, kernelRuns, variableViewer]);
+
+    if (!variableViewer) return null;
+    const close = () => setVariableViewer(null);
+
+    // Named apart from the variable so the table doesn't shadow it in cells that read both.
+    const insertDataCell = () => {
+        if (!table) return;
+        const index = cells.findIndex(c => c.id === activeCellId);
+        addCell(ExpandedCellType.Data, { name: `${toIdentifier(label)}_snapshot`, columns: table.columns, data: table.data }, index === -1 ? undefined : index + 1);
+        close();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center" onClick={close}>
+            <div className="w-full max-w-5xl h-[80vh] bg-gray-800 rounded-lg shadow-2xl border border-gray-700 flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3 p-3 border-b border-gray-700">
+                    <h2 className="font-bold font-mono text-green-300 truncate">{label}</h2>
+                    {table && (
+                        <span className="text-xs text-gray-500">
+                            {table.rowCount.toLocaleString()} × {table.columns.length}
+                            {table.rowCount > table.data.length && ` · showing the first ${table.data.length.toLocaleString()} rows`}
+                        </span>
+                    )}
+                    {permissions.canEdit && table && (
+                        <button onClick={insertDataCell} className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 rounded px-2 py-1" title="Copy these rows into a Data cell">
+                            Insert as Data cell
+                        </button>
+                    )}
+                    <button onClick={close} className={`text-gray-400 hover:text-white px-2 ${permissions.canEdit && table ? '' : 'ml-auto'}`}>✕</button>
+                </div>
+                <div className="flex-grow min-h-0 p-3 overflow-auto">
+                    {table === undefined && <div className="text-sm text-gray-500">Loading…</div>}
+                    {table === null && <div className="text-sm text-gray-500">{label} is no longer defined, or can't be shown as a table.</div>}
+                    {table && <DataGrid table={table} readOnly />}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,69 @@
+// A relay for real-time collaboration. Clients connect to /rooms/<room> and every
+// message is forwarded to the other clients in the same room; merging happens in the
+// browser (services/collab), so the relay keeps no document state.
+//
+//   npm run collab-server            # listens on ws://localhost:8766
+//   COLLAB_SERVER_PORT=9000 npm run collab-server
+//
+// Then choose "Relay server" in the notebook's 👥 Share dialog.
+//
+// Anyone connected to a room can rewrite its notebooks, so the relay only listens on localhost
+// and only accepts pages served from localhost; add other origins with
+// COLLAB_ALLOWED_ORIGINS=https://example.org,...
+
+import { WebSocketServer } from 'ws';
+import { originChecker } from './origins.mjs';
+
+const PORT = Number(process.env.COLLAB_SERVER_PORT || 8766);
+const allowedOrigin = originChecker(process.env.COLLAB_ALLOWED_ORIGINS);
+
+// room name -> connected sockets
+const rooms = new Map();
+
+const server = new WebSocketServer({ port: PORT, host: '127.0.0.1' });
+
+server.on('connection', (socket, request) => {
+    if (!allowedOrigin(request.headers.origin)) {
+        // Close reasons are capped at 123 bytes, so never echo the request back in one.
+        socket.close(4003, 'Origin not allowed');
+        return;
+    }
+    const match = /^\/rooms\/([^/?]+)/.exec(request.url || '');
+    if (!match) {
+        socket.close(4004, 'Expected /rooms/<room>');
+        return;
+    }
+    let room;
+    try {
+        room = decodeURIComponent(match[1]);
+    } catch {
+        socket.close(4004, 'Bad room name');
+        return;
+    }
+    if (!rooms.has(room)) rooms.set(room, new Set());
+    const peers = rooms.get(room);
+    peers.add(socket);
+    // The collaborator id this socket speaks for, so the others can be told when it drops.
+    let clientId = null;
+
+    const broadcast = data => peers.forEach(peer => {
+        if (peer !== socket && peer.readyState === peer.OPEN) peer.send(data);
+    });
+
+    socket.on('message', data => {
+        const text = String(data);
+        try {
+            clientId = JSON.parse(text).from ?? clientId;
+        } catch {
+            return;
+        }
+        broadcast(text);
+    });
+    socket.on('close', () => {
+        peers.delete(socket);
+        if (peers.size === 0) rooms.delete(room);
+        else if (clientId) broadcast(JSON.stringify({ type: 'leave', from: clientId }));
+    });
+});
+
+console.log(`Collaboration server listening on ws://localhost:${PORT}`);
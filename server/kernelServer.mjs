@@ -0,0 +1,438 @@
+// A small stand-in for a Jupyter kernel gateway. Each WebSocket connection to
+// /kernels/<kernelId> gets its own kernel process, and messages follow the JSON
+// protocol in services/kernels/protocol.ts.
+//
+//   npm run kernel-server            # listens on ws://localhost:8765
+//   KERNEL_SERVER_PORT=9000 npm run kernel-server
+//
+// Then use "Connect to Kernel Server..." in the notebook's command palette.
+//
+// A kernel runs whatever code it is sent, as you, so the server only listens on localhost and
+// only accepts pages served from localhost; add other origins with
+// KERNEL_ALLOWED_ORIGINS=https://example.org,...
+
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { WebSocketServer } from 'ws';
+import { originChecker } from './origins.mjs';
+
+const PORT = Number(process.env.KERNEL_SERVER_PORT || 8765);
+const PYTHON = process.env.PYTHON || 'python3';
+const allowedOrigin = originChecker(process.env.KERNEL_ALLOWED_ORIGINS);
+
+// Reads execute requests as JSON lines on stdin and writes protocol messages as JSON
+// lines on stdout. User code sees stdout/stderr wrapped so prints become stream messages,
+// and gets a `workspace` module for the notebook's files.
+const PYTHON_DRIVER = String.raw`
+import ast, base64, io, json, math, reprlib, sys, traceback, types
+
+_out = sys.__stdout__
+_parent = [None]
+_namespace = {'__name__': '__main__'}
+
+def _emit(msg):
+    msg['parentId'] = _parent[0]
+    _out.write(json.dumps(msg) + '\n')
+    _out.flush()
+
+class _Stream(io.TextIOBase):
+    def __init__(self, name):
+        self._name = name
+    def writable(self):
+        return True
+    def write(self, text):
+        if text:
+            _emit({'type': 'stream', 'name': self._name, 'text': text})
+        return len(text)
+
+sys.stdout = _Stream('stdout')
+sys.stderr = _Stream('stderr')
+
+# --- Workspace files ---
+# The workspace lives in the browser, so each call is a round trip: an fs_request goes out on
+# stdout and the cell waits for the matching fs_reply on stdin. Requests that arrive meanwhile
+# are kept for the main loop.
+
+_deferred = []
+_file_requests = [0]
+
+def _file_request(op, path, data=None):
+    _file_requests[0] += 1
+    request_id = 'fs-%d' % _file_requests[0]
+    _out.write(json.dumps({'type': 'fs_request', 'id': request_id, 'op': op, 'path': str(path), 'data': data}) + '\n')
+    _out.flush()
+    while True:
+        line = sys.stdin.readline()
+        if not line:
+            raise EOFError('The notebook disconnected')
+        msg = json.loads(line)
+        if msg.get('type') == 'fs_reply' and msg.get('parentId') == request_id:
+            break
+        _deferred.append(msg)
+    if msg.get('error'):
+        raise OSError(msg['error'])
+    return msg
+
+def _read_bytes(path):
+    return base64.b64decode(_file_request('read', path).get('data') or '')
+
+def _read_text(path, encoding='utf-8'):
+    return _read_bytes(path).decode(encoding)
+
+def _write(path, data, encoding='utf-8'):
+    if isinstance(data, str):
+        data = data.encode(encoding)
+    _file_request('write', path, base64.b64encode(bytes(data)).decode('ascii'))
+
+def _listdir(path=''):
+    return [entry['name'] for entry in _file_request('list', path).get('entries') or []]
+
+def _mkdir(path):
+    _file_request('mkdir', path)
+
+def _remove(path):
+    _file_request('delete', path)
+
+# Collects what is written and saves it to the workspace on close.
+class _WorkspaceWriter(io.BytesIO):
+    def __init__(self, path, binary, encoding):
+        super().__init__()
+        self._path, self._binary, self._encoding = path, binary, encoding
+    def write(self, data):
+        if not self._binary:
+            super().write(data.encode(self._encoding))
+            return len(data)
+        return super().write(data)
+    def close(self):
+        if not self.closed:
+            _write(self._path, self.getvalue())
+        super().close()
+
+def _open(path, mode='r', encoding='utf-8'):
+    binary = 'b' in mode
+    if mode.replace('b', '').replace('t', '') == 'r':
+        return io.BytesIO(_read_bytes(path)) if binary else io.StringIO(_read_text(path, encoding))
+    if mode.replace('b', '').replace('t', '') == 'w':
+        return _WorkspaceWriter(path, binary, encoding)
+    raise ValueError('workspace.open supports the modes r, rb, w and wb')
+
+workspace = types.ModuleType('workspace', 'Files in the notebook workspace (its Files panel).')
+workspace.read_bytes = _read_bytes
+workspace.read_text = _read_text
+workspace.write = _write
+workspace.open = _open
+workspace.listdir = _listdir
+workspace.mkdir = _mkdir
+workspace.remove = _remove
+sys.modules['workspace'] = workspace
+_namespace['workspace'] = workspace
+
+def _run(code):
+    tree = ast.parse(code, '<cell>', 'exec')
+    last = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr):
+        last = ast.Expression(tree.body.pop().value)
+    exec(compile(tree, '<cell>', 'exec'), _namespace)
+    if last is not None:
+        value = eval(compile(last, '<cell>', 'eval'), _namespace)
+        if value is not None:
+            _emit({'type': 'execute_result', 'data': {'text/plain': repr(value)}, 'metadata': {}})
+
+def _json_safe(value):
+    try:
+        return json.loads(json.dumps(value, default=str))
+    except Exception:
+        return repr(value)
+
+def _is_user_variable(name, value):
+    return not name.startswith('_') and not isinstance(value, types.ModuleType) and not callable(value)
+
+def _variables(names):
+    if names is None:
+        names = [k for k, v in _namespace.items() if _is_user_variable(k, v)]
+    return {name: _json_safe(_namespace[name]) for name in names if name in _namespace}
+
+# --- Variable inspector ---
+
+_MAX_MEMBERS = 100
+_repr = reprlib.Repr()
+_repr.maxstring = 120
+_repr.maxother = 200
+_repr.maxlist = _repr.maxtuple = _repr.maxdict = _repr.maxset = 20
+
+def _is_dataframe(value):
+    return hasattr(value, 'columns') and hasattr(value, 'iloc')
+
+def _is_series(value):
+    return hasattr(value, 'to_frame') and hasattr(value, 'iloc') and not hasattr(value, 'columns')
+
+def _array_shape(value):
+    shape = getattr(value, 'shape', None)
+    return shape if isinstance(shape, tuple) and hasattr(value, 'tolist') else None
+
+def _members(value):
+    if _is_dataframe(value):
+        return [(c, value[c]) for c in list(value.columns)[:_MAX_MEMBERS]]
+    if isinstance(value, dict):
+        return list(value.items())[:_MAX_MEMBERS]
+    if isinstance(value, (list, tuple)):
+        return list(enumerate(value[:_MAX_MEMBERS]))
+    if isinstance(value, (set, frozenset)):
+        return list(enumerate(list(value)[:_MAX_MEMBERS]))
+    if _is_series(value):
+        return list(enumerate(value.iloc[:_MAX_MEMBERS]))
+    shape = _array_shape(value)
+    if shape:
+        return [(i, value[i]) for i in range(min(shape[0], _MAX_MEMBERS))]
+    if hasattr(value, '__dict__') and not isinstance(value, (type, types.ModuleType)) and not callable(value):
+        return [(k, v) for k, v in vars(value).items() if not k.startswith('_')][:_MAX_MEMBERS]
+    return []
+
+def _resolve(path):
+    value = _namespace[path[0]]
+    for key in path[1:]:
+        if isinstance(value, dict):
+            value = value[key] if key in value else next(v for k, v in value.items() if str(k) == str(key))
+        elif _is_dataframe(value):
+            value = value[key] if key in value.columns else next(value[c] for c in value.columns if str(c) == str(key))
+        elif isinstance(value, (set, frozenset)):
+            value = list(value)[int(key)]
+        elif _is_series(value):
+            value = value.iloc[int(key)]
+        elif isinstance(value, (list, tuple)) or _array_shape(value):
+            value = value[int(key)]
+        else:
+            value = getattr(value, key)
+    return value
+
+def _shape(value):
+    shape = _array_shape(value)
+    if shape is not None:
+        return ' × '.join(str(n) for n in shape) if shape else None
+    if isinstance(value, (list, tuple, dict, set, frozenset)):
+        return str(len(value))
+    return None
+
+def _summary(name, value):
+    return {
+        'name': name if isinstance(name, (str, int)) and not isinstance(name, bool) else str(name),
+        'type': type(value).__name__,
+        'shape': _shape(value),
+        'preview': _repr.repr(value),
+        'expandable': not isinstance(value, (str, bytes)) and bool(_members(value)),
+        'tabular': _is_dataframe(value) or _is_series(value) or (_array_shape(value) or ()) != () or (isinstance(value, (list, tuple)) and len(value) > 0),
+    }
+
+def _inspect(path):
+    try:
+        if not path:
+            return [_summary(k, v) for k, v in list(_namespace.items()) if _is_user_variable(k, v)]
+        return [_summary(k, v) for k, v in _members(_resolve(path))]
+    except Exception:
+        return []
+
+def _cell(value):
+    if getattr(value, 'ndim', None) == 0 and hasattr(value, 'item'):
+        value = value.item()
+    if isinstance(value, float) and not math.isfinite(value):
+        return None if value != value else str(value)
+    if value is None or isinstance(value, (bool, int, float, str)):
+        return value
+    return str(value)
+
+# Records become columns by key, lists of lists by position; anything else is one column.
+def _table(path, limit):
+    try:
+        value = _resolve(path)
+        if _is_series(value):
+            value = value.to_frame()
+        if _is_dataframe(value):
+            rows = [[_cell(v) for v in row] for row in value.head(limit).itertuples(index=False, name=None)]
+            return {'columns': [str(c) for c in value.columns], 'data': rows, 'rowCount': len(value)}
+        if _array_shape(value):
+            value = value.tolist()
+        if not isinstance(value, (list, tuple)):
+            return None
+        rows = list(value[:limit])
+        if rows and all(isinstance(r, dict) for r in rows):
+            keys = list(dict.fromkeys(k for r in rows for k in r))
+            columns, data = [str(k) for k in keys], [[_cell(r.get(k)) for k in keys] for r in rows]
+        elif rows and all(isinstance(r, (list, tuple)) for r in rows):
+            width = max(len(r) for r in rows)
+            columns, data = [str(i) for i in range(width)], [[_cell(r[i]) if i < len(r) else None for i in range(width)] for r in rows]
+        else:
+            columns, data = ['value'], [[_cell(r)] for r in rows]
+        return {'columns': columns, 'data': data, 'rowCount': len(value)}
+    except Exception:
+        return None
+
+while True:
+    if _deferred:
+        msg = _deferred.pop(0)
+    else:
+        try:
+            line = sys.stdin.readline()
+        except KeyboardInterrupt:
+            continue
+        if not line:
+            break
+        msg = json.loads(line)
+    if msg.get('type') == 'variables_request':
+        _parent[0] = msg['id']
+        _emit({'type': 'variables_reply', 'variables': _variables(msg.get('names'))})
+        continue
+    if msg.get('type') == 'inspect_request':
+        _parent[0] = msg['id']
+        _emit({'type': 'inspect_reply', 'variables': _inspect(msg.get('path'))})
+        continue
+    if msg.get('type') == 'table_request':
+        _parent[0] = msg['id']
+        _emit({'type': 'table_reply', 'table': _table(msg['path'], msg.get('limit', 1000))})
+        continue
+    if msg.get('type') != 'execute_request':
+        continue
+    _parent[0] = msg['id']
+    status = 'ok'
+    try:
+        _run(msg['code'])
+    except BaseException as e:
+        if isinstance(e, SystemExit):
+            raise
+        status = 'error'
+        _emit({
+            'type': 'error',
+            'name': type(e).__name__,
+            'message': str(e),
+            'traceback': ''.join(traceback.format_exception(type(e), e, e.__traceback__)).rstrip().split('\n'),
+        })
+    _emit({'type': 'execute_reply', 'status': status})
+`;
+
+const KERNEL_SPECS = {
+    'python-3.10': { command: PYTHON, args: ['-u', '-c', PYTHON_DRIVER] },
+};
+
+class KernelSession {
+    constructor(spec, socket) {
+        this.spec = spec;
+        this.socket = socket;
+        this.pending = new Set();
+        this.process = null;
+    }
+
+    send(message) {
+        if (this.socket.readyState === this.socket.OPEN) this.socket.send(JSON.stringify(message));
+    }
+
+    start() {
+        const child = spawn(this.spec.command, this.spec.args, { stdio: ['pipe', 'pipe', 'pipe'] });
+        this.process = child;
+        createInterface({ input: child.stdout }).on('line', line => this.handleKernelLine(line));
+        child.stderr.on('data', chunk => process.stderr.write(`[kernel] ${chunk}`));
+        child.on('error', err => {
+            this.failPending('KernelError', `Could not start kernel: ${err.message}`);
+            this.send({ type: 'status', status: 'disconnected' });
+        });
+        child.on('exit', () => {
+            if (this.process !== child) return;
+            this.process = null;
+            this.failPending('KernelDied', 'The kernel process exited unexpectedly');
+            this.send({ type: 'status', status: 'disconnected' });
+        });
+        this.send({ type: 'status', status: 'idle' });
+    }
+
+    stop() {
+        const child = this.process;
+        this.process = null;
+        child?.kill('SIGKILL');
+    }
+
+    handleKernelLine(line) {
+        let message;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            return;
+        }
+        if (message.type === 'execute_reply') {
+            this.pending.delete(message.parentId);
+            this.send(message);
+            if (this.pending.size === 0) this.send({ type: 'status', status: 'idle' });
+            return;
+        }
+        this.send(message);
+    }
+
+    failPending(name, text) {
+        this.pending.forEach(parentId => {
+            this.send({ type: 'error', parentId, name, message: text, traceback: [] });
+            this.send({ type: 'execute_reply', parentId, status: 'aborted' });
+        });
+        this.pending.clear();
+    }
+
+    handleRequest(request) {
+        switch (request.type) {
+            case 'execute_request':
+                if (!this.process) this.start();
+                this.pending.add(request.id);
+                this.send({ type: 'status', status: 'busy' });
+                this.process.stdin.write(JSON.stringify(request) + '\n');
+                break;
+            case 'variables_request':
+            case 'inspect_request':
+            case 'table_request':
+                if (!this.process) this.start();
+                this.process.stdin.write(JSON.stringify(request) + '\n');
+                break;
+            case 'fs_reply':
+                this.process?.stdin.write(JSON.stringify(request) + '\n');
+                break;
+            case 'interrupt_request':
+                this.process?.kill('SIGINT');
+                break;
+            case 'restart_request':
+                this.send({ type: 'status', status: 'restarting' });
+                this.stop();
+                this.failPending('KernelRestart', 'The kernel was restarted');
+                this.start();
+                break;
+        }
+    }
+}
+
+const server = new WebSocketServer({ port: PORT, host: '127.0.0.1' });
+
+server.on('connection', (socket, request) => {
+    if (!allowedOrigin(request.headers.origin)) {
+        // Close reasons are capped at 123 bytes, so never echo the request back in one.
+        socket.close(4003, 'Origin not allowed');
+        return;
+    }
+    const match = /^\/kernels\/([^/?]+)/.exec(request.url || '');
+    let kernelId = null;
+    try {
+        kernelId = match && decodeURIComponent(match[1]);
+    } catch {
+        // A malformed escape is just an unknown kernel.
+    }
+    if (!kernelId || !Object.hasOwn(KERNEL_SPECS, kernelId)) {
+        socket.close(4004, 'Unknown kernel');
+        return;
+    }
+    const spec = KERNEL_SPECS[kernelId];
+
+    const session = new KernelSession(spec, socket);
+    session.start();
+    socket.on('message', data => {
+        try {
+            session.handleRequest(JSON.parse(String(data)));
+        } catch (err) {
+            console.error('Bad request', err);
+        }
+    });
+    socket.on('close', () => session.stop());
+});
+
+console.log(`Kernel server listening on ws://localhost:${PORT} (kernels: ${Object.keys(KERNEL_SPECS).join(', ')})`);
@@ -0,0 +1,18 @@
+// Origin checks shared by the servers. Each of them hands out something powerful (a kernel, a
+// shell, write access to a notebook), so by default only pages served from localhost may connect.
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Builds the check from a comma-separated list of extra origins, e.g. an *_ALLOWED_ORIGINS variable.
+// Connections without an Origin header come from outside a browser and are let through.
+export const originChecker = (extraOrigins = '') => {
+    const allowed = extraOrigins.split(',').map(o => o.trim()).filter(Boolean);
+    return origin => {
+        if (!origin || allowed.includes(origin)) return true;
+        try {
+            return LOCAL_HOSTS.includes(new URL(origin).hostname);
+        } catch {
+            return false;
+        }
+    };
+};
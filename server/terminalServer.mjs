@@ -0,0 +1,155 @@
+// A PTY server for Terminal cells. Each WebSocket connection to /pty?cols=80&rows=24 gets its
+// own shell on a pseudo-terminal, and messages follow the JSON protocol in
+// services/terminal/protocol.ts.
+//
+//   npm run terminal-server            # listens on ws://localhost:8767
+//   TERMINAL_SERVER_PORT=9000 SHELL=/bin/zsh npm run terminal-server
+//
+// The pseudo-terminal comes from node-pty when it is installed, otherwise from a small
+// Python helper (needs python3 on a Unix system). Whoever connects gets a shell as you, so
+// the server only listens on localhost and only accepts pages served from localhost; add
+// other origins with TERMINAL_ALLOWED_ORIGINS=https://example.org,...
+
+import { spawn } from 'node:child_process';
+import { homedir } from 'node:os';
+import { WebSocketServer } from 'ws';
+import { originChecker } from './origins.mjs';
+
+const PORT = Number(process.env.TERMINAL_SERVER_PORT || 8767);
+const PYTHON = process.env.PYTHON || 'python3';
+const SHELL = process.env.SHELL || '/bin/bash';
+const CWD = process.env.TERMINAL_CWD || homedir();
+const allowedOrigin = originChecker(process.env.TERMINAL_ALLOWED_ORIGINS);
+
+// Runs the shell on a pty and copies bytes between it and stdin/stdout. Resize requests
+// arrive as "cols rows" lines on fd 3. Exits with the shell's exit code.
+const PTY_HELPER = String.raw`
+import fcntl, os, pty, select, signal, struct, sys, termios
+
+shell, cols, rows = sys.argv[1], int(sys.argv[2]), int(sys.argv[3])
+pid, fd = pty.fork()
+if pid == 0:
+    os.execvp(shell, [shell])
+
+def resize(cols, rows):
+    fcntl.ioctl(fd, termios.TIOCSWINSZ, struct.pack('HHHH', rows, cols, 0, 0))
+
+def write_all(target, data):
+    while data:
+        data = data[os.write(target, data):]
+
+resize(cols, rows)
+inputs = [fd, 0, 3]
+control = b''
+while True:
+    ready, _, _ = select.select(inputs, [], [])
+    if fd in ready:
+        try:
+            data = os.read(fd, 65536)
+        except OSError:
+            data = b''
+        if not data:
+            break
+        write_all(1, data)
+    if 0 in ready:
+        data = os.read(0, 65536)
+        if not data:
+            os.kill(pid, signal.SIGHUP)
+            break
+        write_all(fd, data)
+    if 3 in ready:
+        data = os.read(3, 1024)
+        if not data:
+            inputs.remove(3)
+        control += data
+        while b'\n' in control:
+            line, control = control.split(b'\n', 1)
+            try:
+                resize(*map(int, line.split()))
+            except (ValueError, TypeError):
+                pass
+
+_, status = os.waitpid(pid, 0)
+sys.exit(os.waitstatus_to_exitcode(status))
+`;
+
+const nodePty = await import('node-pty').catch(() => null);
+
+const environment = () => ({ ...process.env, TERM: 'xterm-256color', COLORTERM: 'truecolor' });
+
+// The same small interface over both ways of getting a pty.
+const openPty = (cols, rows) => {
+    if (nodePty) {
+        const pty = nodePty.spawn(SHELL, [], { name: 'xterm-256color', cols, rows, cwd: CWD, env: environment() });
+        return {
+            onData: listener => pty.onData(listener),
+            onExit: listener => pty.onExit(({ exitCode, signal }) => listener(signal ? null : exitCode)),
+            write: data => pty.write(data),
+            resize: (cols, rows) => pty.resize(cols, rows),
+            kill: () => pty.kill(),
+        };
+    }
+    const child = spawn(PYTHON, ['-c', PTY_HELPER, SHELL, String(cols), String(rows)], { cwd: CWD, env: environment(), stdio: ['pipe', 'pipe', 'inherit', 'pipe'] });
+    const decoder = new TextDecoder();
+    // Writes after the shell has exited fail with EPIPE; the exit is reported separately.
+    child.stdin.on('error', () => {});
+    child.stdio[3].on('error', () => {});
+    return {
+        // A multi-byte character can be split across chunks; the decoder holds on to the start.
+        onData: listener => child.stdout.on('data', chunk => listener(decoder.decode(chunk, { stream: true }))),
+        // 'close' rather than 'exit', so the shell's last output has been read.
+        onExit: listener => child.on('close', code => listener(code)),
+        write: data => child.stdin.write(data),
+        resize: (cols, rows) => child.stdio[3].write(`${cols} ${rows}\n`),
+        kill: () => child.kill('SIGHUP'),
+    };
+};
+
+const size = (value, fallback) => Math.max(2, Math.min(1000, Number(value) || fallback));
+
+const server = new WebSocketServer({ port: PORT, host: '127.0.0.1' });
+
+server.on('connection', (socket, request) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (url.pathname !== '/pty') {
+        socket.close(4004, 'Expected /pty');
+        return;
+    }
+    if (!allowedOrigin(request.headers.origin)) {
+        // Close reasons are capped at 123 bytes, so never echo the request back in one.
+        socket.close(4003, 'Origin not allowed');
+        return;
+    }
+
+    let pty;
+    try {
+        pty = openPty(size(url.searchParams.get('cols'), 80), size(url.searchParams.get('rows'), 24));
+    } catch (err) {
+        // The details go to the terminal; they would not fit in a close reason.
+        socket.send(JSON.stringify({ type: 'output', data: `Could not start ${SHELL}: ${err.message}\r\n` }));
+        socket.close(1011, 'Could not start the shell');
+        return;
+    }
+    const send = message => {
+        if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+    };
+    pty.onData(data => send({ type: 'output', data }));
+    pty.onExit(code => {
+        send({ type: 'exit', code });
+        socket.close();
+    });
+
+    socket.on('message', data => {
+        let request;
+        try {
+            request = JSON.parse(String(data));
+        } catch {
+            return;
+        }
+        if (request.type === 'input' && typeof request.data === 'string') pty.write(request.data);
+        else if (request.type === 'resize') pty.resize(size(request.cols, 80), size(request.rows, 24));
+    });
+    socket.on('close', () => pty.kill());
+});
+
+console.log(`Terminal server listening on ws://localhost:${PORT} (${SHELL} via ${nodePty ? 'node-pty' : PYTHON})`);
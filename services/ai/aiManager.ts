@@ -0,0 +1,46 @@
+import { KernelInfo } from '../../components/Notebook';
+import { EchoProvider } from './mockProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { AIProvider } from './provider';
+
+export type AIProviderFactory = (info: KernelInfo) => AIProvider;
+
+// --- Provider registry ---
+// Maps an AI KernelInfo id (language 'ai') to the provider that answers for it.
+
+const providerFactories = new Map<string, AIProviderFactory>();
+const providers = new Map<string, AIProvider>();
+
+export const registerAIProvider = (kernelId: string, factory: AIProviderFactory) => {
+    providerFactories.set(kernelId, factory);
+    providers.delete(kernelId);
+    return () => {
+        providerFactories.delete(kernelId);
+        providers.delete(kernelId);
+    };
+};
+
+export const MOCK_AI_KERNEL_ID = 'mock-echo';
+
+registerAIProvider('openai-gpt4', () => new OpenAIProvider({ model: 'gpt-4' }));
+registerAIProvider(MOCK_AI_KERNEL_ID, () => new EchoProvider());
+
+const providerFor = (kernelId: string, info: KernelInfo) => {
+    let provider = providers.get(kernelId);
+    if (!provider) {
+        const factory = providerFactories.get(kernelId);
+        if (!factory) return undefined;
+        provider = factory(info);
+        providers.set(kernelId, provider);
+    }
+    return provider;
+};
+
+// The provider behind an AI kernel. Providers that cannot run yet (an OpenAI entry without an
+// API key, or an unknown kernel) fall back to the echo provider so AI cells keep working offline.
+export const resolveAIProvider = (info?: KernelInfo): { provider: AIProvider; fallback: boolean } => {
+    const provider = info ? providerFor(info.id, info) : undefined;
+    if (provider && !(provider instanceof OpenAIProvider && !provider.configured)) return { provider, fallback: false };
+    const echo = providerFor(MOCK_AI_KERNEL_ID, info || { id: MOCK_AI_KERNEL_ID, name: 'Echo (offline)', language: 'ai', status: 'idle' })!;
+    return { provider: echo, fallback: !!info && info.id !== MOCK_AI_KERNEL_ID };
+};
@@ -0,0 +1,39 @@
+import { abortError, AIProvider, ChatRequest } from './provider';
+
+const TOKEN_DELAY_MS = 15;
+
+// Offline provider that streams back a description of what it was sent. Prompts that ask for
+// code get a fenced block, so inserting code from a reply can be tried without a network.
+export class EchoProvider implements AIProvider {
+    readonly id = 'mock-echo';
+    readonly name = 'Echo (offline)';
+
+    constructor(private delayMs = TOKEN_DELAY_MS) {}
+
+    async complete(request: ChatRequest, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+        const reply = this.reply(request);
+        // Split on whitespace but keep it, so the streamed tokens join back into the reply.
+        const tokens = reply.match(/\s*\S+/g) || [];
+        for (const token of tokens) {
+            if (signal?.aborted) throw abortError();
+            if (this.delayMs > 0) await new Promise(resolve => setTimeout(resolve, this.delayMs));
+            onToken(token);
+        }
+        return reply;
+    }
+
+    private reply({ messages }: ChatRequest) {
+        const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+        const turns = messages.filter(m => m.role !== 'system');
+        const last = [...turns].reverse().find(m => m.role === 'user')?.content.trim() || '';
+        const lines = [`Echo: ${last || '(empty message)'}`];
+        const contextSections = system.match(/^## .+$/gm) || [];
+        if (contextSections.length > 0) lines.push('', `Notebook context received: ${contextSections.map(s => s.slice(3)).join(', ')}.`);
+        if (turns.length > 1) lines.push('', `This is turn ${Math.ceil(turns.length / 2)} of the conversation.`);
+        if (/\b(code|function|write|snippet|sql|query)\b/i.test(last)) {
+            const sql = /\b(sql|query)\b/i.test(last);
+            lines.push('', 'Here is a starting point:', '', sql ? '```sql' : '```javascript', sql ? 'SELECT * FROM sample LIMIT 10' : `console.log(${JSON.stringify(last.slice(0, 60))});`, '```');
+        }
+        return lines.join('\n');
+    }
+}
@@ -0,0 +1,99 @@
+import { EnhancedCell, ExpandedCellType } from '../../components/Notebook';
+import { columnValues, inferColumnType, notebookTables } from '../dataTable';
+import { ChatMessage } from './provider';
+
+// Builds the system prompt sent with AI requests: instructions plus the parts of the notebook
+// the model should know about (selected cells, current errors, table schemas).
+
+const MAX_CELL_CHARS = 4000;
+const MAX_CONTEXT_CHARS = 16000;
+
+const BASE_INSTRUCTIONS = [
+    'You are an assistant inside an interactive data notebook with code, markdown, SQL and data table cells.',
+    'Answer concisely. When you propose code, put it in a fenced code block tagged with its language (javascript, python, sql or markdown) so it can be inserted as a cell.',
+    'Data tables can be read from code and SQL cells by their table name.',
+].join(' ');
+
+export interface NotebookContextOptions {
+    // Cells whose source is included in full, e.g. the selection or the active cell.
+    cellIds: string[];
+    includeErrors?: boolean;
+    includeSchemas?: boolean;
+}
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max)}\n… (truncated)` : text;
+
+export const cellSource = (cell: EnhancedCell): { language: string; source: string } => {
+    switch (cell.type) {
+        case ExpandedCellType.Code: return { language: cell.content?.language || cell.language || 'javascript', source: cell.content?.code || '' };
+        case ExpandedCellType.Markdown: return { language: 'markdown', source: typeof cell.content === 'string' ? cell.content : '' };
+        case ExpandedCellType.SQL: return { language: 'sql', source: cell.content?.query || '' };
+        default: return { language: cell.type, source: typeof cell.content === 'string' ? cell.content : JSON.stringify(cell.content ?? null).slice(0, 500) };
+    }
+};
+
+const errorSummary = (cell: EnhancedCell) =>
+    (cell.outputs || []).filter(o => o.type === 'error').map(o => `${o.name || 'Error'}: ${o.message || ''}`.trim());
+
+export const buildNotebookContext = (cells: EnhancedCell[], options: NotebookContextOptions): string => {
+    const sections: string[] = [];
+    const position = (cell: EnhancedCell) => cells.indexOf(cell) + 1;
+
+    const focused = cells.filter(c => options.cellIds.includes(c.id) && c.type !== ExpandedCellType.AIChat);
+    if (focused.length > 0) {
+        sections.push('## Selected cells', ...focused.map(cell => {
+            const { language, source } = cellSource(cell);
+            return `### Cell ${position(cell)} (${cell.type})\n\`\`\`${language}\n${truncate(source, MAX_CELL_CHARS)}\n\`\`\``;
+        }));
+    }
+
+    if (options.includeErrors !== false) {
+        const failing = cells.filter(c => c.status === 'error' || errorSummary(c).length > 0);
+        if (failing.length > 0) {
+            sections.push('## Errors', ...failing.map(cell => {
+                const { language, source } = cellSource(cell);
+                const errors = errorSummary(cell).join('\n') || 'Failed without an error message';
+                return `### Cell ${position(cell)}\n\`\`\`${language}\n${truncate(source, MAX_CELL_CHARS / 2)}\n\`\`\`\n${errors}`;
+            }));
+        }
+    }
+
+    if (options.includeSchemas !== false) {
+        const tables = notebookTables(cells);
+        if (tables.length > 0) {
+            sections.push('## Tables', ...tables.map(({ name, table }) => {
+                const columns = table.columns.map((c, i) => `${c} (${inferColumnType(columnValues(table, i))})`).join(', ');
+                return `- ${name}: ${table.data.length} rows; columns ${columns}`;
+            }));
+        }
+    }
+
+    return truncate(sections.join('\n\n'), MAX_CONTEXT_CHARS);
+};
+
+export const systemMessage = (context?: string): ChatMessage => ({
+    role: 'system',
+    content: context ? `${BASE_INSTRUCTIONS}\n\n# Notebook context\n\n${context}` : BASE_INSTRUCTIONS,
+});
+
+export interface CodeBlock {
+    language: string;
+    code: string;
+}
+
+// Fenced code blocks in a reply, in order. An unterminated block (still streaming) is ignored.
+export const extractCodeBlocks = (text: string): CodeBlock[] => {
+    const blocks: CodeBlock[] = [];
+    const pattern = /```([\w+-]*)[^\n]*\n([\s\S]*?)```/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) blocks.push({ language: match[1].toLowerCase(), code: match[2].replace(/\n$/, '') });
+    return blocks;
+};
+
+// The cell a code block becomes when inserted into the notebook.
+export const codeBlockToCell = (block: CodeBlock): { type: ExpandedCellType; content: any } => {
+    if (block.language === 'sql') return { type: ExpandedCellType.SQL, content: { query: block.code } };
+    if (block.language === 'markdown' || block.language === 'md') return { type: ExpandedCellType.Markdown, content: block.code };
+    const language = ['python', 'py'].includes(block.language) ? 'python' : 'javascript';
+    return { type: ExpandedCellType.Code, content: { code: block.code, language } };
+};
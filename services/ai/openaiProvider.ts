@@ -0,0 +1,87 @@
+import { abortError, AIProvider, ChatRequest } from './provider';
+
+// OpenAI Chat Completions with server-sent-event streaming. The API key stays in this
+// browser's localStorage and is never written into the notebook.
+
+const API_KEY_STORAGE_KEY = 'universal-notebook:openai-api-key';
+const DEFAULT_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+
+export const getOpenAIKey = () => {
+    try { return localStorage.getItem(API_KEY_STORAGE_KEY) || ''; } catch { return ''; }
+};
+
+export const setOpenAIKey = (key: string) => {
+    try {
+        if (key) localStorage.setItem(API_KEY_STORAGE_KEY, key);
+        else localStorage.removeItem(API_KEY_STORAGE_KEY);
+    } catch { /* storage may be disabled */ }
+};
+
+export interface OpenAIProviderOptions {
+    model: string;
+    endpoint?: string;
+    apiKey?: () => string;
+}
+
+export class OpenAIProvider implements AIProvider {
+    readonly id: string;
+    readonly name: string;
+
+    constructor(private options: OpenAIProviderOptions) {
+        this.id = `openai:${options.model}`;
+        this.name = `OpenAI ${options.model}`;
+    }
+
+    get configured() {
+        return !!(this.options.apiKey || getOpenAIKey)();
+    }
+
+    async complete(request: ChatRequest, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+        const apiKey = (this.options.apiKey || getOpenAIKey)();
+        if (!apiKey) throw new Error('No OpenAI API key set. Use "Set OpenAI API Key..." in the command palette.');
+        const response = await fetch(this.options.endpoint || DEFAULT_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+            body: JSON.stringify({
+                model: this.options.model,
+                stream: true,
+                messages: request.messages.map(({ role, content }) => ({ role, content })),
+                ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+                ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+            }),
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            let detail = response.statusText;
+            try { detail = (await response.json()).error?.message || detail; } catch { /* not JSON */ }
+            throw new Error(`OpenAI request failed (${response.status}): ${detail}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (signal?.aborted) throw abortError();
+            buffer += decoder.decode(value, { stream: true });
+            // Events are separated by blank lines; the last piece may be incomplete.
+            const events = buffer.split(/\r?\n\r?\n/);
+            buffer = events.pop() || '';
+            for (const event of events) {
+                for (const line of event.split(/\r?\n/)) {
+                    if (!line.startsWith('data:')) continue;
+                    const data = line.slice(5).trim();
+                    if (data === '[DONE]') return text;
+                    const token = JSON.parse(data).choices?.[0]?.delta?.content;
+                    if (token) {
+                        text += token;
+                        onToken(token);
+                    }
+                }
+            }
+        }
+        return text;
+    }
+}
@@ -0,0 +1,28 @@
+// Contract between the notebook and a language-model backend. A provider turns a conversation
+// into a streamed reply; everything notebook-specific (history, context) is assembled by the caller.
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+    timestamp?: string;
+}
+
+export interface ChatRequest {
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export interface AIProvider {
+    id: string;
+    name: string;
+    // Streams the reply through `onToken` and resolves with the full text. Rejects with an
+    // AbortError when `signal` fires.
+    complete(request: ChatRequest, onToken: (token: string) => void, signal?: AbortSignal): Promise<string>;
+}
+
+export const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+export const isAbortError = (e: any) => e?.name === 'AbortError';
@@ -0,0 +1,98 @@
+// Splits text containing ANSI SGR escape sequences (colours, bold, ...) into styled
+// segments. Other control sequences, such as cursor movement, are dropped.
+
+export interface AnsiStyle {
+    color?: string;
+    background?: string;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    inverse?: boolean;
+}
+
+export interface AnsiSegment {
+    text: string;
+    style: AnsiStyle;
+}
+
+// xterm default palette: normal colours 0-7, bright colours 8-15.
+const BASE_COLORS = [
+    '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+    '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+];
+
+export const ansi256Color = (index: number): string => {
+    if (index < 16) return BASE_COLORS[index];
+    if (index < 232) {
+        const n = index - 16;
+        const level = (v: number) => v === 0 ? 0 : 55 + v * 40;
+        return `rgb(${level(Math.floor(n / 36))}, ${level(Math.floor(n / 6) % 6)}, ${level(n % 6)})`;
+    }
+    const gray = 8 + (index - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+};
+
+// Applies one SGR parameter list to a style; returns the new style.
+export const applySgr = (style: AnsiStyle, params: number[]): AnsiStyle => {
+    const next = { ...style };
+    for (let i = 0; i < params.length; i++) {
+        const code = params[i];
+        if (code === 0) { Object.keys(next).forEach(k => delete (next as any)[k]); }
+        else if (code === 1) next.bold = true;
+        else if (code === 2) next.dim = true;
+        else if (code === 3) next.italic = true;
+        else if (code === 4) next.underline = true;
+        else if (code === 7) next.inverse = true;
+        else if (code === 22) { next.bold = false; next.dim = false; }
+        else if (code === 23) next.italic = false;
+        else if (code === 24) next.underline = false;
+        else if (code === 27) next.inverse = false;
+        else if (code >= 30 && code <= 37) next.color = BASE_COLORS[code - 30];
+        else if (code === 39) delete next.color;
+        else if (code >= 40 && code <= 47) next.background = BASE_COLORS[code - 40];
+        else if (code === 49) delete next.background;
+        else if (code >= 90 && code <= 97) next.color = BASE_COLORS[code - 90 + 8];
+        else if (code >= 100 && code <= 107) next.background = BASE_COLORS[code - 100 + 8];
+        else if (code === 38 || code === 48) {
+            const key = code === 38 ? 'color' : 'background';
+            if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+                next[key] = ansi256Color(params[i + 2]);
+                i += 2;
+            } else if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+                next[key] = `rgb(${params[i + 2]}, ${params[i + 3]}, ${params[i + 4]})`;
+                i += 4;
+            }
+        }
+    }
+    return next;
+};
+
+// Matches CSI sequences (ESC [ ... final byte) and OSC sequences (ESC ] ... BEL/ST).
+const ESCAPE_PATTERN = /\u001b\[([0-9;?]*)([@-~])|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+export const parseAnsi = (input: string): AnsiSegment[] => {
+    const segments: AnsiSegment[] = [];
+    let style: AnsiStyle = {};
+    let last = 0;
+    const push = (text: string) => {
+        if (!text) return;
+        const previous = segments[segments.length - 1];
+        if (previous && previous.style === style) previous.text += text;
+        else segments.push({ text, style });
+    };
+    input.replace(ESCAPE_PATTERN, (match, params: string | undefined, final: string | undefined, offset: number) => {
+        push(input.slice(last, offset));
+        last = offset + match.length;
+        if (final === 'm') {
+            style = applySgr(style, (params || '0').split(';').map(p => parseInt(p, 10) || 0));
+        }
+        return match;
+    });
+    push(input.slice(last));
+    return segments;
+};
+
+export const stripAnsi = (input: string) => input.replace(ESCAPE_PATTERN, '');
+
+export const hasAnsi = (input: string) => input.includes('\u001b');
@@ -0,0 +1,72 @@
+import { EnhancedCell } from '../components/Notebook';
+
+// Display flags and tags in `cell.metadata`. The flags decide how a cell is shown; tags mark
+// cells for notebook-wide behaviour and use the names Jupyter tools already know.
+
+export type CellFlag = 'collapsed' | 'hideCode' | 'hideOutput' | 'readOnly';
+
+// Left out when running all cells (or all above/below). nbclient's name is accepted too.
+export const SKIP_TAGS = ['skip-on-run-all', 'skip-execution'];
+// Holds a notebook's default parameter values, as in papermill.
+export const PARAMETERS_TAG = 'parameters';
+// The cell that overrides them, inserted after the parameters cell.
+export const INJECTED_PARAMETERS_TAG = 'injected-parameters';
+export const EXCLUDE_FROM_EXPORT_TAG = 'exclude-from-export';
+
+// Suggested in the tag editor.
+export const WELL_KNOWN_TAGS = [...SKIP_TAGS.slice(0, 1), PARAMETERS_TAG, EXCLUDE_FROM_EXPORT_TAG, 'remove-input', 'remove-output'];
+
+export const cellTags = (cell: EnhancedCell): string[] => cell.metadata?.tags || [];
+
+export const hasTag = (cell: EnhancedCell, tag: string | string[]) => {
+    const tags = Array.isArray(tag) ? tag : [tag];
+    return cellTags(cell).some(t => tags.includes(t));
+};
+
+// Tags are single words, as in Jupyter.
+export const normalizeTag = (text: string) => text.trim().replace(/\s+/g, '-');
+
+// Every tag in the notebook with the number of cells carrying it, most used first.
+export const tagCounts = (cells: EnhancedCell[]) => {
+    const counts = new Map<string, number>();
+    cells.forEach(cell => new Set(cellTags(cell)).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// A cell passes the filter if it has any of the tags.
+export const matchesTagFilter = (cell: EnhancedCell, filter: string[]) => filter.length === 0 || hasTag(cell, filter);
+
+// One line standing in for a collapsed cell.
+export const cellSummary = (cell: EnhancedCell) => {
+    const source = typeof cell.content === 'string' ? cell.content : cell.content?.code ?? cell.content?.query ?? cell.content?.prompt ?? '';
+    const line = String(source).split('\n').map(l => l.replace(/^#+\s*/, '').trim()).find(Boolean);
+    return line ? (line.length > 80 ? `${line.slice(0, 79)}…` : line) : `${cell.type.replace(/_/g, ' ')} cell`;
+};
+
+// --- Parameters ---
+
+export interface NotebookParameter {
+    name: string;
+    // The default, as source text.
+    value: string;
+}
+
+// Top-level `name = value` lines of a parameters cell, with `let`/`const`/`var` in JavaScript.
+// Trailing comments and semicolons are not part of the value.
+export const parseParameters = (code: string): NotebookParameter[] => {
+    const found = new Map<string, string>();
+    code.split('\n').forEach(line => {
+        const match = /^(?:(?:let|const|var)\s+)?([A-Za-z_$][\w$]*)\s*(?::\s*[^=]+)?=(?!=)\s*(.+)$/.exec(line);
+        if (!match) return;
+        const value = match[2].replace(/\s+(?:#|\/\/).*$/, '').replace(/;\s*$/, '').trim();
+        if (value) found.set(match[1], value);
+    });
+    return Array.from(found, ([name, value]) => ({ name, value }));
+};
+
+// Source of the injected cell: the overrides as assignments in the kernel's language.
+export const injectedParametersSource = (overrides: NotebookParameter[], language: string) => {
+    const python = language === 'python';
+    const header = python ? '# Parameters' : '// Parameters';
+    return [header, ...overrides.map(p => python ? `${p.name} = ${p.value}` : `${p.name} = ${p.value};`)].join('\n');
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+import { diffLines, diffStats, recordVersion } from './cellVersions';
+
+const table = (rows: number, edit = -1) => ({ columns: ['id', 'value'], data: Array.from({ length: rows }, (_, i) => ({ id: i, value: i === edit ? -1 : i * 2 })) });
+
+describe('diffLines', () => {
+    it('matches unchanged lines around the edits', () => {
+        expect(diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne')).toEqual([
+            { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+            { type: 'remove', text: 'b', oldLine: 2 },
+            { type: 'add', text: 'x', newLine: 2 },
+            { type: 'equal', text: 'c', oldLine: 3, newLine: 3 },
+            { type: 'equal', text: 'd', oldLine: 4, newLine: 4 },
+            { type: 'add', text: 'e', newLine: 5 },
+        ]);
+    });
+
+    it('finds the longest run of shared lines', () => {
+        const diff = diffLines('a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc');
+        expect(diff.filter(line => line.type === 'equal')).toHaveLength(4);
+        expect(diff.filter(line => line.type !== 'add').map(line => line.text).join('')).toBe('abcabba');
+        expect(diff.filter(line => line.type !== 'remove').map(line => line.text).join('')).toBe('cbabac');
+    });
+});
+
+describe('diffStats', () => {
+    it('counts a one-value edit in a large table', () => {
+        expect(diffStats(table(100000), table(100000, 500))).toEqual({ added: 1, removed: 1 });
+    });
+
+    it('skips changes too large to diff', () => {
+        expect(diffStats(table(3000), table(3000).data.reverse())).toBeUndefined();
+    });
+});
+
+describe('recordVersion', () => {
+    const cell = (content: any, versions?: EnhancedCell['versions']): EnhancedCell => ({ id: 'c', type: ExpandedCellType.Data, content, versions });
+
+    it('folds identical snapshots', () => {
+        const versions = recordVersion(cell(table(3)), 'Ada');
+        expect(recordVersion(cell(table(3), versions), 'Ada')).toBe(versions);
+    });
+
+    it('keeps fewer copies of large content', () => {
+        let versions: EnhancedCell['versions'] = [];
+        for (let i = 0; i < 20; i++) versions = recordVersion(cell(table(20000, i), versions), 'Ada');
+        expect(versions.length).toBeGreaterThan(0);
+        expect(versions.length).toBeLessThan(20);
+        expect(versions[versions.length - 1].content).toEqual(table(20000, 19));
+    });
+});
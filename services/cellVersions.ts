@@ -0,0 +1,144 @@
+import { CellVersion, EnhancedCell } from '../components/Notebook';
+
+// Per-cell version history. Unlike the session undo stack, versions live on the cell
+// itself and are saved with the notebook.
+
+const MAX_VERSIONS_PER_CELL = 100;
+
+export type DiffLine = { type: 'equal' | 'add' | 'remove'; text: string; oldLine?: number; newLine?: number };
+
+// Turns any cell content into comparable text: code and markdown as-is, everything else as JSON.
+export const versionText = (content: any): string => {
+    if (typeof content === 'string') return content;
+    if (content && typeof content.code === 'string') return content.code;
+    if (content && typeof content.query === 'string') return content.query;
+    return JSON.stringify(content ?? null, null, 2);
+};
+
+// Past this many differing lines (after the common start and end are set aside) a diff is no
+// longer worth computing: the panel shows the block as replaced and no stats are recorded.
+const MAX_DIFF_LINES = 2000;
+
+// Oldest versions are dropped once a cell's history holds more than this much content, so a
+// large table is not kept as a hundred full copies.
+const MAX_HISTORY_CHARS = 2_000_000;
+
+// Myers' O((N+M)D) diff of two line lists, returned as the edit script in order.
+const myersDiff = (a: string[], b: string[]): ('equal' | 'add' | 'remove')[] => {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    // trace[d] holds the furthest x reached on each diagonal k in -d..d, stored at index k + d.
+    const trace: Int32Array[] = [];
+    let v = new Int32Array(1);
+    let done = false;
+    for (let d = 0; d <= max && !done; d++) {
+        const next = new Int32Array(2 * d + 1);
+        for (let k = -d; k <= d; k += 2) {
+            const prev = (kk: number) => (kk >= -(d - 1) && kk <= d - 1 ? v[kk + d - 1] : -1);
+            let x = d === 0 ? 0 : (k === -d || (k !== d && prev(k - 1) < prev(k + 1)) ? prev(k + 1) : prev(k - 1) + 1);
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            next[k + d] = x;
+            if (x >= n && y >= m) done = true;
+        }
+        trace.push(next);
+        v = next;
+    }
+    // Walk back from the end: each step undoes one edit and the run of equal lines after it.
+    const steps: ('equal' | 'add' | 'remove')[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const prev = trace[d - 1];
+        const at = (kk: number) => (kk >= -(d - 1) && kk <= d - 1 ? prev[kk + d - 1] : -1);
+        const k = x - y;
+        const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+        const prevK = down ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        const startX = down ? prevX : prevX + 1;
+        while (x > startX) { steps.push('equal'); x--; y--; }
+        steps.push(down ? 'add' : 'remove');
+        x = prevX;
+        y = prevY;
+    }
+    while (x > 0) { steps.push('equal'); x--; y--; }
+    return steps.reverse();
+};
+
+// The lines two texts share at their start and end; only what lies between needs diffing.
+const trimCommon = (a: string[], b: string[]) => {
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) head++;
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+    return { head, tail, oldMiddle: a.slice(head, a.length - tail), newMiddle: b.slice(head, b.length - tail) };
+};
+
+// Line-level diff: the shared start and end are matched directly and Myers' algorithm handles the rest.
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+    const { head, tail, oldMiddle, newMiddle } = trimCommon(a, b);
+    const steps = oldMiddle.length + newMiddle.length > MAX_DIFF_LINES
+        ? [...oldMiddle.map(() => 'remove' as const), ...newMiddle.map(() => 'add' as const)]
+        : myersDiff(oldMiddle, newMiddle);
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < head; i++) result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+    let i = head;
+    let j = head;
+    steps.forEach(step => {
+        if (step === 'equal') { result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 }); i++; j++; }
+        else if (step === 'remove') { result.push({ type: 'remove', text: a[i], oldLine: i + 1 }); i++; }
+        else { result.push({ type: 'add', text: b[j], newLine: j + 1 }); j++; }
+    });
+    for (let t = 0; t < tail; t++, i++, j++) result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 });
+    return result;
+};
+
+// Added and removed line counts, or undefined when the change is too large to diff cheaply.
+export const diffStats = (oldContent: any, newContent: any) => {
+    const { oldMiddle, newMiddle } = trimCommon(versionText(oldContent).split('\n'), versionText(newContent).split('\n'));
+    if (oldMiddle.length + newMiddle.length > MAX_DIFF_LINES) return undefined;
+    const steps = myersDiff(oldMiddle, newMiddle);
+    return {
+        added: steps.filter(step => step === 'add').length,
+        removed: steps.filter(step => step === 'remove').length,
+    };
+};
+
+// Keeps the newest versions that fit in the history budget, and always the newest one.
+const trimHistory = (versions: CellVersion[]) => {
+    const kept = versions.slice(-MAX_VERSIONS_PER_CELL);
+    let size = 0;
+    for (let i = kept.length - 1; i >= 0; i--) {
+        size += JSON.stringify(kept[i].content ?? null).length;
+        if (size > MAX_HISTORY_CHARS && i < kept.length - 1) return kept.slice(i + 1);
+    }
+    return kept;
+};
+
+const sameSnapshot = (version: CellVersion | undefined, cell: EnhancedCell) =>
+    !!version && JSON.stringify(version.content) === JSON.stringify(cell.content) && JSON.stringify(version.metadata || {}) === JSON.stringify(cell.metadata || {});
+
+// Returns the cell's version list with a snapshot of its current state appended.
+// Identical consecutive snapshots are folded; a message is attached to the existing one.
+export const recordVersion = (cell: EnhancedCell, author: string, message?: string): CellVersion[] => {
+    const versions = cell.versions || [];
+    const latest = versions[versions.length - 1];
+    if (sameSnapshot(latest, cell)) {
+        if (!message) return versions;
+        return [...versions.slice(0, -1), { ...latest, message: latest.message ? `${latest.message}; ${message}` : message }];
+    }
+    const version: CellVersion = {
+        timestamp: new Date().toISOString(),
+        author,
+        content: cell.content,
+        metadata: cell.metadata,
+        diff: latest ? diffStats(latest.content, cell.content) : undefined,
+        message,
+    };
+    return trimHistory([...versions, version]);
+};
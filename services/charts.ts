@@ -0,0 +1,179 @@
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+
+// Chart specs, data resolution and the scale maths shared by the chart view and builder.
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'area' | 'pie' | 'histogram';
+
+export const CHART_TYPES: ChartType[] = ['bar', 'line', 'scatter', 'area', 'pie', 'histogram'];
+
+export type DataRecord = Record<string, any>;
+
+export interface ChartSpec {
+    type: ChartType;
+    title?: string;
+    // Rows embedded in the spec; used when no source cell is set.
+    data?: DataRecord[];
+    // Another cell to read rows from: a DataCell's table or a dataframe output.
+    source?: { cellId: string; outputIndex?: number };
+    x?: string;
+    y?: string[];
+    bins?: number; // histogram only
+    xLabel?: string;
+    yLabel?: string;
+    showLegend?: boolean;
+}
+
+export const CHART_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#22d3ee', '#a3e635', '#fb923c', '#e879f9'];
+
+export const defaultChartSpec = (): ChartSpec => ({
+    type: 'bar',
+    title: 'Untitled Chart',
+    data: [{ label: 'A', value: 3 }, { label: 'B', value: 7 }, { label: 'C', value: 5 }],
+    x: 'label',
+    y: ['value'],
+    showLegend: true,
+});
+
+// Accepts older or hand-written specs (e.g. `type: 'Bar'`) and fills in a default chart when none is set.
+export const normalizeChartSpec = (raw: any): ChartSpec => {
+    if (!raw || typeof raw !== 'object') return defaultChartSpec();
+    const type = String(raw.type || 'bar').toLowerCase() as ChartType;
+    return { ...raw, type: CHART_TYPES.includes(type) ? type : 'bar', y: Array.isArray(raw.y) ? raw.y : raw.y ? [raw.y] : raw.y };
+};
+
+const isRecordArray = (value: any): value is DataRecord[] =>
+    Array.isArray(value) && value.every(row => row && typeof row === 'object' && !Array.isArray(row));
+
+// Converts a column-oriented table (`{ columns, data: rows[][] }`) into records.
+export const tableToRecords = (columns: string[], rows: any[][]): DataRecord[] =>
+    rows.map(row => Object.fromEntries(columns.map((col, i) => [col, row[i]])));
+
+// Every tabular output of a cell, oldest first.
+export const tabularOutputs = (cell: EnhancedCell): DataRecord[][] =>
+    (cell.outputs || [])
+        .filter(o => (o.type === 'execute_result' || o.type === 'display_data') && isRecordArray(o.data?.['application/json']))
+        .map(o => o.data['application/json']);
+
+// The rows a cell exposes to charts and other consumers: a DataCell's table, otherwise its
+// chosen (or last) tabular output.
+export const cellToRecords = (cell: EnhancedCell, outputIndex?: number): DataRecord[] | undefined => {
+    if (cell.type === ExpandedCellType.Data && Array.isArray(cell.content?.data)) {
+        return tableToRecords(cell.content.columns || [], cell.content.data);
+    }
+    const tables = tabularOutputs(cell);
+    if (tables.length === 0) return undefined;
+    return outputIndex !== undefined && tables[outputIndex] ? tables[outputIndex] : tables[tables.length - 1];
+};
+
+export const resolveChartData = (spec: ChartSpec, cells: EnhancedCell[]): { rows: DataRecord[]; error?: string } => {
+    if (!spec.source) return { rows: isRecordArray(spec.data) ? spec.data : [] };
+    const cell = cells.find(c => c.id === spec.source!.cellId);
+    if (!cell) return { rows: [], error: 'The source cell no longer exists' };
+    const rows = cellToRecords(cell, spec.source.outputIndex);
+    if (!rows) return { rows: [], error: 'The source cell has no tabular data yet; run it first' };
+    return { rows };
+};
+
+export const columnNames = (rows: DataRecord[]) => {
+    const names = new Set<string>();
+    rows.slice(0, 200).forEach(row => Object.keys(row).forEach(k => names.add(k)));
+    return Array.from(names);
+};
+
+export const toNumber = (value: any): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const n = Number(value);
+        return Number.isFinite(n) ? n : null;
+    }
+    if (value instanceof Date) return value.getTime();
+    return null;
+};
+
+export const isNumericColumn = (rows: DataRecord[], column: string) => {
+    const values = rows.map(r => r[column]).filter(v => v !== null && v !== undefined && v !== '');
+    return values.length > 0 && values.every(v => toNumber(v) !== null);
+};
+
+// "Nice" tick values covering [min, max], in the style of d3's ticks().
+export const niceTicks = (min: number, max: number, count = 5): number[] => {
+    if (min === max) return [min];
+    const span = max - min;
+    const rawStep = span / Math.max(1, count);
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+    const residual = rawStep / magnitude;
+    const step = (residual >= 5 ? 10 : residual >= 2 ? 5 : residual >= 1 ? 2 : 1) * magnitude;
+    const ticks: number[] = [];
+    for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) ticks.push(Number(v.toPrecision(12)));
+    return ticks;
+};
+
+export const linearScale = (domain: [number, number], range: [number, number]) => {
+    const [d0, d1] = domain;
+    const [r0, r1] = range;
+    const k = d1 === d0 ? 0 : (r1 - r0) / (d1 - d0);
+    return (value: number) => d1 === d0 ? (r0 + r1) / 2 : r0 + (value - d0) * k;
+};
+
+export const formatTick = (value: number) => {
+    const abs = Math.abs(value);
+    if (abs >= 1e9) return `${+(value / 1e9).toFixed(2)}B`;
+    if (abs >= 1e6) return `${+(value / 1e6).toFixed(2)}M`;
+    if (abs >= 1e4) return `${+(value / 1e3).toFixed(1)}k`;
+    return `${+value.toFixed(4)}`;
+};
+
+// Min and max without spreading, which overflows the call stack on large datasets.
+export const extent = (values: number[]): [number, number] => {
+    let min = Infinity;
+    let max = -Infinity;
+    values.forEach(v => { if (v < min) min = v; if (v > max) max = v; });
+    return [min, max];
+};
+
+export interface HistogramBin { x0: number; x1: number; count: number }
+
+export const histogram = (values: number[], binCount = 10): HistogramBin[] => {
+    if (values.length === 0) return [];
+    const [min, max] = extent(values);
+    const count = Math.max(1, Math.round(binCount));
+    const width = (max - min) / count || 1;
+    const bins: HistogramBin[] = Array.from({ length: count }, (_, i) => ({ x0: min + i * width, x1: min + (i + 1) * width, count: 0 }));
+    values.forEach(v => {
+        const index = Math.min(count - 1, Math.floor((v - min) / width));
+        bins[index].count++;
+    });
+    return bins;
+};
+
+// Picks sensible x/y columns for rows whose spec does not name them yet.
+export const inferAxes = (rows: DataRecord[]): { x?: string; y: string[] } => {
+    const columns = columnNames(rows);
+    const numeric = columns.filter(c => isNumericColumn(rows, c));
+    const categorical = columns.filter(c => !numeric.includes(c));
+    const x = categorical[0] ?? numeric[0];
+    return { x, y: numeric.filter(c => c !== x).slice(0, 3) };
+};
+
+// Parses rows typed into the chart builder: a JSON array of objects, or CSV with a header row.
+export const parseInlineData = (text: string): DataRecord[] => {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+    if (trimmed.startsWith('[')) {
+        const parsed = JSON.parse(trimmed);
+        if (!isRecordArray(parsed)) throw new Error('Expected a JSON array of objects');
+        return parsed;
+    }
+    const [header, ...lines] = trimmed.split(/\r?\n/);
+    const columns = header.split(',').map(c => c.trim());
+    return lines.filter(l => l.trim()).map(line => {
+        const cells = line.split(',').map(c => c.trim());
+        return Object.fromEntries(columns.map((col, i) => [col, toNumber(cells[i]) ?? cells[i] ?? null]));
+    });
+};
+
+export const formatInlineData = (rows: DataRecord[]) => {
+    const columns = columnNames(rows);
+    if (columns.length === 0) return '';
+    return [columns.join(','), ...rows.map(row => columns.map(c => row[c] ?? '').join(','))].join('\n');
+};
@@ -0,0 +1,263 @@
+// A small operation-based CRDT in the spirit of Yjs: replicated sequences (RGA ordering with
+// Lamport timestamps) for text and lists, and last-writer-wins registers for everything else.
+// Every change is an operation; replicas that have applied the same operations hold the same
+// state regardless of the order they arrived in.
+
+export interface OpBase {
+    client: string;
+    // Per-client counter, used for delivery (state vectors) and deduplication.
+    seq: number;
+    // Lamport timestamp, used for ordering concurrent changes.
+    lamport: number;
+}
+
+// Inserts `values` as consecutive items after `origin` (null = at the start). The items get the
+// timestamps lamport, lamport + 1, ...
+export interface InsertOp extends OpBase {
+    type: 'insert';
+    target: string;
+    origin: string | null;
+    values: string[];
+}
+
+export interface DeleteOp extends OpBase {
+    type: 'delete';
+    target: string;
+    items: string[];
+}
+
+export interface SetOp extends OpBase {
+    type: 'set';
+    register: string;
+    value: any;
+}
+
+export type CrdtOp = InsertOp | DeleteOp | SetOp;
+
+// Highest `seq` applied per client.
+export type StateVector = Record<string, number>;
+
+const itemId = (lamport: number, client: string) => `${lamport}@${client}`;
+
+// Total order on timestamps; the client id breaks ties.
+const newer = (a: { lamport: number; client: string }, b: { lamport: number; client: string }) =>
+    a.lamport !== b.lamport ? a.lamport > b.lamport : a.client > b.client;
+
+interface Item {
+    id: string;
+    lamport: number;
+    client: string;
+    value: string;
+    deleted: boolean;
+}
+
+// Replicated Growable Array. Deleted items stay as tombstones so positions that refer to them
+// (remote cursors, later inserts) remain resolvable.
+export class Sequence {
+    private items: Item[] = [];
+    private byId = new Map<string, Item>();
+
+    has(id: string) {
+        return this.byId.has(id);
+    }
+
+    integrate(op: InsertOp) {
+        let index = op.origin === null ? 0 : this.items.indexOf(this.byId.get(op.origin)!) + 1;
+        op.values.forEach((value, i) => {
+            const item: Item = { id: itemId(op.lamport + i, op.client), lamport: op.lamport + i, client: op.client, value, deleted: false };
+            if (this.byId.has(item.id)) return;
+            // Items inserted concurrently at the same place are ordered newest first; skipping a
+            // newer item also skips everything inserted after it, since those are newer still.
+            while (index < this.items.length && newer(this.items[index], item)) index++;
+            this.items.splice(index, 0, item);
+            this.byId.set(item.id, item);
+            index++;
+        });
+    }
+
+    remove(ids: string[]) {
+        ids.forEach(id => {
+            const item = this.byId.get(id);
+            if (item) item.deleted = true;
+        });
+    }
+
+    values() {
+        return this.items.filter(item => !item.deleted).map(item => item.value);
+    }
+
+    visibleIds() {
+        return this.items.filter(item => !item.deleted).map(item => item.id);
+    }
+
+    toString() {
+        return this.values().join('');
+    }
+
+    // Id of the visible item just before `index` (null = the start). Survives concurrent edits.
+    relativePosition(index: number): string | null {
+        if (index <= 0) return null;
+        const ids = this.visibleIds();
+        return ids[Math.min(index, ids.length) - 1] ?? null;
+    }
+
+    absolutePosition(position: string | null): number {
+        if (position === null) return 0;
+        let count = 0;
+        for (const item of this.items) {
+            if (!item.deleted) count++;
+            if (item.id === position) return count;
+        }
+        return count;
+    }
+}
+
+interface RegisterValue {
+    value: any;
+    lamport: number;
+    client: string;
+}
+
+// A document made of named sequences and registers. Local changes return the operations to send;
+// remote operations are buffered until everything they depend on has arrived.
+export class CrdtDoc {
+    readonly clientId: string;
+    private lamport = 0;
+    private seq = 0;
+    private sequences = new Map<string, Sequence>();
+    private registers = new Map<string, RegisterValue>();
+    private log: CrdtOp[] = [];
+    private vector: StateVector = {};
+    private pending: CrdtOp[] = [];
+
+    constructor(clientId: string) {
+        this.clientId = clientId;
+    }
+
+    sequence(name: string) {
+        let sequence = this.sequences.get(name);
+        if (!sequence) {
+            sequence = new Sequence();
+            this.sequences.set(name, sequence);
+        }
+        return sequence;
+    }
+
+    hasSequence(name: string) {
+        return this.sequences.has(name);
+    }
+
+    get(register: string) {
+        return this.registers.get(register)?.value;
+    }
+
+    hasRegister(register: string) {
+        return this.registers.has(register);
+    }
+
+    registerNames() {
+        return Array.from(this.registers.keys());
+    }
+
+    stateVector(): StateVector {
+        return { ...this.vector };
+    }
+
+    get isEmpty() {
+        return this.log.length === 0;
+    }
+
+    // Operations the holder of `vector` has not seen yet.
+    missingFor(vector: StateVector) {
+        return this.log.filter(op => op.seq > (vector[op.client] || 0));
+    }
+
+    // --- Local changes ---
+
+    private next() {
+        return { client: this.clientId, seq: ++this.seq, lamport: ++this.lamport };
+    }
+
+    insert(target: string, index: number, values: string[]): InsertOp | null {
+        if (values.length === 0) return null;
+        const op: InsertOp = { ...this.next(), type: 'insert', target, origin: this.sequence(target).relativePosition(index), values };
+        this.apply(op);
+        return op;
+    }
+
+    delete(target: string, index: number, count: number): DeleteOp | null {
+        const items = this.sequence(target).visibleIds().slice(index, index + count);
+        if (items.length === 0) return null;
+        const op: DeleteOp = { ...this.next(), type: 'delete', target, items };
+        this.apply(op);
+        return op;
+    }
+
+    deleteItems(target: string, items: string[]): DeleteOp | null {
+        if (items.length === 0) return null;
+        const op: DeleteOp = { ...this.next(), type: 'delete', target, items };
+        this.apply(op);
+        return op;
+    }
+
+    set(register: string, value: any): SetOp {
+        const op: SetOp = { ...this.next(), type: 'set', register, value };
+        this.apply(op);
+        return op;
+    }
+
+    // Replaces the text of a sequence with the smallest edit (common prefix and suffix kept).
+    // Items are UTF-16 code units so indexes match textarea selections.
+    setText(target: string, text: string): CrdtOp[] {
+        const current = this.sequence(target).toString().split('');
+        const next = text.split('');
+        let prefix = 0;
+        while (prefix < current.length && prefix < next.length && current[prefix] === next[prefix]) prefix++;
+        let suffix = 0;
+        while (suffix < current.length - prefix && suffix < next.length - prefix && current[current.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+        const removed = this.delete(target, prefix, current.length - prefix - suffix);
+        const inserted = this.insert(target, prefix, next.slice(prefix, next.length - suffix));
+        return [removed, inserted].filter((op): op is InsertOp | DeleteOp => op !== null);
+    }
+
+    // --- Remote changes ---
+
+    // Applies what can be applied and returns the sequences and registers that changed.
+    applyRemote(ops: CrdtOp[]): Set<string> {
+        const changed = new Set<string>();
+        this.pending.push(...ops);
+        let progress = true;
+        while (progress) {
+            progress = false;
+            this.pending = this.pending.filter(op => {
+                const seen = this.vector[op.client] || 0;
+                if (op.seq <= seen) return false;
+                if (op.seq !== seen + 1 || !this.ready(op)) return true;
+                this.apply(op);
+                changed.add(op.type === 'set' ? op.register : op.target);
+                progress = true;
+                return false;
+            });
+        }
+        return changed;
+    }
+
+    private ready(op: CrdtOp) {
+        if (op.type === 'insert') return op.origin === null || this.sequence(op.target).has(op.origin);
+        if (op.type === 'delete') return op.items.every(id => this.sequence(op.target).has(id));
+        return true;
+    }
+
+    private apply(op: CrdtOp) {
+        const last = op.type === 'insert' ? op.lamport + op.values.length - 1 : op.lamport;
+        this.lamport = Math.max(this.lamport, last);
+        this.vector[op.client] = op.seq;
+        this.log.push(op);
+        if (op.type === 'insert') this.sequence(op.target).integrate(op);
+        else if (op.type === 'delete') this.sequence(op.target).remove(op.items);
+        else {
+            const current = this.registers.get(op.register);
+            if (!current || newer(op, current)) this.registers.set(op.register, { value: op.value, lamport: op.lamport, client: op.client });
+        }
+    }
+}
@@ -0,0 +1,145 @@
+import { EnhancedCell, ExpandedCellType } from '../../components/Notebook';
+import { CrdtDoc, CrdtOp } from './crdt';
+
+// Maps notebook cells onto a CrdtDoc:
+//   'cells'                  sequence of cell ids (the notebook order)
+//   'text:<cellId>'          sequence of characters for the source of code, Markdown and SQL cells
+//   'cell:<cellId>:<field>'  last-writer-wins register for every other shared field
+// Execution state (status, timings, version history) stays local to each collaborator.
+
+const ORDER = 'cells';
+const SHARED_FIELDS = ['type', 'content', 'metadata', 'outputs', 'executionCount', 'comments', 'attachments'] as const;
+type SharedField = typeof SHARED_FIELDS[number];
+
+const textKey = (cellId: string) => `text:${cellId}`;
+const registerKey = (cellId: string, field: SharedField) => `cell:${cellId}:${field}`;
+const cellIdOf = (key: string) => key.startsWith('text:') ? key.slice(5) : key.startsWith('cell:') ? key.slice(5, key.lastIndexOf(':')) : null;
+
+// The part of a cell's content that is edited as text, or null for cells without one.
+export const cellText = (cell: Pick<EnhancedCell, 'type' | 'content'>): string | null => {
+    switch (cell.type) {
+        case ExpandedCellType.Code: return cell.content?.code ?? '';
+        case ExpandedCellType.SQL: return cell.content?.query ?? '';
+        case ExpandedCellType.Markdown: return typeof cell.content === 'string' ? cell.content : '';
+        default: return null;
+    }
+};
+
+const contentWithoutText = (cell: EnhancedCell) => {
+    switch (cell.type) {
+        case ExpandedCellType.Code: { const { code, ...rest } = cell.content || {}; return rest; }
+        case ExpandedCellType.SQL: { const { query, ...rest } = cell.content || {}; return rest; }
+        case ExpandedCellType.Markdown: return null;
+        default: return cell.content ?? null;
+    }
+};
+
+const composeContent = (type: ExpandedCellType, rest: any, text: string) => {
+    switch (type) {
+        case ExpandedCellType.Code: return { ...rest, code: text };
+        case ExpandedCellType.SQL: return { ...rest, query: text };
+        case ExpandedCellType.Markdown: return text;
+        default: return rest;
+    }
+};
+
+const fieldValue = (cell: EnhancedCell, field: SharedField) => field === 'content' ? contentWithoutText(cell) : cell[field] ?? null;
+
+// Longest common subsequence of two id lists; the ids in it keep their items, the rest move.
+const commonOrder = (a: string[], b: string[]) => {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const common = new Set<string>();
+    for (let i = 0, j = 0; i < a.length && j < b.length;) {
+        if (a[i] === b[j]) { common.add(a[i]); i++; j++; }
+        else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+        else j++;
+    }
+    return common;
+};
+
+export class NotebookBinding {
+    // Cells and field values known to match the document, so unchanged cells are skipped.
+    private synced = new WeakSet<EnhancedCell>();
+    private known = new Map<string, any>();
+
+    constructor(readonly doc: CrdtDoc) {}
+
+    order() {
+        return Array.from(new Set(this.doc.sequence(ORDER).values()));
+    }
+
+    text(cellId: string) {
+        return this.doc.sequence(textKey(cellId));
+    }
+
+    // Records local changes to `cells` in the document and returns the operations to broadcast.
+    pushLocal(cells: EnhancedCell[]): CrdtOp[] {
+        const ops: CrdtOp[] = [];
+        const add = (op: CrdtOp | null) => { if (op) ops.push(op); };
+
+        // Order: keep the longest run that is already in place, move or add the rest. Duplicate
+        // entries left by concurrent moves of the same cell are removed here too.
+        const sequence = this.doc.sequence(ORDER);
+        const ids = cells.map(c => c.id);
+        const common = commonOrder(this.order(), ids);
+        const seen = new Set<string>();
+        const stale = sequence.visibleIds().filter((_, i) => {
+            const id = sequence.values()[i];
+            const keep = common.has(id) && !seen.has(id);
+            seen.add(id);
+            return !keep;
+        });
+        add(this.doc.deleteItems(ORDER, stale));
+        ids.forEach((id, i) => {
+            if (common.has(id)) return;
+            const values = sequence.values();
+            const index = i === 0 ? 0 : values.indexOf(ids[i - 1]) + 1;
+            add(this.doc.insert(ORDER, index, [id]));
+        });
+
+        cells.forEach(cell => {
+            if (this.synced.has(cell)) return;
+            const text = cellText(cell);
+            if (text !== null) ops.push(...this.doc.setText(textKey(cell.id), text));
+            SHARED_FIELDS.forEach(field => {
+                const key = registerKey(cell.id, field);
+                const value = fieldValue(cell, field);
+                if (this.known.get(key) === value) return;
+                this.known.set(key, value);
+                if (JSON.stringify(this.doc.get(key) ?? null) !== JSON.stringify(value)) ops.push(this.doc.set(key, value));
+            });
+            this.synced.add(cell);
+        });
+        return ops;
+    }
+
+    // Cells as the document has them after remote changes to `changed` keys. Cells that did not
+    // change keep their identity, and local-only fields are carried over.
+    readCells(local: EnhancedCell[], changed: Set<string>): EnhancedCell[] {
+        const changedIds = new Set(Array.from(changed).map(cellIdOf).filter((id): id is string => id !== null));
+        const byId = new Map(local.map(c => [c.id, c]));
+        return this.order().map(id => {
+            const existing = byId.get(id);
+            if (existing && !changedIds.has(id)) return existing;
+            const cell: EnhancedCell = { ...(existing || { id, type: ExpandedCellType.Code, content: {}, status: 'idle', metadata: {}, outputs: [], comments: [] }) };
+            SHARED_FIELDS.forEach(field => {
+                const key = registerKey(id, field);
+                if (!this.doc.hasRegister(key)) return;
+                const value = this.doc.get(key);
+                this.known.set(key, value);
+                if (field !== 'content') (cell as any)[field] = value;
+            });
+            const rest = this.doc.hasRegister(registerKey(id, 'content')) ? this.doc.get(registerKey(id, 'content')) : contentWithoutText(cell);
+            cell.content = composeContent(cell.type, rest, this.doc.hasSequence(textKey(id)) ? this.text(id).toString() : cellText(cell) ?? '');
+            // Content without its text is re-derived on the next push, so compare it by value then.
+            this.known.delete(registerKey(id, 'content'));
+            this.synced.add(cell);
+            return cell;
+        });
+    }
+}
@@ -0,0 +1,61 @@
+import { CrdtOp, StateVector } from './crdt';
+
+// Messages exchanged between collaborators in a room. Transports deliver them to every other
+// peer; a message with `to` is meant for one peer and ignored by the rest.
+
+export interface CollabUser {
+    id: string;
+    name: string;
+    color: string;
+}
+
+// A cursor or selection inside a cell's text, as CRDT positions so it survives concurrent edits.
+export interface RelativeSelection {
+    anchor: string | null;
+    head: string | null;
+}
+
+export interface PresenceState {
+    user: CollabUser;
+    cellId: string | null;
+    selection?: RelativeSelection;
+    status: 'online' | 'typing' | 'away';
+}
+
+// Announces what the sender has; peers reply with the operations it is missing.
+export interface SyncMessage {
+    type: 'sync';
+    from: string;
+    to?: string;
+    stateVector: StateVector;
+    reply?: boolean;
+}
+
+export interface UpdateMessage {
+    type: 'update';
+    from: string;
+    to?: string;
+    ops: CrdtOp[];
+}
+
+export interface AwarenessMessage {
+    type: 'awareness';
+    from: string;
+    state: PresenceState;
+}
+
+export interface LeaveMessage {
+    type: 'leave';
+    from: string;
+}
+
+export type CollabMessage = SyncMessage | UpdateMessage | AwarenessMessage | LeaveMessage;
+
+export type TransportStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabTransport {
+    readonly name: string;
+    connect(onMessage: (message: CollabMessage) => void, onStatus: (status: TransportStatus) => void): void;
+    send(message: CollabMessage): void;
+    close(): void;
+}
@@ -0,0 +1,261 @@
+import { EnhancedCell, NotebookMetadata } from '../../components/Notebook';
+import { CrdtDoc, CrdtOp } from './crdt';
+import { NotebookBinding } from './notebookBinding';
+import { CollabMessage, CollabTransport, CollabUser, PresenceState, RelativeSelection, TransportStatus } from './protocol';
+import { TransportKind } from './transports';
+
+export type CollabStatus = 'off' | TransportStatus;
+
+// A collaborator as the UI shows them: selections are resolved to offsets in the current text.
+export interface PeerPresence {
+    user: CollabUser;
+    cellId: string | null;
+    selection?: { start: number; end: number };
+    status: PresenceState['status'];
+}
+
+// The notebook a session is bound to. Remote changes are handed over as whole cell lists; the
+// notebook applies them without recording undo history, so undo only reverts your own edits.
+export interface CollabHost {
+    getCells: () => EnhancedCell[];
+    // `adopted` is set when a joining session replaces the local notebook with the room's.
+    applyRemoteCells: (cells: EnhancedCell[], adopted: boolean) => void;
+    getNotebookFields: () => SharedNotebookFields;
+    applyRemoteNotebookFields: (fields: Partial<SharedNotebookFields>) => void;
+    onStatus: (status: CollabStatus) => void;
+    onPeers: (peers: PeerPresence[]) => void;
+    onPeerJoined: (user: CollabUser) => void;
+    onPeerLeft: (user: CollabUser) => void;
+}
+
+// Notebook-level metadata shared with collaborators; the rest (kernels, settings...) stays local.
+export const SHARED_NOTEBOOK_FIELDS = ['title', 'author', 'visibility', 'sharedWith'] as const;
+export type SharedNotebookFields = Pick<NotebookMetadata, typeof SHARED_NOTEBOOK_FIELDS[number]>;
+
+// 'host' shares the local notebook; 'join' replaces it with the one already in the room.
+export type CollabMode = 'host' | 'join';
+
+const notebookKey = (field: string) => `notebook:${field}`;
+const AWARENESS_THROTTLE_MS = 100;
+const HEARTBEAT_MS = 10000;
+const PEER_TIMEOUT_MS = 30000;
+const TYPING_MS = 2000;
+
+const USER_KEY = 'universal-notebook:collab-user';
+const COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#2dd4bf', '#60a5fa', '#a78bfa', '#f472b6'];
+
+// Name and colour are remembered across sessions; the id is per session so two tabs of the same
+// browser are distinct collaborators.
+export const loadCollabUser = (): Omit<CollabUser, 'id'> => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(USER_KEY) || 'null');
+        if (saved?.name && saved?.color) return { name: saved.name, color: saved.color };
+    } catch {
+        // Fall through to a fresh identity.
+    }
+    return { name: `Guest ${Math.floor(Math.random() * 900) + 100}`, color: COLORS[Math.floor(Math.random() * COLORS.length)] };
+};
+
+export const saveCollabUser = (user: Omit<CollabUser, 'id'>) => {
+    localStorage.setItem(USER_KEY, JSON.stringify({ name: user.name, color: user.color }));
+};
+
+export class CollabSession {
+    readonly doc: CrdtDoc;
+    private binding: NotebookBinding;
+    private peers = new Map<string, { state: PresenceState; lastSeen: number }>();
+    private presence: PresenceState;
+    // A joining session waits for the room's notebook before it publishes anything.
+    private adopted: boolean;
+    private awarenessTimer: ReturnType<typeof setTimeout> | null = null;
+    private typingTimer: ReturnType<typeof setTimeout> | null = null;
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private stopped = false;
+
+    constructor(private transport: CollabTransport, readonly user: CollabUser, readonly mode: CollabMode, private host: CollabHost) {
+        this.doc = new CrdtDoc(user.id);
+        this.binding = new NotebookBinding(this.doc);
+        this.adopted = mode === 'host';
+        this.presence = { user, cellId: null, status: 'online' };
+    }
+
+    start() {
+        this.host.onStatus('connecting');
+        if (this.mode === 'host') this.pushLocal();
+        this.transport.connect(message => this.receive(message), status => {
+            if (this.stopped) return;
+            this.host.onStatus(status);
+            // Every (re)connection starts with a handshake, so peers catch up on what they missed.
+            if (status === 'connected') {
+                this.send({ type: 'sync', from: this.user.id, stateVector: this.doc.stateVector() });
+                this.sendAwareness();
+            }
+        });
+        this.heartbeat = setInterval(() => {
+            this.sendAwareness();
+            this.prunePeers();
+        }, HEARTBEAT_MS);
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+    }
+
+    stop() {
+        if (this.stopped) return;
+        this.send({ type: 'leave', from: this.user.id });
+        this.stopped = true;
+        [this.awarenessTimer, this.typingTimer].forEach(timer => { if (timer) clearTimeout(timer); });
+        if (this.heartbeat) clearInterval(this.heartbeat);
+        document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        this.transport.close();
+        this.peers.clear();
+        this.host.onPeers([]);
+        this.host.onStatus('off');
+    }
+
+    get waitingForNotebook() {
+        return !this.adopted;
+    }
+
+    // Publishes local changes; called whenever the notebook's cells or title change.
+    pushLocal() {
+        if (!this.adopted || this.stopped) return;
+        const ops: CrdtOp[] = this.binding.pushLocal(this.host.getCells());
+        const fields = this.host.getNotebookFields();
+        SHARED_NOTEBOOK_FIELDS.forEach(field => {
+            if (JSON.stringify(this.doc.get(notebookKey(field)) ?? null) !== JSON.stringify(fields[field] ?? null)) ops.push(this.doc.set(notebookKey(field), fields[field]));
+        });
+        if (ops.length === 0) return;
+        this.send({ type: 'update', from: this.user.id, ops });
+        this.setTyping();
+    }
+
+    // Where the local user is: the active cell and, if editing its text, the selection in it.
+    setSelection(cellId: string | null, selection: { start: number; end: number } | null) {
+        // Offsets refer to the local text, so the document has to include the latest edit first.
+        this.pushLocal();
+        const relative: RelativeSelection | undefined = cellId && selection ? {
+            anchor: this.binding.text(cellId).relativePosition(selection.start),
+            head: this.binding.text(cellId).relativePosition(selection.end),
+        } : undefined;
+        if (this.presence.cellId === cellId && JSON.stringify(this.presence.selection) === JSON.stringify(relative)) return;
+        this.presence = { ...this.presence, cellId, selection: relative };
+        this.scheduleAwareness();
+    }
+
+    private receive(message: CollabMessage) {
+        if (this.stopped || message.from === this.user.id) return;
+        if ('to' in message && message.to && message.to !== this.user.id) return;
+        switch (message.type) {
+            case 'sync': {
+                const missing = this.doc.missingFor(message.stateVector);
+                if (missing.length > 0) this.send({ type: 'update', from: this.user.id, to: message.from, ops: missing });
+                if (!message.reply) this.send({ type: 'sync', from: this.user.id, to: message.from, stateVector: this.doc.stateVector(), reply: true });
+                this.sendAwareness();
+                break;
+            }
+            case 'update':
+                this.applyRemote(this.doc.applyRemote(message.ops));
+                break;
+            case 'awareness': {
+                const known = this.peers.has(message.from);
+                this.peers.set(message.from, { state: message.state, lastSeen: Date.now() });
+                if (!known) this.host.onPeerJoined(message.state.user);
+                this.publishPeers();
+                break;
+            }
+            case 'leave': {
+                const peer = this.peers.get(message.from);
+                if (!peer) break;
+                this.peers.delete(message.from);
+                this.host.onPeerLeft(peer.state.user);
+                this.publishPeers();
+                break;
+            }
+        }
+    }
+
+    private applyRemote(changed: Set<string>) {
+        if (changed.size === 0) return;
+        if (!this.adopted) {
+            if (this.binding.order().length === 0) return;
+            // The room's notebook replaces the local one, which was never published.
+            this.adopted = true;
+            this.host.applyRemoteCells(this.binding.readCells([], changed), true);
+        } else {
+            this.host.applyRemoteCells(this.binding.readCells(this.host.getCells(), changed), false);
+        }
+        const fields = SHARED_NOTEBOOK_FIELDS.filter(field => changed.has(notebookKey(field)) && this.doc.get(notebookKey(field)) != null);
+        if (fields.length > 0) this.host.applyRemoteNotebookFields(Object.fromEntries(fields.map(field => [field, this.doc.get(notebookKey(field))])));
+        // Remote cursors are anchored to text that may just have moved.
+        this.publishPeers();
+    }
+
+    private setTyping() {
+        if (this.typingTimer) clearTimeout(this.typingTimer);
+        if (this.presence.status !== 'typing') {
+            this.presence = { ...this.presence, status: 'typing' };
+            this.scheduleAwareness();
+        }
+        this.typingTimer = setTimeout(() => {
+            this.presence = { ...this.presence, status: document.hidden ? 'away' : 'online' };
+            this.scheduleAwareness();
+        }, TYPING_MS);
+    }
+
+    private onVisibilityChange = () => {
+        this.presence = { ...this.presence, status: document.hidden ? 'away' : 'online' };
+        this.scheduleAwareness();
+    };
+
+    private scheduleAwareness() {
+        if (this.awarenessTimer) return;
+        this.awarenessTimer = setTimeout(() => {
+            this.awarenessTimer = null;
+            this.sendAwareness();
+        }, AWARENESS_THROTTLE_MS);
+    }
+
+    private sendAwareness() {
+        this.send({ type: 'awareness', from: this.user.id, state: this.presence });
+    }
+
+    private prunePeers() {
+        const cutoff = Date.now() - PEER_TIMEOUT_MS;
+        let removed = false;
+        this.peers.forEach((peer, id) => {
+            if (peer.lastSeen >= cutoff) return;
+            this.peers.delete(id);
+            this.host.onPeerLeft(peer.state.user);
+            removed = true;
+        });
+        if (removed) this.publishPeers();
+    }
+
+    private publishPeers() {
+        this.host.onPeers(Array.from(this.peers.values()).map(({ state }) => {
+            const text = state.cellId && state.selection ? this.binding.text(state.cellId) : null;
+            const selection = text && state.selection ? {
+                start: text.absolutePosition(state.selection.anchor),
+                end: text.absolutePosition(state.selection.head),
+            } : undefined;
+            return { user: state.user, cellId: state.cellId, status: state.status, selection };
+        }));
+    }
+
+    private send(message: CollabMessage) {
+        if (!this.stopped) this.transport.send(message);
+    }
+}
+
+export interface CollabOptions {
+    transport: TransportKind;
+    serverUrl?: string;
+    room: string;
+    mode: CollabMode;
+    user: Omit<CollabUser, 'id'>;
+}
+
+// What the notebook shows about the running session.
+export interface CollabSessionInfo extends Omit<CollabOptions, 'user' | 'serverUrl'> {
+    user: CollabUser;
+    waiting: boolean;
+}
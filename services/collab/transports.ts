@@ -0,0 +1,90 @@
+import { CollabMessage, CollabTransport, TransportStatus } from './protocol';
+
+// Peers in other tabs of this browser. Useful for trying collaboration without a server.
+export class BroadcastChannelTransport implements CollabTransport {
+    readonly name = 'Browser tabs';
+    private channel: BroadcastChannel | null = null;
+
+    constructor(private room: string) {}
+
+    connect(onMessage: (message: CollabMessage) => void, onStatus: (status: TransportStatus) => void) {
+        this.channel = new BroadcastChannel(`universal-notebook:collab:${this.room}`);
+        this.channel.onmessage = event => onMessage(event.data as CollabMessage);
+        onStatus('connected');
+    }
+
+    send(message: CollabMessage) {
+        this.channel?.postMessage(message);
+    }
+
+    close() {
+        this.channel?.close();
+        this.channel = null;
+    }
+}
+
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 5000, 10000];
+
+// Peers connected to the same room of a relay server (`npm run collab-server`). The relay only
+// forwards messages; reconnecting peers catch up through the sync handshake.
+export class WebSocketTransport implements CollabTransport {
+    readonly name: string;
+    private socket: WebSocket | null = null;
+    private queue: string[] = [];
+    private attempts = 0;
+    private closed = false;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(private url: string, private room: string) {
+        this.name = url;
+    }
+
+    connect(onMessage: (message: CollabMessage) => void, onStatus: (status: TransportStatus) => void) {
+        this.closed = false;
+        onStatus('connecting');
+        const socket = new WebSocket(`${this.url.replace(/\/+$/, '')}/rooms/${encodeURIComponent(this.room)}`);
+        this.socket = socket;
+        socket.onopen = () => {
+            this.attempts = 0;
+            this.queue.splice(0).forEach(data => socket.send(data));
+            onStatus('connected');
+        };
+        socket.onmessage = event => {
+            try {
+                onMessage(JSON.parse(String(event.data)));
+            } catch {
+                // Ignore anything that is not a protocol message.
+            }
+        };
+        socket.onclose = () => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            onStatus('disconnected');
+            if (this.closed) return;
+            const delay = RECONNECT_DELAYS_MS[Math.min(this.attempts++, RECONNECT_DELAYS_MS.length - 1)];
+            this.reconnectTimer = setTimeout(() => this.connect(onMessage, onStatus), delay);
+        };
+    }
+
+    send(message: CollabMessage) {
+        const data = JSON.stringify(message);
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(data);
+        else this.queue.push(data);
+    }
+
+    close() {
+        this.closed = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        const socket = this.socket;
+        this.socket = null;
+        this.queue = [];
+        socket?.close();
+    }
+}
+
+export type TransportKind = 'broadcast' | 'websocket';
+
+export const DEFAULT_COLLAB_SERVER_URL = 'ws://localhost:8766';
+
+export const createTransport = (kind: TransportKind, room: string, serverUrl?: string): CollabTransport =>
+    kind === 'websocket' ? new WebSocketTransport(serverUrl || DEFAULT_COLLAB_SERVER_URL, room) : new BroadcastChannelTransport(room);
@@ -0,0 +1,105 @@
+import { Command } from '../components/Notebook';
+
+// --- Command registry ---
+// Everything the palette and keybindings can invoke. Built-in features and plugins register
+// here; handlers and visibility checks receive the notebook context at the time of the call.
+
+const commands = new Map<string, Command>();
+const listeners = new Set<() => void>();
+let version = 0;
+
+const notify = () => {
+    version++;
+    listeners.forEach(listener => listener());
+};
+
+export const registerCommand = (command: Command) => {
+    commands.set(command.id, command);
+    notify();
+    return () => {
+        if (commands.get(command.id) === command) {
+            commands.delete(command.id);
+            notify();
+        }
+    };
+};
+
+export const registerCommands = (list: Command[]) => {
+    const unregister = list.map(registerCommand);
+    return () => unregister.forEach(fn => fn());
+};
+
+export const getCommand = (id: string) => commands.get(id);
+
+export const getCommands = () => Array.from(commands.values());
+
+export const subscribeCommands = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getCommandsVersion = () => version;
+
+export const isCommandVisible = (command: Command, context?: any) => {
+    try {
+        return command.visible ? command.visible(context) : true;
+    } catch {
+        return false;
+    }
+};
+
+// Runs a command if it exists and is available in `context`; returns whether it ran.
+export const executeCommand = (id: string, context?: any) => {
+    const command = commands.get(id);
+    if (!command || !isCommandVisible(command, context)) return false;
+    command.handler(context);
+    return true;
+};
+
+// --- Fuzzy matching ---
+
+export interface FuzzyMatch {
+    score: number;
+    // Indexes into the text of the matched characters, for highlighting.
+    indexes: number[];
+}
+
+const isWordStart = (text: string, i: number) => i === 0 || /[\s\-_.:/]/.test(text[i - 1]) || (/[a-z]/.test(text[i - 1]) && /[A-Z]/.test(text[i]));
+
+const matchIndexes = (query: string, text: string, preferWordStarts: boolean): number[] | null => {
+    const lower = text.toLowerCase();
+    const indexes: number[] = [];
+    let from = 0;
+    for (const ch of query) {
+        let index = lower.indexOf(ch, from);
+        if (index === -1) return null;
+        // Unless it continues the previous run, jump ahead to a word start holding the character.
+        if (preferWordStarts && (indexes.length === 0 || index !== from)) {
+            for (let i = index; i !== -1; i = lower.indexOf(ch, i + 1)) {
+                if (isWordStart(text, i)) { index = i; break; }
+            }
+        }
+        indexes.push(index);
+        from = index + 1;
+    }
+    return indexes;
+};
+
+// Subsequence match in the style of editor palettes: every query character must appear in order.
+// Consecutive runs, word starts and an early first match score higher.
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+    const q = query.replace(/\s+/g, '').toLowerCase();
+    if (!q) return { score: 0, indexes: [] };
+    // Jumping to word starts can strand later characters; fall back to a plain greedy match.
+    const indexes = matchIndexes(q, text, true) || matchIndexes(q, text, false);
+    if (!indexes) return null;
+    let score = 0;
+    indexes.forEach((index, i) => {
+        score += 1;
+        if (i > 0 && index === indexes[i - 1] + 1) score += 4;
+        if (isWordStart(text, index)) score += 3;
+    });
+    score -= indexes[0] * 0.1 + text.length * 0.01;
+    if (text.toLowerCase().startsWith(q)) score += 5;
+    return { score, indexes };
+};
@@ -0,0 +1,68 @@
+import { CellComment, CommentAnchor, EnhancedCell, generateUniqueId } from '../components/Notebook';
+
+// Review threads on cells. A thread is a top-level CellComment; its `replies` hold the
+// conversation. Threads are anchored to the whole cell or to a range of its text.
+
+export const createComment = (author: string, text: string, knownNames: string[], anchor?: CommentAnchor): CellComment => ({
+    id: generateUniqueId('comment'),
+    author,
+    timestamp: new Date().toISOString(),
+    text,
+    mentions: findMentions(text, knownNames),
+    ...(anchor ? { anchor } : {}),
+});
+
+// Names from `knownNames` written as @Name. Names may contain spaces, so the longest match wins.
+export const findMentions = (text: string, knownNames: string[]) => {
+    const names = [...knownNames].sort((a, b) => b.length - a.length);
+    const found = new Set<string>();
+    const lower = text.toLowerCase();
+    for (let i = lower.indexOf('@'); i !== -1; i = lower.indexOf('@', i + 1)) {
+        const name = names.find(n => {
+            const end = i + 1 + n.length;
+            return lower.startsWith(n.toLowerCase(), i + 1) && !/\w/.test(text.charAt(end));
+        });
+        if (name) found.add(name);
+    }
+    return Array.from(found);
+};
+
+const updateThread = (comments: CellComment[], threadId: string, fn: (thread: CellComment) => CellComment) =>
+    comments.map(c => c.id === threadId ? fn(c) : c);
+
+export const addReply = (comments: CellComment[], threadId: string, reply: CellComment) =>
+    updateThread(comments, threadId, thread => ({ ...thread, replies: [...(thread.replies || []), reply], resolved: false }));
+
+export const setThreadResolved = (comments: CellComment[], threadId: string, resolved: boolean) =>
+    updateThread(comments, threadId, thread => ({ ...thread, resolved }));
+
+// Where an anchored range is in the cell's current text: unchanged if the quoted text is still
+// there, otherwise its nearest occurrence, or null once the text is gone.
+export const resolveAnchor = (text: string, anchor: CommentAnchor): CommentAnchor | null => {
+    if (text.slice(anchor.start, anchor.end) === anchor.text) return anchor;
+    if (!anchor.text) return null;
+    let best = -1;
+    for (let i = text.indexOf(anchor.text); i !== -1; i = text.indexOf(anchor.text, i + 1)) {
+        if (best === -1 || Math.abs(i - anchor.start) < Math.abs(best - anchor.start)) best = i;
+    }
+    return best === -1 ? null : { ...anchor, start: best, end: best + anchor.text.length };
+};
+
+export interface NotebookThread {
+    cellId: string;
+    cellIndex: number;
+    thread: CellComment;
+}
+
+export const notebookThreads = (cells: EnhancedCell[]): NotebookThread[] =>
+    cells.flatMap((cell, cellIndex) => (cell.comments || []).map(thread => ({ cellId: cell.id, cellIndex, thread })));
+
+const allComments = (cells: EnhancedCell[]) =>
+    cells.flatMap(cell => (cell.comments || []).flatMap(thread => [thread, ...(thread.replies || [])]));
+
+// Comments in `after` but not in `before` that mention `name`, e.g. ones a collaborator just added.
+export const newMentions = (before: EnhancedCell[], after: EnhancedCell[], name: string) => {
+    const seen = new Set(allComments(before).map(c => c.id));
+    const target = name.toLowerCase();
+    return allComments(after).filter(c => !seen.has(c.id) && (c.mentions || []).some(m => m.toLowerCase() === target));
+};
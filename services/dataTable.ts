@@ -0,0 +1,268 @@
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+
+// Table model behind DataCell: `{ name, columns, data: rows[][] }`. Covers type inference,
+// column statistics, filtering, delimited/JSON import and export, and the name under which
+// a table is visible to code and SQL cells.
+
+export interface DataTable {
+    columns: string[];
+    data: any[][];
+}
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'string' | 'empty';
+
+export interface ColumnStats {
+    type: ColumnType;
+    count: number;
+    missing: number;
+    unique: number;
+    min?: number | string;
+    max?: number | string;
+    mean?: number;
+    std?: number;
+    top?: { value: string; count: number }[];
+}
+
+const isMissing = (value: any) => value === null || value === undefined || value === '';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Inspects up to `sample` non-missing values; a column is typed only if every sampled value fits.
+export const inferColumnType = (values: any[], sample = 1000): ColumnType => {
+    const present: any[] = [];
+    for (const v of values) {
+        if (!isMissing(v)) present.push(v);
+        if (present.length >= sample) break;
+    }
+    if (present.length === 0) return 'empty';
+    if (present.every(v => typeof v === 'number' || (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v))))) return 'number';
+    if (present.every(v => typeof v === 'boolean' || (typeof v === 'string' && /^(true|false)$/i.test(v)))) return 'boolean';
+    if (present.every(v => v instanceof Date || (typeof v === 'string' && ISO_DATE.test(v.trim())))) return 'date';
+    return 'string';
+};
+
+export const coerceValue = (value: any, type: ColumnType): any => {
+    if (isMissing(value)) return null;
+    if (type === 'number') {
+        const n = typeof value === 'number' ? value : Number(value);
+        return Number.isFinite(n) ? n : value;
+    }
+    if (type === 'boolean' && typeof value === 'string') {
+        if (/^true$/i.test(value)) return true;
+        if (/^false$/i.test(value)) return false;
+    }
+    return value;
+};
+
+// Parses free text typed into a grid cell, guided by the column's type.
+export const parseCellInput = (text: string, type: ColumnType): any => {
+    if (text === '') return null;
+    if (type === 'number' || type === 'empty') {
+        const n = Number(text);
+        if (text.trim() !== '' && Number.isFinite(n)) return n;
+    }
+    if (type === 'boolean' || type === 'empty') {
+        if (/^true$/i.test(text)) return true;
+        if (/^false$/i.test(text)) return false;
+    }
+    return text;
+};
+
+export const columnValues = (table: DataTable, index: number) => table.data.map(row => row[index]);
+
+export const computeColumnStats = (values: any[], type: ColumnType = inferColumnType(values)): ColumnStats => {
+    const present = values.filter(v => !isMissing(v));
+    const counts = new Map<string, number>();
+    present.forEach(v => {
+        const key = String(v);
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    const stats: ColumnStats = { type, count: present.length, missing: values.length - present.length, unique: counts.size };
+    if (type === 'number') {
+        let min = Infinity, max = -Infinity, sum = 0;
+        const nums = present.map(Number);
+        nums.forEach(n => { if (n < min) min = n; if (n > max) max = n; sum += n; });
+        if (nums.length > 0) {
+            const mean = sum / nums.length;
+            stats.min = min;
+            stats.max = max;
+            stats.mean = mean;
+            stats.std = Math.sqrt(nums.reduce((acc, n) => acc + (n - mean) ** 2, 0) / nums.length);
+        }
+    } else if (type === 'date') {
+        const sorted = present.map(String).sort();
+        stats.min = sorted[0];
+        stats.max = sorted[sorted.length - 1];
+    }
+    if (type === 'string' || type === 'boolean') {
+        stats.top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([value, count]) => ({ value, count }));
+    }
+    return stats;
+};
+
+export const compareValues = (a: any, b: any, type: ColumnType) => {
+    if (isMissing(a)) return isMissing(b) ? 0 : 1; // missing values sort last
+    if (isMissing(b)) return -1;
+    if (type === 'number') return Number(a) - Number(b);
+    if (type === 'boolean') return (a === true || a === 'true' ? 1 : 0) - (b === true || b === 'true' ? 1 : 0);
+    return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+// Builds a predicate from a column filter. Numeric columns accept `>5`, `<=3`, `!=0`, `=2` and
+// ranges such as `10..20`; everything else is a case-insensitive substring match.
+export const buildFilter = (query: string, type: ColumnType): ((value: any) => boolean) | null => {
+    const q = query.trim();
+    if (!q) return null;
+    if (q === '(empty)') return value => isMissing(value);
+    if (type === 'number') {
+        const range = q.match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)$/);
+        if (range) {
+            const [lo, hi] = [Number(range[1]), Number(range[2])];
+            return value => !isMissing(value) && Number(value) >= lo && Number(value) <= hi;
+        }
+        const cmp = q.match(/^(>=|<=|!=|>|<|=)\s*(-?[\d.]+(?:e[+-]?\d+)?)$/i);
+        if (cmp) {
+            const target = Number(cmp[2]);
+            const ops: Record<string, (n: number) => boolean> = {
+                '>': n => n > target, '<': n => n < target, '>=': n => n >= target, '<=': n => n <= target, '=': n => n === target, '!=': n => n !== target,
+            };
+            return value => !isMissing(value) && ops[cmp[1]](Number(value));
+        }
+    }
+    const needle = q.toLowerCase();
+    return value => !isMissing(value) && String(value).toLowerCase().includes(needle);
+};
+
+// --- Import / export ---
+
+// RFC 4180-style parser: quoted fields may contain delimiters, quotes ("") and newlines.
+export const parseDelimited = (text: string, delimiter = ','): DataTable => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"') {
+                if (source[i + 1] === '"') { field += '"'; i++; }
+                else inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    const nonEmpty = rows.filter(r => r.length > 1 || r[0] !== '');
+    const [header = [], ...body] = nonEmpty;
+    const columns = header.map((name, i) => name.trim() || `column_${i + 1}`);
+    return typeTable({ columns, data: body.map(r => columns.map((_, i) => r[i] ?? '')) });
+};
+
+// Converts string cells to numbers/booleans where the whole column agrees.
+export const typeTable = (table: DataTable): DataTable => {
+    const types = table.columns.map((_, i) => inferColumnType(columnValues(table, i)));
+    return { columns: table.columns, data: table.data.map(row => row.map((v, i) => coerceValue(v, types[i]))) };
+};
+
+const formatDelimitedField = (value: any, delimiter: string) => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.includes(delimiter) || text.includes('"') || /[\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toDelimited = (table: DataTable, delimiter = ','): string =>
+    [table.columns, ...table.data].map(row => row.map(v => formatDelimitedField(v, delimiter)).join(delimiter)).join('\n') + '\n';
+
+export const recordsToTable = (records: Record<string, any>[]): DataTable => {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    records.forEach(r => Object.keys(r).forEach(k => { if (!seen.has(k)) { seen.add(k); columns.push(k); } }));
+    return { columns, data: records.map(r => columns.map(c => r[c] ?? null)) };
+};
+
+export const tableToJson = (table: DataTable) =>
+    JSON.stringify(table.data.map(row => Object.fromEntries(table.columns.map((c, i) => [c, row[i] ?? null]))), null, 2);
+
+// Accepts an array of records, `{ columns, data }`, or an array of arrays with a header row.
+export const parseJsonTable = (text: string): DataTable => {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed) && parsed.every(r => r && typeof r === 'object' && !Array.isArray(r))) return recordsToTable(parsed);
+    if (parsed && Array.isArray(parsed.columns) && Array.isArray(parsed.data)) return { columns: parsed.columns.map(String), data: parsed.data };
+    if (Array.isArray(parsed) && parsed.every(Array.isArray) && parsed.length > 0) return { columns: parsed[0].map(String), data: parsed.slice(1) };
+    throw new Error('Unsupported JSON layout: expected an array of objects or { columns, data }');
+};
+
+export const importTableFile = async (file: File): Promise<DataTable> => {
+    const text = await file.text();
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.json')) return parseJsonTable(text);
+    if (name.endsWith('.tsv') || name.endsWith('.tab')) return parseDelimited(text, '\t');
+    // Guess for .txt and unknown extensions: whichever delimiter appears more in the header.
+    const header = text.split(/\r?\n/, 1)[0] || '';
+    return parseDelimited(text, (header.match(/\t/g) || []).length > (header.match(/,/g) || []).length ? '\t' : ',');
+};
+
+// --- Names visible to code and SQL cells ---
+
+export const toIdentifier = (text: string) => {
+    const cleaned = text.trim().replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+    return /^[A-Za-z_]/.test(cleaned) ? cleaned : `t_${cleaned || 'table'}`;
+};
+
+export const dataTableName = (cell: EnhancedCell) =>
+    cell.content?.name ? toIdentifier(cell.content.name) : `table_${cell.id.split('-').pop()}`;
+
+export const dataCellTables = (cells: EnhancedCell[]) =>
+    cells.filter(c => c.type === ExpandedCellType.Data && Array.isArray(c.content?.data))
+        .map(cell => ({ name: dataTableName(cell), cellId: cell.id, table: { columns: cell.content.columns || [], data: cell.content.data } as DataTable }));
+
+// Name under which a SQL cell's result set is visible to later cells.
+export const sqlResultName = (cell: EnhancedCell) =>
+    cell.content?.resultName ? toIdentifier(cell.content.resultName) : `query_${cell.id.split('-').pop()}`;
+
+const sqlResultTable = (cell: EnhancedCell): DataTable | undefined => {
+    const output = (cell.outputs || []).slice().reverse().find(o => o.type === 'execute_result' && o.metadata?.type === 'dataframe');
+    if (!output) return undefined;
+    const records = output.data?.['application/json'];
+    if (!Array.isArray(records)) return undefined;
+    // Column order is kept in the metadata so empty results still have a schema.
+    const columns: string[] | undefined = output.metadata.columns;
+    return columns ? { columns, data: records.map(r => columns.map(c => r[c] ?? null)) } : recordsToTable(records);
+};
+
+// Every named table in the notebook: DataCell tables plus the latest result of each SQL cell.
+export const notebookTables = (cells: EnhancedCell[]) => {
+    const results = cells.filter(c => c.type === ExpandedCellType.SQL)
+        .map(cell => ({ name: sqlResultName(cell), cellId: cell.id, table: sqlResultTable(cell) }))
+        .filter((t): t is { name: string; cellId: string; table: DataTable } => !!t.table);
+    return [...dataCellTables(cells), ...results];
+};
+
+// Source that defines the given tables as arrays of records in a kernel's namespace before a cell runs.
+export const tableBindingSource = (language: string, tables: { name: string; table: DataTable }[]): string => {
+    const lines = tables.map(({ name, table }) => {
+        const json = JSON.stringify(JSON.stringify(table.data.map(row => Object.fromEntries(table.columns.map((c, i) => [c, row[i] ?? null])))));
+        if (language === 'python') return `${name} = __import__('json').loads(${json})`;
+        return `var ${name} = JSON.parse(${json});`;
+    });
+    // One line, so line numbers in tracebacks shift by exactly one.
+    return lines.join(language === 'python' ? '; ' : ' ');
+};
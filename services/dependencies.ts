@@ -0,0 +1,237 @@
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+import { JsToken, tokenizeJs } from './jsSource';
+import { dataTableName, sqlResultName } from './dataTable';
+import { sqlParameterNames, sqlTableReferences } from './sqlEngine';
+
+// Static analysis of which top-level names each cell defines and which it reads,
+// used to order execution and to find cells made stale by an upstream change.
+
+export interface CellSymbols {
+    defines: string[];
+    reads: string[];
+}
+
+const JS_KEYWORDS = new Set([
+    'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'export',
+    'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'return',
+    'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield', 'async',
+]);
+
+// Names every JavaScript cell can use without another cell defining them.
+const JS_GLOBALS = new Set([
+    'console', 'Math', 'JSON', 'Date', 'Object', 'Array', 'String', 'Number', 'Boolean', 'Promise', 'Map', 'Set', 'WeakMap', 'WeakSet',
+    'Symbol', 'Error', 'TypeError', 'RangeError', 'RegExp', 'Infinity', 'NaN', 'parseInt', 'parseFloat', 'isNaN', 'isFinite',
+    'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'fetch', 'globalThis', 'self', 'display', 'BigInt', 'Intl', 'Reflect', 'Proxy',
+]);
+
+// Collects binding identifiers from a declaration target: `a`, `{ a, b: c }`, `[a, ...rest]`.
+// Returns the token indexes of the bindings.
+const collectBindings = (tokens: JsToken[], start: number): number[] => {
+    const first = tokens[start];
+    if (!first) return [];
+    if (first.type === 'ident') return [start];
+    if (first.value !== '{' && first.value !== '[') return [];
+    const result: number[] = [];
+    const depth = first.depth;
+    for (let i = start + 1; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'punct' && (token.value === '}' || token.value === ']') && token.depth === depth) break;
+        if (token.type !== 'ident' || token.depth !== depth + 1) continue;
+        // In `{ key: alias }` the key is not a binding; the alias is. Default values are not bindings either.
+        if (first.value === '{' && tokens[i + 1]?.value === ':') continue;
+        if (tokens[i - 1]?.value === '=') continue;
+        result.push(i);
+    }
+    return result;
+};
+
+// Parameter identifiers between a `(` at index `open` and its matching `)`.
+const collectParams = (tokens: JsToken[], open: number): number[] => {
+    const result: number[] = [];
+    const depth = tokens[open].depth;
+    for (let i = open + 1; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.value === ')' && token.depth === depth) break;
+        if (token.type === 'ident' && token.depth === depth + 1 && ['(', ',', '...'].includes(tokens[i - 1].value)) result.push(i);
+    }
+    return result;
+};
+
+export const analyzeJavaScript = (code: string): CellSymbols => {
+    const tokens = tokenizeJs(code);
+    const bindingPositions = new Set<number>();
+    const topLevelDeclared = new Set<string>();
+    const assignedAt = new Map<string, number>(); // bare top-level assignments, first occurrence
+    const localNames = new Set<string>();
+
+    const bind = (indexes: number[], topLevel: boolean) => indexes.forEach(index => {
+        bindingPositions.add(index);
+        (topLevel ? topLevelDeclared : localNames).add(tokens[index].value);
+    });
+
+    tokens.forEach((token, i) => {
+        const next = tokens[i + 1];
+        const prev = tokens[i - 1];
+        if (token.type === 'ident' && (token.value === 'var' || token.value === 'let' || token.value === 'const')) {
+            bind(collectBindings(tokens, i + 1), token.depth === 0);
+            // Further declarators: `let a = 1, b = 2`.
+            for (let j = i + 2; j < tokens.length && tokens[j].value !== ';' && !tokens[j].newlineBefore; j++) {
+                if (tokens[j].value === ',' && tokens[j].depth === token.depth && tokens[j + 1]?.type === 'ident') bind([j + 1], token.depth === 0);
+            }
+        } else if (token.type === 'ident' && (token.value === 'function' || token.value === 'class')) {
+            let open = i + 1;
+            if (next?.type === 'ident') {
+                bind([i + 1], token.depth === 0 && prev?.value !== '=' && prev?.value !== '(');
+                open = i + 2;
+            }
+            if (token.value === 'function' && tokens[open]?.value === '(') bind(collectParams(tokens, open), false);
+        } else if (token.value === 'catch' && next?.value === '(') {
+            bind(collectParams(tokens, i + 1), false);
+        } else if (token.value === '=>') {
+            if (prev?.type === 'ident') {
+                bind([i - 1], false);
+            } else if (prev?.value === ')') {
+                let open = i - 2;
+                while (open >= 0 && !(tokens[open].value === '(' && tokens[open].depth === prev.depth)) open--;
+                if (open >= 0) bind(collectParams(tokens, open), false);
+            }
+        } else if (token.type === 'ident' && token.depth === 0 && next?.value === '=' && prev?.value !== '.' &&
+            (!prev || prev.value === ';' || prev.value === '}' || token.newlineBefore)) {
+            bindingPositions.add(i);
+            if (!assignedAt.has(token.value)) assignedAt.set(token.value, i);
+        } else if (token.type === 'ident' && next?.value === '(' && tokens[i + 2] && prev?.value !== '.' && token.depth > 0) {
+            // Method shorthand in classes/objects: `name(args) {` — the name is a key and the parameters are locals.
+            const after = tokens.findIndex((t, k) => k > i + 1 && t.value === ')' && t.depth === next.depth);
+            if (after !== -1 && tokens[after + 1]?.value === '{') {
+                bindingPositions.add(i);
+                bind(collectParams(tokens, i + 1), false);
+            }
+        }
+    });
+
+    const reads = new Set<string>();
+    tokens.forEach((token, i) => {
+        if (token.type !== 'ident' || bindingPositions.has(i)) return;
+        const prev = tokens[i - 1];
+        const next = tokens[i + 1];
+        if (prev?.value === '.' || prev?.value === '?.') return;
+        if (JS_KEYWORDS.has(token.value) || JS_GLOBALS.has(token.value)) return;
+        // Object literal keys (`{ key: value }`) are not references.
+        if (next?.value === ':' && (prev?.value === '{' || prev?.value === ',') && token.depth > 0) return;
+        if (topLevelDeclared.has(token.value) || localNames.has(token.value)) return;
+        // For `x = x + 1` the read on the right happens before the assignment, so it is a dependency.
+        const assignIndex = assignedAt.get(token.value);
+        if (assignIndex !== undefined && i > assignIndex) {
+            const sameStatement = !tokens.slice(assignIndex + 1, i + 1).some(t => t.value === ';' || (t.newlineBefore && t.depth === 0));
+            if (!sameStatement) return;
+        }
+        reads.add(token.value);
+    });
+
+    const defines = new Set([...topLevelDeclared, ...assignedAt.keys()]);
+    return { defines: Array.from(defines), reads: Array.from(reads) };
+};
+
+const PYTHON_KEYWORDS = new Set([
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+    'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try',
+    'while', 'with', 'yield', 'print', 'len', 'range', 'str', 'int', 'float', 'list', 'dict', 'set', 'tuple', 'self', 'enumerate', 'zip',
+    'sum', 'min', 'max', 'abs', 'sorted', 'open', 'isinstance', 'type', 'bool', 'object', 'super', 'Exception',
+]);
+
+const pythonNames = (text: string) => (text.match(/(?<![.\w])[A-Za-z_]\w*/g) || []).filter(name => !PYTHON_KEYWORDS.has(name));
+
+// Line-based approximation for Python: top-level (unindented) assignments, defs, classes and imports.
+export const analyzePython = (code: string): CellSymbols => {
+    const defines = new Set<string>();
+    const reads = new Set<string>();
+    const locals = new Set<string>();
+    const stripped = code.replace(/#.*$/gm, '').replace(/("""|\'\'\')[\s\S]*?\1|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, '""');
+    const readUnlessDefined = (text: string) => pythonNames(text).forEach(name => {
+        if (!defines.has(name) && !locals.has(name)) reads.add(name);
+    });
+
+    stripped.split('\n').forEach(line => {
+        const indented = /^\s/.test(line);
+        let match: RegExpMatchArray | null;
+        if ((match = line.match(/^\s*(?:def|class)\s+([A-Za-z_]\w*)\s*(?:\((.*)\))?/))) {
+            (indented ? locals : defines).add(match[1]);
+            if (match[2]) match[2].split(',').forEach(param => {
+                const name = param.split(/[=:]/)[0].replace(/\*/g, '').trim();
+                if (name) locals.add(name);
+            });
+        } else if ((match = line.match(/^\s*import\s+(.+)/))) {
+            match[1].split(',').forEach(part => (indented ? locals : defines).add(part.trim().split(/\s+as\s+/).pop()!.split('.')[0]));
+        } else if ((match = line.match(/^\s*from\s+\S+\s+import\s+(.+)/))) {
+            match[1].replace(/[()]/g, '').split(',').forEach(part => (indented ? locals : defines).add(part.trim().split(/\s+as\s+/).pop()!));
+        } else if ((match = line.match(/^\s*([A-Za-z_][\w\s,]*?)\s*([+\-*/%]?)=(?!=)(.*)$/))) {
+            const targets = match[1].split(',').map(name => name.trim()).filter(Boolean);
+            readUnlessDefined(match[3]);
+            if (match[2]) targets.forEach(name => { if (!defines.has(name) && !locals.has(name)) reads.add(name); });
+            targets.forEach(name => (indented ? locals : defines).add(name));
+        } else if ((match = line.match(/^\s*for\s+(.+?)\s+in\s+(.*)$/))) {
+            match[1].replace(/[()]/g, '').split(',').forEach(name => (indented ? locals : defines).add(name.trim()));
+            readUnlessDefined(match[2]);
+        } else {
+            readUnlessDefined(line);
+        }
+    });
+    return { defines: Array.from(defines).filter(Boolean), reads: Array.from(reads) };
+};
+
+const analysisCache = new WeakMap<object, CellSymbols>();
+
+export const analyzeCell = (cell: EnhancedCell): CellSymbols => {
+    // A data table is visible to code under its name.
+    if (cell.type === ExpandedCellType.Data) return { defines: [dataTableName(cell)], reads: [] };
+    if (cell.type === ExpandedCellType.SQL) {
+        // A query reads the tables it selects from and the variables bound to its parameters;
+        // its result set is a table of its own.
+        const query: string = cell.content?.query || '';
+        const reads = new Set([...sqlTableReferences(query), ...sqlParameterNames(query).map(p => p.name)]);
+        return { defines: [sqlResultName(cell)], reads: Array.from(reads) };
+    }
+    // A form defines the variables its widgets are bound to.
+    if (cell.type === ExpandedCellType.Form) return { defines: (cell.content?.widgets || []).map((w: { name: string }) => w.name), reads: [] };
+    if (cell.type !== ExpandedCellType.Code || !cell.content) return { defines: [], reads: [] };
+    const cached = analysisCache.get(cell.content);
+    if (cached) return cached;
+    const code: string = cell.content.code || '';
+    const language = cell.content.language || cell.language || 'javascript';
+    const symbols = language === 'python' ? analyzePython(code) : language === 'javascript' ? analyzeJavaScript(code) : { defines: [], reads: [] };
+    analysisCache.set(cell.content, symbols);
+    return symbols;
+};
+
+// For each cell, the cells it reads from: the closest cell above that defines each name it reads.
+export const buildDependencyGraph = (cells: EnhancedCell[]) => {
+    const upstream = new Map<string, Set<string>>();
+    const lastDefinedBy = new Map<string, string>();
+    cells.forEach(cell => {
+        const { defines, reads } = analyzeCell(cell);
+        const deps = new Set<string>();
+        reads.forEach(name => {
+            const source = lastDefinedBy.get(name);
+            if (source && source !== cell.id) deps.add(source);
+        });
+        upstream.set(cell.id, deps);
+        defines.forEach(name => lastDefinedBy.set(name, cell.id));
+    });
+    return upstream;
+};
+
+// Every cell that transitively depends on any of `cellIds`, in notebook order.
+export const findDownstreamCells = (cells: EnhancedCell[], cellIds: string[]): string[] => {
+    const graph = buildDependencyGraph(cells);
+    const affected = new Set(cellIds);
+    const result: string[] = [];
+    cells.forEach(cell => {
+        if (affected.has(cell.id)) return;
+        const deps = graph.get(cell.id);
+        if (deps && Array.from(deps).some(dep => affected.has(dep))) {
+            affected.add(cell.id);
+            result.push(cell.id);
+        }
+    });
+    return result;
+};
@@ -0,0 +1,281 @@
+import { generateUniqueId } from '../components/Notebook';
+
+// The vector scene a Drawing cell keeps in its content, and the geometry the editor needs:
+// bounds, hit testing, moving and scaling shapes, and SVG markup for display and export.
+
+export type Point = [number, number];
+
+interface ShapeBase {
+    id: string;
+    layerId: string;
+    // Outline colour; text is drawn in this colour too.
+    stroke: string;
+    // 'none' for no fill.
+    fill: string;
+    strokeWidth: number;
+}
+
+export interface PathShape extends ShapeBase { kind: 'path'; points: Point[] }
+
+export interface BoxShape extends ShapeBase { kind: 'rect' | 'ellipse'; x: number; y: number; width: number; height: number }
+
+export interface LineShape extends ShapeBase { kind: 'line' | 'arrow'; x1: number; y1: number; x2: number; y2: number }
+
+// (x, y) is the top-left corner of the first line.
+export interface TextShape extends ShapeBase { kind: 'text'; x: number; y: number; text: string; fontSize: number }
+
+export interface ImageShape extends ShapeBase { kind: 'image'; x: number; y: number; width: number; height: number; src: string }
+
+export type DrawingShape = PathShape | BoxShape | LineShape | TextShape | ImageShape;
+
+export interface DrawingLayer {
+    id: string;
+    name: string;
+    visible: boolean;
+    locked: boolean;
+}
+
+// Layers are listed bottom first; within a layer, later shapes are drawn on top.
+export interface DrawingScene {
+    width: number;
+    height: number;
+    background: string;
+    layers: DrawingLayer[];
+    shapes: DrawingShape[];
+}
+
+export interface Bounds { x: number; y: number; width: number; height: number }
+
+// Set by image and chart outputs when they are dragged, as JSON.
+export const IMAGE_DRAG_MIME = 'application/x-notebook-image';
+
+export interface DraggedImage {
+    src: string;
+    width: number;
+    height: number;
+}
+
+export const newLayer = (name: string): DrawingLayer => ({ id: generateUniqueId('layer'), name, visible: true, locked: false });
+
+export const emptyScene = (): DrawingScene => ({
+    width: 800,
+    height: 480,
+    background: '#ffffff',
+    layers: [{ id: 'layer-1', name: 'Layer 1', visible: true, locked: false }],
+    shapes: [],
+});
+
+const finite = (value: any, fallback = 0) => {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : fallback;
+};
+
+// Rebuilds a stored shape from known fields only. Scenes come from imported and shared
+// notebooks, and every value here ends up in SVG markup.
+const normalizeShape = (shape: any, layerId: string): DrawingShape | null => {
+    const base = {
+        id: String(shape.id || generateUniqueId('shape')),
+        layerId,
+        stroke: typeof shape.stroke === 'string' ? shape.stroke : '#111827',
+        fill: typeof shape.fill === 'string' ? shape.fill : 'none',
+        strokeWidth: finite(shape.strokeWidth, 2),
+    };
+    const box = { x: finite(shape.x), y: finite(shape.y), width: finite(shape.width), height: finite(shape.height) };
+    switch (shape.kind) {
+        case 'path': {
+            const points: Point[] = (Array.isArray(shape.points) ? shape.points : [])
+                .filter((p: any) => Array.isArray(p) && p.length >= 2 && Number.isFinite(Number(p[0])) && Number.isFinite(Number(p[1])))
+                .map((p: any[]) => [Number(p[0]), Number(p[1])] as Point);
+            return points.length > 0 ? { ...base, kind: 'path', points } : null;
+        }
+        case 'rect':
+        case 'ellipse': return { ...base, kind: shape.kind, ...box };
+        case 'line':
+        case 'arrow': return { ...base, kind: shape.kind, x1: finite(shape.x1), y1: finite(shape.y1), x2: finite(shape.x2), y2: finite(shape.y2) };
+        case 'text': return { ...base, kind: 'text', x: box.x, y: box.y, text: String(shape.text ?? ''), fontSize: finite(shape.fontSize, 20) };
+        case 'image': return { ...base, kind: 'image', ...box, src: String(shape.src ?? '') };
+        default: return null;
+    }
+};
+
+// Fills in anything missing from saved or hand-edited content, so the editor always has a layer
+// and every shape belongs to one.
+export const normalizeScene = (raw: any): DrawingScene => {
+    const base = emptyScene();
+    if (!raw || typeof raw !== 'object') return base;
+    const layers: DrawingLayer[] = Array.isArray(raw.layers) && raw.layers.length > 0
+        ? raw.layers.map((layer: any, i: number) => ({ id: String(layer?.id || `layer-${i + 1}`), name: String(layer?.name || `Layer ${i + 1}`), visible: layer?.visible !== false, locked: !!layer?.locked }))
+        : base.layers;
+    const layerIds = new Set<string>(layers.map(layer => layer.id));
+    const shapes = (Array.isArray(raw.shapes) ? raw.shapes : [])
+        .map((shape: any) => shape && typeof shape === 'object' ? normalizeShape(shape, layerIds.has(shape.layerId) ? shape.layerId : layers[0].id) : null)
+        .filter((shape: DrawingShape | null): shape is DrawingShape => shape !== null);
+    return {
+        width: finite(raw.width) > 0 ? finite(raw.width) : base.width,
+        height: finite(raw.height) > 0 ? finite(raw.height) : base.height,
+        background: typeof raw.background === 'string' ? raw.background : base.background,
+        layers,
+        shapes,
+    };
+};
+
+// Shapes in drawing order, bottom first.
+export const orderedShapes = (scene: DrawingScene) => {
+    const order = new Map<string, number>(scene.layers.map((layer, i) => [layer.id, i]));
+    return scene.shapes
+        .map((shape, i) => ({ shape, i }))
+        .sort((a, b) => (order.get(a.shape.layerId)! - order.get(b.shape.layerId)!) || a.i - b.i)
+        .map(({ shape }) => shape);
+};
+
+// --- Geometry ---
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const normalizeBounds = (x1: number, y1: number, x2: number, y2: number): Bounds =>
+    ({ x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) });
+
+const textLines = (shape: TextShape) => shape.text.split('\n');
+
+export const shapeBounds = (shape: DrawingShape): Bounds => {
+    switch (shape.kind) {
+        case 'path': {
+            const xs = shape.points.map(p => p[0]);
+            const ys = shape.points.map(p => p[1]);
+            return xs.length === 0 ? { x: 0, y: 0, width: 0, height: 0 } : normalizeBounds(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys));
+        }
+        case 'line':
+        case 'arrow': return normalizeBounds(shape.x1, shape.y1, shape.x2, shape.y2);
+        // An estimate; the canvas has no text metrics, and a box is enough for selecting.
+        case 'text': {
+            const lines = textLines(shape);
+            return { x: shape.x, y: shape.y, width: Math.max(...lines.map(line => line.length), 1) * shape.fontSize * 0.6, height: lines.length * shape.fontSize * 1.2 };
+        }
+        default: return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+    }
+};
+
+export const unionBounds = (boxes: Bounds[]): Bounds | null => {
+    if (boxes.length === 0) return null;
+    const x1 = Math.min(...boxes.map(b => b.x));
+    const y1 = Math.min(...boxes.map(b => b.y));
+    const x2 = Math.max(...boxes.map(b => b.x + b.width));
+    const y2 = Math.max(...boxes.map(b => b.y + b.height));
+    return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+    a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+const segmentDistance = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+    return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+// Whether a point is on the shape: on its outline, or anywhere inside when it is filled or
+// is text or an image.
+export const hitTest = (shape: DrawingShape, point: Point, tolerance = 4): boolean => {
+    const reach = tolerance + shape.strokeWidth / 2;
+    const [px, py] = point;
+    switch (shape.kind) {
+        case 'path':
+            if (shape.points.length === 1) return Math.hypot(px - shape.points[0][0], py - shape.points[0][1]) <= reach;
+            return shape.points.some((p, i) => i > 0 && segmentDistance(point, shape.points[i - 1], p) <= reach);
+        case 'line':
+        case 'arrow': return segmentDistance(point, [shape.x1, shape.y1], [shape.x2, shape.y2]) <= reach;
+        case 'rect': {
+            const { x, y, width, height } = shape;
+            const inside = px >= x && px <= x + width && py >= y && py <= y + height;
+            if (inside && shape.fill !== 'none') return true;
+            const corners: Point[] = [[x, y], [x + width, y], [x + width, y + height], [x, y + height]];
+            return corners.some((c, i) => segmentDistance(point, c, corners[(i + 1) % 4]) <= reach);
+        }
+        case 'ellipse': {
+            const rx = shape.width / 2;
+            const ry = shape.height / 2;
+            if (rx === 0 || ry === 0) return segmentDistance(point, [shape.x, shape.y], [shape.x + shape.width, shape.y + shape.height]) <= reach;
+            const dx = px - (shape.x + rx);
+            const dy = py - (shape.y + ry);
+            // Distance from the outline, measured along the ray from the centre.
+            const scale = Math.hypot(dx / rx, dy / ry);
+            if (scale <= 1 && shape.fill !== 'none') return true;
+            return Math.abs(Math.hypot(dx, dy) * (1 - 1 / (scale || 1))) <= reach;
+        }
+        default: {
+            const b = shapeBounds(shape);
+            return px >= b.x - tolerance && px <= b.x + b.width + tolerance && py >= b.y - tolerance && py <= b.y + b.height + tolerance;
+        }
+    }
+};
+
+export const translateShape = (shape: DrawingShape, dx: number, dy: number): DrawingShape => {
+    switch (shape.kind) {
+        case 'path': return { ...shape, points: shape.points.map(([x, y]) => [round(x + dx), round(y + dy)] as Point) };
+        case 'line':
+        case 'arrow': return { ...shape, x1: round(shape.x1 + dx), y1: round(shape.y1 + dy), x2: round(shape.x2 + dx), y2: round(shape.y2 + dy) };
+        default: return { ...shape, x: round(shape.x + dx), y: round(shape.y + dy) };
+    }
+};
+
+// Maps a shape from one box to another, e.g. when the selection is resized. Text scales its
+// font size with the box height.
+export const scaleShape = (shape: DrawingShape, from: Bounds, to: Bounds): DrawingShape => {
+    const sx = from.width ? to.width / from.width : 1;
+    const sy = from.height ? to.height / from.height : 1;
+    const mapX = (x: number) => round(to.x + (x - from.x) * sx);
+    const mapY = (y: number) => round(to.y + (y - from.y) * sy);
+    switch (shape.kind) {
+        case 'path': return { ...shape, points: shape.points.map(([x, y]) => [mapX(x), mapY(y)] as Point) };
+        case 'line':
+        case 'arrow': return { ...shape, x1: mapX(shape.x1), y1: mapY(shape.y1), x2: mapX(shape.x2), y2: mapY(shape.y2) };
+        case 'text': return { ...shape, x: mapX(shape.x), y: mapY(shape.y), fontSize: Math.max(4, round(shape.fontSize * sy)) };
+        default: return { ...shape, x: mapX(shape.x), y: mapY(shape.y), width: round(shape.width * sx), height: round(shape.height * sy) };
+    }
+};
+
+// --- SVG ---
+
+const escapeXml = (text: string) =>
+    text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+// Only images that can't reach anything but themselves.
+const safeImageSrc = (src: string) => /^(data:image\/|https?:|blob:)/i.test(src) ? src : '';
+
+const arrowHead = (shape: LineShape) => {
+    const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+    const size = 6 + shape.strokeWidth * 2;
+    const corner = (offset: number): Point => [round(shape.x2 - size * Math.cos(angle + offset)), round(shape.y2 - size * Math.sin(angle + offset))];
+    return [corner(-Math.PI / 7), [shape.x2, shape.y2] as Point, corner(Math.PI / 7)].map(p => p.join(',')).join(' ');
+};
+
+export const shapeMarkup = (shape: DrawingShape): string => {
+    const stroke = `stroke="${escapeXml(shape.stroke)}" stroke-width="${shape.strokeWidth}"`;
+    const fill = `fill="${escapeXml(shape.fill)}"`;
+    switch (shape.kind) {
+        case 'path': {
+            const d = shape.points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x} ${y}`).join(' ') + (shape.points.length === 1 ? ' l0.1 0' : '');
+            return `<path d="${d}" fill="none" ${stroke} stroke-linecap="round" stroke-linejoin="round"/>`;
+        }
+        case 'rect': return `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" ${fill} ${stroke}/>`;
+        case 'ellipse': return `<ellipse cx="${round(shape.x + shape.width / 2)}" cy="${round(shape.y + shape.height / 2)}" rx="${round(shape.width / 2)}" ry="${round(shape.height / 2)}" ${fill} ${stroke}/>`;
+        case 'line': return `<line x1="${shape.x1}" y1="${shape.y1}" x2="${shape.x2}" y2="${shape.y2}" ${stroke} stroke-linecap="round"/>`;
+        case 'arrow': return `<g><line x1="${shape.x1}" y1="${shape.y1}" x2="${shape.x2}" y2="${shape.y2}" ${stroke} stroke-linecap="round"/>`
+            + `<polyline points="${arrowHead(shape)}" fill="none" ${stroke} stroke-linecap="round" stroke-linejoin="round"/></g>`;
+        case 'text': {
+            const lines = textLines(shape).map((line, i) => `<tspan x="${shape.x}" y="${round(shape.y + shape.fontSize * (0.9 + 1.2 * i))}">${escapeXml(line)}</tspan>`).join('');
+            return `<text font-family="ui-sans-serif, system-ui, sans-serif" font-size="${shape.fontSize}" fill="${escapeXml(shape.stroke)}" xml:space="preserve">${lines}</text>`;
+        }
+        case 'image': return `<image x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" href="${escapeXml(safeImageSrc(shape.src))}" preserveAspectRatio="none"/>`;
+    }
+};
+
+// A standalone SVG document of the visible layers.
+export const sceneToSvg = (scene: DrawingScene) => {
+    const hidden = new Set<string>(scene.layers.filter(layer => !layer.visible).map(layer => layer.id));
+    const shapes = orderedShapes(scene).filter(shape => !hidden.has(shape.layerId)).map(shapeMarkup).join('');
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`
+        + `<rect width="100%" height="100%" fill="${escapeXml(scene.background)}"/>${shapes}</svg>`;
+};
@@ -0,0 +1,53 @@
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+import { importTableFile, toIdentifier } from './dataTable';
+import { baseName, bytesToBase64, fileExtension, isTextType, mimeTypeFor } from './vfs';
+
+// The cell a workspace file becomes when it is dragged into the notebook: tables become Data
+// cells, images and Markdown become Markdown cells, SQL and scripts in the kernel's language
+// keep their source, and anything else gets a code cell that loads it from the workspace.
+
+export type FileCell = Pick<EnhancedCell, 'type' | 'content'> & Partial<Pick<EnhancedCell, 'attachments'>>;
+
+const TABLE_EXTENSIONS = ['csv', 'tsv', 'tab', 'json'];
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'];
+const SCRIPT_LANGUAGES: Record<string, string> = { js: 'javascript', py: 'python' };
+
+// Code that reads the file into a variable named after it.
+const fileLoaderSource = (path: string, language: string) => {
+    const name = toIdentifier(baseName(path));
+    const literal = JSON.stringify(path);
+    const extension = fileExtension(path);
+    const text = isTextType(mimeTypeFor(path));
+    if (language === 'python') {
+        if (extension === 'json' || extension === 'ipynb') return `import json\n${name} = json.loads(workspace.read_text(${literal}))`;
+        return `${name} = workspace.${text ? 'read_text' : 'read_bytes'}(${literal})`;
+    }
+    const reader = extension === 'json' || extension === 'ipynb' ? 'readJSON' : text ? 'readText' : 'readBytes';
+    // The kernel awaits a cell's final promise, so the cell finishes once the file is loaded.
+    return `var ${name};\nfs.${reader}(${literal}).then(value => ${name} = value)`;
+};
+
+export const fileCellFor = async (path: string, blob: Blob, language: string): Promise<FileCell> => {
+    const extension = fileExtension(path);
+    const name = baseName(path);
+    if (TABLE_EXTENSIONS.includes(extension)) {
+        try {
+            const table = await importTableFile(new File([blob], name));
+            return { type: ExpandedCellType.Data, content: { name: toIdentifier(name), ...table } };
+        } catch {
+            // Not tabular (e.g. a JSON object); load it in code instead.
+        }
+    }
+    if (IMAGE_EXTENSIONS.includes(extension)) {
+        const base64 = bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+        return {
+            type: ExpandedCellType.Markdown,
+            content: `![${name}](attachment:${encodeURIComponent(name)})`,
+            attachments: { [name]: { [mimeTypeFor(path)]: base64 } },
+        };
+    }
+    if (extension === 'md') return { type: ExpandedCellType.Markdown, content: await blob.text() };
+    if (extension === 'sql') return { type: ExpandedCellType.SQL, content: { query: await blob.text() } };
+    if (SCRIPT_LANGUAGES[extension] === language) return { type: ExpandedCellType.Code, content: { code: await blob.text(), language } };
+    return { type: ExpandedCellType.Code, content: { code: fileLoaderSource(path, language), language } };
+};
@@ -0,0 +1,130 @@
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+import { stripAnsi } from './ansi';
+
+// Notebook-wide find and replace. Matches are found in the cells' data rather than the page, so
+// cells scrolled out of view, collapsed or being edited are searched all the same.
+
+export interface SearchOptions {
+    regex: boolean;
+    matchCase: boolean;
+    wholeWord: boolean;
+    includeOutputs: boolean;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { regex: false, matchCase: false, wholeWord: false, includeOutputs: false };
+
+export interface SearchMatch {
+    cellId: string;
+    // Outputs can be searched but not replaced.
+    part: 'source' | 'output';
+    // Which output, for matches in outputs.
+    outputIndex?: number;
+    start: number;
+    end: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The global pattern for a query. Throws a SyntaxError for an invalid regular expression.
+export const searchPattern = (query: string, options: SearchOptions): RegExp => {
+    let source = options.regex ? query : escapeRegExp(query);
+    if (options.wholeWord) source = `(?<![\\w$])(?:${source})(?![\\w$])`;
+    return new RegExp(source, options.matchCase ? 'g' : 'gi');
+};
+
+// Ranges of every match in a text. Empty matches (e.g. `^` or `a*`) are skipped.
+export const matchRanges = (text: string, pattern: RegExp): { start: number; end: number }[] => {
+    const ranges: { start: number; end: number }[] = [];
+    for (const match of text.matchAll(pattern)) {
+        if (match[0].length > 0) ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+    return ranges;
+};
+
+// --- Searchable text ---
+
+// The text a cell's source is edited as, or null for cells without one (tables, charts...).
+export const sourceText = (cell: EnhancedCell): string | null => {
+    switch (cell.type) {
+        case ExpandedCellType.Markdown: return typeof cell.content === 'string' ? cell.content : '';
+        case ExpandedCellType.Code: return cell.content?.code || '';
+        case ExpandedCellType.SQL: return cell.content?.query || '';
+        case ExpandedCellType.AIChat: return cell.content?.prompt || '';
+        default: return null;
+    }
+};
+
+// The cell's content with its source replaced.
+export const withSourceText = (cell: EnhancedCell, text: string): any => {
+    switch (cell.type) {
+        case ExpandedCellType.Markdown: return text;
+        case ExpandedCellType.Code: return { ...cell.content, code: text };
+        case ExpandedCellType.SQL: return { ...cell.content, query: text };
+        case ExpandedCellType.AIChat: return { ...cell.content, prompt: text };
+        default: return cell.content;
+    }
+};
+
+const recordsText = (records: any[]) => records.map(row => Object.values(row ?? {}).map(value => value ?? '').join('\t')).join('\n');
+
+const outputText = (output: any): string => {
+    switch (output?.type) {
+        case 'stream': return stripAnsi(output.text || '');
+        case 'error': return stripAnsi([`${output.name || 'Error'}: ${output.message || ''}`, ...(output.traceback || [])].join('\n'));
+        case 'execute_result':
+        case 'display_data': {
+            const data = output.data || {};
+            if (Array.isArray(data['application/json'])) return recordsText(data['application/json']);
+            return String(data['text/plain'] ?? data['text/markdown'] ?? '');
+        }
+        default: return '';
+    }
+};
+
+// What a cell shows as output: its outputs, or the conversation of a chat cell.
+export const outputTexts = (cell: EnhancedCell): string[] => {
+    if (cell.type === ExpandedCellType.AIChat) {
+        const messages: { role: string; content: string }[] = cell.content?.messages || [];
+        return [...messages.filter(m => m.role !== 'system').map(m => m.content || ''), ...(cell.outputs || []).filter(o => o.type === 'error').map(outputText)];
+    }
+    return (cell.outputs || []).map(outputText);
+};
+
+// Every match in the cells, in notebook order. Hidden code and outputs are left out, so nothing
+// is replaced out of sight.
+export const findMatches = (cells: EnhancedCell[], pattern: RegExp, includeOutputs: boolean): SearchMatch[] =>
+    cells.flatMap(cell => {
+        const source = cell.metadata?.hideCode ? null : sourceText(cell);
+        const matches: SearchMatch[] = source ? matchRanges(source, pattern).map(range => ({ cellId: cell.id, part: 'source' as const, ...range })) : [];
+        if (includeOutputs && !cell.metadata?.hideOutput) {
+            outputTexts(cell).forEach((text, outputIndex) => {
+                matchRanges(text, pattern).forEach(range => matches.push({ cellId: cell.id, part: 'output', outputIndex, ...range }));
+            });
+        }
+        return matches;
+    });
+
+// --- Replacing ---
+
+// In regex mode the replacement may refer to groups ($1, $<name>, $&); otherwise it is literal.
+const replacementFor = (replacement: string, options: SearchOptions) => options.regex ? replacement : replacement.replace(/\$/g, '$$$$');
+
+// What the match at `start` is replaced with.
+const replacementAt = (text: string, range: { start: number; end: number }, pattern: RegExp, replacement: string, options: SearchOptions) => {
+    const sticky = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+    sticky.lastIndex = range.start;
+    const replaced = text.replace(sticky, replacementFor(replacement, options));
+    return replaced.slice(range.start, replaced.length - (text.length - range.end));
+};
+
+// The text with the given matches replaced. Each replacement is worked out against the original
+// text, as a single String.prototype.replace would.
+export const replaceRanges = (text: string, ranges: { start: number; end: number }[], pattern: RegExp, replacement: string, options: SearchOptions) => {
+    let result = '';
+    let position = 0;
+    [...ranges].sort((a, b) => a.start - b.start).forEach(range => {
+        result += text.slice(position, range.start) + replacementAt(text, range, pattern, replacement, options);
+        position = range.end;
+    });
+    return result + text.slice(position);
+};
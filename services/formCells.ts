@@ -0,0 +1,123 @@
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+import { injectedParametersSource, NotebookParameter } from './cellMetadata';
+
+// Form cells: a declarative list of widgets, each bound to a variable in the kernel. Running the
+// form assigns the current values, so later cells read them like any other variable and the
+// dependency graph finds the cells to re-run when a value changes.
+
+export type FormWidgetKind = 'slider' | 'text' | 'dropdown' | 'checkbox' | 'date' | 'file';
+export type FormValue = string | number | boolean;
+
+export const FORM_WIDGET_KINDS: FormWidgetKind[] = ['slider', 'text', 'dropdown', 'checkbox', 'date', 'file'];
+
+export interface FormWidget {
+    // The variable the widget sets.
+    name: string;
+    kind: FormWidgetKind;
+    label?: string;
+    // The value until the widget is changed.
+    default?: FormValue;
+    // Sliders.
+    min?: number;
+    max?: number;
+    step?: number;
+    // Dropdowns.
+    options?: string[];
+    // File pickers: the extensions to offer, e.g. ["csv"]. The value is a workspace path.
+    accept?: string[];
+}
+
+export interface FormContent {
+    widgets: FormWidget[];
+    // Current values by variable name, saved with the notebook.
+    values: Record<string, FormValue>;
+    language?: string;
+    // Re-run the cells that read the form whenever a value changes.
+    autoRun?: boolean;
+}
+
+export const EXAMPLE_FORM_WIDGETS: FormWidget[] = [
+    { name: 'threshold', kind: 'slider', label: 'Threshold', min: 0, max: 100, step: 1, default: 50 },
+    { name: 'region', kind: 'dropdown', label: 'Region', options: ['North', 'South', 'East', 'West'] },
+    { name: 'include_returns', kind: 'checkbox', label: 'Include returns' },
+];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export const defaultWidgetValue = (widget: FormWidget): FormValue => {
+    if (widget.default !== undefined) return widget.default;
+    switch (widget.kind) {
+        case 'slider': return widget.min ?? 0;
+        case 'checkbox': return false;
+        case 'dropdown': return widget.options?.[0] ?? '';
+        default: return '';
+    }
+};
+
+export const widgetValue = (content: FormContent, widget: FormWidget): FormValue =>
+    content.values?.[widget.name] ?? defaultWidgetValue(widget);
+
+// Checks a schema typed as JSON and returns its widgets. Throws with a message for the editor.
+export const parseFormSchema = (text: string): FormWidget[] => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e: any) {
+        throw new Error(`Invalid JSON: ${e.message}`);
+    }
+    if (!Array.isArray(parsed)) throw new Error('The schema must be a list of widgets');
+    const names = new Set<string>();
+    parsed.forEach((widget, i) => {
+        if (!widget || typeof widget !== 'object') throw new Error(`Widget ${i + 1} is not an object`);
+        if (typeof widget.name !== 'string' || !IDENTIFIER.test(widget.name)) throw new Error(`Widget ${i + 1}: "name" must be a variable name`);
+        if (names.has(widget.name)) throw new Error(`"${widget.name}" is bound by two widgets`);
+        names.add(widget.name);
+        if (!FORM_WIDGET_KINDS.includes(widget.kind)) throw new Error(`${widget.name}: "kind" must be one of ${FORM_WIDGET_KINDS.join(', ')}`);
+        if (widget.kind === 'dropdown' && (!Array.isArray(widget.options) || widget.options.length === 0)) throw new Error(`${widget.name}: a dropdown needs "options"`);
+    });
+    return parsed;
+};
+
+// A value as source text in the kernel's language. Dates and file paths are strings.
+const valueSource = (value: FormValue, language: string) => {
+    if (typeof value === 'boolean') return language === 'python' ? (value ? 'True' : 'False') : String(value);
+    if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '0';
+    return JSON.stringify(value);
+};
+
+export const formParameters = (content: FormContent, language: string): NotebookParameter[] =>
+    (content.widgets || []).map(widget => ({ name: widget.name, value: valueSource(widgetValue(content, widget), language) }));
+
+// The code a form runs: one assignment per widget, like an injected parameters cell.
+export const formBindingSource = (content: FormContent, language: string) =>
+    injectedParametersSource(formParameters(content, language), language);
+
+// Reads an override given as source text (from Run with parameters) back into a widget value.
+export const parseWidgetValue = (widget: FormWidget, source: string): FormValue => {
+    const text = source.trim();
+    if (widget.kind === 'checkbox') return /^(true|1|yes)$/i.test(text);
+    if (widget.kind === 'slider') {
+        const number = Number(text);
+        return Number.isFinite(number) ? number : defaultWidgetValue(widget);
+    }
+    const quoted = /^(["'])(.*)\1$/s.exec(text);
+    if (!quoted) return text;
+    try {
+        return quoted[1] === '"' ? JSON.parse(text) : quoted[2];
+    } catch {
+        return quoted[2];
+    }
+};
+
+export interface FormVariable extends NotebookParameter {
+    cellId: string;
+    widget: FormWidget;
+}
+
+// Every widget in the notebook with its current value as source text, for overriding before a run.
+export const formVariables = (cells: EnhancedCell[], defaultLanguage: string): FormVariable[] =>
+    cells.filter(c => c.type === ExpandedCellType.Form && c.content).flatMap(cell => {
+        const content: FormContent = cell.content;
+        const language = content.language || defaultLanguage;
+        return (content.widgets || []).map(widget => ({ cellId: cell.id, widget, name: widget.name, value: valueSource(widgetValue(content, widget), language) }));
+    });
@@ -0,0 +1,118 @@
+import { EnhancedCell } from '../components/Notebook';
+
+// Command-based undo history for the cell list. Every command carries enough state
+// to be applied in either direction, so undoing a delete restores the exact cell
+// (outputs, comments and all) at its original position.
+
+export type HistoryCommand =
+    | { kind: 'update'; cellId: string; before: Partial<EnhancedCell>; after: Partial<EnhancedCell>; coalesceKey?: string; timestamp: number }
+    | { kind: 'add'; cell: EnhancedCell; index: number }
+    | { kind: 'delete'; cell: EnhancedCell; index: number }
+    | { kind: 'move'; from: number; to: number }
+    | { kind: 'batch'; label: string; commands: HistoryCommand[] };
+
+export type HistoryDirection = 'undo' | 'redo';
+
+const moveItem = <T>(items: T[], from: number, to: number) => {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+export const applyCommand = (cells: EnhancedCell[], command: HistoryCommand, direction: HistoryDirection): EnhancedCell[] => {
+    switch (command.kind) {
+        case 'update': {
+            const updates = direction === 'undo' ? command.before : command.after;
+            return cells.map(c => c.id === command.cellId ? { ...c, ...updates } : c);
+        }
+        case 'add':
+        case 'delete': {
+            const insert = (command.kind === 'add') === (direction === 'redo');
+            if (!insert) return cells.filter(c => c.id !== command.cell.id);
+            const next = [...cells];
+            next.splice(Math.min(command.index, next.length), 0, command.cell);
+            return next;
+        }
+        case 'move':
+            return direction === 'redo' ? moveItem(cells, command.from, command.to) : moveItem(cells, command.to, command.from);
+        case 'batch': {
+            const ordered = direction === 'redo' ? command.commands : [...command.commands].reverse();
+            return ordered.reduce((acc, cmd) => applyCommand(acc, cmd, direction), cells);
+        }
+    }
+};
+
+// The cell a command is "about", used to re-focus it after undo/redo.
+export const commandCellId = (command: HistoryCommand): string | undefined => {
+    switch (command.kind) {
+        case 'update': return command.cellId;
+        case 'add':
+        case 'delete': return command.cell.id;
+        case 'batch': return command.commands.length > 0 ? commandCellId(command.commands[0]) : undefined;
+        default: return undefined;
+    }
+};
+
+const COALESCE_WINDOW_MS = 1000;
+const MAX_HISTORY = 200;
+
+export class HistoryStack {
+    private undoStack: HistoryCommand[] = [];
+    private redoStack: HistoryCommand[] = [];
+    private listeners = new Set<() => void>();
+
+    get canUndo() { return this.undoStack.length > 0; }
+    get canRedo() { return this.redoStack.length > 0; }
+
+    onChange(listener: () => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    push(command: HistoryCommand) {
+        const top = this.undoStack[this.undoStack.length - 1];
+        // Typing produces a stream of updates to the same field; fold a burst into one step.
+        if (
+            command.kind === 'update' && top?.kind === 'update' && command.coalesceKey &&
+            top.coalesceKey === command.coalesceKey && top.cellId === command.cellId &&
+            command.timestamp - top.timestamp < COALESCE_WINDOW_MS && this.redoStack.length === 0
+        ) {
+            top.after = { ...top.after, ...command.after };
+            top.timestamp = command.timestamp;
+        } else {
+            this.undoStack.push(command);
+            if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+        }
+        this.redoStack = [];
+        this.notify();
+    }
+
+    undo(): HistoryCommand | undefined {
+        const command = this.undoStack.pop();
+        if (command) {
+            this.redoStack.push(command);
+            this.notify();
+        }
+        return command;
+    }
+
+    redo(): HistoryCommand | undefined {
+        const command = this.redoStack.pop();
+        if (command) {
+            this.undoStack.push(command);
+            this.notify();
+        }
+        return command;
+    }
+
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notify();
+    }
+}
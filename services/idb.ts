@@ -0,0 +1,55 @@
+// Minimal promise wrappers around IndexedDB. Each store's upgrade is described once
+// and shared by every module that opens the same database.
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const DB_NAME = 'universal-notebook';
+const DB_VERSION = 2;
+
+// Every object store the app uses, keyed by store name with its key path.
+const STORES: Record<string, string> = {
+    notebooks: 'id',
+    drafts: 'id',
+    files: 'path',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                Object.entries(STORES).forEach(([name, keyPath]) => {
+                    if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const withStore = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const result = requestToPromise(fn(transaction.objectStore(storeName)));
+    await transactionDone(transaction);
+    return result;
+};
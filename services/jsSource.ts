@@ -0,0 +1,194 @@
+// Lightweight JavaScript source utilities shared by the in-browser kernel and the
+// dependency analyser. This is not a full parser: it tokenizes just well enough to
+// know bracket depth, strings, comments, template literals and regex literals.
+
+export type JsTokenType = 'ident' | 'number' | 'string' | 'template' | 'regex' | 'punct' | 'comment';
+
+export interface JsToken {
+    type: JsTokenType;
+    value: string;
+    start: number;
+    end: number;
+    depth: number; // bracket depth the token sits at
+    newlineBefore: boolean;
+}
+
+const IDENT_START = /[A-Za-z_$\u00a0-\uffff]/;
+const IDENT_PART = /[A-Za-z0-9_$\u00a0-\uffff]/;
+const PUNCT_3 = ['===', '!==', '**=', '...', '<<=', '>>=', '>>>', '&&=', '||=', '??='];
+const PUNCT_2 = ['=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>'];
+const REGEX_PRECEDING_KEYWORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+
+const regexAllowedAfter = (prev: JsToken | undefined) => {
+    if (!prev) return true;
+    if (prev.type === 'ident') return REGEX_PRECEDING_KEYWORDS.has(prev.value);
+    if (prev.type === 'punct') return ![')', ']', '}'].includes(prev.value);
+    return false;
+};
+
+export const tokenizeJs = (source: string, includeComments = false): JsToken[] => {
+    const tokens: JsToken[] = [];
+    // Each entry is the bracket depth at which a `${` substitution was opened inside a template.
+    const templateStack: number[] = [];
+    let depth = 0;
+    let i = 0;
+    let newlineBefore = false;
+    let lastSignificant: JsToken | undefined;
+
+    const push = (type: JsTokenType, start: number, end: number, tokenDepth = depth) => {
+        const token: JsToken = { type, value: source.slice(start, end), start, end, depth: tokenDepth, newlineBefore };
+        newlineBefore = false;
+        if (type !== 'comment') lastSignificant = token;
+        if (type !== 'comment' || includeComments) tokens.push(token);
+    };
+
+    // Scans the body of a template literal starting at `from` (just after ` or }),
+    // returning the index after the closing backtick or after an opening `${`.
+    const scanTemplate = (from: number): { end: number; opensSubstitution: boolean } => {
+        let j = from;
+        while (j < source.length) {
+            const ch = source[j];
+            if (ch === '\\') { j += 2; continue; }
+            if (ch === '`') return { end: j + 1, opensSubstitution: false };
+            if (ch === '$' && source[j + 1] === '{') return { end: j + 2, opensSubstitution: true };
+            j++;
+        }
+        return { end: source.length, opensSubstitution: false };
+    };
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (ch === '\n') { newlineBefore = true; i++; continue; }
+        if (/\s/.test(ch)) { i++; continue; }
+
+        if (ch === '/' && source[i + 1] === '/') {
+            const end = source.indexOf('\n', i);
+            const stop = end === -1 ? source.length : end;
+            push('comment', i, stop);
+            i = stop;
+            continue;
+        }
+        if (ch === '/' && source[i + 1] === '*') {
+            const end = source.indexOf('*/', i + 2);
+            const stop = end === -1 ? source.length : end + 2;
+            if (source.slice(i, stop).includes('\n')) newlineBefore = true;
+            push('comment', i, stop);
+            i = stop;
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            let j = i + 1;
+            while (j < source.length && source[j] !== ch && source[j] !== '\n') {
+                j += source[j] === '\\' ? 2 : 1;
+            }
+            push('string', i, Math.min(j + 1, source.length));
+            i = j + 1;
+            continue;
+        }
+
+        if (ch === '`') {
+            const { end, opensSubstitution } = scanTemplate(i + 1);
+            push('template', i, end);
+            if (opensSubstitution) { templateStack.push(depth); depth++; }
+            i = end;
+            continue;
+        }
+
+        if (IDENT_START.test(ch)) {
+            let j = i + 1;
+            while (j < source.length && IDENT_PART.test(source[j])) j++;
+            push('ident', i, j);
+            i = j;
+            continue;
+        }
+
+        if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+            let j = i + 1;
+            while (j < source.length && /[0-9A-Za-z_.]/.test(source[j])) j++;
+            push('number', i, j);
+            i = j;
+            continue;
+        }
+
+        if (ch === '/' && regexAllowedAfter(lastSignificant)) {
+            let j = i + 1;
+            let inClass = false;
+            while (j < source.length && source[j] !== '\n') {
+                const c = source[j];
+                if (c === '\\') { j += 2; continue; }
+                if (c === '[') inClass = true;
+                else if (c === ']') inClass = false;
+                else if (c === '/' && !inClass) break;
+                j++;
+            }
+            j++;
+            while (j < source.length && /[a-z]/i.test(source[j])) j++;
+            push('regex', i, j);
+            i = j;
+            continue;
+        }
+
+        if (ch === '}' && templateStack.length > 0 && templateStack[templateStack.length - 1] === depth - 1) {
+            // Closing a `${ ... }` substitution: continue scanning the template body.
+            templateStack.pop();
+            depth--;
+            const { end, opensSubstitution } = scanTemplate(i + 1);
+            push('template', i, end);
+            if (opensSubstitution) { templateStack.push(depth); depth++; }
+            i = end;
+            continue;
+        }
+
+        const three = source.slice(i, i + 3);
+        const two = source.slice(i, i + 2);
+        const punct = PUNCT_3.includes(three) ? three : PUNCT_2.includes(two) ? two : ch;
+
+        if (punct === '(' || punct === '[' || punct === '{') {
+            push('punct', i, i + 1);
+            depth++;
+        } else if (punct === ')' || punct === ']' || punct === '}') {
+            depth = Math.max(0, depth - 1);
+            push('punct', i, i + 1);
+        } else {
+            push('punct', i, i + punct.length);
+        }
+        i += punct.length;
+    }
+
+    return tokens;
+};
+
+const isStatementStart = (prev: JsToken | undefined, current: JsToken) =>
+    !prev || current.newlineBefore || (prev.type === 'punct' && [';', '}'].includes(prev.value));
+
+// Rewrites top-level `let`, `const` and `class` declarations into `var` bindings so that,
+// when the code is run through an indirect eval, every declaration lands on the global
+// object and stays visible to subsequent cells (the way a Jupyter kernel namespace behaves).
+export const hoistTopLevelDeclarations = (source: string): string => {
+    const tokens = tokenizeJs(source);
+    const edits: { start: number; end: number; text: string }[] = [];
+
+    tokens.forEach((token, index) => {
+        if (token.type !== 'ident' || token.depth !== 0) return;
+        const prev = tokens[index - 1];
+        const next = tokens[index + 1];
+        if (prev && prev.type === 'punct' && prev.value === '.') return;
+
+        if (token.value === 'const' && next) {
+            edits.push({ start: token.start, end: token.end, text: 'var' });
+        } else if (token.value === 'let' && next && (next.type === 'ident' || next.value === '[' || next.value === '{') && isStatementStart(prev, token)) {
+            edits.push({ start: token.start, end: token.end, text: 'var' });
+        } else if (token.value === 'class' && next?.type === 'ident' && isStatementStart(prev, token)) {
+            edits.push({ start: token.start, end: token.end, text: `var ${next.value} = class` });
+        }
+    });
+
+    let result = source;
+    for (let k = edits.length - 1; k >= 0; k--) {
+        const edit = edits[k];
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+};
@@ -0,0 +1,206 @@
+import { KernelInfo } from '../../components/Notebook';
+import { base64ToBytes, bytesToBase64, createWorkspaceFolder, listWorkspace, normalizePath, parentPath, readWorkspaceFile, removeWorkspaceEntry, writeWorkspaceFile } from '../vfs';
+import { createMessageId, ExecuteReply, FileReply, FileRequest, InspectReplyMessage, Kernel, KernelMessage, KernelOutput, KernelRequest, KernelStatus, TableReplyMessage, VariablePath, VariableSummary, VariableTable, VariablesReplyMessage } from './protocol';
+
+const QUERY_TIMEOUT_MS = 5000;
+
+interface PendingExecution {
+    executionCount: number;
+    onOutput: (output: KernelOutput) => void;
+    resolve: (reply: ExecuteReply) => void;
+}
+
+// Shared client-side plumbing for kernels: status bookkeeping, request/reply correlation
+// and serialised execution. Subclasses only provide the transport.
+export abstract class BaseKernel implements Kernel {
+    status: KernelStatus = 'disconnected';
+    protected executionCount = 0;
+    private queue: Promise<unknown> = Promise.resolve();
+    private pending = new Map<string, PendingExecution>();
+    private statusListeners = new Set<(status: KernelStatus) => void>();
+    private queries = new Map<string, (reply: KernelMessage | null) => void>();
+
+    constructor(readonly info: KernelInfo) {}
+
+    protected abstract connect(): Promise<void>;
+    protected abstract disconnect(): void;
+    protected abstract send(request: KernelRequest): void;
+
+    onStatusChange(listener: (status: KernelStatus) => void) {
+        this.statusListeners.add(listener);
+        return () => { this.statusListeners.delete(listener); };
+    }
+
+    protected setStatus(status: KernelStatus) {
+        if (this.status === status) return;
+        this.status = status;
+        this.statusListeners.forEach(listener => listener(status));
+    }
+
+    async start() {
+        if (this.status !== 'disconnected') return;
+        this.setStatus('starting');
+        try {
+            await this.connect();
+        } catch (e) {
+            this.setStatus('disconnected');
+            throw e;
+        }
+        this.setStatus('idle');
+    }
+
+    execute(code: string, onOutput: (output: KernelOutput) => void): Promise<ExecuteReply> {
+        // Executions are serialised so that outputs of one request never interleave with the next.
+        const run = async () => {
+            await this.start();
+            return new Promise<ExecuteReply>(resolve => {
+                const id = createMessageId();
+                this.executionCount++;
+                this.pending.set(id, { executionCount: this.executionCount, onOutput, resolve });
+                this.setStatus('busy');
+                this.send({ type: 'execute_request', id, code: this.prepareCode(code) });
+            });
+        };
+        const result = this.queue.then(run, run);
+        this.queue = result.catch(() => undefined);
+        return result.catch((e: any) => {
+            onOutput({ type: 'error', name: 'KernelError', message: e?.message || String(e), traceback: [] });
+            return { status: 'error', executionCount: this.executionCount } as ExecuteReply;
+        });
+    }
+
+    // Hook for kernels that need to rewrite source before it is sent.
+    protected prepareCode(code: string) {
+        return code;
+    }
+
+    // Sends a request answered by a single reply. Resolves with `fallback` if the kernel isn't
+    // running or doesn't answer in time (older kernel servers ignore requests they don't know).
+    private query<R extends KernelMessage, T>(request: KernelRequest & { id: string }, read: (reply: R) => T, fallback: T): Promise<T> {
+        // A kernel that never started has an empty namespace; don't start one just to ask.
+        if (this.status === 'disconnected' || this.status === 'starting') return Promise.resolve(fallback);
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                this.queries.delete(request.id);
+                resolve(fallback);
+            }, QUERY_TIMEOUT_MS);
+            this.queries.set(request.id, reply => {
+                clearTimeout(timer);
+                resolve(reply ? read(reply as R) : fallback);
+            });
+            this.send(request);
+        });
+    }
+
+    getVariables(names?: string[]): Promise<Record<string, any>> {
+        return this.query({ type: 'variables_request', id: createMessageId(), names }, (reply: VariablesReplyMessage) => reply.variables || {}, {});
+    }
+
+    inspect(path?: VariablePath): Promise<VariableSummary[]> {
+        return this.query({ type: 'inspect_request', id: createMessageId(), path }, (reply: InspectReplyMessage) => reply.variables || [], []);
+    }
+
+    getTable(path: VariablePath, limit: number): Promise<VariableTable | null> {
+        return this.query({ type: 'table_request', id: createMessageId(), path, limit }, (reply: TableReplyMessage) => reply.table ?? null, null);
+    }
+
+    protected handleMessage(msg: KernelMessage) {
+        if (msg.type === 'status') {
+            this.setStatus(msg.status);
+            return;
+        }
+        if (msg.type === 'fs_request') {
+            this.handleFileRequest(msg);
+            return;
+        }
+        if (msg.type === 'variables_reply' || msg.type === 'inspect_reply' || msg.type === 'table_reply') {
+            const resolve = this.queries.get(msg.parentId);
+            this.queries.delete(msg.parentId);
+            resolve?.(msg);
+            return;
+        }
+        const request = this.pending.get(msg.parentId);
+        if (!request) return;
+        if (msg.type === 'execute_reply') {
+            this.pending.delete(msg.parentId);
+            request.resolve({ status: msg.status, executionCount: request.executionCount });
+            if (this.pending.size === 0 && this.status === 'busy') this.setStatus('idle');
+            return;
+        }
+        const { parentId, ...output } = msg;
+        request.onOutput(output.type === 'execute_result' ? { ...output, executionCount: request.executionCount } : output);
+    }
+
+    // Carries out a kernel's file operation on the workspace and answers it.
+    private async handleFileRequest(request: FileRequest) {
+        const reply: FileReply = { type: 'fs_reply', parentId: request.id };
+        const path = normalizePath(request.path);
+        try {
+            switch (request.op) {
+                case 'read': {
+                    const blob = await readWorkspaceFile(path);
+                    if (!blob) throw new Error(`No such file: ${path}`);
+                    reply.data = bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+                    break;
+                }
+                case 'write':
+                    await writeWorkspaceFile(path, new Blob([base64ToBytes(request.data || '')]));
+                    break;
+                case 'list': {
+                    const all = await listWorkspace();
+                    if (path && !all.some(e => e.path === path && e.kind === 'directory')) throw new Error(`No such folder: ${path}`);
+                    reply.entries = all.filter(e => e.path !== path && parentPath(e.path) === path)
+                        .map(e => ({ name: e.path.slice(path ? path.length + 1 : 0), kind: e.kind, size: e.size }));
+                    break;
+                }
+                case 'mkdir':
+                    await createWorkspaceFolder(path);
+                    break;
+                case 'delete':
+                    await removeWorkspaceEntry(path);
+                    break;
+                default:
+                    throw new Error(`Unknown file operation: ${(request as any).op}`);
+            }
+        } catch (e: any) {
+            reply.error = e?.message || String(e);
+        }
+        this.send(reply);
+    }
+
+    // Fails every in-flight execution, e.g. when the transport goes away underneath it.
+    protected abortPending(name: string, message: string) {
+        this.pending.forEach(({ onOutput, resolve, executionCount }) => {
+            onOutput({ type: 'error', name, message, traceback: [] });
+            resolve({ status: 'aborted', executionCount });
+        });
+        this.pending.clear();
+        this.queries.forEach(resolve => resolve(null));
+        this.queries.clear();
+    }
+
+    async interrupt() {
+        if (this.status === 'disconnected') return;
+        this.send({ type: 'interrupt_request' });
+    }
+
+    async restart() {
+        this.setStatus('restarting');
+        this.abortPending('KernelRestart', 'The kernel was restarted');
+        this.disconnect();
+        this.executionCount = 0;
+        try {
+            await this.connect();
+        } catch (e) {
+            this.setStatus('disconnected');
+            throw e;
+        }
+        this.setStatus('idle');
+    }
+
+    async shutdown() {
+        this.abortPending('KernelShutdown', 'The kernel was shut down');
+        this.disconnect();
+        this.setStatus('disconnected');
+    }
+}
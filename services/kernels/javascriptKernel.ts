@@ -0,0 +1,296 @@
+import { hoistTopLevelDeclarations } from '../jsSource';
+import { BaseKernel } from './baseKernel';
+import { KernelRequest } from './protocol';
+
+// Runs inside the Web Worker. It is stringified into a Blob, so it must not reference
+// anything from the enclosing module scope.
+function kernelWorkerMain() {
+    const scope: any = self;
+    let currentParentId: string | null = null;
+    // Everything on the global object before user code runs, so the namespace can be listed.
+    const builtinGlobals = new Set<string>([...Object.getOwnPropertyNames(scope), 'display', 'console', 'fs', 'onmessage']);
+
+    const formatValue = (value: any, depth = 0, seen = new WeakSet<object>()): string => {
+        if (value === null) return 'null';
+        if (value === undefined) return 'undefined';
+        const kind = typeof value;
+        if (kind === 'string') return depth === 0 ? value : JSON.stringify(value);
+        if (kind === 'number' || kind === 'boolean') return String(value);
+        if (kind === 'bigint') return `${value}n`;
+        if (kind === 'symbol') return value.toString();
+        if (kind === 'function') return `[Function: ${value.name || 'anonymous'}]`;
+        if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+        if (value instanceof Date) return value.toISOString();
+        if (value instanceof RegExp) return value.toString();
+        if (seen.has(value)) return '[Circular]';
+        if (depth > 3) return Array.isArray(value) ? '[Array]' : '[Object]';
+        seen.add(value);
+        if (Array.isArray(value)) {
+            const items = value.slice(0, 100).map(v => formatValue(v, depth + 1, seen));
+            if (value.length > 100) items.push(`... ${value.length - 100} more items`);
+            return `[ ${items.join(', ')} ]`;
+        }
+        if (value instanceof Map) {
+            const entries = Array.from(value.entries()).map(([k, v]) => `${formatValue(k, depth + 1, seen)} => ${formatValue(v, depth + 1, seen)}`);
+            return `Map(${value.size}) { ${entries.join(', ')} }`;
+        }
+        if (value instanceof Set) {
+            return `Set(${value.size}) { ${Array.from(value).map(v => formatValue(v, depth + 1, seen)).join(', ')} }`;
+        }
+        const ctorName = value.constructor && value.constructor !== Object ? `${value.constructor.name} ` : '';
+        const entries = Object.keys(value).map(k => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : JSON.stringify(k)}: ${formatValue(value[k], depth + 1, seen)}`);
+        return `${ctorName}{ ${entries.join(', ')} }`;
+    };
+
+    const toJsonSafe = (value: any) => {
+        try { return JSON.parse(JSON.stringify(value)); } catch { return undefined; }
+    };
+
+    // Mirrors the bundle shape produced by parseCodeOutputs so renderers treat both alike.
+    const toMimeBundle = (value: any) => {
+        const data: Record<string, any> = { 'text/plain': formatValue(value) };
+        const metadata: Record<string, any> = {};
+        if (value !== null && typeof value === 'object' && !(value instanceof Error)) {
+            const json = toJsonSafe(value);
+            if (json !== undefined) data['application/json'] = json;
+            if (Array.isArray(value) && value.length > 0 && value.every(row => row && typeof row === 'object' && !Array.isArray(row))) {
+                metadata.type = 'dataframe';
+                data['text/plain'] = `DataFrame (${value.length} rows, ${Object.keys(value[0]).length} cols)\n${data['text/plain']}`;
+            }
+        }
+        return { data, metadata };
+    };
+
+    // --- Variable inspector ---
+
+    const MAX_MEMBERS = 100;
+    const userGlobals = () => Object.getOwnPropertyNames(scope).filter(name => !builtinGlobals.has(name));
+    const isTypedArray = (value: any) => ArrayBuffer.isView(value) && !(value instanceof DataView);
+    const isRecord = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value) && !isTypedArray(value);
+
+    // The members a value can be drilled into, as [key, value] pairs.
+    const members = (value: any): [string | number, any][] => {
+        if (value === null || typeof value !== 'object' || value instanceof Date || value instanceof RegExp || value instanceof Error) return [];
+        if (Array.isArray(value) || isTypedArray(value)) return Array.from(value as ArrayLike<any>).slice(0, MAX_MEMBERS).map((v, i) => [i, v]);
+        if (value instanceof Map) return Array.from(value.entries()).slice(0, MAX_MEMBERS).map(([k, v]) => [typeof k === 'number' ? k : String(k), v]);
+        if (value instanceof Set) return Array.from(value).slice(0, MAX_MEMBERS).map((v, i) => [i, v]);
+        return Object.keys(value).slice(0, MAX_MEMBERS).map(k => [k, value[k]]);
+    };
+
+    const resolvePath = (path: (string | number)[]) => path.slice(1).reduce((value: any, key) => {
+        if (value instanceof Map) return Array.from(value.entries()).find(([k]) => String(k) === String(key))?.[1];
+        if (value instanceof Set) return Array.from(value)[Number(key)];
+        return value?.[key];
+    }, scope[path[0]]);
+
+    const shapeOf = (value: any): string | undefined => {
+        if (Array.isArray(value)) {
+            if (value.length > 0 && value.every(isRecord)) return `${value.length} × ${new Set(value.flatMap(row => Object.keys(row))).size}`;
+            if (value.length > 0 && value.every(Array.isArray)) return `${value.length} × ${Math.max(...value.map(row => row.length))}`;
+            return String(value.length);
+        }
+        if (isTypedArray(value)) return String(value.length);
+        if (value instanceof Map || value instanceof Set) return String(value.size);
+        return undefined;
+    };
+
+    const typeOf = (value: any) => {
+        if (value === null) return 'null';
+        if (typeof value !== 'object') return typeof value;
+        return value.constructor?.name || 'Object';
+    };
+
+    const summarize = (name: string | number, value: any) => {
+        const preview = formatValue(value, 1);
+        return {
+            name,
+            type: typeOf(value),
+            shape: shapeOf(value),
+            preview: preview.length > 200 ? `${preview.slice(0, 199)}…` : preview,
+            expandable: members(value).length > 0,
+            tabular: (Array.isArray(value) || isTypedArray(value)) && value.length > 0,
+        };
+    };
+
+    const tableCell = (value: any) => value === undefined ? null : value === null || typeof value !== 'object' ? value : formatValue(value, 1);
+
+    // Records become columns by key, arrays of arrays by position; anything else is one column.
+    const toTable = (value: any, limit: number) => {
+        if (!Array.isArray(value) && !isTypedArray(value)) return null;
+        const rows = Array.from(value as ArrayLike<any>).slice(0, limit);
+        let columns: string[];
+        let data: any[][];
+        if (rows.length > 0 && rows.every(isRecord)) {
+            columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+            data = rows.map(row => columns.map(c => tableCell(row[c])));
+        } else if (rows.length > 0 && rows.every(Array.isArray)) {
+            columns = Array.from({ length: Math.max(...rows.map(row => row.length)) }, (_, i) => String(i));
+            data = rows.map(row => columns.map((_, i) => tableCell(row[i])));
+        } else {
+            columns = ['value'];
+            data = rows.map(row => [tableCell(row)]);
+        }
+        return { columns, data, rowCount: value.length };
+    };
+
+    // --- Workspace files ---
+    // `fs` reads and writes the notebook's workspace (the Files panel). Each call is a
+    // round trip to the page, so every function returns a promise.
+
+    const fileRequests = new Map<string, { resolve: (reply: any) => void; reject: (error: Error) => void }>();
+    let fileRequestCount = 0;
+
+    const fileRequest = (op: string, path: string, data?: string) => new Promise<any>((resolve, reject) => {
+        const id = `fs-${++fileRequestCount}`;
+        fileRequests.set(id, { resolve, reject });
+        scope.postMessage({ type: 'fs_request', id, op, path: String(path ?? ''), data });
+    });
+
+    const toBase64 = (bytes: Uint8Array) => {
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        return btoa(binary);
+    };
+    const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), ch => ch.charCodeAt(0));
+
+    const toBytes = (data: any): Uint8Array => {
+        if (data instanceof Uint8Array) return data;
+        if (data instanceof ArrayBuffer) return new Uint8Array(data);
+        if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        return new TextEncoder().encode(typeof data === 'string' ? data : JSON.stringify(data, null, 2));
+    };
+
+    scope.fs = {
+        readBytes: async (path: string) => fromBase64((await fileRequest('read', path)).data || ''),
+        readText: async (path: string) => new TextDecoder().decode(await scope.fs.readBytes(path)),
+        readJSON: async (path: string) => JSON.parse(await scope.fs.readText(path)),
+        // Strings are written as UTF-8, bytes as they are, anything else as JSON.
+        writeFile: async (path: string, data: any) => { await fileRequest('write', path, toBase64(toBytes(data))); },
+        list: async (path = '') => (await fileRequest('list', path)).entries,
+        mkdir: async (path: string) => { await fileRequest('mkdir', path); },
+        remove: async (path: string) => { await fileRequest('delete', path); },
+    };
+
+    const post = (message: any) => scope.postMessage({ ...message, parentId: currentParentId });
+
+    const writeStream = (name: 'stdout' | 'stderr') => (...args: any[]) => {
+        post({ type: 'stream', name, text: args.map(a => formatValue(a)).join(' ') + '\n' });
+    };
+
+    scope.console = {
+        ...scope.console,
+        log: writeStream('stdout'),
+        info: writeStream('stdout'),
+        debug: writeStream('stdout'),
+        warn: writeStream('stderr'),
+        error: writeStream('stderr'),
+        table: (value: any) => post({ type: 'display_data', ...toMimeBundle(value) }),
+    };
+    scope.display = (value: any) => post({ type: 'display_data', ...toMimeBundle(value) });
+
+    const reportError = (err: any) => {
+        const error = err instanceof Error ? err : new Error(formatValue(err));
+        post({
+            type: 'error',
+            name: error.name,
+            message: error.message,
+            traceback: (error.stack || `${error.name}: ${error.message}`).split('\n'),
+        });
+    };
+
+    scope.onmessage = async (event: MessageEvent) => {
+        const msg = event.data;
+        if (msg.type === 'fs_reply') {
+            const request = fileRequests.get(msg.parentId);
+            fileRequests.delete(msg.parentId);
+            if (msg.error) request?.reject(new Error(msg.error));
+            else request?.resolve(msg);
+            return;
+        }
+        if (msg.type === 'variables_request') {
+            const names: string[] = msg.names || userGlobals();
+            const variables: Record<string, any> = {};
+            names.forEach(name => {
+                if (Object.prototype.hasOwnProperty.call(scope, name)) variables[name] = toJsonSafe(scope[name]);
+            });
+            scope.postMessage({ type: 'variables_reply', parentId: msg.id, variables });
+            return;
+        }
+        if (msg.type === 'inspect_request') {
+            let variables: any[] = [];
+            try {
+                variables = msg.path?.length
+                    ? members(resolvePath(msg.path)).map(([key, value]) => summarize(key, value))
+                    : userGlobals().filter(name => typeof scope[name] !== 'function').map(name => summarize(name, scope[name]));
+            } catch { /* e.g. a getter that throws; list nothing */ }
+            scope.postMessage({ type: 'inspect_reply', parentId: msg.id, variables });
+            return;
+        }
+        if (msg.type === 'table_request') {
+            let table = null;
+            try { table = toTable(resolvePath(msg.path), msg.limit); } catch { /* not tabular */ }
+            scope.postMessage({ type: 'table_reply', parentId: msg.id, table });
+            return;
+        }
+        if (msg.type !== 'execute_request') return;
+        currentParentId = msg.id;
+        let status: 'ok' | 'error' = 'ok';
+        try {
+            // Indirect eval runs in global scope and returns the completion value of the last statement.
+            let result = (0, eval)(msg.code);
+            if (result && typeof result.then === 'function') result = await result;
+            if (result !== undefined) post({ type: 'execute_result', ...toMimeBundle(result) });
+        } catch (err) {
+            status = 'error';
+            reportError(err);
+        }
+        post({ type: 'execute_reply', status });
+        currentParentId = null;
+    };
+
+    scope.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+        event.preventDefault();
+        reportError(event.reason);
+    });
+}
+
+// Runs JavaScript in a dedicated Web Worker. Top-level declarations are hoisted onto the
+// worker's global object so that variables persist between cells.
+export class JavaScriptKernel extends BaseKernel {
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+
+    protected async connect() {
+        const source = `(${kernelWorkerMain.toString()})();`;
+        this.workerUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+        this.worker = new Worker(this.workerUrl);
+        this.worker.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+        this.worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            this.abortPending('KernelError', event.message);
+        };
+    }
+
+    protected disconnect() {
+        this.worker?.terminate();
+        this.worker = null;
+        if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+        this.workerUrl = null;
+    }
+
+    protected send(request: KernelRequest) {
+        this.worker?.postMessage(request);
+    }
+
+    protected prepareCode(code: string) {
+        return hoistTopLevelDeclarations(code);
+    }
+
+    // A busy worker cannot be pre-empted, so interrupting means replacing the worker.
+    // The namespace is lost, exactly as with a restart.
+    async interrupt() {
+        if (this.status !== 'busy') return;
+        this.abortPending('KeyboardInterrupt', 'Execution interrupted; the JavaScript worker was restarted and its variables cleared');
+        await this.restart();
+    }
+}
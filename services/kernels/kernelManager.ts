@@ -0,0 +1,124 @@
+import { EnhancedCell, ExpandedCellType, KernelInfo, NotebookMetadata } from '../../components/Notebook';
+import { JavaScriptKernel } from './javascriptKernel';
+import { ExecuteReply, Kernel, KernelOutput, KernelStatus, VariablePath, VariableSummary, VariableTable } from './protocol';
+import { WebSocketKernel } from './websocketKernel';
+
+export type KernelFactory = (info: KernelInfo) => Kernel;
+
+// --- Kernel registry ---
+// Maps a KernelInfo id to the implementation that runs it in the browser. Kernels
+// without a local implementation are reached through the kernel gateway, if configured.
+
+const kernelFactories = new Map<string, KernelFactory>();
+
+export const registerKernelFactory = (kernelId: string, factory: KernelFactory) => {
+    kernelFactories.set(kernelId, factory);
+    return () => { kernelFactories.delete(kernelId); };
+};
+
+export const hasKernelFactory = (kernelId: string) => kernelFactories.has(kernelId);
+
+registerKernelFactory('javascript-node', info => new JavaScriptKernel(info));
+
+// Picks the kernel for a cell: an explicit `metadata.kernel` wins, then a kernel whose
+// language matches the cell's and which supports the cell type, then the notebook default.
+// Form cells bind their values with code, so they go to a kernel that runs code cells.
+export const resolveKernelInfo = (cell: EnhancedCell, metadata: NotebookMetadata): KernelInfo | undefined => {
+    const { kernels, defaultKernelId } = metadata;
+    if (cell.metadata?.kernel) return kernels.find(k => k.id === cell.metadata!.kernel);
+    const language = cell.content?.language || cell.language;
+    const cellType = cell.type === ExpandedCellType.Form ? ExpandedCellType.Code : cell.type;
+    const supportsCell = (k: KernelInfo) => !k.supportedCellTypes || k.supportedCellTypes.includes(cellType);
+    if (language) {
+        const byLanguage = kernels.find(k => k.language === language && supportsCell(k));
+        if (byLanguage) return byLanguage;
+    }
+    const defaultKernel = kernels.find(k => k.id === defaultKernelId);
+    if (defaultKernel && supportsCell(defaultKernel) && (!language || defaultKernel.language === language)) return defaultKernel;
+    return language ? undefined : kernels.find(supportsCell);
+};
+
+export interface KernelManagerOptions {
+    // Base URL of a kernel server, e.g. ws://localhost:8765. Kernels are reached at `${gatewayUrl}/kernels/${id}`.
+    gatewayUrl?: string;
+}
+
+// Owns the running kernel instances for a notebook and relays their status changes.
+export class KernelManager {
+    private kernels = new Map<string, Kernel>();
+    private listeners = new Set<(kernelId: string, status: KernelStatus) => void>();
+
+    constructor(private options: KernelManagerOptions = {}) {}
+
+    setGatewayUrl(gatewayUrl?: string) {
+        if (gatewayUrl === this.options.gatewayUrl) return;
+        this.options = { ...this.options, gatewayUrl };
+        // Remote kernels were bound to the old gateway; drop them so they reconnect lazily.
+        this.kernels.forEach((kernel, id) => {
+            if (kernel instanceof WebSocketKernel) {
+                kernel.shutdown();
+                this.kernels.delete(id);
+            }
+        });
+    }
+
+    onStatusChange(listener: (kernelId: string, status: KernelStatus) => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    canRun(info: KernelInfo) {
+        return hasKernelFactory(info.id) || !!this.options.gatewayUrl;
+    }
+
+    getKernel(info: KernelInfo): Kernel {
+        const existing = this.kernels.get(info.id);
+        if (existing) return existing;
+        const factory = kernelFactories.get(info.id);
+        let kernel: Kernel;
+        if (factory) {
+            kernel = factory(info);
+        } else if (this.options.gatewayUrl) {
+            kernel = new WebSocketKernel(info, `${this.options.gatewayUrl.replace(/\/$/, '')}/kernels/${encodeURIComponent(info.id)}`);
+        } else {
+            throw new Error(`No kernel implementation for "${info.name}" and no kernel gateway configured`);
+        }
+        kernel.onStatusChange(status => this.listeners.forEach(listener => listener(info.id, status)));
+        this.kernels.set(info.id, kernel);
+        return kernel;
+    }
+
+    execute(info: KernelInfo, code: string, onOutput: (output: KernelOutput) => void): Promise<ExecuteReply> {
+        return this.getKernel(info).execute(code, onOutput);
+    }
+
+    // Current values of kernel globals; empty for kernels that have not been started.
+    async getVariables(kernelId: string, names?: string[]): Promise<Record<string, any>> {
+        const kernel = this.kernels.get(kernelId);
+        return kernel ? kernel.getVariables(names) : {};
+    }
+
+    // For the variable inspector; empty (or null) for kernels that have not been started.
+    async inspect(kernelId: string, path?: VariablePath): Promise<VariableSummary[]> {
+        const kernel = this.kernels.get(kernelId);
+        return kernel ? kernel.inspect(path) : [];
+    }
+
+    async getTable(kernelId: string, path: VariablePath, limit: number): Promise<VariableTable | null> {
+        const kernel = this.kernels.get(kernelId);
+        return kernel ? kernel.getTable(path, limit) : null;
+    }
+
+    async interrupt(kernelId: string) {
+        await this.kernels.get(kernelId)?.interrupt();
+    }
+
+    async restart(kernelId: string) {
+        await this.kernels.get(kernelId)?.restart();
+    }
+
+    async shutdownAll() {
+        await Promise.all(Array.from(this.kernels.values()).map(kernel => kernel.shutdown()));
+        this.kernels.clear();
+    }
+}
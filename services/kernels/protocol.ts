@@ -0,0 +1,188 @@
+import { KernelInfo } from '../../components/Notebook';
+
+// Wire protocol spoken between the notebook and every kernel backend, whether the
+// backend is a Web Worker in this tab or a process behind a WebSocket. Messages are
+// plain JSON objects modelled on the Jupyter messaging spec, flattened for brevity.
+
+export type KernelStatus = KernelInfo['status'];
+
+// --- Requests (notebook -> kernel) ---
+
+export interface ExecuteRequest {
+    type: 'execute_request';
+    id: string;
+    code: string;
+}
+
+export interface InterruptRequest {
+    type: 'interrupt_request';
+}
+
+export interface RestartRequest {
+    type: 'restart_request';
+}
+
+// Asks for the JSON-safe values of names in the kernel namespace (all user names if omitted).
+export interface VariablesRequest {
+    type: 'variables_request';
+    id: string;
+    names?: string[];
+}
+
+// Keys (property names or indexes) leading from a global to a value inside it.
+export type VariablePath = (string | number)[];
+
+// Asks for summaries of the namespace, or of the members of the value at `path`.
+export interface InspectRequest {
+    type: 'inspect_request';
+    id: string;
+    path?: VariablePath;
+}
+
+// Asks for the value at `path` as a table, e.g. to show a dataframe or an array in a grid.
+export interface TableRequest {
+    type: 'table_request';
+    id: string;
+    path: VariablePath;
+    // At most this many rows are sent.
+    limit: number;
+}
+
+// Answers a kernel's FileRequest.
+export interface FileReply {
+    type: 'fs_reply';
+    parentId: string;
+    // Set when the operation failed, e.g. the file doesn't exist.
+    error?: string;
+    // read: the file's contents, base64-encoded.
+    data?: string;
+    // list: the entries directly inside the folder.
+    entries?: { name: string; kind: 'file' | 'directory'; size: number }[];
+}
+
+export type KernelRequest = ExecuteRequest | InterruptRequest | RestartRequest | VariablesRequest | InspectRequest | TableRequest | FileReply;
+
+// --- Replies and broadcasts (kernel -> notebook) ---
+
+export interface StreamMessage {
+    type: 'stream';
+    parentId: string;
+    name: 'stdout' | 'stderr';
+    text: string;
+}
+
+export interface ExecuteResultMessage {
+    type: 'execute_result';
+    parentId: string;
+    data: Record<string, any>;
+    metadata: Record<string, any>;
+}
+
+export interface DisplayDataMessage {
+    type: 'display_data';
+    parentId: string;
+    data: Record<string, any>;
+    metadata: Record<string, any>;
+}
+
+export interface ErrorMessage {
+    type: 'error';
+    parentId: string;
+    name: string;
+    message: string;
+    traceback: string[];
+}
+
+export interface ExecuteReplyMessage {
+    type: 'execute_reply';
+    parentId: string;
+    status: 'ok' | 'error' | 'aborted';
+}
+
+export interface StatusMessage {
+    type: 'status';
+    status: KernelStatus;
+}
+
+export interface VariablesReplyMessage {
+    type: 'variables_reply';
+    parentId: string;
+    variables: Record<string, any>;
+}
+
+// A variable as the variable inspector lists it. The kernel describes values in its own
+// language's terms: `type` is e.g. "int", "DataFrame" or "Array".
+export interface VariableSummary {
+    // The variable name, or the key or index within the value being inspected.
+    name: string | number;
+    type: string;
+    // "3 × 4" for tables and matrices, "12" for other collections.
+    shape?: string;
+    preview: string;
+    // Has members that can be inspected in turn.
+    expandable: boolean;
+    // Can be shown as a table (table_request).
+    tabular: boolean;
+}
+
+export interface InspectReplyMessage {
+    type: 'inspect_reply';
+    parentId: string;
+    variables: VariableSummary[];
+}
+
+export interface VariableTable {
+    columns: string[];
+    data: any[][];
+    // Rows in the value, which may be more than were sent.
+    rowCount: number;
+}
+
+export interface TableReplyMessage {
+    type: 'table_reply';
+    parentId: string;
+    // Null when the value is gone or isn't tabular.
+    table: VariableTable | null;
+}
+
+// Kernel code reading or writing the workspace files (services/vfs.ts). The notebook carries
+// out the operation and sends back an fs_reply, so every kernel sees the same files.
+export interface FileRequest {
+    type: 'fs_request';
+    id: string;
+    op: 'read' | 'write' | 'list' | 'mkdir' | 'delete';
+    path: string;
+    // write: the new contents, base64-encoded.
+    data?: string;
+}
+
+export type KernelMessage = FileRequest | StreamMessage | ExecuteResultMessage | DisplayDataMessage | ErrorMessage | ExecuteReplyMessage | StatusMessage | VariablesReplyMessage | InspectReplyMessage | TableReplyMessage;
+
+// Cell outputs are the output messages minus their routing information.
+export type KernelOutput =
+    | Omit<StreamMessage, 'parentId'>
+    | (Omit<ExecuteResultMessage, 'parentId'> & { executionCount: number })
+    | Omit<DisplayDataMessage, 'parentId'>
+    | Omit<ErrorMessage, 'parentId'>;
+
+export interface ExecuteReply {
+    status: 'ok' | 'error' | 'aborted';
+    executionCount: number;
+}
+
+export interface Kernel {
+    readonly info: KernelInfo;
+    readonly status: KernelStatus;
+    start(): Promise<void>;
+    execute(code: string, onOutput: (output: KernelOutput) => void): Promise<ExecuteReply>;
+    interrupt(): Promise<void>;
+    restart(): Promise<void>;
+    shutdown(): Promise<void>;
+    // Values of names in the kernel namespace; names that are not defined are left out.
+    getVariables(names?: string[]): Promise<Record<string, any>>;
+    inspect(path?: VariablePath): Promise<VariableSummary[]>;
+    getTable(path: VariablePath, limit: number): Promise<VariableTable | null>;
+    onStatusChange(listener: (status: KernelStatus) => void): () => void;
+}
+
+export const createMessageId = () => `msg-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
@@ -0,0 +1,69 @@
+import { KernelInfo } from '../../components/Notebook';
+import { BaseKernel } from './baseKernel';
+import { KernelRequest } from './protocol';
+
+// Talks to a remote kernel process (see server/kernelServer.mjs) over a WebSocket.
+// Each connection owns one kernel; the server is expected to speak the JSON protocol
+// in ./protocol.ts.
+export class WebSocketKernel extends BaseKernel {
+    private socket: WebSocket | null = null;
+
+    constructor(info: KernelInfo, private readonly url: string) {
+        super(info);
+    }
+
+    protected connect() {
+        return new Promise<void>((resolve, reject) => {
+            const socket = new WebSocket(this.url);
+            let opened = false;
+            socket.onopen = () => {
+                opened = true;
+                resolve();
+            };
+            socket.onmessage = (event: MessageEvent) => {
+                // Like the server, drop anything that isn't JSON.
+                let message: any;
+                try {
+                    message = JSON.parse(event.data);
+                } catch {
+                    return;
+                }
+                this.handleMessage(message);
+            };
+            socket.onerror = () => {
+                if (!opened) reject(new Error(`Could not connect to kernel at ${this.url}`));
+            };
+            socket.onclose = () => {
+                // Only react to drops of the live socket, not to sockets we replaced ourselves.
+                if (this.socket !== socket) return;
+                this.socket = null;
+                this.abortPending('KernelDisconnected', 'Lost connection to the kernel server');
+                this.setStatus('disconnected');
+            };
+            this.socket = socket;
+        });
+    }
+
+    protected disconnect() {
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close();
+    }
+
+    protected send(request: KernelRequest) {
+        if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+            this.abortPending('KernelDisconnected', 'The kernel server is not connected');
+            return;
+        }
+        this.socket.send(JSON.stringify(request));
+    }
+
+    // The server restarts the process in place, keeping the connection open.
+    async restart() {
+        if (!this.socket) return super.restart();
+        this.setStatus('restarting');
+        this.abortPending('KernelRestart', 'The kernel was restarted');
+        this.executionCount = 0;
+        this.send({ type: 'restart_request' });
+    }
+}
@@ -0,0 +1,171 @@
+// Keyboard shortcuts. A binding maps a key sequence (`'Ctrl+Shift+P'`, `'Shift+Enter'`, `'D D'`)
+// to a command id and says in which mode it applies. Modes follow Jupyter: in edit mode a cell's
+// editor has focus; in command mode keys act on the active cell as a whole.
+
+export type KeyMode = 'command' | 'edit';
+
+// 'notebook' = command or edit mode; 'global' also applies while other inputs (dialogs, the
+// sidebar) have focus.
+export type KeybindingScope = KeyMode | 'notebook' | 'global';
+
+export interface Keybinding {
+    key: string;
+    command: string;
+    when?: KeybindingScope;
+}
+
+export const DEFAULT_KEYBINDINGS: Keybinding[] = [
+    { key: 'Ctrl+Shift+P', command: 'palette.open', when: 'global' },
+    { key: 'Ctrl+K', command: 'palette.open', when: 'global' },
+    { key: 'Ctrl+S', command: 'notebook.save', when: 'global' },
+    { key: 'Ctrl+Z', command: 'notebook.undo' },
+    { key: 'Ctrl+Shift+Z', command: 'notebook.redo' },
+    { key: 'Ctrl+Y', command: 'notebook.redo' },
+    { key: 'Ctrl+F', command: 'find.open' },
+    { key: 'Ctrl+H', command: 'find.replace' },
+    { key: 'Shift+Enter', command: 'cell.runAndAdvance' },
+    { key: 'Ctrl+Enter', command: 'cell.run' },
+    { key: 'Ctrl+Alt+M', command: 'cell.comment', when: 'global' },
+    { key: 'Alt+Enter', command: 'cell.runAndInsertBelow' },
+    { key: 'Escape', command: 'mode.command', when: 'edit' },
+    { key: 'Enter', command: 'mode.edit', when: 'command' },
+    { key: 'A', command: 'cell.insertAbove', when: 'command' },
+    { key: 'B', command: 'cell.insertBelow', when: 'command' },
+    { key: 'D D', command: 'cell.delete', when: 'command' },
+    { key: 'M', command: 'cell.toMarkdown', when: 'command' },
+    { key: 'Y', command: 'cell.toCode', when: 'command' },
+    { key: 'K', command: 'cell.selectPrevious', when: 'command' },
+    { key: 'ArrowUp', command: 'cell.selectPrevious', when: 'command' },
+    { key: 'J', command: 'cell.selectNext', when: 'command' },
+    { key: 'ArrowDown', command: 'cell.selectNext', when: 'command' },
+    { key: 'Ctrl+Shift+ArrowUp', command: 'cell.moveUp', when: 'command' },
+    { key: 'Ctrl+Shift+ArrowDown', command: 'cell.moveDown', when: 'command' },
+    { key: 'I I', command: 'kernel.interrupt', when: 'command' },
+    { key: '0 0', command: 'kernel.restart', when: 'command' },
+    { key: 'H', command: 'help.shortcuts', when: 'command' },
+    { key: 'O', command: 'cell.toggleOutput', when: 'command' },
+    { key: 'F', command: 'find.replace', when: 'command' },
+];
+
+// --- Key names ---
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'CapsLock', 'Dead']);
+const KEY_ALIASES: Record<string, string> = { ' ': 'Space', Esc: 'Escape', Up: 'ArrowUp', Down: 'ArrowDown', Left: 'ArrowLeft', Right: 'ArrowRight', Del: 'Delete' };
+
+// `Ctrl+Shift+P` for a keydown event, or null for a lone modifier. Cmd counts as Ctrl so the
+// same bindings work on macOS.
+export const eventToChord = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+    if (MODIFIER_KEYS.has(e.key)) return null;
+    let key = KEY_ALIASES[e.key] || e.key;
+    if (key.length === 1) key = key.toUpperCase();
+    const parts: string[] = [];
+    if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey) parts.push('Shift');
+    parts.push(key);
+    return parts.join('+');
+};
+
+// Canonical form of a typed binding: modifiers in a fixed order, `Cmd`/`Meta` read as Ctrl.
+export const normalizeKeySequence = (sequence: string): string =>
+    sequence.trim().split(/\s+/).filter(Boolean).map(chord => {
+        const parts = chord.split('+').map(p => p.trim()).filter(Boolean);
+        const key = parts.pop() || '';
+        const mods = new Set(parts.map(p => p.toLowerCase()));
+        const result: string[] = [];
+        if (mods.has('ctrl') || mods.has('cmd') || mods.has('meta') || mods.has('mod')) result.push('Ctrl');
+        if (mods.has('alt') || mods.has('option')) result.push('Alt');
+        if (mods.has('shift')) result.push('Shift');
+        const name = KEY_ALIASES[key] || key;
+        result.push(name.length === 1 ? name.toUpperCase() : name.charAt(0).toUpperCase() + name.slice(1));
+        return result.join('+');
+    }).join(' ');
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+
+// Display form, e.g. `⌘⇧P` on macOS.
+export const formatKeySequence = (sequence: string) => {
+    if (!isMac()) return sequence.replace(/ /g, ', ');
+    return sequence.split(' ').map(chord => chord
+        .replace(/Ctrl\+/g, '⌘').replace(/Alt\+/g, '⌥').replace(/Shift\+/g, '⇧')
+        .replace('ArrowUp', '↑').replace('ArrowDown', '↓').replace('Enter', '↩').replace('Escape', 'Esc')).join(', ');
+};
+
+// --- User overrides ---
+// Stored per browser as { commandId: keys[] }; a command listed here loses its default keys.
+
+const OVERRIDES_KEY = 'universal-notebook:keybindings';
+
+export type KeybindingOverrides = Record<string, string[]>;
+
+export const loadKeybindingOverrides = (): KeybindingOverrides => {
+    try {
+        const raw = localStorage.getItem(OVERRIDES_KEY);
+        const parsed = raw ? JSON.parse(raw) : {};
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+export const saveKeybindingOverrides = (overrides: KeybindingOverrides) => {
+    try { localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides)); } catch { /* storage may be disabled */ }
+};
+
+// Defaults (plus shortcuts declared by registered commands) with user overrides applied.
+// Overridden keys keep the scope of the command's first default binding.
+export const resolveKeybindings = (defaults: Keybinding[], overrides: KeybindingOverrides): Keybinding[] => {
+    const result = defaults.filter(b => !(b.command in overrides));
+    Object.entries(overrides).forEach(([command, keys]) => {
+        const when = defaults.find(b => b.command === command)?.when;
+        keys.forEach(key => result.push({ key: normalizeKeySequence(key), command, when }));
+    });
+    return result.map(b => ({ ...b, key: normalizeKeySequence(b.key) }));
+};
+
+export const keysForCommand = (bindings: Keybinding[], command: string) => bindings.filter(b => b.command === command).map(b => b.key);
+
+// --- Dispatch ---
+
+export type FocusMode = KeyMode | 'other';
+
+const scopeApplies = (scope: KeybindingScope = 'notebook', mode: FocusMode) =>
+    scope === 'global' || (mode !== 'other' && (scope === 'notebook' || scope === mode));
+
+const SEQUENCE_TIMEOUT_MS = 1000;
+
+// Tracks multi-key sequences such as `D D`. `handle` returns the command to run, 'pending' when
+// the chord starts a longer sequence, or null when nothing matched.
+export class KeySequenceMatcher {
+    private pending: string[] = [];
+    private pendingAt = 0;
+
+    handle(chord: string, mode: FocusMode, bindings: Keybinding[], isAvailable: (command: string) => boolean): string | 'pending' | null {
+        if (this.pending.length > 0 && Date.now() - this.pendingAt > SEQUENCE_TIMEOUT_MS) this.pending = [];
+        const candidates = bindings.filter(b => scopeApplies(b.when, mode) && isAvailable(b.command));
+        const attempt = (sequence: string[]) => {
+            const joined = sequence.join(' ');
+            const exact = candidates.find(b => b.key === joined);
+            if (exact) return exact.command;
+            return candidates.some(b => b.key.startsWith(`${joined} `)) ? 'pending' : null;
+        };
+        let result = attempt([...this.pending, chord]);
+        let sequence = [...this.pending, chord];
+        if (result === null && this.pending.length > 0) {
+            // A broken sequence: the key may still start or be a binding of its own.
+            sequence = [chord];
+            result = attempt(sequence);
+        }
+        if (result === 'pending') {
+            this.pending = sequence;
+            this.pendingAt = Date.now();
+        } else {
+            this.pending = [];
+        }
+        return result;
+    }
+
+    reset() {
+        this.pending = [];
+    }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { EnhancedCell, ExpandedCellType } from '../components/Notebook';
+import { fromIpynb, NAMESPACE, NbDocument, toIpynb } from './nbformat';
+
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+// A notebook as Jupyter writes it, with something of every kind the converter maps.
+const jupyterNotebook = (): NbDocument => ({
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: {
+        kernelspec: { name: 'python3', display_name: 'Python 3', language: 'python' },
+        language_info: { name: 'python', version: '3.11.4' },
+        colab: { provenance: [] },
+    },
+    cells: [
+        {
+            id: 'intro',
+            cell_type: 'markdown',
+            metadata: { tags: ['intro'], editable: true },
+            source: ['# Title\n', '\n', '![plot](attachment:plot.png)'],
+            attachments: { 'plot.png': { 'image/png': PNG } },
+        },
+        {
+            id: 'code-1',
+            cell_type: 'code',
+            execution_count: 0,
+            metadata: { collapsed: false, jupyter: { source_hidden: true, outputs_hidden: true }, scrolled: true, custom_tool: { keep: 1 } },
+            source: ['import pandas as pd\n', 'df = pd.DataFrame({"a": [1, 2]})\n', 'df'],
+            outputs: [
+                { output_type: 'stream', name: 'stdout', text: ['loading\n', 'done\n'] },
+                { output_type: 'stream', name: 'stderr', text: ['warning: slow\n'] },
+                {
+                    output_type: 'execute_result',
+                    execution_count: 0,
+                    data: { 'text/plain': ['   a\n', '0  1\n', '1  2'], 'text/html': ['<table>\n', '</table>'], 'application/json': { a: [1, 2] } },
+                    metadata: { 'text/html': { isolated: true } },
+                },
+                { output_type: 'display_data', data: { 'image/png': PNG, 'text/plain': ['<Figure>'] }, metadata: { 'image/png': { width: 640 } } },
+                { output_type: 'error', ename: 'ValueError', evalue: 'bad', traceback: ['Traceback', 'ValueError: bad'] },
+            ],
+        },
+        {
+            id: 'locked',
+            cell_type: 'code',
+            execution_count: null,
+            metadata: { editable: false, collapsed: true, tags: ['parameters'] },
+            source: ['x = 1'],
+            outputs: [],
+        },
+        { id: 'raw-1', cell_type: 'raw', metadata: { format: 'text/latex' }, source: ['\\section{Raw}'] },
+    ],
+});
+
+const withoutNamespace = (metadata: Record<string, any>) => {
+    const { [NAMESPACE]: _namespace, ...rest } = metadata;
+    return rest;
+};
+
+describe('ipynb round trip', () => {
+    it('writes back the cells it read', () => {
+        const original = jupyterNotebook();
+        const { cells, metadata } = fromIpynb(JSON.stringify(original));
+        const exported = toIpynb(cells, metadata);
+        expect(exported.cells).toEqual(original.cells);
+    });
+
+    it('keeps notebook metadata it does not use', () => {
+        const original = jupyterNotebook();
+        const { cells, metadata } = fromIpynb(original);
+        const exported = toIpynb(cells, metadata);
+        expect(withoutNamespace(exported.metadata)).toEqual(original.metadata);
+        expect(exported.nbformat).toBe(4);
+        expect(exported.nbformat_minor).toBe(5);
+    });
+
+    it('reads outputs, attachments and display flags into cells', () => {
+        const { cells } = fromIpynb(jupyterNotebook());
+        const [markdown, code, locked, raw] = cells;
+
+        expect(markdown.type).toBe(ExpandedCellType.Markdown);
+        expect(markdown.attachments?.['plot.png']['image/png']).toBe(PNG);
+        expect(markdown.metadata?.readOnly).toBe(false);
+
+        expect(code.content).toEqual({ code: 'import pandas as pd\ndf = pd.DataFrame({"a": [1, 2]})\ndf', language: 'python' });
+        expect(code.executionCount).toBe(0);
+        expect(code.metadata).toMatchObject({ hideCode: true, hideOutput: true, collapsed: false, scrolled: true, custom_tool: { keep: 1 } });
+        expect(code.outputs).toEqual([
+            { type: 'stream', name: 'stdout', text: 'loading\ndone\n' },
+            { type: 'stream', name: 'stderr', text: 'warning: slow\n' },
+            {
+                type: 'execute_result',
+                data: { 'text/plain': '   a\n0  1\n1  2', 'text/html': '<table>\n</table>', 'application/json': { a: [1, 2] } },
+                metadata: { 'text/html': { isolated: true } },
+                executionCount: 0,
+            },
+            { type: 'display_data', data: { 'image/png': PNG, 'text/plain': '<Figure>' }, metadata: { 'image/png': { width: 640 } } },
+            { type: 'error', name: 'ValueError', message: 'bad', traceback: ['Traceback', 'ValueError: bad'] },
+        ]);
+
+        expect(locked.metadata).toMatchObject({ readOnly: true, collapsed: true, tags: ['parameters'] });
+        expect(locked.executionCount).toBeUndefined();
+
+        expect(raw.type).toBe(ExpandedCellType.Markdown);
+        expect(raw.content).toBe('\\section{Raw}');
+    });
+
+    it('survives a second round trip unchanged', () => {
+        const first = fromIpynb(jupyterNotebook());
+        const once = toIpynb(first.cells, first.metadata);
+        const second = fromIpynb(JSON.parse(JSON.stringify(once)));
+        expect(toIpynb(second.cells, second.metadata)).toEqual(once);
+    });
+});
+
+describe('cells to ipynb and back', () => {
+    const notebook = () => fromIpynb(jupyterNotebook()).metadata;
+
+    it('restores cell types Jupyter has no slot for', () => {
+        const drawing: EnhancedCell = {
+            id: 'sketch',
+            type: ExpandedCellType.Drawing,
+            content: { width: 800, height: 480, background: '#ffffff', layers: [{ id: 'layer-1', name: 'Layer 1', visible: true, locked: false }], shapes: [] },
+            metadata: { tags: ['figure'] },
+            executionCount: 0,
+        };
+        const sql: EnhancedCell = {
+            id: 'query',
+            type: ExpandedCellType.SQL,
+            content: { query: 'select 1' },
+            outputs: [{ type: 'execute_result', data: { 'application/json': [{ one: 1 }] }, metadata: { type: 'dataframe' } }],
+            executionCount: 3,
+        };
+        const doc = toIpynb([drawing, sql], notebook());
+        expect(doc.cells.every(cell => cell.cell_type === 'markdown')).toBe(true);
+
+        const { cells } = fromIpynb(JSON.parse(JSON.stringify(doc)));
+        expect(cells[0]).toMatchObject({ id: 'sketch', type: ExpandedCellType.Drawing, content: drawing.content, executionCount: 0, metadata: { tags: ['figure'] } });
+        expect(cells[1]).toMatchObject({ id: 'query', type: ExpandedCellType.SQL, content: sql.content, outputs: sql.outputs, executionCount: 3 });
+    });
+
+    it('keeps comments, authorship, timing and version history', () => {
+        const cell: EnhancedCell = {
+            id: 'annotated',
+            type: ExpandedCellType.Code,
+            content: { code: 'print(1)', language: 'python' },
+            outputs: [],
+            author: 'Ada',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            lastModified: '2024-01-02T00:00:00.000Z',
+            executionTime: { start: '2024-01-02T00:00:00.000Z', end: '2024-01-02T00:00:01.000Z', durationMs: 1000 },
+            comments: [{ id: 'c1', author: 'Grace', timestamp: '2024-01-02T00:00:00.000Z', text: 'Looks good', replies: [] }],
+            versions: [{ timestamp: '2024-01-01T00:00:00.000Z', author: 'Ada', content: { code: 'print(0)', language: 'python' } }],
+        };
+        const { cells } = fromIpynb(JSON.parse(JSON.stringify(toIpynb([cell], notebook()))));
+        const { status: _status, metadata: _metadata, ...restored } = cells[0];
+        expect(restored).toEqual(cell);
+    });
+
+    it('writes code in another language than the kernel with its language', () => {
+        const cell: EnhancedCell = { id: 'js', type: ExpandedCellType.Code, content: { code: '1 + 1', language: 'javascript' }, outputs: [] };
+        const doc = toIpynb([cell], notebook());
+        expect(doc.cells[0].metadata[NAMESPACE]).toEqual({ language: 'javascript' });
+        expect(fromIpynb(doc).cells[0].content).toEqual({ code: '1 + 1', language: 'javascript' });
+    });
+
+    it('rejects documents that are not nbformat 4', () => {
+        expect(() => fromIpynb({ nbformat: 3, nbformat_minor: 0, metadata: {}, cells: [] })).toThrow(/nbformat version 3/);
+        expect(() => fromIpynb('{"metadata": {}}')).toThrow(/missing "cells"/);
+    });
+});
@@ -0,0 +1,277 @@
+import { EnhancedCell, ExpandedCellType, generateUniqueId, getAvailableKernels, NotebookMetadata } from '../components/Notebook';
+
+// Conversion between our notebook model and Jupyter's nbformat 4 JSON.
+// Anything nbformat has no slot for (custom cell types, comments, sharing settings...)
+// is stored under a namespaced metadata key so that a round trip is lossless.
+
+export const NAMESPACE = 'universal_notebook';
+
+type MultilineString = string | string[];
+
+export interface NbOutput {
+    output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+    [key: string]: any;
+}
+
+export interface NbCell {
+    id?: string;
+    cell_type: 'code' | 'markdown' | 'raw';
+    metadata: Record<string, any>;
+    source: MultilineString;
+    attachments?: Record<string, Record<string, MultilineString>>;
+    outputs?: NbOutput[];
+    execution_count?: number | null;
+}
+
+export interface NbDocument {
+    nbformat: number;
+    nbformat_minor: number;
+    metadata: Record<string, any>;
+    cells: NbCell[];
+}
+
+// Cell fields that only we understand, carried in the namespace on every cell.
+const EXTRA_CELL_FIELDS = ['comments', 'author', 'visibility', 'createdAt', 'lastModified', 'executionTime', 'versions'] as const;
+
+// Notebook fields that do not map onto nbformat's own metadata.
+const EXTRA_NOTEBOOK_FIELDS = ['id', 'description', 'author', 'createdAt', 'lastModified', 'visibility', 'sharedWith', 'defaultKernelId', 'theme', 'settings', 'plugins', 'version', 'resourceLimits', 'deploymentTargets', 'integrations'] as const;
+
+const isJsonMime = (mime: string) => mime === 'application/json' || mime.endsWith('+json');
+
+// Like Jupyter, only text formats are written as a list of lines; base64 data stays one string.
+const isMultilineMime = (mime: string) => mime.startsWith('text/') || mime === 'image/svg+xml' || mime === 'application/javascript';
+
+const joinMultiline = (value: MultilineString | undefined) => Array.isArray(value) ? value.join('') : (value ?? '');
+
+// nbformat convention: multiline strings are stored as a list of lines, each keeping its newline.
+const splitMultiline = (value: string): string[] => {
+    if (!value) return [];
+    const lines = value.split('\n');
+    return lines.map((line, i) => i < lines.length - 1 ? `${line}\n` : line).filter(line => line !== '');
+};
+
+const normalizeMimeBundle = (data: Record<string, any> = {}) => {
+    const result: Record<string, any> = {};
+    Object.entries(data).forEach(([mime, value]) => {
+        result[mime] = isJsonMime(mime) || !Array.isArray(value) ? value : value.join('');
+    });
+    return result;
+};
+
+const denormalizeMimeBundle = (data: Record<string, any> = {}) => {
+    const result: Record<string, any> = {};
+    Object.entries(data).forEach(([mime, value]) => {
+        result[mime] = typeof value === 'string' && isMultilineMime(mime) ? splitMultiline(value) : value;
+    });
+    return result;
+};
+
+const outputFromNb = (output: NbOutput): any => {
+    switch (output.output_type) {
+        case 'stream':
+            return { type: 'stream', name: output.name, text: joinMultiline(output.text) };
+        case 'execute_result':
+            return { type: 'execute_result', data: normalizeMimeBundle(output.data), metadata: output.metadata || {}, executionCount: output.execution_count ?? undefined };
+        case 'display_data':
+            return { type: 'display_data', data: normalizeMimeBundle(output.data), metadata: output.metadata || {} };
+        case 'error':
+            return { type: 'error', name: output.ename, message: output.evalue, traceback: output.traceback || [] };
+        default:
+            return { ...output, type: (output as any).output_type };
+    }
+};
+
+const outputToNb = (output: any): NbOutput | null => {
+    switch (output?.type) {
+        case 'stream':
+            return { output_type: 'stream', name: output.name || 'stdout', text: splitMultiline(output.text || '') };
+        case 'execute_result':
+            return { output_type: 'execute_result', execution_count: output.executionCount ?? null, data: denormalizeMimeBundle(output.data), metadata: output.metadata || {} };
+        case 'display_data':
+            return { output_type: 'display_data', data: denormalizeMimeBundle(output.data), metadata: output.metadata || {} };
+        case 'error':
+            return { output_type: 'error', ename: output.name || 'Error', evalue: output.message || '', traceback: output.traceback || [] };
+        default:
+            return null;
+    }
+};
+
+// Jupyter keeps display flags in well-known metadata keys; lift them into ours.
+const cellMetadataFromNb = (nbMetadata: Record<string, any> = {}) => {
+    const { jupyter, tags, editable, collapsed, [NAMESPACE]: _namespace, ...rest } = nbMetadata;
+    const metadata: EnhancedCell['metadata'] = { ...rest };
+    const { source_hidden, outputs_hidden, ...otherJupyter } = jupyter || {};
+    if (Object.keys(otherJupyter).length > 0) metadata.jupyter = otherJupyter;
+    if (source_hidden) metadata.hideCode = true;
+    if (outputs_hidden) metadata.hideOutput = true;
+    // Explicit values are kept so that they are written back as they were.
+    if (typeof collapsed === 'boolean') metadata.collapsed = collapsed;
+    if (typeof editable === 'boolean') metadata.readOnly = !editable;
+    if (Array.isArray(tags)) metadata.tags = [...tags];
+    return metadata;
+};
+
+const cellMetadataToNb = (metadata: EnhancedCell['metadata'] = {}) => {
+    const { hideCode, hideOutput, collapsed, readOnly, tags, jupyter, ...rest } = metadata;
+    const nbMetadata: Record<string, any> = { ...rest };
+    const jupyterMeta = { ...(jupyter || {}) };
+    if (hideCode) jupyterMeta.source_hidden = true;
+    if (hideOutput) jupyterMeta.outputs_hidden = true;
+    if (Object.keys(jupyterMeta).length > 0) nbMetadata.jupyter = jupyterMeta;
+    if (collapsed !== undefined) nbMetadata.collapsed = collapsed;
+    if (readOnly !== undefined) nbMetadata.editable = !readOnly;
+    if (tags) nbMetadata.tags = [...tags];
+    return nbMetadata;
+};
+
+const pickDefined = (source: Record<string, any>, keys: readonly string[]) => {
+    const result: Record<string, any> = {};
+    keys.forEach(key => { if (source[key] !== undefined) result[key] = source[key]; });
+    return result;
+};
+
+// A short human-readable stand-in for cell types Jupyter cannot show.
+const describeCustomCell = (cell: EnhancedCell) => {
+    const label = cell.type.replace(/_/g, ' ');
+    if (cell.type === ExpandedCellType.AIChat && cell.content?.messages?.length) {
+        return ['**AI chat**', ...cell.content.messages.map((m: { role: string; content: string }) => `**${m.role}:** ${m.content}`)].join('\n\n');
+    }
+    if (cell.type === ExpandedCellType.AIChat && cell.content?.prompt) return `**AI chat** — ${cell.content.prompt}`;
+    if (cell.type === ExpandedCellType.SQL && cell.content?.query) return `\`\`\`sql\n${cell.content.query}\n\`\`\``;
+    return `*${label} cell (open in Universal Notebook to view)*`;
+};
+
+const VALID_CELL_ID = /^[a-zA-Z0-9-_]{1,64}$/;
+
+export const fromIpynb = (input: string | NbDocument): { cells: EnhancedCell[]; metadata: NotebookMetadata } => {
+    const doc: NbDocument = typeof input === 'string' ? JSON.parse(input) : input;
+    if (!doc || typeof doc !== 'object' || !Array.isArray(doc.cells)) {
+        throw new Error('Not a Jupyter notebook: missing "cells"');
+    }
+    if (doc.nbformat !== 4) {
+        throw new Error(`Unsupported nbformat version ${doc.nbformat}; only nbformat 4 is supported`);
+    }
+
+    const { kernelspec, title, [NAMESPACE]: notebookExtras = {}, ...otherNbMetadata } = doc.metadata || {};
+    const language: string = kernelspec?.language || doc.metadata?.language_info?.name || 'python';
+    const kernels = getAvailableKernels();
+    const matchedKernel = kernels.find(k => k.language === language);
+    const now = new Date().toISOString();
+
+    const cells: EnhancedCell[] = doc.cells.map(nbCell => {
+        const extras = nbCell.metadata?.[NAMESPACE] || {};
+        const base = {
+            id: nbCell.id && VALID_CELL_ID.test(nbCell.id) ? nbCell.id : generateUniqueId('cell'),
+            metadata: cellMetadataFromNb(nbCell.metadata),
+            ...pickDefined(extras, EXTRA_CELL_FIELDS),
+        };
+        if (nbCell.attachments) (base as Partial<EnhancedCell>).attachments = nbCell.attachments;
+
+        // Custom cell types are restored wholesale from the namespace.
+        if (extras.cellType) {
+            return { ...base, type: extras.cellType, content: extras.content, outputs: extras.outputs || [], executionCount: extras.executionCount, status: 'idle' } as EnhancedCell;
+        }
+        if (nbCell.cell_type === 'code') {
+            return {
+                ...base,
+                type: ExpandedCellType.Code,
+                content: { code: joinMultiline(nbCell.source), language: extras.language || language },
+                outputs: (nbCell.outputs || []).map(outputFromNb),
+                executionCount: nbCell.execution_count ?? undefined,
+                status: 'idle',
+            } as EnhancedCell;
+        }
+        // Raw cells have no equivalent; show them as markdown but remember where they came from.
+        if (nbCell.cell_type === 'raw') base.metadata = { ...base.metadata, [NAMESPACE]: { rawCell: true } };
+        return { ...base, type: ExpandedCellType.Markdown, content: joinMultiline(nbCell.source) } as EnhancedCell;
+    });
+
+    const metadata: NotebookMetadata = {
+        id: generateUniqueId('nb'),
+        title: title || 'Untitled',
+        description: '',
+        author: 'User',
+        createdAt: now,
+        lastModified: now,
+        visibility: 'private',
+        sharedWith: [],
+        kernels,
+        defaultKernelId: matchedKernel?.id || kernels[0].id,
+        theme: 'dark',
+        settings: {},
+        ...pickDefined(notebookExtras, EXTRA_NOTEBOOK_FIELDS),
+    };
+    // Keep the original kernelspec and any other notebook metadata for export.
+    metadata.settings = {
+        ...metadata.settings,
+        jupyter: { ...(metadata.settings.jupyter || {}), kernelspec, metadata: otherNbMetadata, nbformat_minor: doc.nbformat_minor },
+    };
+    return { cells, metadata };
+};
+
+export const toIpynb = (cells: EnhancedCell[], metadata: NotebookMetadata): NbDocument => {
+    const defaultKernel = metadata.kernels.find(k => k.id === metadata.defaultKernelId);
+    const { jupyter: jupyterSettings = {}, ...otherSettings } = metadata.settings || {};
+    const kernelspec = jupyterSettings.kernelspec || (defaultKernel && {
+        name: defaultKernel.id,
+        display_name: defaultKernel.name,
+        language: defaultKernel.language,
+    });
+
+    const nbCells: NbCell[] = cells.map(cell => {
+        const nbMetadata = cellMetadataToNb(cell.metadata);
+        const { rawCell, ...cellNamespace } = nbMetadata[NAMESPACE] || {};
+        const extras: Record<string, any> = { ...cellNamespace, ...pickDefined(cell, EXTRA_CELL_FIELDS) };
+        const id = VALID_CELL_ID.test(cell.id) ? cell.id : undefined;
+        const attachments = cell.attachments;
+
+        let nbCell: NbCell;
+        if (cell.type === ExpandedCellType.Code) {
+            const language = cell.content?.language;
+            if (language && language !== kernelspec?.language) extras.language = language;
+            nbCell = {
+                cell_type: 'code',
+                execution_count: cell.executionCount ?? null,
+                metadata: nbMetadata,
+                source: splitMultiline(cell.content?.code || ''),
+                outputs: (cell.outputs || []).map(outputToNb).filter((o): o is NbOutput => o !== null),
+            };
+        } else if (cell.type === ExpandedCellType.Markdown) {
+            nbCell = { cell_type: rawCell ? 'raw' : 'markdown', metadata: nbMetadata, source: splitMultiline(cell.content || '') };
+            if (attachments) nbCell.attachments = attachments;
+        } else {
+            extras.cellType = cell.type;
+            extras.content = cell.content;
+            if (cell.outputs && cell.outputs.length > 0) extras.outputs = cell.outputs;
+            if (cell.executionCount !== undefined) extras.executionCount = cell.executionCount;
+            nbCell = { cell_type: 'markdown', metadata: nbMetadata, source: splitMultiline(describeCustomCell(cell)) };
+        }
+
+        if (Object.keys(extras).length > 0) nbMetadata[NAMESPACE] = extras;
+        else delete nbMetadata[NAMESPACE];
+        return id ? { id, ...nbCell } : nbCell;
+    });
+
+    const nbMetadata: Record<string, any> = {
+        ...(jupyterSettings.metadata || {}),
+        [NAMESPACE]: pickDefined({ ...metadata, settings: otherSettings }, EXTRA_NOTEBOOK_FIELDS),
+    };
+    if (kernelspec) nbMetadata.kernelspec = kernelspec;
+    if (metadata.title && metadata.title !== 'Untitled') nbMetadata.title = metadata.title;
+
+    return { nbformat: 4, nbformat_minor: Math.max(5, jupyterSettings.nbformat_minor || 0), metadata: nbMetadata, cells: nbCells };
+};
+
+// Jupyter writes notebooks with a one-space indent and a trailing newline.
+export const serializeIpynb = (cells: EnhancedCell[], metadata: NotebookMetadata) => JSON.stringify(toIpynb(cells, metadata), null, 1) + '\n';
+
+// Markdown cells reference their attachments as `attachment:<name>`; inline them as data URIs.
+export const resolveAttachments = (markdown: string, attachments?: NbCell['attachments']) => {
+    if (!attachments) return markdown;
+    return markdown.replace(/attachment:([^\s)"']+)/g, (match, name) => {
+        const bundle = attachments[decodeURIComponent(name)] || attachments[name];
+        if (!bundle) return match;
+        const [mime, data] = Object.entries(bundle)[0];
+        return `data:${mime};base64,${joinMultiline(data).replace(/\s/g, '')}`;
+    });
+};
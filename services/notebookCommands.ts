@@ -0,0 +1,175 @@
+import { Command, EnhancedCell, ExpandedCellType, NotebookContextType, RUNNABLE_CELL_TYPES, TEXT_CELL_TYPES } from '../components/Notebook';
+import { defaultChartSpec } from './charts';
+import { getOpenAIKey, setOpenAIKey } from './ai/openaiProvider';
+import { getPluginCellType } from './plugins/pluginManager';
+import { hasTag, PARAMETERS_TAG } from './cellMetadata';
+import { EXAMPLE_FORM_WIDGETS } from './formCells';
+import { DEFAULT_PTY_URL } from './terminal/backends';
+import { emptyScene } from './drawing';
+
+// Commands for the built-in features. Handlers get the notebook context at call time; plugins
+// add their own with registerCommand(). Built as a function because this module and Notebook.tsx
+// import each other.
+
+type Ctx = NotebookContextType;
+
+const activeCell = (ctx: Ctx) => ctx.cells.find(c => c.id === ctx.activeCellId);
+const activeIndex = (ctx: Ctx) => ctx.cells.findIndex(c => c.id === ctx.activeCellId);
+const hasActiveCell = (ctx: Ctx) => !!activeCell(ctx);
+const canConvertTo = (type: ExpandedCellType) => (ctx: Ctx) => {
+    const cell = activeCell(ctx);
+    return !!cell && cell.type !== type && TEXT_CELL_TYPES.includes(cell.type);
+};
+
+// Cells for which "run" means executing something; other cells are just left behind.
+const executes = (cell: EnhancedCell) => RUNNABLE_CELL_TYPES.includes(cell.type) || cell.type === ExpandedCellType.AIChat || !!getPluginCellType(cell.type)?.execute;
+
+const scrollToCell = (cellId: string) =>
+    document.getElementById(`cell-${cellId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+
+// Edit mode: focus the first editor in the cell (rendered on the next frame for cells that
+// only show an editor while active).
+export const focusCellEditor = (cellId: string) => {
+    requestAnimationFrame(() => {
+        const editor = document.querySelector<HTMLElement>(`#cell-${CSS.escape(cellId)} textarea, #cell-${CSS.escape(cellId)} input[type="text"], #cell-${CSS.escape(cellId)} input:not([type])`);
+        editor?.focus();
+    });
+};
+
+const selectCell = (ctx: Ctx, index: number) => {
+    const cell = ctx.cells[Math.max(0, Math.min(index, ctx.cells.length - 1))];
+    if (!cell) return;
+    ctx.setActiveCellId(cell.id);
+    scrollToCell(cell.id);
+};
+
+const pickFile = (accept: string, onFile: (file: File) => void) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+        const file = input.files?.[0];
+        if (file) onFile(file);
+    };
+    input.click();
+};
+
+const runAndAdvance = async (ctx: Ctx, insert: boolean) => {
+    const cell = activeCell(ctx);
+    if (!cell) return;
+    const index = activeIndex(ctx);
+    (document.activeElement as HTMLElement | null)?.blur?.();
+    const next = ctx.cells[index + 1];
+    // Like Jupyter: running the last cell (or Alt+Enter) opens a new code cell below.
+    if (insert || !next) ctx.addCell(ExpandedCellType.Code, {}, index + 1);
+    else selectCell(ctx, index + 1);
+    if (executes(cell)) await ctx.executeCell(cell.id);
+};
+
+const addCellCommands = (): [ExpandedCellType, string, () => any][] => [
+    [ExpandedCellType.Code, 'Code', () => ({})],
+    [ExpandedCellType.Markdown, 'Text', () => ''],
+    [ExpandedCellType.Data, 'Data Table', () => ({ columns: ['column_1'], data: [[null]] })],
+    [ExpandedCellType.Visualization, 'Chart', () => ({ chartSpec: defaultChartSpec() })],
+    [ExpandedCellType.SQL, 'SQL', () => ({ query: '' })],
+    [ExpandedCellType.AIChat, 'AI Chat', () => ({ prompt: '', messages: [] })],
+    [ExpandedCellType.FileBrowser, 'File Browser', () => ({ root: '' })],
+    [ExpandedCellType.Form, 'Form', () => ({ widgets: EXAMPLE_FORM_WIDGETS, values: {}, autoRun: true })],
+    [ExpandedCellType.Terminal, 'Terminal', () => ({ backend: 'auto', url: DEFAULT_PTY_URL })],
+    [ExpandedCellType.Drawing, 'Drawing', () => emptyScene()],
+];
+
+export const builtinCommands = (): Command[] => [
+    // --- Notebook ---
+    { id: 'palette.open', label: 'Show Command Palette', category: 'View', handler: ctx => ctx.setCommandPaletteOpen(true) },
+    { id: 'help.shortcuts', label: 'Keyboard Shortcuts...', category: 'Help', handler: ctx => ctx.setShortcutsDialogOpen(true) },
+    { id: 'notebook.save', label: 'Save Notebook', icon: '💾', category: 'Notebook', handler: ctx => ctx.saveNotebook() },
+    { id: 'notebook.open', label: 'Open Notebook...', icon: '📚', category: 'Notebook', handler: ctx => ctx.setNotebookListOpen(true) },
+    { id: 'notebook.new', label: 'New Notebook', category: 'Notebook', handler: ctx => ctx.newNotebook() },
+    { id: 'notebook.import', label: 'Import .ipynb...', icon: '📂', category: 'Notebook', handler: ctx => pickFile('.ipynb,application/x-ipynb+json,application/json', file => ctx.importNotebook(file)) },
+    { id: 'notebook.export', label: 'Export .ipynb', icon: '⬇️', category: 'Notebook', handler: ctx => ctx.exportNotebook() },
+    { id: 'notebook.exportHtml', label: 'Export to HTML', icon: '🌐', category: 'Notebook', handler: ctx => ctx.exportNotebook('html') },
+    { id: 'notebook.exportMarkdown', label: 'Export to Markdown', icon: '📝', category: 'Notebook', handler: ctx => ctx.exportNotebook('markdown') },
+    { id: 'notebook.print', label: 'Print / Save as PDF', icon: '🖨️', category: 'Notebook', handler: ctx => ctx.printNotebook() },
+    { id: 'notebook.undo', label: 'Undo', category: 'Edit', handler: ctx => ctx.undo(), visible: ctx => ctx.canUndo },
+    { id: 'notebook.redo', label: 'Redo', category: 'Edit', handler: ctx => ctx.redo(), visible: ctx => ctx.canRedo },
+    { id: 'find.open', label: 'Find in Notebook...', icon: '🔍', category: 'Edit', handler: ctx => ctx.openFind('find') },
+    { id: 'find.replace', label: 'Find and Replace...', category: 'Edit', handler: ctx => ctx.openFind('replace'), visible: ctx => ctx.permissions.canEdit },
+    { id: 'notebook.runAll', label: 'Run All Cells', icon: '▶️', category: 'Run', handler: ctx => ctx.runAllCells() },
+    { id: 'notebook.runSelected', label: 'Run Selected Cells', category: 'Run', handler: ctx => ctx.runSelectedCells(), visible: ctx => ctx.selectedCellIds.length > 0 },
+    { id: 'selection.clear', label: 'Clear Cell Selection', category: 'Edit', handler: ctx => ctx.setSelectedCellIds([]), visible: ctx => ctx.selectedCellIds.length > 0 },
+
+    // --- Kernel ---
+    { id: 'kernel.interrupt', label: 'Interrupt Kernel', icon: '⏹️', category: 'Kernel', handler: ctx => ctx.interruptKernel() },
+    { id: 'kernel.restart', label: 'Restart Kernel', icon: '🔄', category: 'Kernel', handler: ctx => ctx.restartKernel() },
+    {
+        id: 'kernel.connectServer', label: 'Connect to Kernel Server...', category: 'Kernel', handler: ctx => {
+            const url = window.prompt('Kernel server URL (leave empty to disconnect)', ctx.notebookMetadata.settings.kernelGatewayUrl || 'ws://localhost:8765');
+            if (url === null) return;
+            ctx.setNotebookMetadata(prev => ({ ...prev, settings: { ...prev.settings, kernelGatewayUrl: url.trim() } }));
+        },
+    },
+
+    // --- AI ---
+    { id: 'ai.toggleAssistant', label: 'Toggle AI Assistant', icon: '🤖', category: 'AI', handler: ctx => ctx.setAiAssistantOpen(!ctx.aiAssistantOpen) },
+    {
+        id: 'ai.setApiKey', label: 'Set OpenAI API Key...', category: 'AI', handler: () => {
+            const key = window.prompt('OpenAI API key (stored in this browser only; leave empty to remove)', getOpenAIKey());
+            if (key === null) return;
+            setOpenAIKey(key.trim());
+        },
+    },
+
+    // --- View ---
+    { id: 'view.outline', label: 'Show Outline', category: 'View', handler: ctx => ctx.toggleSidebarPanel('outline') },
+    { id: 'view.files', label: 'Show Files', category: 'View', handler: ctx => ctx.toggleSidebarPanel('files') },
+    { id: 'view.variables', label: 'Show Variables and Tables', category: 'View', handler: ctx => ctx.toggleSidebarPanel('variables') },
+    { id: 'view.comments', label: 'Show Comments', category: 'View', handler: ctx => ctx.toggleSidebarPanel('comments') },
+    { id: 'view.plugins', label: 'Show Plugins', category: 'View', handler: ctx => ctx.toggleSidebarPanel('plugins') },
+
+    // --- Modes ---
+    { id: 'mode.edit', label: 'Edit Active Cell', category: 'Cell', handler: ctx => focusCellEditor(ctx.activeCellId!), visible: hasActiveCell },
+    { id: 'mode.command', label: 'Enter Command Mode', category: 'Cell', handler: () => (document.activeElement as HTMLElement | null)?.blur?.() },
+
+    // --- Cell ---
+    ...addCellCommands().map(([type, name, content]): Command => ({
+        id: `cell.add.${type}`, label: `Add ${name} Cell`, category: 'Cell',
+        handler: ctx => ctx.addCell(type, content(), activeIndex(ctx) >= 0 ? activeIndex(ctx) + 1 : undefined),
+    })),
+    { id: 'cell.insertAbove', label: 'Insert Cell Above', category: 'Cell', handler: ctx => ctx.addCell(ExpandedCellType.Code, {}, Math.max(0, activeIndex(ctx))), visible: hasActiveCell },
+    { id: 'cell.insertBelow', label: 'Insert Cell Below', category: 'Cell', handler: ctx => ctx.addCell(ExpandedCellType.Code, {}, activeIndex(ctx) + 1), visible: hasActiveCell },
+    {
+        id: 'cell.delete', label: 'Delete Cell', category: 'Cell', visible: hasActiveCell, handler: ctx => {
+            const index = activeIndex(ctx);
+            const neighbour = ctx.cells[index + 1] || ctx.cells[index - 1];
+            ctx.deleteCell(ctx.activeCellId!);
+            ctx.setActiveCellId(neighbour?.id || null);
+        },
+    },
+    { id: 'cell.run', label: 'Run Cell', category: 'Run', handler: ctx => ctx.executeCell(ctx.activeCellId!), visible: ctx => !!activeCell(ctx) && executes(activeCell(ctx)!) },
+    { id: 'cell.runAndAdvance', label: 'Run Cell and Select Below', category: 'Run', handler: ctx => runAndAdvance(ctx, false), visible: hasActiveCell },
+    { id: 'cell.runAndInsertBelow', label: 'Run Cell and Insert Below', category: 'Run', handler: ctx => runAndAdvance(ctx, true), visible: hasActiveCell },
+    { id: 'cell.runAbove', label: 'Run All Above', category: 'Run', handler: ctx => ctx.runCellsAbove(ctx.activeCellId!), visible: hasActiveCell },
+    { id: 'cell.runBelow', label: 'Run Cell and All Below', category: 'Run', handler: ctx => ctx.runCellsBelow(ctx.activeCellId!), visible: hasActiveCell },
+    { id: 'cell.toCode', label: 'Change Cell to Code', category: 'Cell', handler: ctx => ctx.changeCellType(ctx.activeCellId!, ExpandedCellType.Code), visible: canConvertTo(ExpandedCellType.Code) },
+    { id: 'cell.toMarkdown', label: 'Change Cell to Markdown', category: 'Cell', handler: ctx => ctx.changeCellType(ctx.activeCellId!, ExpandedCellType.Markdown), visible: canConvertTo(ExpandedCellType.Markdown) },
+    { id: 'cell.selectPrevious', label: 'Select Cell Above', category: 'Cell', handler: ctx => selectCell(ctx, activeIndex(ctx) - 1), visible: ctx => activeIndex(ctx) > 0 },
+    { id: 'cell.selectNext', label: 'Select Cell Below', category: 'Cell', handler: ctx => selectCell(ctx, activeIndex(ctx) + 1), visible: ctx => activeIndex(ctx) >= 0 && activeIndex(ctx) < ctx.cells.length - 1 },
+    { id: 'cell.moveUp', label: 'Move Cell Up', category: 'Cell', handler: ctx => ctx.moveCell(activeIndex(ctx), activeIndex(ctx) - 1), visible: ctx => activeIndex(ctx) > 0 },
+    { id: 'cell.moveDown', label: 'Move Cell Down', category: 'Cell', handler: ctx => ctx.moveCell(activeIndex(ctx), activeIndex(ctx) + 1), visible: ctx => activeIndex(ctx) >= 0 && activeIndex(ctx) < ctx.cells.length - 1 },
+    { id: 'cell.clearOutputs', label: 'Clear Cell Outputs', category: 'Cell', handler: ctx => ctx.updateCell(ctx.activeCellId!, { outputs: [] }), visible: ctx => !!activeCell(ctx)?.outputs?.length },
+    ...([
+        ['cell.toggleCollapse', 'collapsed', 'Collapse / Expand Cell'],
+        ['cell.toggleCode', 'hideCode', 'Hide / Show Cell Code'],
+        ['cell.toggleOutput', 'hideOutput', 'Hide / Show Cell Output'],
+        ['cell.toggleReadOnly', 'readOnly', 'Toggle Cell Read-Only'],
+    ] as const).map(([id, flag, label]): Command => ({
+        id, label, category: 'Cell', visible: hasActiveCell,
+        handler: ctx => ctx.setCellFlag(ctx.activeCellId!, flag, !activeCell(ctx)!.metadata?.[flag]),
+    })),
+    { id: 'cell.editTags', label: 'Edit Cell Tags', icon: '🏷️', category: 'Cell', handler: ctx => ctx.setTagEditorCellId(ctx.activeCellId), visible: hasActiveCell },
+    { id: 'view.clearTagFilter', label: 'Show All Cells (Clear Tag Filter)', category: 'View', handler: ctx => ctx.setTagFilter([]), visible: ctx => ctx.tagFilter.length > 0 },
+    { id: 'notebook.runWithParameters', label: 'Run All with Parameters...', category: 'Run', handler: ctx => ctx.setParametersDialogOpen(true), visible: ctx => ctx.cells.some(c => hasTag(c, PARAMETERS_TAG) || c.type === ExpandedCellType.Form) },
+    { id: 'cell.comment', label: 'Add Comment', icon: '💬', category: 'Cell', handler: ctx => ctx.startComment(ctx.activeCellId!), visible: hasActiveCell },
+    { id: 'cell.history', label: 'Show Cell Version History', icon: '🕘', category: 'Cell', handler: ctx => ctx.openCellHistory(ctx.activeCellId), visible: hasActiveCell },
+];
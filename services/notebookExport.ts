@@ -0,0 +1,322 @@
+import { EnhancedCell, ExpandedCellType, NotebookMetadata } from '../components/Notebook';
+import { parseAnsi, stripAnsi } from './ansi';
+import { cellSummary, EXCLUDE_FROM_EXPORT_TAG } from './cellMetadata';
+import { normalizeScene, sceneToSvg } from './drawing';
+import { resolveAttachments } from './nbformat';
+import { sanitizeHtml } from './sanitizeHtml';
+
+// Static exports for publishing a notebook: a self-contained HTML page, which also prints to PDF,
+// and GitHub-flavored Markdown. Both show cells the way a reader sees them: hidden code and
+// outputs stay hidden, collapsed cells are folded, and cells can be left out with tags.
+
+export type ExportFormat = 'ipynb' | 'html' | 'markdown';
+
+// The tags nbconvert uses, so notebooks prepared for Jupyter export the same way here.
+export const REMOVE_CELL_TAGS = ['remove-cell', EXCLUDE_FROM_EXPORT_TAG];
+export const REMOVE_INPUT_TAGS = ['remove-input'];
+export const REMOVE_OUTPUT_TAGS = ['remove-output'];
+
+const MAX_TABLE_ROWS = 500;
+
+export interface ExportOptions {
+    // Markup of a chart cell's SVG. Charts are drawn by the app from their spec, so the page
+    // exporting them supplies the rendered result.
+    chartSvg?: (cellId: string) => string | undefined;
+}
+
+const hasAnyTag = (cell: EnhancedCell, tags: string[]) => (cell.metadata?.tags || []).some(tag => tags.includes(tag));
+
+interface ExportedCell {
+    cell: EnhancedCell;
+    showSource: boolean;
+    showOutputs: boolean;
+    collapsed: boolean;
+}
+
+export const exportedCells = (cells: EnhancedCell[]): ExportedCell[] => cells
+    .filter(cell => !hasAnyTag(cell, REMOVE_CELL_TAGS))
+    .map(cell => ({
+        cell,
+        showSource: !cell.metadata?.hideCode && !hasAnyTag(cell, REMOVE_INPUT_TAGS),
+        showOutputs: !cell.metadata?.hideOutput && !hasAnyTag(cell, REMOVE_OUTPUT_TAGS),
+        collapsed: !!cell.metadata?.collapsed,
+    }));
+
+// --- Outputs ---
+// Each output is reduced to the richest representation both formats can show, in the same order
+// of preference as the notebook's own renderers.
+
+type OutputPart =
+    | { kind: 'text'; text: string; error?: boolean }
+    | { kind: 'image'; src: string }
+    | { kind: 'html'; html: string }
+    | { kind: 'markdown'; markdown: string }
+    | { kind: 'latex'; tex: string }
+    | { kind: 'table'; columns: string[]; rows: any[][] };
+
+const IMAGE_MIMES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const imageSrc = (mime: string, data: string) => {
+    const value = data.trim();
+    if (/^(data:|https?:)/.test(value)) return value;
+    return `data:${mime};base64,${value.replace(/\s/g, '')}`;
+};
+
+const isRecordArray = (data: any) => Array.isArray(data) && data.length > 0 && data.every(row => row && typeof row === 'object' && !Array.isArray(row));
+
+const recordsTable = (records: Record<string, any>[], columns?: string[]): OutputPart => {
+    const names = columns || Array.from(new Set(records.flatMap(row => Object.keys(row))));
+    return { kind: 'table', columns: names, rows: records.map(row => names.map(name => row[name])) };
+};
+
+const bundlePart = (data: Record<string, any> = {}, metadata: Record<string, any> = {}): OutputPart | null => {
+    const json = data['application/json'];
+    if (metadata.type === 'dataframe' && isRecordArray(json)) return recordsTable(json, Array.isArray(metadata.columns) ? metadata.columns.map(String) : undefined);
+    if (data['text/html'] != null) return { kind: 'html', html: String(data['text/html']) };
+    if (data['image/svg+xml'] != null) return { kind: 'image', src: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(String(data['image/svg+xml']))}` };
+    const image = IMAGE_MIMES.find(mime => data[mime] != null);
+    if (image) return { kind: 'image', src: imageSrc(image, String(data[image])) };
+    if (data['text/latex'] != null) return { kind: 'latex', tex: String(data['text/latex']) };
+    if (data['text/markdown'] != null) return { kind: 'markdown', markdown: String(data['text/markdown']) };
+    if (json !== undefined) return { kind: 'text', text: JSON.stringify(json, null, 2) };
+    if (data['text/plain'] != null) return { kind: 'text', text: String(data['text/plain']) };
+    return null;
+};
+
+const outputPart = (output: any): OutputPart | null => {
+    switch (output?.type) {
+        case 'stream': return { kind: 'text', text: output.text || '', error: output.name === 'stderr' };
+        case 'error': return { kind: 'text', text: output.traceback?.length ? output.traceback.join('\n') : `${output.name || 'Error'}: ${output.message || ''}`, error: true };
+        case 'execute_result':
+        case 'display_data': return bundlePart(output.data, output.metadata);
+        default: return null;
+    }
+};
+
+// --- Cells ---
+
+type CellPart =
+    | { kind: 'markdown'; markdown: string }
+    | { kind: 'code'; language: string; code: string }
+    | { kind: 'table'; title: string; columns: string[]; rows: any[][] }
+    | { kind: 'chart'; title: string; svg?: string }
+    | { kind: 'chat'; messages: { role: string; content: string }[] }
+    | { kind: 'note'; text: string };
+
+const sourcePart = (cell: EnhancedCell, options: ExportOptions): CellPart => {
+    const content = cell.content;
+    switch (cell.type) {
+        case ExpandedCellType.Markdown: return { kind: 'markdown', markdown: resolveAttachments(typeof content === 'string' ? content : '', cell.attachments) };
+        case ExpandedCellType.Code: return { kind: 'code', language: content?.language || cell.language || '', code: content?.code || '' };
+        case ExpandedCellType.SQL: return { kind: 'code', language: 'sql', code: content?.query || '' };
+        case ExpandedCellType.Data: return { kind: 'table', title: content?.name || 'Data table', columns: content?.columns || [], rows: content?.data || [] };
+        case ExpandedCellType.Visualization: return { kind: 'chart', title: content?.chartSpec?.title || 'Chart', svg: options.chartSvg?.(cell.id) };
+        case ExpandedCellType.Drawing: return { kind: 'chart', title: 'Drawing', svg: sceneToSvg(normalizeScene(content)) };
+        case ExpandedCellType.AIChat: return { kind: 'chat', messages: content?.messages || [] };
+        default: return { kind: 'note', text: `${cell.type.replace(/_/g, ' ')} cell` };
+    }
+};
+
+const displayValue = (value: any) => value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// --- Markdown ---
+
+// A code fence longer than any run of backticks inside the text.
+const fenced = (text: string, language = '') => {
+    const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}${language}\n${text.replace(/\n$/, '')}\n${fence}`;
+};
+
+const markdownTable = (columns: string[], rows: any[][]) => {
+    if (columns.length === 0) return '*Empty table*';
+    const cell = (value: any) => displayValue(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+    const lines = [
+        `| ${columns.map(cell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.slice(0, MAX_TABLE_ROWS).map(row => `| ${columns.map((_, i) => cell(row[i])).join(' | ')} |`),
+    ];
+    if (rows.length > MAX_TABLE_ROWS) lines.push('', `*… ${(rows.length - MAX_TABLE_ROWS).toLocaleString()} more rows*`);
+    return lines.join('\n');
+};
+
+const outputToMarkdown = (part: OutputPart) => {
+    switch (part.kind) {
+        case 'text': return fenced(stripAnsi(part.text), part.error ? 'text' : '');
+        // The angle brackets allow the parentheses an encoded SVG may contain.
+        case 'image': return `![output](<${part.src}>)`;
+        case 'html': return sanitizeHtml(part.html);
+        case 'markdown': return part.markdown;
+        case 'latex': return `$$\n${part.tex.trim().replace(/^\$+|\$+$/g, '')}\n$$`;
+        case 'table': return markdownTable(part.columns, part.rows);
+    }
+};
+
+const sourceToMarkdown = (part: CellPart) => {
+    switch (part.kind) {
+        case 'markdown': return part.markdown;
+        case 'code': return fenced(part.code, part.language);
+        case 'table': return `**${part.title}**\n\n${markdownTable(part.columns, part.rows)}`;
+        case 'chart': return part.svg
+            ? `![${part.title}](<data:image/svg+xml;charset=utf-8,${encodeURIComponent(part.svg)}>)`
+            : `*${part.title} (chart not rendered)*`;
+        case 'chat': return part.messages.map(m => `**${m.role}:** ${m.content}`).join('\n\n');
+        case 'note': return `*${part.text}*`;
+    }
+};
+
+export const toMarkdown = (cells: EnhancedCell[], metadata: NotebookMetadata, options: ExportOptions = {}) => {
+    const blocks: string[] = [];
+    if (metadata.title && metadata.title !== 'Untitled') blocks.push(`# ${metadata.title}`);
+    if (metadata.description) blocks.push(metadata.description);
+
+    exportedCells(cells).forEach(({ cell, showSource, showOutputs, collapsed }) => {
+        const parts: string[] = [];
+        if (showSource) parts.push(sourceToMarkdown(sourcePart(cell, options)));
+        if (showOutputs) (cell.outputs || []).map(outputPart).forEach(part => { if (part) parts.push(outputToMarkdown(part)); });
+        if (parts.length === 0) return;
+        // GitHub renders <details>; the blank lines keep the Markdown inside it working.
+        blocks.push(collapsed
+            ? `<details>\n<summary>${escapeHtml(cellSummary(cell))}</summary>\n\n${parts.join('\n\n')}\n\n</details>`
+            : parts.join('\n\n'));
+    });
+    return `${blocks.join('\n\n')}\n`;
+};
+
+// --- HTML ---
+
+export const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const renderMarkdown = (markdown: string) => {
+    const marked = (window as any).marked;
+    return marked ? sanitizeHtml(marked.parse(markdown)) : `<pre>${escapeHtml(markdown)}</pre>`;
+};
+
+// MathML needs no stylesheet, so the page stays self-contained.
+const renderLatex = (tex: string) => {
+    const katex = (window as any).katex;
+    const source = tex.trim().replace(/^\$\$?|\$\$?$/g, '');
+    if (!katex) return `<pre>${escapeHtml(tex)}</pre>`;
+    try {
+        return katex.renderToString(source, { displayMode: true, throwOnError: false, output: 'mathml' });
+    } catch {
+        return `<pre>${escapeHtml(tex)}</pre>`;
+    }
+};
+
+const ansiToHtml = (text: string) => parseAnsi(text).map(({ text: segment, style }) => {
+    const css = [
+        style.color && `color:${style.color}`,
+        style.background && `background:${style.background}`,
+        style.bold && 'font-weight:bold',
+        style.dim && 'opacity:.7',
+        style.italic && 'font-style:italic',
+        style.underline && 'text-decoration:underline',
+    ].filter(Boolean).join(';');
+    return css ? `<span style="${css}">${escapeHtml(segment)}</span>` : escapeHtml(segment);
+}).join('');
+
+const htmlTable = (columns: string[], rows: any[][]) => {
+    const head = columns.map(c => `<th>${escapeHtml(c)}</th>`).join('');
+    const body = rows.slice(0, MAX_TABLE_ROWS).map(row => `<tr>${columns.map((_, i) => `<td>${escapeHtml(displayValue(row[i]))}</td>`).join('')}</tr>`).join('');
+    const more = rows.length > MAX_TABLE_ROWS ? `<p class="more">… ${(rows.length - MAX_TABLE_ROWS).toLocaleString()} more rows</p>` : '';
+    return `<div class="table"><table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>${more}</div>`;
+};
+
+const outputToHtml = (part: OutputPart) => {
+    switch (part.kind) {
+        case 'text': return `<pre class="output${part.error ? ' error' : ''}">${ansiToHtml(part.text)}</pre>`;
+        case 'image': return `<img src="${escapeHtml(part.src)}" alt="output">`;
+        case 'html': return `<div class="rendered-html">${sanitizeHtml(part.html)}</div>`;
+        case 'markdown': return `<div class="markdown">${renderMarkdown(part.markdown)}</div>`;
+        case 'latex': return `<div class="math">${renderLatex(part.tex)}</div>`;
+        case 'table': return htmlTable(part.columns, part.rows);
+    }
+};
+
+const sourceToHtml = (part: CellPart) => {
+    switch (part.kind) {
+        case 'markdown': return `<div class="markdown">${renderMarkdown(part.markdown)}</div>`;
+        case 'code': return `<pre class="source"><code class="language-${escapeHtml(part.language)}">${escapeHtml(part.code)}</code></pre>`;
+        case 'table': return `<div class="caption">${escapeHtml(part.title)}</div>${htmlTable(part.columns, part.rows)}`;
+        case 'chart': return part.svg
+            ? `<figure><img src="data:image/svg+xml;charset=utf-8,${encodeURIComponent(part.svg)}" alt="${escapeHtml(part.title)}"></figure>`
+            : `<p class="note">${escapeHtml(part.title)} (chart not rendered)</p>`;
+        case 'chat': return part.messages.map(m => `<div class="chat ${m.role === 'user' ? 'user' : ''}"><div class="role">${escapeHtml(m.role)}</div>${renderMarkdown(m.content)}</div>`).join('');
+        case 'note': return `<p class="note">${escapeHtml(part.text)}</p>`;
+    }
+};
+
+const STYLES = `
+:root { color-scheme: light; }
+body { margin: 0; background: #fff; color: #1f2937; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 960px; margin: 0 auto; padding: 32px 24px 64px; }
+header { border-bottom: 1px solid #e5e7eb; margin-bottom: 24px; }
+header h1 { margin: 0 0 4px; }
+header p { margin: 0 0 12px; color: #6b7280; }
+.cell { margin: 16px 0; }
+.cell.code { display: grid; grid-template-columns: 64px minmax(0, 1fr); column-gap: 8px; }
+.prompt { color: #9ca3af; font: 12px/2 ui-monospace, SFMono-Regular, Menlo, monospace; text-align: right; }
+pre { margin: 0 0 8px; padding: 10px 12px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; font: 13px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; }
+pre.source { background: #f3f4f6; border: 1px solid #e5e7eb; border-radius: 6px; }
+pre.output { background: none; padding: 4px 12px; }
+pre.output.error { background: #fef2f2; color: #991b1b; border-radius: 6px; }
+img { max-width: 100%; }
+.markdown img { max-width: 100%; }
+.table { overflow-x: auto; margin-bottom: 8px; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+.caption { font-weight: 600; margin-bottom: 4px; }
+.more, .note { color: #6b7280; font-style: italic; font-size: 13px; }
+.chat { border-left: 3px solid #a78bfa; padding: 0 12px; margin-bottom: 8px; }
+.chat.user { border-color: #60a5fa; }
+.chat .role { font-size: 12px; font-weight: 600; color: #6b7280; text-transform: capitalize; }
+details > summary { cursor: pointer; color: #4b5563; }
+@page { margin: 16mm; }
+@media print {
+  body { font-size: 11pt; }
+  main { max-width: none; padding: 0; }
+  pre { white-space: pre-wrap; overflow: visible; }
+  pre.source, figure, img, tr { break-inside: avoid; }
+  h1, h2, h3, h4 { break-after: avoid; }
+  .table { overflow: visible; }
+  a { color: inherit; }
+}
+`;
+
+export const toHtml = (cells: EnhancedCell[], metadata: NotebookMetadata, options: ExportOptions = {}) => {
+    const title = metadata.title || 'Notebook';
+    const byline = [metadata.author, metadata.lastModified && new Date(metadata.lastModified).toLocaleDateString()].filter(Boolean).join(' · ');
+    const body = exportedCells(cells).map(({ cell, showSource, showOutputs, collapsed }) => {
+        const outputs = showOutputs ? (cell.outputs || []).map(outputPart).filter((p): p is OutputPart => p !== null).map(outputToHtml).join('') : '';
+        const source = showSource ? sourceToHtml(sourcePart(cell, options)) : '';
+        if (!source && !outputs) return '';
+        const isCode = cell.type === ExpandedCellType.Code || cell.type === ExpandedCellType.SQL;
+        // Code cells show Jupyter's In [n] prompt in a gutter beside the source.
+        const inner = isCode
+            ? `<div class="prompt">${source && cell.executionCount ? `[${cell.executionCount}]` : ''}</div><div>${source}${outputs}</div>`
+            : `${source}${outputs}`;
+        const content = `<div class="cell ${isCode ? 'code' : escapeHtml(cell.type)}">${inner}</div>`;
+        return collapsed ? `<details><summary>${escapeHtml(cellSummary(cell))}</summary>${content}</details>` : content;
+    }).filter(Boolean).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Universal Notebook">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header><h1>${escapeHtml(title)}</h1>${metadata.description ? `<p>${escapeHtml(metadata.description)}</p>` : ''}${byline ? `<p>${escapeHtml(byline)}</p>` : ''}</header>
+${body}
+</main>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,61 @@
+import { EnhancedCell, NotebookMetadata } from '../components/Notebook';
+
+// Who may do what in a notebook. Users are identified by name (there are no accounts): the
+// notebook's author owns it, `sharedWith` grants roles to others, and `visibility` decides what
+// everyone else gets. Enforced by the UI and the notebook's context actions.
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export interface NotebookPermissions {
+    role: Role | null; // null: no access
+    canView: boolean;
+    canEdit: boolean;
+    canExecute: boolean;
+    canComment: boolean;
+    canShare: boolean;
+    viewerMode: boolean;
+}
+
+const sameUser = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const isOwner = (metadata: Pick<NotebookMetadata, 'author'>, userName: string) => sameUser(metadata.author, userName);
+
+export const sharedRole = (metadata: Pick<NotebookMetadata, 'sharedWith'>, userName: string): Role | null =>
+    metadata.sharedWith.find(entry => sameUser(entry.userId, userName))?.permissions ?? null;
+
+// 'private' keeps everyone but the owner out without forgetting `sharedWith`; 'restricted' admits
+// the people it lists; 'team' and 'public' also let anyone else read.
+export const resolveRole = (metadata: Pick<NotebookMetadata, 'author' | 'sharedWith' | 'visibility'>, userName: string): Role | null => {
+    if (isOwner(metadata, userName)) return 'admin';
+    if (metadata.visibility === 'private') return null;
+    const shared = sharedRole(metadata, userName);
+    if (shared) return shared;
+    return metadata.visibility === 'public' || metadata.visibility === 'team' ? 'viewer' : null;
+};
+
+// Viewer mode renders the notebook as a viewer would see it, whatever the user's actual role.
+export const resolvePermissions = (metadata: NotebookMetadata, userName: string, viewerMode: boolean): NotebookPermissions => {
+    const actual = resolveRole(metadata, userName);
+    const role = viewerMode && actual ? 'viewer' : actual;
+    const canEdit = role === 'editor' || role === 'admin';
+    return { role, canView: role !== null, canEdit, canExecute: canEdit, canComment: canEdit, canShare: role === 'admin', viewerMode };
+};
+
+// --- Cells ---
+// `visibility` on a cell narrows who sees it: 'private' cells are only for their author,
+// 'team' (and 'restricted') cells only for the owner and the people the notebook is shared with.
+
+export const canSeeCell = (cell: EnhancedCell, metadata: NotebookMetadata, userName: string) => {
+    switch (cell.visibility) {
+        case 'private': return sameUser(cell.author || metadata.author, userName);
+        case 'team':
+        case 'restricted': return isOwner(metadata, userName) || sharedRole(metadata, userName) !== null;
+        default: return true;
+    }
+};
+
+export const canEditCell = (cell: EnhancedCell, permissions: NotebookPermissions) => permissions.canEdit && !cell.metadata?.readOnly;
+
+// Only the cell's author or an admin changes who can see it.
+export const canChangeCellVisibility = (cell: EnhancedCell, metadata: NotebookMetadata, userName: string, permissions: NotebookPermissions) =>
+    permissions.canEdit && (permissions.canShare || sameUser(cell.author || metadata.author, userName));
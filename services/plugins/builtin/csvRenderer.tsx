@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import { MimeBundleView, MimeRendererProps } from '../../../components/OutputRenderers';
+import { parseDelimited } from '../../dataTable';
+import { NotebookPlugin } from '../plugin';
+
+const csvRenderer = (maxRows: number): React.FC<MimeRendererProps> => ({ data }) => {
+    const text = String(data);
+    const records = useMemo(() => {
+        const table = parseDelimited(text, text.split('\n', 1)[0].includes('\t') ? '\t' : ',');
+        return { columns: table.columns, rows: table.data.map(row => Object.fromEntries(table.columns.map((c, i) => [c, row[i] ?? null]))) };
+    }, [text]);
+    const shown = records.rows.slice(0, maxRows);
+    return (
+        <div>
+            <MimeBundleView data={{ 'application/json': shown }} metadata={{ type: 'dataframe', columns: records.columns }} />
+            {shown.length < records.rows.length && <div className="text-xs text-gray-500 mt-1">Showing the first {shown.length} of {records.rows.length} rows</div>}
+        </div>
+    );
+};
+
+export const csvRendererPlugin: NotebookPlugin = {
+    id: 'csv-renderer',
+    name: 'CSV Tables',
+    version: '1.0.0',
+    description: 'Shows text/csv outputs as a table instead of plain text.',
+    configSchema: [{ key: 'maxRows', label: 'Maximum rows', type: 'number' }],
+    defaultConfig: { maxRows: 1000 },
+    activate: context => {
+        context.registerMimeRenderer({ id: 'csv', mimeTypes: ['text/csv', 'text/tab-separated-values'], rank: 75, component: csvRenderer(Number(context.config.maxRows) || 1000) });
+    },
+};
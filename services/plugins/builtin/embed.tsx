@@ -0,0 +1,61 @@
+import React from 'react';
+import { NotebookPlugin, PluginCellProps } from '../plugin';
+
+// YouTube and Vimeo page links only work in an iframe in their embed form.
+export const toEmbedUrl = (url: string) => {
+    const youtube = url.match(/^https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?(?:.*&)?v=|youtu\.be\/)([\w-]+)/);
+    if (youtube) return `https://www.youtube.com/embed/${youtube[1]}`;
+    const vimeo = url.match(/^https?:\/\/(?:www\.)?vimeo\.com\/(\d+)/);
+    if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}`;
+    return url;
+};
+
+const EmbedCell: React.FC<PluginCellProps> = ({ cell, isEditing, onUpdateContent, config }) => {
+    const url: string = cell.content?.url || '';
+    const height = Number(cell.content?.height) || Number(config.defaultHeight) || 360;
+    const valid = /^https?:\/\//i.test(url);
+    const sandbox = ['allow-popups', 'allow-presentation', ...(config.allowScripts ? ['allow-scripts', 'allow-same-origin'] : [])].join(' ');
+
+    return (
+        <div className="space-y-2">
+            {(isEditing || !valid) && (
+                <div className="flex gap-2 text-sm">
+                    <input
+                        type="url"
+                        value={url}
+                        onChange={e => onUpdateContent({ ...cell.content, url: e.target.value.trim() }, true)}
+                        placeholder="https://..."
+                        className="flex-grow bg-gray-900 border border-gray-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+                    />
+                    <input
+                        type="number"
+                        min={100}
+                        step={20}
+                        value={height}
+                        onChange={e => onUpdateContent({ ...cell.content, height: Number(e.target.value) || undefined }, true)}
+                        className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 outline-none focus:border-blue-500"
+                        title="Height in pixels"
+                    />
+                </div>
+            )}
+            {valid
+                ? <iframe src={toEmbedUrl(url)} sandbox={sandbox} title={url} style={{ height }} className="w-full rounded border border-gray-700 bg-white" />
+                : <div className="text-xs text-gray-500 italic">{url ? 'Only http(s) URLs can be embedded' : 'Enter a URL to embed (videos, dashboards, documents...)'}</div>}
+        </div>
+    );
+};
+
+export const embedPlugin: NotebookPlugin = {
+    id: 'embed',
+    name: 'Embeds',
+    version: '1.0.0',
+    description: 'Embed cells that show a web page, video or dashboard in a sandboxed frame.',
+    configSchema: [
+        { key: 'defaultHeight', label: 'Default height (px)', type: 'number' },
+        { key: 'allowScripts', label: 'Allow scripts in embedded pages', type: 'boolean', description: 'Most video players and dashboards need this. Applies to every notebook in this browser.', local: true },
+    ],
+    defaultConfig: { defaultHeight: 360, allowScripts: false },
+    activate: context => {
+        context.registerCellType({ type: 'embed', label: 'Embed', icon: '🔗', createContent: () => ({ url: '' }), component: EmbedCell });
+    },
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { NotebookPlugin, PluginCellProps } from '../plugin';
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const HttpRequestCell: React.FC<PluginCellProps> = ({ cell, onUpdateContent }) => {
+    const content = { method: 'GET', url: '', body: '', ...cell.content };
+    const update = (changes: Record<string, any>) => onUpdateContent({ ...content, ...changes }, true);
+
+    return (
+        <div className="space-y-2 text-sm">
+            <div className="flex gap-2">
+                <select value={content.method} onChange={e => update({ method: e.target.value })} className="bg-gray-900 border border-gray-700 rounded px-1 py-1 font-mono outline-none">
+                    {METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+                <input
+                    value={content.url}
+                    onChange={e => update({ url: e.target.value })}
+                    placeholder="https://api.example.com/items"
+                    className="flex-grow bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono outline-none focus:border-blue-500"
+                />
+            </div>
+            {content.method !== 'GET' && content.method !== 'DELETE' && (
+                <textarea
+                    value={content.body}
+                    onChange={e => update({ body: e.target.value })}
+                    placeholder="Request body (JSON)"
+                    rows={Math.max(2, content.body.split('\n').length)}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono outline-none focus:border-blue-500 resize-none"
+                    spellCheck={false}
+                />
+            )}
+        </div>
+    );
+};
+
+// The response becomes a rich output: JSON, CSV and HTML bodies keep their MIME type so the
+// matching renderer shows them.
+const responseOutputs = async (response: Response) => {
+    const type = (response.headers.get('content-type') || '').split(';')[0].trim();
+    const text = await response.text();
+    const data: Record<string, any> = { 'text/plain': text };
+    if (type.includes('json')) {
+        try { data['application/json'] = JSON.parse(text); } catch { /* keep it as text */ }
+    } else if (type === 'text/csv' || type === 'text/html' || type === 'text/markdown') {
+        data[type] = text;
+    }
+    const status = { type: 'stream', name: response.ok ? 'stdout' : 'stderr', text: `HTTP ${response.status} ${response.statusText}\n` };
+    if (!response.ok) return [status, { type: 'error', name: 'HTTPError', message: `${response.status} ${response.statusText}`, traceback: [] }, { type: 'display_data', data, metadata: {} }];
+    return [status, { type: 'execute_result', data, metadata: {} }];
+};
+
+export const httpRequestPlugin: NotebookPlugin = {
+    id: 'http-request',
+    name: 'HTTP Requests',
+    version: '1.0.0',
+    description: 'Cells that call a web API from the browser and show the response.',
+    configSchema: [
+        { key: 'timeoutMs', label: 'Timeout (ms)', type: 'number' },
+        { key: 'credentials', label: 'Send cookies', type: 'select', options: ['omit', 'same-origin', 'include'], description: 'Applies to every notebook in this browser.', local: true },
+    ],
+    defaultConfig: { timeoutMs: 15000, credentials: 'same-origin' },
+    activate: context => {
+        context.registerCellType({
+            type: 'http_request',
+            label: 'HTTP Request',
+            icon: '🌐',
+            createContent: () => ({ method: 'GET', url: '', body: '' }),
+            component: HttpRequestCell,
+            execute: async (cell, { config }) => {
+                const { method = 'GET', url = '', body = '' } = cell.content || {};
+                if (!/^https?:\/\//i.test(url)) throw new Error('Enter an http(s) URL');
+                const controller = new AbortController();
+                const timer = setTimeout(() => controller.abort(), Number(config.timeoutMs) || 15000);
+                try {
+                    const hasBody = body.trim() && method !== 'GET' && method !== 'DELETE';
+                    const response = await fetch(url, {
+                        method,
+                        body: hasBody ? body : undefined,
+                        headers: hasBody ? { 'Content-Type': 'application/json' } : undefined,
+                        credentials: config.credentials,
+                        signal: controller.signal,
+                    });
+                    return await responseOutputs(response);
+                } catch (e: any) {
+                    if (e?.name === 'AbortError') throw new Error(`No response within ${config.timeoutMs} ms`);
+                    throw e;
+                } finally {
+                    clearTimeout(timer);
+                }
+            },
+        });
+    },
+};
@@ -0,0 +1,9 @@
+import { NotebookPlugin } from '../plugin';
+import { csvRendererPlugin } from './csvRenderer';
+import { embedPlugin } from './embed';
+import { httpRequestPlugin } from './httpRequest';
+import { notebookStatsPlugin } from './notebookStats';
+
+// Plugins that ship with the notebook. They use only the public plugin API, like third-party
+// plugins installed with registerPlugin().
+export const BUILTIN_PLUGINS: NotebookPlugin[] = [embedPlugin, httpRequestPlugin, csvRendererPlugin, notebookStatsPlugin];
@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { useNotebook } from '../../../components/Notebook';
+import { cellSource } from '../../ai/notebookContext';
+import { NotebookPlugin } from '../plugin';
+
+const PANEL_KEY = 'plugin:notebook-stats/stats';
+
+const StatsPanel: React.FC<{ config: Record<string, any> }> = ({ config }) => {
+    const { cells } = useNotebook();
+    const stats = useMemo(() => {
+        const byType: Record<string, number> = {};
+        let words = 0;
+        let codeLines = 0;
+        cells.forEach(cell => {
+            byType[cell.type] = (byType[cell.type] || 0) + 1;
+            const { language, source } = cellSource(cell);
+            if (language === 'markdown') words += source.split(/\s+/).filter(Boolean).length;
+            else if (cell.type === 'code' || cell.type === 'sql') codeLines += source.split('\n').filter(line => line.trim()).length;
+        });
+        return {
+            byType,
+            words,
+            codeLines,
+            executed: cells.filter(c => (c.executionCount || 0) > 0).length,
+            errors: cells.filter(c => c.status === 'error').length,
+        };
+    }, [cells]);
+    const minutes = Math.max(1, Math.round(stats.words / (Number(config.wordsPerMinute) || 200)));
+
+    const row = (label: string, value: React.ReactNode) => (
+        <div className="flex justify-between px-2 py-0.5"><span className="text-gray-500">{label}</span><span className="text-gray-200">{value}</span></div>
+    );
+
+    return (
+        <div className="text-sm space-y-3">
+            <div className="text-xs font-semibold text-gray-500 uppercase">Notebook Statistics</div>
+            <div>
+                {row('Cells', cells.length)}
+                {Object.entries<number>(stats.byType).sort((a, b) => b[1] - a[1]).map(([type, count]) => <div key={type} className="pl-3">{row(type, count)}</div>)}
+            </div>
+            <div>
+                {row('Words (text cells)', stats.words)}
+                {row('Reading time', `~${minutes} min`)}
+                {row('Lines of code', stats.codeLines)}
+                {row('Cells run', stats.executed)}
+                {row('Cells with errors', <span className={stats.errors ? 'text-red-400' : ''}>{stats.errors}</span>)}
+            </div>
+        </div>
+    );
+};
+
+export const notebookStatsPlugin: NotebookPlugin = {
+    id: 'notebook-stats',
+    name: 'Notebook Statistics',
+    version: '1.0.0',
+    description: 'A sidebar panel with cell counts, word count, reading time and errors.',
+    configSchema: [{ key: 'wordsPerMinute', label: 'Reading speed (words/min)', type: 'number' }],
+    defaultConfig: { wordsPerMinute: 200 },
+    activate: context => {
+        context.registerSidebarPanel({ id: 'stats', title: 'Stats', icon: '📊', component: StatsPanel });
+        context.registerCommand({ id: 'notebookStats.show', label: 'Show Notebook Statistics', icon: '📊', handler: ctx => ctx.toggleSidebarPanel(PANEL_KEY) });
+        context.registerToolbarButton({ id: 'stats', label: 'Stats', icon: '📊', title: 'Notebook statistics', onClick: ctx => ctx.toggleSidebarPanel(PANEL_KEY) });
+    },
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Command, EnhancedCell, NotebookContextType } from '../../components/Notebook';
+import { MimeRenderer } from '../../components/OutputRenderers';
+import { GeneralCellProps } from '../../types';
+
+// Contract between the notebook and a plugin. A plugin is activated with a PluginContext and
+// contributes through it; everything it registers is removed again when it is disabled, its
+// config changes or it fails.
+
+export interface PluginConfigField {
+    key: string;
+    label: string;
+    type: 'string' | 'number' | 'boolean' | 'select';
+    options?: string[];
+    description?: string;
+    // Kept in this browser instead of the notebook, for settings that loosen security: a shared
+    // or imported notebook can't turn them on.
+    local?: boolean;
+}
+
+export interface PluginCellProps extends GeneralCellProps {
+    config: Record<string, any>;
+}
+
+export interface PluginExecutionContext {
+    config: Record<string, any>;
+    cells: EnhancedCell[];
+}
+
+export interface PluginCellType {
+    // Stored as the cell's `type`. Cell types the notebook renders itself take precedence.
+    type: string;
+    label: string;
+    icon?: string;
+    createContent?: () => any;
+    component: React.ComponentType<PluginCellProps>;
+    // Resolves with the cell's new outputs. Cells without an executor are not runnable.
+    execute?: (cell: EnhancedCell, context: PluginExecutionContext) => Promise<any[]>;
+}
+
+export interface PluginSidebarPanel {
+    id: string;
+    title: string;
+    icon?: string;
+    component: React.ComponentType<{ config: Record<string, any> }>;
+}
+
+export interface PluginToolbarButton {
+    id: string;
+    label: string;
+    icon?: string;
+    title?: string;
+    onClick: (context: NotebookContextType) => void;
+}
+
+export interface PluginContext {
+    pluginId: string;
+    config: Record<string, any>;
+    registerCellType(cellType: PluginCellType): void;
+    registerMimeRenderer(renderer: MimeRenderer): void;
+    registerCommand(command: Command): void;
+    registerSidebarPanel(panel: PluginSidebarPanel): void;
+    registerToolbarButton(button: PluginToolbarButton): void;
+    notify(message: string, type?: 'info' | 'warning' | 'error' | 'success'): void;
+}
+
+export interface NotebookPlugin {
+    id: string;
+    name: string;
+    version: string;
+    description?: string;
+    configSchema?: PluginConfigField[];
+    defaultConfig?: Record<string, any>;
+    // Plugins without an entry in NotebookMetadata.plugins start enabled unless this is false.
+    enabledByDefault?: boolean;
+    // May return a cleanup function for anything not registered through the context.
+    activate(context: PluginContext): void | (() => void);
+}
@@ -0,0 +1,265 @@
+import React, { useSyncExternalStore } from 'react';
+import { Command, NotebookMetadata } from '../../components/Notebook';
+import { MimeRenderer, registerMimeRenderer } from '../../components/OutputRenderers';
+import { IsolatedPluginView } from '../../components/PluginErrorBoundary';
+import { registerCommand } from '../commands';
+import { NotebookPlugin, PluginCellType, PluginContext, PluginSidebarPanel, PluginToolbarButton } from './plugin';
+import { BUILTIN_PLUGINS } from './builtin';
+
+export type PluginSettings = NonNullable<NotebookMetadata['plugins']>;
+
+export interface PluginHost {
+    notify: (message: string, type: 'info' | 'warning' | 'error' | 'success') => void;
+}
+
+// Contributions are tagged with the plugin that made them so the UI can wrap and attribute them.
+export type Contribution<T> = T & { pluginId: string };
+
+// --- Registry ---
+// Installed plugins, what the active ones contributed, and the last error of each plugin.
+// A single version number covers all of it for useSyncExternalStore.
+
+const plugins = new Map<string, NotebookPlugin>();
+const cellTypes = new Map<string, Contribution<PluginCellType>>();
+const sidebarPanels = new Map<string, Contribution<PluginSidebarPanel>>();
+const toolbarButtons = new Map<string, Contribution<PluginToolbarButton>>();
+const errors = new Map<string, string>();
+const listeners = new Set<() => void>();
+let version = 0;
+
+interface Activation {
+    configKey: string;
+    dispose: () => void;
+    host: PluginHost;
+}
+
+const active = new Map<string, Activation>();
+const hosts = new Map<string, PluginHost>();
+
+const notify = () => {
+    version++;
+    listeners.forEach(listener => listener());
+};
+
+export const subscribePlugins = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getPluginsVersion = () => version;
+
+export const usePluginRegistry = () => useSyncExternalStore(subscribePlugins, getPluginsVersion);
+
+// Installing a plugin only makes it available; syncPlugins() activates it for a notebook.
+export const registerPlugin = (plugin: NotebookPlugin) => {
+    plugins.set(plugin.id, plugin);
+    notify();
+    return () => {
+        if (plugins.get(plugin.id) !== plugin) return;
+        deactivate(plugin.id);
+        plugins.delete(plugin.id);
+        notify();
+    };
+};
+
+export const getPlugins = () => Array.from(plugins.values());
+export const getPluginCellType = (type: string) => cellTypes.get(type);
+export const getPluginSidebarPanels = () => Array.from(sidebarPanels.values());
+export const getPluginToolbarButtons = () => Array.from(toolbarButtons.values());
+export const getPluginError = (pluginId: string) => errors.get(pluginId);
+export const isPluginActive = (pluginId: string) => active.has(pluginId);
+
+// Sidebar panels are addressed as `plugin:<pluginId>/<panelId>`.
+export const pluginPanelKey = (panel: Contribution<PluginSidebarPanel>) => `plugin:${panel.pluginId}/${panel.id}` as const;
+
+export const isPluginEnabled = (plugin: NotebookPlugin, settings?: PluginSettings) =>
+    settings?.[plugin.id]?.enabled ?? plugin.enabledByDefault ?? true;
+
+// Values of `local` config fields, stored per browser as { pluginId: { key: value } }.
+const LOCAL_CONFIG_KEY = 'universal-notebook:plugin-config';
+
+const loadLocalConfig = (): Record<string, Record<string, any>> => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(LOCAL_CONFIG_KEY) || '{}');
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+let localConfig = loadLocalConfig();
+
+export const getLocalPluginConfig = (pluginId: string): Record<string, any> => localConfig[pluginId] || {};
+
+export const setLocalPluginConfig = (pluginId: string, config: Record<string, any>) => {
+    localConfig = { ...localConfig, [pluginId]: config };
+    try { localStorage.setItem(LOCAL_CONFIG_KEY, JSON.stringify(localConfig)); } catch { /* storage may be disabled */ }
+    // Re-renders the registry's users, so notebooks re-sync their plugins with the new config.
+    notify();
+};
+
+const isLocalField = (plugin: NotebookPlugin, key: string) => !!plugin.configSchema?.some(field => field.key === key && field.local);
+
+const setValues = (config: Record<string, any>) => Object.entries(config).filter(([, value]) => value !== undefined && value !== null);
+
+// Defaults overlaid with the notebook's settings; cleared fields fall back to the default.
+// Local fields ignore the notebook and come from this browser only.
+export const pluginConfig = (plugin: NotebookPlugin, settings?: PluginSettings): Record<string, any> => {
+    const overrides = setValues(settings?.[plugin.id]?.config || {}).filter(([key]) => !isLocalField(plugin, key));
+    const local = setValues(getLocalPluginConfig(plugin.id)).filter(([key]) => isLocalField(plugin, key));
+    return { ...plugin.defaultConfig, ...Object.fromEntries(overrides), ...Object.fromEntries(local) };
+};
+
+export const pluginContributions = (pluginId: string) => ({
+    cellTypes: Array.from(cellTypes.values()).filter(c => c.pluginId === pluginId).length,
+    sidebarPanels: Array.from(sidebarPanels.values()).filter(c => c.pluginId === pluginId).length,
+    toolbarButtons: Array.from(toolbarButtons.values()).filter(c => c.pluginId === pluginId).length,
+});
+
+// --- Isolation ---
+// Anything a plugin hands the notebook is wrapped so its failures are reported against the
+// plugin instead of propagating: components render inside an error boundary, callbacks are
+// guarded, and a failed activation is rolled back.
+
+export const reportPluginError = (pluginId: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Plugin ${pluginId} failed:`, error);
+    errors.set(pluginId, message);
+    notify();
+    (active.get(pluginId)?.host || hosts.get(pluginId))?.notify(`Plugin ${plugins.get(pluginId)?.name || pluginId} failed: ${message}`, 'error');
+};
+
+const guard = <A extends any[], R>(pluginId: string, fn: (...args: A) => R, fallback?: R) => (...args: A): R | undefined => {
+    try {
+        const result = fn(...args);
+        if (result instanceof Promise) result.catch(e => reportPluginError(pluginId, e));
+        return result;
+    } catch (e) {
+        reportPluginError(pluginId, e);
+        return fallback;
+    }
+};
+
+export const isolateComponent = <P extends object>(pluginId: string, Component: React.ComponentType<P>): React.FC<P> => {
+    const Isolated: React.FC<P> = props => React.createElement(
+        IsolatedPluginView,
+        { pluginId, onError: error => reportPluginError(pluginId, error) },
+        React.createElement(Component, props),
+    );
+    Isolated.displayName = `Plugin(${pluginId})`;
+    return Isolated;
+};
+
+// --- Activation ---
+
+const createContext = (plugin: NotebookPlugin, config: Record<string, any>, host: PluginHost, disposers: (() => void)[]): PluginContext => {
+    const id = plugin.id;
+    const track = (dispose: () => void) => { disposers.push(dispose); };
+    const addTo = <T extends { pluginId: string }>(map: Map<string, T>, key: string, value: T) => {
+        const existing = map.get(key);
+        if (existing && existing.pluginId !== id) throw new Error(`"${key}" is already registered by plugin ${existing.pluginId}`);
+        map.set(key, value);
+        notify();
+        track(() => {
+            if (map.get(key) !== value) return;
+            map.delete(key);
+            notify();
+        });
+    };
+    const command = (c: Command): Command => ({
+        ...c,
+        category: c.category || plugin.name,
+        handler: guard(id, c.handler),
+        visible: c.visible ? guard(id, c.visible, false) as (ctx?: any) => boolean : undefined,
+    });
+
+    return {
+        pluginId: id,
+        config,
+        registerCellType: cellType => {
+            addTo(cellTypes, cellType.type, {
+                ...cellType,
+                pluginId: id,
+                component: isolateComponent(id, cellType.component),
+            });
+            track(registerCommand(command({
+                id: `cell.add.${cellType.type}`,
+                label: `Add ${cellType.label} Cell`,
+                category: 'Cell',
+                handler: ctx => {
+                    const index = ctx.cells.findIndex((c: any) => c.id === ctx.activeCellId);
+                    ctx.addCell(cellType.type, cellType.createContent ? cellType.createContent() : {}, index >= 0 ? index + 1 : undefined);
+                },
+            })));
+        },
+        registerMimeRenderer: renderer => {
+            track(registerMimeRenderer({
+                ...renderer,
+                canRender: renderer.canRender ? guard(id, renderer.canRender, false) as MimeRenderer['canRender'] : undefined,
+                component: isolateComponent(id, renderer.component),
+            }));
+        },
+        registerCommand: c => track(registerCommand(command(c))),
+        registerSidebarPanel: panel => addTo(sidebarPanels, `${id}/${panel.id}`, { ...panel, pluginId: id, component: isolateComponent(id, panel.component) }),
+        registerToolbarButton: button => addTo(toolbarButtons, `${id}/${button.id}`, { ...button, pluginId: id, onClick: guard(id, button.onClick) as PluginToolbarButton['onClick'] }),
+        notify: (message, type = 'info') => host.notify(message, type),
+    };
+};
+
+const activate = (plugin: NotebookPlugin, config: Record<string, any>, configKey: string, host: PluginHost) => {
+    const disposers: (() => void)[] = [];
+    const dispose = () => disposers.splice(0).reverse().forEach(fn => {
+        try { fn(); } catch (e) { console.error(`Plugin ${plugin.id} cleanup failed:`, e); }
+    });
+    hosts.set(plugin.id, host);
+    errors.delete(plugin.id);
+    try {
+        const cleanup = plugin.activate(createContext(plugin, config, host, disposers));
+        if (typeof cleanup === 'function') disposers.unshift(cleanup);
+    } catch (e) {
+        dispose();
+        reportPluginError(plugin.id, e);
+        return;
+    }
+    active.set(plugin.id, { configKey, dispose, host });
+    notify();
+};
+
+const deactivate = (pluginId: string) => {
+    const activation = active.get(pluginId);
+    if (!activation) return;
+    active.delete(pluginId);
+    activation.dispose();
+    notify();
+};
+
+// Brings the active plugins in line with a notebook's settings: disabled plugins are deactivated,
+// enabled ones activated, and a plugin whose config changed is re-activated with the new config.
+// A plugin whose activation failed is retried only when its settings change.
+const attempted = new Map<string, string>();
+
+export const syncPlugins = (settings: PluginSettings | undefined, host: PluginHost) => {
+    plugins.forEach(plugin => {
+        const enabled = isPluginEnabled(plugin, settings);
+        const config = pluginConfig(plugin, settings);
+        const configKey = JSON.stringify(config);
+        const current = active.get(plugin.id);
+        if (!enabled) {
+            deactivate(plugin.id);
+            attempted.delete(plugin.id);
+            return;
+        }
+        if (current?.configKey === configKey) return;
+        if (!current && attempted.get(plugin.id) === configKey) return;
+        deactivate(plugin.id);
+        attempted.set(plugin.id, configKey);
+        activate(plugin, config, configKey, host);
+    });
+};
+
+export const deactivateAllPlugins = () => {
+    Array.from(active.keys()).forEach(deactivate);
+    attempted.clear();
+};
+
+BUILTIN_PLUGINS.forEach(registerPlugin);
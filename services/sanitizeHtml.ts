@@ -0,0 +1,86 @@
+// Allowlist-based HTML sanitizer for rich outputs and rendered Markdown. Both come from kernels,
+// imported and shared notebooks, so only known elements and attributes are kept: nothing that
+// can run script, load a page or style the rest of the notebook.
+
+const ALLOWED_ELEMENTS = new Set([
+    // Text and structure
+    'a', 'abbr', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'details', 'dfn',
+    'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'li',
+    'mark', 'ol', 'p', 'pre', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'small', 'span', 'strong', 'sub', 'summary', 'sup', 'table',
+    'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'u', 'ul', 'var', 'wbr',
+    // Static SVG, lower-cased
+    'svg', 'g', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan', 'defs', 'clippath',
+    'lineargradient', 'radialgradient', 'stop', 'desc',
+]);
+
+// Removed with everything inside them rather than unwrapped: their content is script, styles,
+// raw text or markup in another namespace.
+const DROPPED_ELEMENTS = new Set([
+    'script', 'style', 'template', 'noscript', 'noembed', 'noframes', 'xmp', 'plaintext', 'iframe', 'frame', 'frameset', 'object',
+    'embed', 'applet', 'textarea', 'title', 'select', 'option', 'math', 'foreignobject', 'animate', 'animatemotion',
+    'animatetransform', 'set', 'use', 'image',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+    'class', 'id', 'title', 'lang', 'dir', 'style', 'role', 'align', 'valign', 'width', 'height', 'border', 'cellpadding', 'cellspacing',
+    'colspan', 'rowspan', 'scope', 'headers', 'alt', 'src', 'href', 'target', 'rel', 'start', 'reversed', 'type', 'value', 'open',
+    'datetime', 'cite', 'checked', 'disabled',
+    // SVG, lower-cased
+    'viewbox', 'xmlns', 'version', 'preserveaspectratio', 'transform', 'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width',
+    'stroke-opacity', 'stroke-linecap', 'stroke-linejoin', 'stroke-dasharray', 'opacity', 'd', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'dx',
+    'dy', 'cx', 'cy', 'r', 'rx', 'ry', 'points', 'offset', 'stop-color', 'stop-opacity', 'gradientunits', 'gradienttransform',
+    'clip-path', 'clip-rule', 'font-size', 'font-family', 'font-weight', 'text-anchor', 'dominant-baseline',
+]);
+
+// Only these elements may carry a URL, and only a safe one.
+const URL_ATTRIBUTES: Record<string, string> = { a: 'href', img: 'src' };
+
+const SAFE_URL = /^(?:https?:|mailto:|#|\/|\.{0,2}\/|data:image\/(?:png|jpe?g|gif|webp|bmp);)/i;
+
+// An SVG shown through <img> can't run script, so images may also be SVG.
+const SVG_IMAGE_URL = /^data:image\/svg\+xml[;,]/i;
+
+const isSafeUrl = (value: string, tag: string) => {
+    const trimmed = value.replace(/[\u0000- ]/g, '');
+    return trimmed === '' || SAFE_URL.test(trimmed) || (tag === 'img' && SVG_IMAGE_URL.test(trimmed)) || !/^[a-z][a-z0-9+.-]*:/i.test(trimmed);
+};
+
+// Inline styles may not load anything or take the element out of its output area.
+const UNSAFE_STYLE = /expression\s*\(|url\s*\(|@import|behavior\s*:|-moz-binding|position\s*:\s*(?:fixed|sticky)/i;
+
+const cleanAttributes = (element: Element, tag: string) => {
+    Array.from(element.attributes).forEach(attr => {
+        const name = attr.name.toLowerCase();
+        const isUrl = name === 'href' || name === 'src';
+        const allowed = name.startsWith('aria-') || (ALLOWED_ATTRIBUTES.has(name) && (!isUrl || URL_ATTRIBUTES[tag] === name));
+        if (!allowed || (isUrl && !isSafeUrl(attr.value, tag)) || (name === 'style' && UNSAFE_STYLE.test(attr.value))) element.removeAttribute(attr.name);
+    });
+    // Links opened from outputs must not get a handle on the notebook window.
+    if (tag === 'a' && element.getAttribute('target') === '_blank') element.setAttribute('rel', 'noopener noreferrer');
+    // Markdown task lists are the only inputs, and they are read-only.
+    if (tag === 'input') {
+        if (element.getAttribute('type') !== 'checkbox') element.remove();
+        else element.setAttribute('disabled', '');
+    }
+};
+
+const cleanChildren = (parent: Element) => {
+    Array.from(parent.children).forEach(child => {
+        const tag = child.tagName.toLowerCase();
+        if (DROPPED_ELEMENTS.has(tag)) {
+            child.remove();
+            return;
+        }
+        cleanChildren(child);
+        // Unknown elements are unwrapped, so their text is kept.
+        if (!ALLOWED_ELEMENTS.has(tag)) child.replaceWith(...Array.from(child.childNodes));
+        else cleanAttributes(child, tag);
+    });
+};
+
+export const sanitizeHtml = (html: string): string => {
+    if (typeof DOMParser === 'undefined') return html.replace(/[<>&]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;' }[c]!));
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    cleanChildren(doc.body);
+    return doc.body.innerHTML;
+};
@@ -0,0 +1,196 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { ColumnType, DataTable, columnValues, inferColumnType } from './dataTable';
+
+// In-browser SQLite (sql.js) behind SQL cells. Notebook tables are mirrored into one shared
+// in-memory database before each query; the wasm binary is fetched on first use.
+
+const SQL_JS_VERSION = '1.14.2';
+
+export interface SqlResult {
+    columns: string[];
+    rows: any[][];
+    // Rows inserted, updated or deleted by the statements.
+    rowsModified: number;
+}
+
+export interface SqlTableSchema {
+    name: string;
+    columns: { name: string; type: string }[];
+    rowCount: number;
+}
+
+const SQLITE_TYPES: Record<ColumnType, string> = { number: 'REAL', boolean: 'INTEGER', date: 'TEXT', string: 'TEXT', empty: 'TEXT' };
+
+export const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const toSqlValue = (value: any): SqlValue => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+let database: Promise<Database> | null = null;
+
+const loadSqlJs = () => {
+    if (!sqlJs) {
+        sqlJs = initSqlJs({ locateFile: file => `https://cdn.jsdelivr.net/npm/sql.js@${SQL_JS_VERSION}/dist/${file}` });
+        // Allow a retry if the wasm download failed.
+        sqlJs.catch(() => { sqlJs = null; });
+    }
+    return sqlJs;
+};
+
+const getDatabase = () => {
+    if (!database) {
+        database = loadSqlJs().then(SQL => new SQL.Database());
+        database.catch(() => { database = null; });
+    }
+    return database;
+};
+
+// Tables mirrored from the notebook, keyed by name, with the data they were built from so
+// unchanged tables are not rebuilt before every query.
+const mirrored = new Map<string, DataTable>();
+
+const loadTable = (db: Database, name: string, table: DataTable) => {
+    const types = table.columns.map((_, i) => SQLITE_TYPES[inferColumnType(columnValues(table, i))]);
+    const columns = table.columns.map((c, i) => `${quoteIdentifier(c)} ${types[i]}`).join(', ');
+    db.run(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+    db.run(`CREATE TABLE ${quoteIdentifier(name)} (${columns || '"_empty" TEXT'})`);
+    if (table.columns.length === 0 || table.data.length === 0) return;
+    const insert = db.prepare(`INSERT INTO ${quoteIdentifier(name)} VALUES (${table.columns.map(() => '?').join(', ')})`);
+    try {
+        table.data.forEach(row => insert.run(table.columns.map((_, i) => toSqlValue(row[i]))));
+    } finally {
+        insert.free();
+    }
+};
+
+// Brings the database in line with the notebook's tables: new or edited tables are (re)created,
+// tables that no longer exist in the notebook are dropped. Tables created by queries are kept.
+export const syncTables = async (tables: { name: string; table: DataTable }[]) => {
+    const db = await getDatabase();
+    const wanted = new Map(tables.map(t => [t.name, t.table]));
+    db.run('BEGIN');
+    try {
+        mirrored.forEach((_, name) => {
+            if (!wanted.has(name)) {
+                db.run(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+                mirrored.delete(name);
+            }
+        });
+        wanted.forEach((table, name) => {
+            const previous = mirrored.get(name);
+            if (previous && previous.data === table.data && previous.columns === table.columns) return;
+            loadTable(db, name, table);
+            mirrored.set(name, table);
+        });
+        db.run('COMMIT');
+    } catch (e) {
+        db.run('ROLLBACK');
+        mirrored.clear();
+        throw e;
+    }
+};
+
+// Runs one or more statements. The result set of the last statement that returned rows is
+// reported; `params` binds `:name`, `$name` and `@name` placeholders.
+export const runQuery = async (sql: string, params: Record<string, any> = {}): Promise<SqlResult> => {
+    const db = await getDatabase();
+    const bound: Record<string, SqlValue> = {};
+    sqlParameterNames(sql).forEach(({ name, token }) => { bound[token] = toSqlValue(params[name]); });
+    const totalChanges = () => Number(db.exec('SELECT total_changes()')[0].values[0][0]);
+    const changesBefore = totalChanges();
+    let result: SqlResult = { columns: [], rows: [], rowsModified: 0 };
+    for (const statement of db.iterateStatements(sql)) {
+        try {
+            const names = statement.getColumnNames();
+            // Placeholders a statement does not use are ignored by sql.js.
+            if (Object.keys(bound).length > 0) statement.bind(bound);
+            if (names.length === 0) {
+                statement.step();
+                continue;
+            }
+            const rows: any[][] = [];
+            while (statement.step()) rows.push(statement.get());
+            result = { columns: names, rows, rowsModified: 0 };
+        } finally {
+            statement.free();
+        }
+    }
+    return { ...result, rowsModified: totalChanges() - changesBefore };
+};
+
+// A result set as a dataframe output. Duplicate column names (e.g. `a.id, b.id`) get a numeric
+// suffix so every column survives the conversion to records.
+export const toDataframeOutput = (result: SqlResult) => {
+    const seen = new Map<string, number>();
+    const columns = result.columns.map(name => {
+        const count = seen.get(name) || 0;
+        seen.set(name, count + 1);
+        return count === 0 ? name : `${name}_${count}`;
+    });
+    const records = result.rows.map(row => Object.fromEntries(columns.map((c, i) => [c, row[i]])));
+    return {
+        type: 'execute_result',
+        data: { 'application/json': records, 'text/plain': `DataFrame (${records.length} rows, ${columns.length} cols)` },
+        metadata: { type: 'dataframe', columns },
+    };
+};
+
+// Removes string literals and comments so placeholders and table names inside them are ignored.
+const stripLiterals = (sql: string) =>
+    sql.replace(/'(?:[^']|'')*'|--[^\n]*|\/\*[\s\S]*?\*\//g, ' ');
+
+// `:name`, `$name` and `@name` placeholders, once per token, in order of appearance.
+export const sqlParameterNames = (sql: string): { name: string; token: string }[] => {
+    const seen = new Set<string>();
+    const result: { name: string; token: string }[] = [];
+    const pattern = /(^|[^:\w])([:$@])([A-Za-z_]\w*)/g;
+    let match: RegExpExecArray | null;
+    const source = stripLiterals(sql);
+    while ((match = pattern.exec(source))) {
+        const token = match[2] + match[3];
+        if (seen.has(token)) continue;
+        seen.add(token);
+        result.push({ name: match[3], token });
+    }
+    return result;
+};
+
+// Tables a query reads: identifiers after FROM and JOIN, including comma-separated FROM lists.
+export const sqlTableReferences = (sql: string): string[] => {
+    const names = new Set<string>();
+    const source = stripLiterals(sql);
+    const pattern = /\b(from|join)\s+((?:"[^"]+"|[A-Za-z_]\w*)(?:\s+(?:as\s+)?[A-Za-z_]\w*)?(?:\s*,\s*(?:"[^"]+"|[A-Za-z_]\w*)(?:\s+(?:as\s+)?[A-Za-z_]\w*)?)*)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source))) {
+        const items = match[1].toLowerCase() === 'from' ? match[2].split(',') : [match[2]];
+        items.forEach(item => {
+            const name = item.trim().match(/^"([^"]+)"|^([A-Za-z_]\w*)/);
+            if (name) names.add(name[1] || name[2]);
+        });
+    }
+    return Array.from(names);
+};
+
+export const getSchema = async (): Promise<SqlTableSchema[]> => {
+    if (!database) return [];
+    const db = await getDatabase();
+    const tables = db.exec("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name");
+    if (tables.length === 0) return [];
+    return tables[0].values.map(([name]) => {
+        const table = String(name);
+        const info = db.exec(`PRAGMA table_info(${quoteIdentifier(table)})`);
+        const count = db.exec(`SELECT COUNT(*) FROM ${quoteIdentifier(table)}`);
+        return {
+            name: table,
+            columns: (info[0]?.values || []).map(row => ({ name: String(row[1]), type: String(row[2] || 'ANY') })),
+            rowCount: Number(count[0]?.values[0]?.[0] ?? 0),
+        };
+    });
+};
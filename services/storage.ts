@@ -0,0 +1,103 @@
+import { EnhancedCell, NotebookMetadata } from '../components/Notebook';
+import { withStore } from './idb';
+
+export interface StoredNotebook {
+    id: string;
+    metadata: NotebookMetadata;
+    cells: EnhancedCell[];
+    savedAt: string;
+}
+
+export interface NotebookSummary {
+    id: string;
+    title: string;
+    lastModified: string;
+    version: number;
+    cellCount: number;
+}
+
+// Anything that can persist notebooks. The app talks only to this interface, so an
+// IndexedDB store can be swapped for a REST backend via setNotebookStorage().
+export interface NotebookStorage {
+    list(): Promise<NotebookSummary[]>;
+    load(id: string): Promise<StoredNotebook | undefined>;
+    save(metadata: NotebookMetadata, cells: EnhancedCell[]): Promise<StoredNotebook>;
+    remove(id: string): Promise<void>;
+    // Drafts hold unsaved work so it can be recovered after a crash or closed tab.
+    saveDraft(metadata: NotebookMetadata, cells: EnhancedCell[]): Promise<void>;
+    loadDraft(id: string): Promise<StoredNotebook | undefined>;
+    clearDraft(id: string): Promise<void>;
+}
+
+// Strips state that only makes sense for a live session (running status, kernel
+// status, remote cursors) so stored copies are stable and comparable.
+export const toStorableNotebook = (metadata: NotebookMetadata, cells: EnhancedCell[]) => ({
+    metadata: { ...metadata, kernels: metadata.kernels.map(k => ({ ...k, status: 'disconnected' as const })) },
+    cells: cells.map(({ collaborators, ...cell }) => ({
+        ...cell,
+        status: cell.status === 'running' || cell.status === 'queued' ? 'idle' as const : cell.status,
+    })),
+});
+
+const summarize = (notebook: StoredNotebook): NotebookSummary => ({
+    id: notebook.id,
+    title: notebook.metadata.title || 'Untitled',
+    lastModified: notebook.metadata.lastModified,
+    version: notebook.metadata.version || 0,
+    cellCount: notebook.cells.length,
+});
+
+export class IndexedDBNotebookStorage implements NotebookStorage {
+    async list() {
+        const all = await withStore<StoredNotebook[]>('notebooks', 'readonly', store => store.getAll());
+        return all.map(summarize).sort((a, b) => b.lastModified.localeCompare(a.lastModified));
+    }
+
+    load(id: string) {
+        return withStore<StoredNotebook | undefined>('notebooks', 'readonly', store => store.get(id));
+    }
+
+    async save(metadata: NotebookMetadata, cells: EnhancedCell[]) {
+        const now = new Date().toISOString();
+        const storable = toStorableNotebook({ ...metadata, lastModified: now, version: (metadata.version || 0) + 1 }, cells);
+        const record: StoredNotebook = { id: metadata.id, ...storable, savedAt: now };
+        await withStore('notebooks', 'readwrite', store => store.put(record));
+        return record;
+    }
+
+    async remove(id: string) {
+        await withStore('notebooks', 'readwrite', store => store.delete(id));
+        await this.clearDraft(id);
+    }
+
+    async saveDraft(metadata: NotebookMetadata, cells: EnhancedCell[]) {
+        const record: StoredNotebook = { id: metadata.id, ...toStorableNotebook(metadata, cells), savedAt: new Date().toISOString() };
+        await withStore('drafts', 'readwrite', store => store.put(record));
+    }
+
+    loadDraft(id: string) {
+        return withStore<StoredNotebook | undefined>('drafts', 'readonly', store => store.get(id));
+    }
+
+    async clearDraft(id: string) {
+        await withStore('drafts', 'readwrite', store => store.delete(id));
+    }
+}
+
+let activeStorage: NotebookStorage = new IndexedDBNotebookStorage();
+
+export const getNotebookStorage = () => activeStorage;
+
+export const setNotebookStorage = (storage: NotebookStorage) => {
+    activeStorage = storage;
+};
+
+const LAST_NOTEBOOK_KEY = 'universal-notebook:last-notebook-id';
+
+export const getLastNotebookId = () => {
+    try { return localStorage.getItem(LAST_NOTEBOOK_KEY); } catch { return null; }
+};
+
+export const setLastNotebookId = (id: string) => {
+    try { localStorage.setItem(LAST_NOTEBOOK_KEY, id); } catch { /* storage may be disabled */ }
+};
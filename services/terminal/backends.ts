@@ -0,0 +1,102 @@
+import { PtyMessage, PtyRequest } from './protocol';
+import { BrowserShell } from './browserShell';
+
+// Where a Terminal cell's shell runs. Backends are registered by id, like kernel factories;
+// built in are a PTY server reached over WebSocket and a shell over the workspace files
+// that runs in the page.
+
+export interface TerminalSize {
+    cols: number;
+    rows: number;
+}
+
+export interface TerminalOptions extends TerminalSize {
+    // Server address for backends that need one, e.g. ws://localhost:8767.
+    url?: string;
+}
+
+export interface TerminalHandlers {
+    onData(data: string): void;
+    onExit(code: number | null): void;
+}
+
+export interface TerminalSession {
+    // Keystrokes and pasted text.
+    write(data: string): void;
+    resize(size: TerminalSize): void;
+    close(): void;
+}
+
+export interface TerminalBackend {
+    id: string;
+    label: string;
+    // Rejects when the shell can't be started, e.g. the server is not running.
+    open(options: TerminalOptions, handlers: TerminalHandlers): Promise<TerminalSession>;
+}
+
+export const DEFAULT_PTY_URL = 'ws://localhost:8767';
+export const PTY_BACKEND_ID = 'pty';
+export const BROWSER_BACKEND_ID = 'browser';
+
+const backends = new Map<string, TerminalBackend>();
+
+export const registerTerminalBackend = (backend: TerminalBackend) => {
+    backends.set(backend.id, backend);
+    return () => { backends.delete(backend.id); };
+};
+
+export const getTerminalBackend = (id: string) => backends.get(id);
+
+export const getTerminalBackends = () => Array.from(backends.values());
+
+// --- PTY server ---
+
+const openPtySession = (options: TerminalOptions, handlers: TerminalHandlers) => new Promise<TerminalSession>((resolve, reject) => {
+    const base = (options.url || DEFAULT_PTY_URL).replace(/\/+$/, '');
+    const socket = new WebSocket(`${base}/pty?cols=${options.cols}&rows=${options.rows}`);
+    let opened = false;
+    let exited = false;
+    const send = (request: PtyRequest) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(request));
+    };
+    const exit = (code: number | null) => {
+        if (exited) return;
+        exited = true;
+        handlers.onExit(code);
+    };
+    socket.onopen = () => {
+        opened = true;
+        resolve({
+            write: data => send({ type: 'input', data }),
+            resize: ({ cols, rows }) => send({ type: 'resize', cols, rows }),
+            close: () => {
+                exited = true;
+                socket.close();
+            },
+        });
+    };
+    socket.onmessage = (event: MessageEvent) => {
+        let message: PtyMessage;
+        try {
+            message = JSON.parse(event.data);
+        } catch {
+            return;
+        }
+        if (message.type === 'output') handlers.onData(message.data);
+        else if (message.type === 'exit') exit(message.code);
+    };
+    socket.onerror = () => {
+        if (!opened) reject(new Error(`Could not connect to the terminal server at ${base}`));
+    };
+    socket.onclose = () => {
+        if (opened) exit(null);
+    };
+});
+
+registerTerminalBackend({ id: PTY_BACKEND_ID, label: 'PTY server', open: openPtySession });
+
+registerTerminalBackend({
+    id: BROWSER_BACKEND_ID,
+    label: 'Browser shell',
+    open: async (_options, handlers) => new BrowserShell(handlers),
+});
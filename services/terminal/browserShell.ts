@@ -0,0 +1,361 @@
+import { TerminalHandlers, TerminalSession } from './backends';
+import {
+    baseName, createWorkspaceFolder, joinPath, listWorkspace, normalizePath, parentPath, readWorkspaceFile,
+    removeWorkspaceEntry, renameWorkspaceEntry, WorkspaceEntry, writeWorkspaceFile,
+} from '../vfs';
+
+// A small shell that runs in the page, for when no PTY server is running. It works on the
+// workspace files (services/vfs.ts) and does its own line editing, since there is no
+// terminal driver: history on ↑/↓, Ctrl+A/E/U/C/L/D and Tab completion of commands and paths.
+// Commands take quoted arguments and `>`/`>>` redirect their output to a file.
+
+type Output = (text: string) => void;
+
+interface CommandContext {
+    args: string[];
+    out: Output;
+    err: Output;
+}
+
+const HELP = `Commands run on the workspace files (the Files panel):
+  ls [-l] [path...]     list a folder
+  cd [path]             change folder (no path: the workspace root)
+  pwd                   print the current folder
+  cat file...           print files
+  echo text...          print text; use > file or >> file to write it
+  mkdir path...         create folders, with their parents
+  touch file...         create empty files
+  rm [-r] path...       remove files, or folders with -r
+  mv from to            move or rename
+  cp from to            copy a file
+  clear                 clear the screen
+  history               list earlier commands
+  exit                  end the session
+Start the terminal server (npm run terminal-server) for a real shell.
+`;
+
+// Splits a command line into words. Quotes group words; `>` and `>>` are words of their own.
+export const splitCommandLine = (line: string): string[] => {
+    const words: string[] = [];
+    let word = '';
+    let quote: string | null = null;
+    let started = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+            else if (ch === '\\' && quote === '"' && i + 1 < line.length) word += line[++i];
+            else word += ch;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+            started = true;
+        } else if (ch === '\\' && i + 1 < line.length) {
+            word += line[++i];
+            started = true;
+        } else if (/\s/.test(ch) || ch === '>') {
+            if (started) words.push(word);
+            word = '';
+            started = false;
+            if (ch === '>' && line[i + 1] === '>') {
+                words.push('>>');
+                i++;
+            } else if (ch === '>') {
+                words.push('>');
+            }
+        } else {
+            word += ch;
+            started = true;
+        }
+    }
+    if (started) words.push(word);
+    return words;
+};
+
+const commonPrefix = (values: string[]) =>
+    values.reduce((prefix, value) => {
+        let i = 0;
+        while (i < prefix.length && prefix[i] === value[i]) i++;
+        return prefix.slice(0, i);
+    });
+
+export class BrowserShell implements TerminalSession {
+    private cwd = '';
+    private line = '';
+    private position = 0;
+    private history: string[] = [];
+    // Index into history while browsing it with ↑/↓; history.length means the line being typed.
+    private historyIndex = 0;
+    private running = false;
+    private queued = '';
+    private closed = false;
+
+    constructor(private handlers: TerminalHandlers) {
+        this.print('In-browser shell over the workspace files. Type help for the commands.\r\n');
+        this.prompt();
+    }
+
+    write(data: string) {
+        if (this.closed) return;
+        if (this.running) {
+            // Typing ahead is handled once the command finishes; Ctrl+C drops it.
+            if (data.includes('\u0003')) this.queued = '';
+            else this.queued += data;
+            return;
+        }
+        let rest = data;
+        while (rest && !this.running && !this.closed) {
+            const match = /^\u001b(?:\[[0-9;]*[A-Za-z~]|O[A-Za-z])/.exec(rest);
+            const key = match ? match[0] : rest[0];
+            rest = rest.slice(key.length);
+            this.handleKey(key);
+        }
+        if (rest) this.queued = rest + this.queued;
+    }
+
+    // Long lines wrap in the terminal, so the width doesn't matter here.
+    resize() {}
+
+    close() {
+        this.closed = true;
+    }
+
+    // --- Line editing ---
+
+    private print(text: string) {
+        this.handlers.onData(text);
+    }
+
+    private promptText() {
+        return `\u001b[32mworkspace\u001b[0m:\u001b[34m/${this.cwd}\u001b[0m$ `;
+    }
+
+    private prompt() {
+        this.line = '';
+        this.position = 0;
+        this.historyIndex = this.history.length;
+        this.print(this.promptText());
+    }
+
+    private redraw() {
+        const back = this.line.length - this.position;
+        this.print(`\r\u001b[K${this.promptText()}${this.line}${back > 0 ? `\u001b[${back}D` : ''}`);
+    }
+
+    private setLine(line: string, position = line.length) {
+        this.line = line;
+        this.position = position;
+        this.redraw();
+    }
+
+    private handleKey(key: string) {
+        switch (key) {
+            case '\r': case '\n': this.submit(); return;
+            case '\u007f': case '\b':
+                if (this.position > 0) this.setLine(this.line.slice(0, this.position - 1) + this.line.slice(this.position), this.position - 1);
+                return;
+            case '\u001b[3~':
+                if (this.position < this.line.length) this.setLine(this.line.slice(0, this.position) + this.line.slice(this.position + 1), this.position);
+                return;
+            case '\u001b[D': case '\u001bOD': if (this.position > 0) this.setLine(this.line, this.position - 1); return;
+            case '\u001b[C': case '\u001bOC': if (this.position < this.line.length) this.setLine(this.line, this.position + 1); return;
+            case '\u001b[H': case '\u001bOH': case '\u0001': this.setLine(this.line, 0); return;
+            case '\u001b[F': case '\u001bOF': case '\u0005': this.setLine(this.line); return;
+            case '\u001b[A': case '\u001bOA': this.browseHistory(-1); return;
+            case '\u001b[B': case '\u001bOB': this.browseHistory(1); return;
+            case '\u0015': this.setLine('', 0); return;
+            case '\u0003':
+                this.print('^C\r\n');
+                this.prompt();
+                return;
+            case '\u000c':
+                this.print('\u001b[2J\u001b[H');
+                this.redraw();
+                return;
+            case '\u0004':
+                if (!this.line) {
+                    this.print('exit\r\n');
+                    this.exit();
+                }
+                return;
+            case '\t': this.complete(); return;
+        }
+        if (key.length === 1 && key >= ' ') this.setLine(this.line.slice(0, this.position) + key + this.line.slice(this.position), this.position + 1);
+    }
+
+    private browseHistory(step: number) {
+        const index = Math.max(0, Math.min(this.history.length, this.historyIndex + step));
+        if (index === this.historyIndex) return;
+        this.historyIndex = index;
+        this.setLine(this.history[index] ?? '');
+    }
+
+    private exit() {
+        this.closed = true;
+        this.handlers.onExit(0);
+    }
+
+    private async submit() {
+        const line = this.line.trim();
+        this.print('\r\n');
+        if (line && this.history[this.history.length - 1] !== line) this.history.push(line);
+        this.running = true;
+        try {
+            await this.run(line);
+        } finally {
+            this.running = false;
+        }
+        if (this.closed) return;
+        this.prompt();
+        const queued = this.queued;
+        this.queued = '';
+        if (queued) this.write(queued);
+    }
+
+    // Completes the word before the cursor: the first word as a command, others as paths.
+    private async complete() {
+        const before = this.line.slice(0, this.position);
+        const start = before.search(/\S*$/);
+        const word = before.slice(start);
+        let candidates: string[];
+        if (start === 0 || !before.slice(0, start).trim()) {
+            candidates = Object.keys(this.commands).filter(name => name.startsWith(word)).map(name => `${name} `);
+        } else {
+            const folder = word.includes('/') ? word.slice(0, word.lastIndexOf('/') + 1) : '';
+            const partial = word.slice(folder.length);
+            const entries = this.children(await listWorkspace(), this.resolve(folder || '.'));
+            candidates = entries.filter(e => baseName(e.path).startsWith(partial))
+                .map(e => `${folder}${baseName(e.path)}${e.kind === 'directory' ? '/' : ' '}`);
+        }
+        if (candidates.length === 0) return;
+        const completion = candidates.length === 1 ? candidates[0] : commonPrefix(candidates);
+        if (completion.length > word.length) {
+            this.setLine(before.slice(0, start) + completion + this.line.slice(this.position), start + completion.length);
+        } else if (candidates.length > 1) {
+            this.print(`\r\n${candidates.map(c => c.trimEnd()).join('  ')}\r\n`);
+            this.redraw();
+        }
+    }
+
+    // --- Commands ---
+
+    private resolve(path: string) {
+        if (path === '~' || path.startsWith('~/')) return normalizePath(path.slice(1));
+        return path.startsWith('/') ? normalizePath(path) : joinPath(this.cwd, path);
+    }
+
+    private children(entries: WorkspaceEntry[], folder: string) {
+        return entries.filter(e => e.path !== folder && parentPath(e.path) === folder);
+    }
+
+    private async kindOf(path: string) {
+        if (path === '') return 'directory';
+        return (await listWorkspace()).find(e => e.path === path)?.kind;
+    }
+
+    private async run(line: string) {
+        const words = splitCommandLine(line);
+        if (words.length === 0) return;
+        const redirect = words.findIndex(w => w === '>' || w === '>>');
+        const target = redirect === -1 ? undefined : words[redirect + 1];
+        const args = redirect === -1 ? words.slice(1) : words.slice(1, redirect);
+        const err: Output = text => this.print(`\u001b[31m${text.replace(/\n/g, '\r\n')}\u001b[0m`);
+        if (redirect !== -1 && !target) {
+            err('syntax error: missing file after >\n');
+            return;
+        }
+        const command = this.commands[words[0]];
+        if (!command) {
+            err(`${words[0]}: command not found\n`);
+            return;
+        }
+        let captured = '';
+        const out: Output = target ? text => { captured += text; } : text => this.print(text.replace(/\n/g, '\r\n'));
+        try {
+            await command({ args, out, err });
+            if (target) {
+                const path = this.resolve(target);
+                const previous = words[redirect] === '>>' ? await readWorkspaceFile(path) : undefined;
+                await writeWorkspaceFile(path, (previous ? await previous.text() : '') + captured);
+            }
+        } catch (e: any) {
+            err(`${words[0]}: ${e.message}\n`);
+        }
+    }
+
+    private commands: Record<string, (context: CommandContext) => Promise<void> | void> = {
+        help: ({ out }) => out(HELP),
+        pwd: ({ out }) => out(`/${this.cwd}\n`),
+        echo: ({ args, out }) => out(`${args.join(' ')}\n`),
+        clear: () => this.print('\u001b[2J\u001b[3J\u001b[H'),
+        history: ({ out }) => out(this.history.map((line, i) => `${String(i + 1).padStart(4)}  ${line}\n`).join('')),
+        exit: () => this.exit(),
+        cd: async ({ args }) => {
+            const path = this.resolve(args[0] ?? '/');
+            if (await this.kindOf(path) !== 'directory') throw new Error(`${args[0]}: no such folder`);
+            this.cwd = path;
+        },
+        ls: async ({ args, out, err }) => {
+            const long = args.includes('-l');
+            const paths = args.filter(a => !a.startsWith('-'));
+            const entries = await listWorkspace();
+            const format = (entry: WorkspaceEntry) => {
+                const name = entry.kind === 'directory' ? `\u001b[34m${baseName(entry.path)}/\u001b[0m` : baseName(entry.path);
+                return long ? `${entry.kind === 'directory' ? 'd' : '-'} ${String(entry.size).padStart(9)} ${entry.modified.slice(0, 16).replace('T', ' ')}  ${name}` : name;
+            };
+            for (const arg of paths.length > 0 ? paths : ['.']) {
+                const path = this.resolve(arg);
+                const entry = entries.find(e => e.path === path);
+                if (path !== '' && !entry) {
+                    err(`ls: ${arg}: no such file or folder\n`);
+                } else if (entry?.kind === 'file') {
+                    out(`${format(entry)}\n`);
+                } else {
+                    if (paths.length > 1) out(`${arg}:\n`);
+                    const listed = this.children(entries, path).map(format);
+                    if (listed.length > 0) out(`${listed.join(long ? '\n' : '  ')}\n`);
+                }
+            }
+        },
+        cat: async ({ args, out, err }) => {
+            for (const arg of args) {
+                const blob = await readWorkspaceFile(this.resolve(arg));
+                if (!blob) err(`cat: ${arg}: no such file\n`);
+                else out(await blob.text());
+            }
+        },
+        mkdir: async ({ args }) => {
+            for (const arg of args.filter(a => a !== '-p')) await createWorkspaceFolder(this.resolve(arg));
+        },
+        touch: async ({ args }) => {
+            for (const arg of args) {
+                const path = this.resolve(arg);
+                if (!await readWorkspaceFile(path)) await writeWorkspaceFile(path, '');
+            }
+        },
+        rm: async ({ args, err }) => {
+            const recursive = args.some(a => /^-[rRf]+$/.test(a) && /[rR]/.test(a));
+            for (const arg of args.filter(a => !a.startsWith('-'))) {
+                const path = this.resolve(arg);
+                const kind = await this.kindOf(path);
+                if (!kind || path === '') err(`rm: ${arg}: no such file\n`);
+                else if (kind === 'directory' && !recursive) err(`rm: ${arg}: is a folder (use rm -r)\n`);
+                else await removeWorkspaceEntry(path);
+            }
+        },
+        mv: async ({ args }) => {
+            if (args.length !== 2) throw new Error('usage: mv from to');
+            const from = this.resolve(args[0]);
+            let to = this.resolve(args[1]);
+            if (await this.kindOf(to) === 'directory') to = joinPath(to, baseName(from));
+            await renameWorkspaceEntry(from, to);
+        },
+        cp: async ({ args }) => {
+            if (args.length !== 2) throw new Error('usage: cp from to');
+            const blob = await readWorkspaceFile(this.resolve(args[0]));
+            if (!blob) throw new Error(`${args[0]}: no such file`);
+            let to = this.resolve(args[1]);
+            if (await this.kindOf(to) === 'directory') to = joinPath(to, baseName(args[0]));
+            await writeWorkspaceFile(to, blob);
+        },
+    };
+}
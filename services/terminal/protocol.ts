@@ -0,0 +1,32 @@
+// Messages between a Terminal cell and a PTY server (see server/terminalServer.mjs), sent as
+// JSON text frames. The browser opens `<server>/pty?cols=80&rows=24`; each connection gets
+// its own shell on a pseudo-terminal, which ends when either side closes.
+
+// Browser -> server.
+export interface PtyInput {
+    type: 'input';
+    // Keystrokes and pasted text, as the terminal would send them (escape sequences included).
+    data: string;
+}
+
+export interface PtyResize {
+    type: 'resize';
+    cols: number;
+    rows: number;
+}
+
+export type PtyRequest = PtyInput | PtyResize;
+
+// Server -> browser.
+export interface PtyOutput {
+    type: 'output';
+    data: string;
+}
+
+export interface PtyExit {
+    type: 'exit';
+    // The shell's exit code; null when it was killed by a signal.
+    code: number | null;
+}
+
+export type PtyMessage = PtyOutput | PtyExit;
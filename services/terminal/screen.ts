@@ -0,0 +1,374 @@
+import { AnsiStyle, applySgr } from '../ansi';
+
+// A VT100/xterm screen model: the visible grid, the cursor and the lines scrolled off the top.
+// Output from the shell goes through write(); the Terminal cell renders `scrollback` followed
+// by `lines`. Covers what shells, less, top and vim use: cursor movement, erasing, scroll
+// regions, insert/delete, SGR colours, the alternate screen and a few modes. Every character
+// is one column wide.
+
+export interface Glyph {
+    char: string;
+    style: AnsiStyle;
+}
+
+export type TerminalLine = Glyph[];
+
+const NO_STYLE: AnsiStyle = {};
+
+export const DEFAULT_SCROLLBACK = 2000;
+
+interface Cursor {
+    x: number;
+    y: number;
+}
+
+type ParserState = 'normal' | 'escape' | 'csi' | 'osc' | 'charset';
+
+export class TerminalScreen {
+    lines: TerminalLine[] = [];
+    scrollback: TerminalLine[] = [];
+    cursor: Cursor = { x: 0, y: 0 };
+    cursorVisible = true;
+    // DECCKM: arrow keys send ESC O A instead of ESC [ A.
+    applicationCursorKeys = false;
+    // Pasted text is wrapped in ESC [ 200~ ... ESC [ 201~.
+    bracketedPaste = false;
+    title = '';
+    // Replies to queries such as the cursor position report go back to the shell through this.
+    onResponse: (data: string) => void = () => {};
+
+    private style: AnsiStyle = NO_STYLE;
+    private saved: { cursor: Cursor; style: AnsiStyle } = { cursor: { x: 0, y: 0 }, style: NO_STYLE };
+    private scrollTop = 0;
+    private scrollBottom = 0;
+    // After writing the last column the cursor stays put; the next character wraps.
+    private wrapPending = false;
+    private alternate: { lines: TerminalLine[]; cursor: Cursor } | null = null;
+    private state: ParserState = 'normal';
+    private sequence = '';
+    // Lines changed by the current write; they are copied at the end so renderers can compare by reference.
+    private dirty = new Set<number>();
+    private listeners = new Set<() => void>();
+
+    constructor(public cols = 80, public rows = 24, private scrollbackLimit = DEFAULT_SCROLLBACK) {
+        this.reset();
+    }
+
+    subscribe(listener: () => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    reset() {
+        this.lines = Array.from({ length: this.rows }, () => this.blankLine());
+        this.scrollback = [];
+        this.cursor = { x: 0, y: 0 };
+        this.cursorVisible = true;
+        this.applicationCursorKeys = false;
+        this.bracketedPaste = false;
+        this.style = NO_STYLE;
+        this.scrollTop = 0;
+        this.scrollBottom = this.rows - 1;
+        this.wrapPending = false;
+        this.alternate = null;
+        this.state = 'normal';
+        this.notify();
+    }
+
+    get alternateScreen() {
+        return this.alternate !== null;
+    }
+
+    write(data: string) {
+        for (const ch of data) this.consume(ch);
+        this.dirty.forEach(y => { if (this.lines[y]) this.lines[y] = this.lines[y].slice(); });
+        this.dirty.clear();
+        this.notify();
+    }
+
+    // Keeps the cursor's line on screen: shrinking pushes lines into the scrollback. Lines are
+    // cut or padded rather than reflowed.
+    resize(cols: number, rows: number) {
+        cols = Math.max(2, Math.floor(cols));
+        rows = Math.max(2, Math.floor(rows));
+        if (cols === this.cols && rows === this.rows) return;
+        const fit = (line: TerminalLine) => line.length >= cols ? line.slice(0, cols) : [...line, ...this.blankLine(cols - line.length)];
+        this.cols = cols;
+        this.lines = this.lines.map(fit);
+        while (this.lines.length > rows) {
+            if (this.cursor.y >= rows) {
+                const top = this.lines.shift()!;
+                if (!this.alternate) this.pushScrollback(top);
+                this.cursor.y--;
+            } else {
+                this.lines.pop();
+            }
+        }
+        while (this.lines.length < rows) this.lines.push(this.blankLine());
+        if (this.alternate) {
+            this.alternate.lines = this.alternate.lines.map(fit).slice(-rows);
+            while (this.alternate.lines.length < rows) this.alternate.lines.push(this.blankLine());
+        }
+        this.rows = rows;
+        this.scrollTop = 0;
+        this.scrollBottom = rows - 1;
+        this.cursor = { x: Math.min(this.cursor.x, cols - 1), y: Math.min(this.cursor.y, rows - 1) };
+        this.wrapPending = false;
+        this.notify();
+    }
+
+    // Plain text of the whole buffer, trailing spaces removed.
+    text() {
+        return [...this.scrollback, ...this.lines].map(line => line.map(g => g.char).join('').trimEnd()).join('\n').replace(/\n+$/, '');
+    }
+
+    clearScrollback() {
+        this.scrollback = [];
+        this.notify();
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    private blankLine(length = this.cols): TerminalLine {
+        // Erased cells keep the current background colour, like xterm.
+        const style = this.style.background ? { background: this.style.background } : NO_STYLE;
+        return Array.from({ length }, () => ({ char: ' ', style }));
+    }
+
+    private pushScrollback(line: TerminalLine) {
+        this.scrollback.push(line);
+        if (this.scrollback.length > this.scrollbackLimit) this.scrollback.splice(0, this.scrollback.length - this.scrollbackLimit);
+    }
+
+    private markDirty(y: number) {
+        this.dirty.add(y);
+    }
+
+    // --- Parser ---
+
+    private consume(ch: string) {
+        switch (this.state) {
+            case 'escape': return this.escape(ch);
+            case 'charset': this.state = 'normal'; return;
+            case 'csi':
+                if (ch >= '@' && ch <= '~' && ch !== '[') {
+                    this.state = 'normal';
+                    this.csi(this.sequence, ch);
+                } else if (this.sequence.length < 64) {
+                    this.sequence += ch;
+                } else {
+                    this.state = 'normal';
+                }
+                return;
+            case 'osc':
+                if (ch === '\u0007' || (ch === '\\' && this.sequence.endsWith('\u001b'))) {
+                    this.state = 'normal';
+                    this.osc(this.sequence.replace(/\u001b$/, ''));
+                } else {
+                    this.sequence += ch;
+                }
+                return;
+        }
+        const code = ch.charCodeAt(0);
+        if (ch === '\u001b') {
+            this.state = 'escape';
+        } else if (ch === '\r') {
+            this.cursor.x = 0;
+            this.wrapPending = false;
+        } else if (ch === '\n' || ch === '\u000b' || ch === '\u000c') {
+            this.lineFeed();
+        } else if (ch === '\b') {
+            this.cursor.x = Math.max(0, this.cursor.x - 1);
+            this.wrapPending = false;
+        } else if (ch === '\t') {
+            this.cursor.x = Math.min(this.cols - 1, (Math.floor(this.cursor.x / 8) + 1) * 8);
+        } else if (code >= 0x20 && code !== 0x7f) {
+            this.print(ch);
+        }
+    }
+
+    private escape(ch: string) {
+        this.state = 'normal';
+        switch (ch) {
+            case '[': this.state = 'csi'; this.sequence = ''; break;
+            case ']': this.state = 'osc'; this.sequence = ''; break;
+            case '(': case ')': case '*': case '+': this.state = 'charset'; break;
+            case '7': this.saveCursor(); break;
+            case '8': this.restoreCursor(); break;
+            case 'D': this.lineFeed(); break;
+            case 'E': this.cursor.x = 0; this.lineFeed(); break;
+            case 'M': this.reverseIndex(); break;
+            case 'c': this.reset(); break;
+        }
+    }
+
+    private osc(body: string) {
+        const separator = body.indexOf(';');
+        const command = body.slice(0, separator);
+        if (command === '0' || command === '2') this.title = body.slice(separator + 1);
+    }
+
+    private csi(body: string, final: string) {
+        const prefix = /^[?>=]/.test(body) ? body[0] : '';
+        const params = body.slice(prefix.length).split(';').map(p => parseInt(p, 10));
+        const n = (i = 0, fallback = 1) => Number.isNaN(params[i]) || params[i] === undefined || params[i] === 0 ? fallback : params[i];
+        const { cursor } = this;
+        this.wrapPending = false;
+        switch (final) {
+            case 'A': cursor.y = Math.max(cursor.y < this.scrollTop ? 0 : this.scrollTop, cursor.y - n()); break;
+            case 'B': cursor.y = Math.min(cursor.y > this.scrollBottom ? this.rows - 1 : this.scrollBottom, cursor.y + n()); break;
+            case 'C': cursor.x = Math.min(this.cols - 1, cursor.x + n()); break;
+            case 'D': cursor.x = Math.max(0, cursor.x - n()); break;
+            case 'E': cursor.x = 0; cursor.y = Math.min(this.rows - 1, cursor.y + n()); break;
+            case 'F': cursor.x = 0; cursor.y = Math.max(0, cursor.y - n()); break;
+            case 'G': case '`': cursor.x = Math.min(this.cols - 1, n() - 1); break;
+            case 'd': cursor.y = Math.min(this.rows - 1, n() - 1); break;
+            case 'H': case 'f':
+                cursor.y = Math.min(this.rows - 1, n(0) - 1);
+                cursor.x = Math.min(this.cols - 1, n(1) - 1);
+                break;
+            case 'J': this.eraseDisplay(n(0, 0)); break;
+            case 'K': this.eraseLine(n(0, 0)); break;
+            case 'L': if (cursor.y >= this.scrollTop && cursor.y <= this.scrollBottom) this.scrollDown(n(), cursor.y); break;
+            case 'M': if (cursor.y >= this.scrollTop && cursor.y <= this.scrollBottom) this.scrollUp(n(), cursor.y); break;
+            case 'P': this.editLine(line => line.splice(cursor.x, n()), true); break;
+            case '@': this.editLine(line => line.splice(cursor.x, 0, ...this.blankLine(n())), true); break;
+            case 'X': this.editLine(line => line.splice(cursor.x, n(), ...this.blankLine(Math.min(n(), this.cols - cursor.x))), false); break;
+            case 'S': this.scrollUp(n()); break;
+            case 'T': this.scrollDown(n()); break;
+            case 'm': if (!prefix) this.style = applySgr(this.style, params.map(p => Number.isNaN(p) ? 0 : p)); break;
+            case 'r':
+                this.scrollTop = Math.min(this.rows - 1, n(0) - 1);
+                this.scrollBottom = Math.min(this.rows - 1, n(1, this.rows) - 1);
+                if (this.scrollBottom <= this.scrollTop) { this.scrollTop = 0; this.scrollBottom = this.rows - 1; }
+                cursor.x = 0;
+                cursor.y = 0;
+                break;
+            case 's': this.saveCursor(); break;
+            case 'u': this.restoreCursor(); break;
+            case 'h': case 'l': if (prefix === '?') params.forEach(mode => this.setMode(mode, final === 'h')); break;
+            case 'n':
+                if (params[0] === 6) this.onResponse(`\u001b[${cursor.y + 1};${cursor.x + 1}R`);
+                else if (params[0] === 5) this.onResponse('\u001b[0n');
+                break;
+            case 'c': if (!prefix) this.onResponse('\u001b[?1;2c'); break;
+        }
+    }
+
+    private setMode(mode: number, on: boolean) {
+        switch (mode) {
+            case 1: this.applicationCursorKeys = on; break;
+            case 25: this.cursorVisible = on; break;
+            case 2004: this.bracketedPaste = on; break;
+            case 47: case 1047: case 1049:
+                if (on && !this.alternate) {
+                    if (mode === 1049) this.saveCursor();
+                    this.alternate = { lines: this.lines, cursor: { ...this.cursor } };
+                    this.lines = Array.from({ length: this.rows }, () => this.blankLine());
+                } else if (!on && this.alternate) {
+                    this.lines = this.alternate.lines;
+                    this.cursor = this.alternate.cursor;
+                    this.alternate = null;
+                    if (mode === 1049) this.restoreCursor();
+                }
+                this.scrollTop = 0;
+                this.scrollBottom = this.rows - 1;
+                break;
+        }
+    }
+
+    // --- Screen operations ---
+
+    private print(ch: string) {
+        if (this.wrapPending) {
+            this.cursor.x = 0;
+            this.lineFeed();
+        }
+        const { x, y } = this.cursor;
+        this.lines[y][x] = { char: ch, style: this.style };
+        this.markDirty(y);
+        if (x === this.cols - 1) this.wrapPending = true;
+        else this.cursor.x++;
+    }
+
+    private lineFeed() {
+        this.wrapPending = false;
+        if (this.cursor.y === this.scrollBottom) this.scrollUp(1);
+        else if (this.cursor.y < this.rows - 1) this.cursor.y++;
+    }
+
+    private reverseIndex() {
+        this.wrapPending = false;
+        if (this.cursor.y === this.scrollTop) this.scrollDown(1);
+        else if (this.cursor.y > 0) this.cursor.y--;
+    }
+
+    // Moves lines from `top` to the bottom of the scroll region up; lines leaving the top of the
+    // main screen go to the scrollback.
+    private scrollUp(count: number, top = this.scrollTop) {
+        const bottom = this.scrollBottom;
+        count = Math.min(count, bottom - top + 1);
+        const removed = this.lines.splice(top, count);
+        if (top === 0 && !this.alternate) removed.forEach(line => this.pushScrollback(line));
+        this.lines.splice(bottom - count + 1, 0, ...Array.from({ length: count }, () => this.blankLine()));
+        for (let y = top; y <= bottom; y++) this.markDirty(y);
+    }
+
+    private scrollDown(count: number, top = this.scrollTop) {
+        const bottom = this.scrollBottom;
+        count = Math.min(count, bottom - top + 1);
+        this.lines.splice(bottom - count + 1, count);
+        this.lines.splice(top, 0, ...Array.from({ length: count }, () => this.blankLine()));
+        for (let y = top; y <= bottom; y++) this.markDirty(y);
+    }
+
+    private eraseDisplay(mode: number) {
+        const { y } = this.cursor;
+        if (mode === 0) {
+            this.eraseLine(0);
+            for (let row = y + 1; row < this.rows; row++) this.clearRow(row);
+        } else if (mode === 1) {
+            this.eraseLine(1);
+            for (let row = 0; row < y; row++) this.clearRow(row);
+        } else {
+            for (let row = 0; row < this.rows; row++) this.clearRow(row);
+            if (mode === 3) this.scrollback = [];
+        }
+    }
+
+    private eraseLine(mode: number) {
+        const { x, y } = this.cursor;
+        const line = this.lines[y];
+        const [from, to] = mode === 0 ? [x, this.cols] : mode === 1 ? [0, x + 1] : [0, this.cols];
+        const blank = this.blankLine(to - from);
+        line.splice(from, to - from, ...blank);
+        this.markDirty(y);
+    }
+
+    private clearRow(row: number) {
+        this.lines[row] = this.blankLine();
+        this.markDirty(row);
+    }
+
+    // Edits the cursor's line in place, then pads or cuts it back to the screen width.
+    private editLine(edit: (line: TerminalLine) => void, pad: boolean) {
+        const y = this.cursor.y;
+        const line = this.lines[y];
+        edit(line);
+        if (pad && line.length < this.cols) line.push(...this.blankLine(this.cols - line.length));
+        line.length = this.cols;
+        this.markDirty(y);
+    }
+
+    private saveCursor() {
+        this.saved = { cursor: { ...this.cursor }, style: this.style };
+    }
+
+    private restoreCursor() {
+        this.cursor = { x: Math.min(this.saved.cursor.x, this.cols - 1), y: Math.min(this.saved.cursor.y, this.rows - 1) };
+        this.style = this.saved.style;
+        this.wrapPending = false;
+    }
+}
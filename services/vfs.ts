@@ -0,0 +1,258 @@
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+
+// --- Workspace file system ---
+// Files and folders shared by every notebook in this browser: the Files panel, FileBrowser
+// cells and kernel code (through fs_request messages) all see the same tree. Paths are
+// relative to the workspace root and use forward slashes: `data/sales.csv`.
+
+export interface WorkspaceEntry {
+    path: string;
+    kind: 'file' | 'directory';
+    // Bytes, 0 for folders.
+    size: number;
+    // MIME type, empty for folders.
+    type: string;
+    modified: string;
+}
+
+// Anything that can store the workspace. Paths given to a backend are already normalized.
+// The IndexedDB store below can be swapped for another (e.g. a server) via setWorkspaceFileSystem().
+export interface WorkspaceFileSystem {
+    list(): Promise<WorkspaceEntry[]>;
+    read(path: string): Promise<Blob | undefined>;
+    // Creates missing parent folders; replaces an existing file.
+    write(path: string, data: Blob): Promise<void>;
+    mkdir(path: string): Promise<void>;
+    // Moves a folder together with everything in it.
+    rename(from: string, to: string): Promise<void>;
+    // Removes a folder together with everything in it.
+    remove(path: string): Promise<void>;
+}
+
+// --- Paths ---
+
+export const normalizePath = (path: string) => {
+    const parts: string[] = [];
+    path.replace(/\\/g, '/').split('/').forEach(part => {
+        if (!part || part === '.') return;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    });
+    return parts.join('/');
+};
+
+export const joinPath = (...parts: string[]) => normalizePath(parts.join('/'));
+
+export const parentPath = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+export const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Lower-case extension without the dot; '' for none (or dotfiles like `.env`).
+export const fileExtension = (path: string) => {
+    const name = baseName(path);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// True for the path itself and everything under it.
+export const isWithinPath = (path: string, folder: string) => folder === '' || path === folder || path.startsWith(`${folder}/`);
+
+const ancestors = (path: string) => {
+    const parts = path.split('/');
+    return parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join('/'));
+};
+
+const MIME_TYPES: Record<string, string> = {
+    csv: 'text/csv',
+    tsv: 'text/tab-separated-values',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    json: 'application/json',
+    ipynb: 'application/x-ipynb+json',
+    js: 'text/javascript',
+    py: 'text/x-python',
+    sql: 'application/sql',
+    html: 'text/html',
+    svg: 'image/svg+xml',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+};
+
+export const mimeTypeFor = (path: string, fallback = '') => MIME_TYPES[fileExtension(path)] || fallback || 'application/octet-stream';
+
+export const isTextType = (type: string) => type.startsWith('text/') || /json|javascript|sql|svg|xml/.test(type);
+
+// --- IndexedDB backend ---
+
+interface StoredEntry extends WorkspaceEntry {
+    data?: Blob;
+}
+
+const toEntry = ({ data, ...entry }: StoredEntry): WorkspaceEntry => entry;
+
+const directoryEntry = (path: string): StoredEntry => ({ path, kind: 'directory', size: 0, type: '', modified: new Date().toISOString() });
+
+// Runs `fn` in one readwrite transaction on the files store, so multi-entry changes
+// (moving a folder, creating parents) either all happen or none do.
+const inFilesTransaction = async <T>(fn: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction('files', 'readwrite');
+    const done = transactionDone(transaction);
+    try {
+        const result = await fn(transaction.objectStore('files'));
+        await done;
+        return result;
+    } catch (e) {
+        try { transaction.abort(); } catch { /* already finished */ }
+        done.catch(() => undefined);
+        throw e;
+    }
+};
+
+const createParents = async (store: IDBObjectStore, path: string) => {
+    for (const folder of ancestors(path)) {
+        const existing: StoredEntry | undefined = await requestToPromise(store.get(folder));
+        if (existing?.kind === 'file') throw new Error(`${folder} is a file, not a folder`);
+        if (!existing) await requestToPromise(store.put(directoryEntry(folder)));
+    }
+};
+
+export class IndexedDBWorkspaceFileSystem implements WorkspaceFileSystem {
+    async list() {
+        const db = await openDatabase();
+        const all: StoredEntry[] = await requestToPromise(db.transaction('files', 'readonly').objectStore('files').getAll());
+        return all.map(toEntry).sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    async read(path: string) {
+        const db = await openDatabase();
+        const entry: StoredEntry | undefined = await requestToPromise(db.transaction('files', 'readonly').objectStore('files').get(path));
+        return entry?.kind === 'file' ? entry.data : undefined;
+    }
+
+    write(path: string, data: Blob) {
+        return inFilesTransaction(async store => {
+            const existing: StoredEntry | undefined = await requestToPromise(store.get(path));
+            if (existing?.kind === 'directory') throw new Error(`${path} is a folder`);
+            await createParents(store, path);
+            const type = mimeTypeFor(path, data.type);
+            await requestToPromise(store.put({ path, kind: 'file', size: data.size, type, modified: new Date().toISOString(), data: data.type === type ? data : new Blob([data], { type }) }));
+        });
+    }
+
+    mkdir(path: string) {
+        return inFilesTransaction(async store => {
+            const existing: StoredEntry | undefined = await requestToPromise(store.get(path));
+            if (existing?.kind === 'file') throw new Error(`${path} already exists as a file`);
+            await createParents(store, path);
+            if (!existing) await requestToPromise(store.put(directoryEntry(path)));
+        });
+    }
+
+    rename(from: string, to: string) {
+        return inFilesTransaction(async store => {
+            if (isWithinPath(to, from)) throw new Error(`Can't move ${from} into itself`);
+            if (await requestToPromise(store.count(to))) throw new Error(`${to} already exists`);
+            const all: StoredEntry[] = await requestToPromise(store.getAll());
+            const moving = all.filter(entry => isWithinPath(entry.path, from));
+            if (moving.length === 0) throw new Error(`${from} does not exist`);
+            await createParents(store, to);
+            for (const entry of moving) {
+                await requestToPromise(store.delete(entry.path));
+                const path = to + entry.path.slice(from.length);
+                await requestToPromise(store.put({ ...entry, path, type: entry.kind === 'file' ? mimeTypeFor(path, entry.type) : '' }));
+            }
+        });
+    }
+
+    remove(path: string) {
+        return inFilesTransaction(async store => {
+            const all: StoredEntry[] = await requestToPromise(store.getAll());
+            for (const entry of all.filter(e => isWithinPath(e.path, path))) await requestToPromise(store.delete(entry.path));
+        });
+    }
+}
+
+// --- Workspace API ---
+// Everything goes through these functions, which normalize paths and tell subscribers
+// (the Files panel, FileBrowser cells) that the tree changed.
+
+let activeFileSystem: WorkspaceFileSystem = new IndexedDBWorkspaceFileSystem();
+const listeners = new Set<() => void>();
+let version = 0;
+
+const notify = () => {
+    version++;
+    listeners.forEach(listener => listener());
+};
+
+export const getWorkspaceFileSystem = () => activeFileSystem;
+
+export const setWorkspaceFileSystem = (fileSystem: WorkspaceFileSystem) => {
+    activeFileSystem = fileSystem;
+    notify();
+};
+
+export const subscribeWorkspace = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getWorkspaceVersion = () => version;
+
+const validPath = (path: string) => {
+    const normalized = normalizePath(path);
+    if (!normalized) throw new Error('A file name is required');
+    return normalized;
+};
+
+export const listWorkspace = () => activeFileSystem.list();
+
+export const readWorkspaceFile = (path: string) => activeFileSystem.read(normalizePath(path));
+
+export const writeWorkspaceFile = async (path: string, data: Blob | string) => {
+    await activeFileSystem.write(validPath(path), typeof data === 'string' ? new Blob([data], { type: mimeTypeFor(path, 'text/plain') }) : data);
+    notify();
+};
+
+export const createWorkspaceFolder = async (path: string) => {
+    await activeFileSystem.mkdir(validPath(path));
+    notify();
+};
+
+export const renameWorkspaceEntry = async (from: string, to: string) => {
+    const source = validPath(from);
+    const target = validPath(to);
+    if (source === target) return;
+    await activeFileSystem.rename(source, target);
+    notify();
+};
+
+export const removeWorkspaceEntry = async (path: string) => {
+    await activeFileSystem.remove(validPath(path));
+    notify();
+};
+
+// Uploads keep their names; a name that is taken gets a number, like `data (2).csv`.
+export const uniquePath = (path: string, taken: Set<string>) => {
+    if (!taken.has(path)) return path;
+    const extension = fileExtension(path);
+    const stem = extension ? path.slice(0, -(extension.length + 1)) : path;
+    for (let n = 2; ; n++) {
+        const candidate = `${stem} (${n})${extension ? `.${extension}` : ''}`;
+        if (!taken.has(candidate)) return candidate;
+    }
+};
+
+// --- Base64, for file contents in kernel messages ---
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), ch => ch.charCodeAt(0));